@@ -77,6 +77,33 @@ export async function waitEventForAction(
   });
 }
 
+// resolve with the first element matching selector, once it is added to the document
+export async function waitElement(
+  selector: string,
+  timeout: number = 1000,
+): Promise<Element> {
+  return new Promise((resolve, reject) => {
+    const found = document.querySelector(selector);
+    if (found) {
+      resolve(found);
+      return;
+    }
+    const observer = new MutationObserver(() => {
+      const element = document.querySelector(selector);
+      if (element) {
+        observer.disconnect();
+        clearTimeout(timer);
+        resolve(element);
+      }
+    });
+    const timer = setTimeout(() => {
+      observer.disconnect();
+      reject("Timeout");
+    }, timeout);
+    observer.observe(document.body, { childList: true, subtree: true });
+  });
+}
+
 export class MockAudioBuffer {
   numberOfChannels: number;
   length: number;
@@ -142,9 +169,30 @@ class MockBiquadFilterNode extends MockAudioNode {
   }
 }
 
+class MockStereoPannerNode extends MockAudioNode {
+  pan: MockAudioParam;
+
+  constructor() {
+    super();
+    this.pan = { value: 0 };
+  }
+}
+
+class MockChannelSplitterNode extends MockAudioNode {
+  numberOfOutputs: number;
+
+  constructor(numberOfOutputs: number) {
+    super();
+    this.numberOfOutputs = numberOfOutputs;
+  }
+}
+
 class MockAudioBufferSourceNode extends MockAudioNode {
   buffer: MockAudioBuffer;
   playbackRate: MockAudioParam;
+  loop = false;
+  loopStart = 0;
+  loopEnd = 0;
 
   constructor() {
     super();
@@ -188,6 +236,14 @@ class MockAudioContext extends MockAudioNode {
   createBiquadFilter() {
     return new MockBiquadFilterNode();
   }
+
+  createStereoPanner() {
+    return new MockStereoPannerNode();
+  }
+
+  createChannelSplitter(numberOfOutputs: number) {
+    return new MockChannelSplitterNode(numberOfOutputs);
+  }
 }
 
 export function createAudioContext(sampleRate: number) {
@@ -221,13 +277,23 @@ export const mockWebAudioApi = () => {
           frequency: { value: 440 },
         };
       }),
+      createStereoPanner: jest.fn().mockImplementation(() => {
+        return {
+          connect: jest.fn(),
+          pan: { value: 0 },
+        };
+      }),
+      createChannelSplitter: jest.fn().mockImplementation(() => {
+        return {
+          connect: jest.fn(),
+        };
+      }),
       destination: null,
       currentTime: 0,
     };
   });
 };
 
-
 export async function wait(ms: number) {
   return new Promise<void>((resolve) => {
     setTimeout(() => {
@@ -251,4 +317,4 @@ export function getRandomFloatOutOf(min: number, max: number) {
   } else {
     return getRandomFloat(max + Number.EPSILON, Number.MAX_SAFE_INTEGER);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,99 @@
+import { Segment } from "../segment";
+import { parseAudacityLabels, writeAudacityLabels } from "./audacity";
+import { parseRttm, writeRttm } from "./rttm";
+import { parseSrt, parseVtt, writeSrt, writeVtt } from "./subtitle";
+import { parseTextGrid, writeTextGrid } from "./textGrid";
+
+export enum AnnotationFormat {
+  TextGrid = "textgrid",
+  Audacity = "audacity",
+  Rttm = "rttm",
+  Srt = "srt",
+  Vtt = "vtt",
+}
+
+export interface AnnotationWriteOptions {
+  // duration of the audio in seconds, used by TextGrid
+  duration: number;
+  // name of the audio file without extension, used by RTTM
+  fileId: string;
+}
+
+// file extensions for each format. Audacity exports labels as .txt
+export const annotationFileExtensions: { [format: string]: string[] } = {
+  [AnnotationFormat.TextGrid]: ["TextGrid", "textgrid"],
+  [AnnotationFormat.Audacity]: ["txt"],
+  [AnnotationFormat.Rttm]: ["rttm"],
+  [AnnotationFormat.Srt]: ["srt"],
+  [AnnotationFormat.Vtt]: ["vtt"],
+};
+
+export const annotationFormatNames: { [format: string]: string } = {
+  [AnnotationFormat.TextGrid]: "Praat TextGrid",
+  [AnnotationFormat.Audacity]: "Audacity Labels",
+  [AnnotationFormat.Rttm]: "RTTM",
+  [AnnotationFormat.Srt]: "SubRip Subtitles",
+  [AnnotationFormat.Vtt]: "WebVTT",
+};
+
+export function getAnnotationFormat(filename: string): AnnotationFormat {
+  const ext = filename.split(".").pop().toLowerCase();
+  for (const format of Object.values(AnnotationFormat)) {
+    if (annotationFileExtensions[format].some((e) => e.toLowerCase() === ext)) {
+      return format;
+    }
+  }
+  return undefined;
+}
+
+export function parseAnnotations(
+  format: AnnotationFormat,
+  text: string,
+): Segment[] {
+  switch (format) {
+    case AnnotationFormat.TextGrid:
+      return parseTextGrid(text);
+    case AnnotationFormat.Audacity:
+      return parseAudacityLabels(text);
+    case AnnotationFormat.Rttm:
+      return parseRttm(text);
+    case AnnotationFormat.Srt:
+      return parseSrt(text);
+    case AnnotationFormat.Vtt:
+      return parseVtt(text);
+    default:
+      throw new Error(`Unsupported annotation format: ${format}`);
+  }
+}
+
+export function writeAnnotations(
+  format: AnnotationFormat,
+  segments: Segment[],
+  options: AnnotationWriteOptions,
+): string {
+  switch (format) {
+    case AnnotationFormat.TextGrid:
+      return writeTextGrid(segments, options.duration);
+    case AnnotationFormat.Audacity:
+      return writeAudacityLabels(segments);
+    case AnnotationFormat.Rttm:
+      return writeRttm(segments, options.fileId);
+    case AnnotationFormat.Srt:
+      return writeSrt(segments);
+    case AnnotationFormat.Vtt:
+      return writeVtt(segments);
+    default:
+      throw new Error(`Unsupported annotation format: ${format}`);
+  }
+}
+
+// Praat may save TextGrids as UTF-16, so check the byte order mark
+export function decodeAnnotationFile(data: Uint8Array): string {
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(data);
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(data);
+  }
+  return new TextDecoder("utf-8").decode(data);
+}
@@ -0,0 +1,25 @@
+import { parseAudacityLabels, writeAudacityLabels } from "./audacity";
+
+describe("audacity", () => {
+  test("parse labels and skip frequency lines", () => {
+    const text =
+      "1.000000\t2.500000\thello world\n\\\t100.0\t2000.0\n3.0\t4.0\t\n";
+    expect(parseAudacityLabels(text)).toEqual([
+      { start: 1, end: 2.5, label: "hello world" },
+      { start: 3, end: 4, label: "" },
+    ]);
+  });
+
+  test("point labels are skipped", () => {
+    expect(parseAudacityLabels("1.0\t1.0\tpoint\n")).toEqual([]);
+  });
+
+  test("write and round-trip", () => {
+    const segments = [{ start: 0.25, end: 1.5, label: "a\nb" }];
+    const text = writeAudacityLabels(segments);
+    expect(text).toBe("0.250000\t1.500000\ta b\n");
+    expect(parseAudacityLabels(text)).toEqual([
+      { start: 0.25, end: 1.5, label: "a b" },
+    ]);
+  });
+});
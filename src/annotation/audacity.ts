@@ -0,0 +1,31 @@
+import { Segment, sanitizeSegments } from "../segment";
+
+/*
+Audacity label track (File > Export > Export Labels)
+Each line is "start<TAB>end<TAB>label".
+Lines starting with "\" hold the frequency range of the preceding label and are ignored.
+*/
+export function parseAudacityLabels(text: string): Segment[] {
+  const segments: Segment[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("\\")) {
+      continue;
+    }
+    const [start, end, ...label] = line.split("\t");
+    segments.push({
+      start: Number(start),
+      end: Number(end),
+      label: label.join("\t"),
+    });
+  }
+  return sanitizeSegments(segments);
+}
+
+export function writeAudacityLabels(segments: Segment[]): string {
+  return segments
+    .map(
+      (s) =>
+        `${s.start.toFixed(6)}\t${s.end.toFixed(6)}\t${s.label.replace(/\r?\n/g, " ")}\n`,
+    )
+    .join("");
+}
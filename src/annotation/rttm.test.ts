@@ -0,0 +1,27 @@
+import { parseRttm, writeRttm } from "./rttm";
+
+describe("rttm", () => {
+  test("parse speaker lines", () => {
+    const text = [
+      "SPKR-INFO meeting 1 <NA> <NA> <NA> unknown spk1 <NA>",
+      "SPEAKER meeting 1 2.50 1.25 <NA> <NA> spk2 <NA> <NA>",
+      "SPEAKER meeting 1 0.00 1.00 <NA> <NA> spk1 <NA> <NA>",
+      "",
+    ].join("\n");
+    expect(parseRttm(text)).toEqual([
+      { start: 0, end: 1, label: "spk1" },
+      { start: 2.5, end: 3.75, label: "spk2" },
+    ]);
+  });
+
+  test("write and round-trip", () => {
+    const segments = [{ start: 1, end: 2.5, label: "speaker A" }];
+    const text = writeRttm(segments, "my file");
+    expect(text).toBe(
+      "SPEAKER my_file 1 1.000 1.500 <NA> <NA> speaker_A <NA> <NA>\n",
+    );
+    expect(parseRttm(text)).toEqual([
+      { start: 1, end: 2.5, label: "speaker_A" },
+    ]);
+  });
+});
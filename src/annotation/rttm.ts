@@ -0,0 +1,33 @@
+import { Segment, sanitizeSegments } from "../segment";
+
+/*
+Rich Transcription Time Marked (RTTM), as used by diarization tools
+Only SPEAKER lines are read. The speaker name becomes the segment label.
+SPEAKER <file> <channel> <start> <duration> <NA> <NA> <speaker> <NA> <NA>
+*/
+export function parseRttm(text: string): Segment[] {
+  const segments: Segment[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] !== "SPEAKER" || fields.length < 8) {
+      continue;
+    }
+    const start = Number(fields[3]);
+    const duration = Number(fields[4]);
+    segments.push({ start, end: start + duration, label: fields[7] });
+  }
+  return sanitizeSegments(segments);
+}
+
+export function writeRttm(segments: Segment[], fileId: string): string {
+  // fields must not contain whitespace
+  const id = fileId.replace(/\s+/g, "_") || "audio";
+  return segments
+    .map((s) => {
+      const speaker = s.label.trim().replace(/\s+/g, "_") || "<NA>";
+      const start = s.start.toFixed(3);
+      const duration = (s.end - s.start).toFixed(3);
+      return `SPEAKER ${id} 1 ${start} ${duration} <NA> <NA> ${speaker} <NA> <NA>\n`;
+    })
+    .join("");
+}
@@ -0,0 +1,48 @@
+import { parseSrt, parseVtt, writeSrt, writeVtt } from "./subtitle";
+
+describe("subtitle", () => {
+  test("parse srt", () => {
+    const text =
+      "1\r\n00:00:01,000 --> 00:00:02,500\r\nhello\r\nworld\r\n\r\n2\r\n01:00:00,000 --> 01:00:01,000\r\nbye\r\n";
+    expect(parseSrt(text)).toEqual([
+      { start: 1, end: 2.5, label: "hello\nworld" },
+      { start: 3600, end: 3601, label: "bye" },
+    ]);
+  });
+
+  test("parse vtt with header, notes and cue settings", () => {
+    const text = [
+      "WEBVTT - sample",
+      "",
+      "NOTE this is a comment",
+      "",
+      "intro",
+      "00:01.000 --> 00:02.000 align:start",
+      "hello",
+      "",
+      "00:00:03.500 --> 00:00:04.000",
+      "world",
+      "",
+    ].join("\n");
+    expect(parseVtt(text)).toEqual([
+      { start: 1, end: 2, label: "hello" },
+      { start: 3.5, end: 4, label: "world" },
+    ]);
+  });
+
+  test("write srt and round-trip", () => {
+    const segments = [{ start: 61.5, end: 62.25, label: "a\n\nb" }];
+    const text = writeSrt(segments);
+    expect(text).toBe("1\n00:01:01,500 --> 00:01:02,250\na\nb\n\n");
+    expect(parseSrt(text)).toEqual([
+      { start: 61.5, end: 62.25, label: "a\nb" },
+    ]);
+  });
+
+  test("write vtt and round-trip", () => {
+    const segments = [{ start: 0, end: 1, label: "hello" }];
+    const text = writeVtt(segments);
+    expect(text).toBe("WEBVTT\n\n00:00:00.000 --> 00:00:01.000\nhello\n\n");
+    expect(parseVtt(text)).toEqual(segments);
+  });
+});
@@ -0,0 +1,77 @@
+import { Segment, sanitizeSegments } from "../segment";
+
+const timingPattern =
+  /^\s*((?:\d+:)?\d+:\d+[.,]\d+)\s+-->\s+((?:\d+:)?\d+:\d+[.,]\d+)/;
+
+function parseTimestamp(value: string): number {
+  const [time, fraction] = value.split(/[.,]/);
+  const parts = time.split(":").map(Number);
+  let sec = 0;
+  for (const p of parts) {
+    sec = sec * 60 + p;
+  }
+  return sec + Number(`0.${fraction}`);
+}
+
+function formatTimestamp(sec: number, separator: string): string {
+  const ms = Math.round(sec * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (v: number, n: number) => String(v).padStart(n, "0");
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// Read cues from SRT or WebVTT. Blocks without a timing line (headers, NOTE, STYLE) are skipped.
+function parseCues(text: string): Segment[] {
+  const segments: Segment[] = [];
+  const blocks = text.replace(/^\uFEFF/, "").split(/\r?\n\s*\r?\n/);
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((l) => timingPattern.test(l));
+    if (timingIndex < 0) {
+      continue;
+    }
+    const [, start, end] = lines[timingIndex].match(timingPattern);
+    segments.push({
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      label: lines
+        .slice(timingIndex + 1)
+        .join("\n")
+        .trim(),
+    });
+  }
+  return sanitizeSegments(segments);
+}
+
+export function parseSrt(text: string): Segment[] {
+  return parseCues(text);
+}
+
+export function parseVtt(text: string): Segment[] {
+  return parseCues(text);
+}
+
+export function writeSrt(segments: Segment[]): string {
+  return segments
+    .map((s, i) => {
+      const start = formatTimestamp(s.start, ",");
+      const end = formatTimestamp(s.end, ",");
+      // an empty line would end the cue
+      const label = s.label.trim().replace(/(\r?\n)+/g, "\n");
+      return `${i + 1}\n${start} --> ${end}\n${label}\n\n`;
+    })
+    .join("");
+}
+
+export function writeVtt(segments: Segment[]): string {
+  const cues = segments.map((s) => {
+    const start = formatTimestamp(s.start, ".");
+    const end = formatTimestamp(s.end, ".");
+    // an empty line would end the cue
+    const label = s.label.trim().replace(/(\r?\n)+/g, "\n");
+    return `${start} --> ${end}\n${label}\n\n`;
+  });
+  return "WEBVTT\n\n" + cues.join("");
+}
@@ -0,0 +1,107 @@
+import { parseTextGrid, writeTextGrid } from "./textGrid";
+
+const longFormat = `File type = "ooTextFile"
+Object class = "TextGrid"
+
+xmin = 0 
+xmax = 3 
+tiers? <exists> 
+size = 2 
+item []: 
+    item [1]:
+        class = "TextTier" 
+        name = "points" 
+        xmin = 0 
+        xmax = 3 
+        points: size = 1 
+        points [1]:
+            number = 0.5 
+            mark = "p" 
+    item [2]:
+        class = "IntervalTier" 
+        name = "words" 
+        xmin = 0 
+        xmax = 3 
+        intervals: size = 3 
+        intervals [1]:
+            xmin = 0 
+            xmax = 1.25 
+            text = "say ""hello"" [1]" 
+        intervals [2]:
+            xmin = 1.25 
+            xmax = 2 
+            text = "" 
+        intervals [3]:
+            xmin = 2 
+            xmax = 3 
+            text = "world" 
+`;
+
+const shortFormat = `File type = "ooTextFile"
+Object class = "TextGrid"
+
+0
+3
+<exists>
+1
+"IntervalTier"
+"words"
+0
+3
+2
+0
+1.5
+"a"
+1.5
+3
+"b"
+`;
+
+describe("textGrid", () => {
+  test("parse long format", () => {
+    expect(parseTextGrid(longFormat)).toEqual([
+      { start: 0, end: 1.25, label: 'say "hello" [1]' },
+      { start: 2, end: 3, label: "world" },
+    ]);
+  });
+
+  test("parse short format", () => {
+    expect(parseTextGrid(shortFormat)).toEqual([
+      { start: 0, end: 1.5, label: "a" },
+      { start: 1.5, end: 3, label: "b" },
+    ]);
+  });
+
+  test("parse tier by name", () => {
+    expect(parseTextGrid(longFormat, "points")).toEqual([]);
+    expect(parseTextGrid(longFormat, "words").length).toBe(2);
+  });
+
+  test("parse invalid file", () => {
+    expect(() => parseTextGrid("hello")).toThrow();
+  });
+
+  test("write fills gaps and round-trips", () => {
+    const segments = [
+      { start: 0.5, end: 1, label: 'a "b"' },
+      { start: 2, end: 2.5, label: "c" },
+    ];
+    const text = writeTextGrid(segments, 3);
+    expect(text).toContain("intervals: size = 5");
+    expect(parseTextGrid(text)).toEqual(segments);
+  });
+
+  test("write cuts overlapping segments", () => {
+    const text = writeTextGrid(
+      [
+        { start: 0, end: 2, label: "a" },
+        { start: 1, end: 3, label: "b" },
+      ],
+      3,
+    );
+    expect(parseTextGrid(text)).toEqual([
+      { start: 0, end: 2, label: "a" },
+      { start: 2, end: 3, label: "b" },
+    ]);
+  });
+});
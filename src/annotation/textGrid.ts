@@ -0,0 +1,146 @@
+import { Segment, sanitizeSegments } from "../segment";
+
+type Token = string | number;
+
+/*
+Split a Praat TextGrid into its values.
+Both the long and the short text format produce the same sequence of values,
+because keys such as "xmin =" and indices such as "item [1]:" are skipped.
+*/
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /"((?:[^"]|"")*)"|\[\s*\d*\s*\]|(-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?)|(<exists>|<absent>)/g;
+  let m: RegExpExecArray;
+  while ((m = pattern.exec(text)) !== null) {
+    if (m[1] !== undefined) {
+      tokens.push(m[1].replace(/""/g, '"'));
+    } else if (m[2] !== undefined) {
+      tokens.push(Number(m[2]));
+    } else if (m[3] !== undefined) {
+      tokens.push(m[3]);
+    }
+    // indices such as "[1]" are skipped
+  }
+  return tokens;
+}
+
+/*
+Read intervals of a TextGrid interval tier.
+tierName selects the tier, otherwise the first interval tier with a labeled interval is used.
+Empty intervals are skipped, because Praat fills the whole tier with intervals.
+*/
+export function parseTextGrid(text: string, tierName?: string): Segment[] {
+  const tokens = tokenize(text);
+  let i = 0;
+  const next = () => {
+    if (tokens.length <= i) {
+      throw new Error("Invalid TextGrid: unexpected end of file");
+    }
+    return tokens[i++];
+  };
+
+  if (next() !== "ooTextFile" || next() !== "TextGrid") {
+    throw new Error("Invalid TextGrid: header not found");
+  }
+  next(); // xmin
+  next(); // xmax
+  if (next() !== "<exists>") {
+    return [];
+  }
+  const numTiers = Number(next());
+
+  let fallback: Segment[] = undefined;
+  for (let t = 0; t < numTiers; t++) {
+    const tierClass = next();
+    const name = next();
+    next(); // xmin
+    next(); // xmax
+    const size = Number(next());
+
+    const segments: Segment[] = [];
+    for (let j = 0; j < size; j++) {
+      if (tierClass === "IntervalTier") {
+        const start = Number(next());
+        const end = Number(next());
+        const label = String(next());
+        if (label.trim()) {
+          segments.push({ start, end, label });
+        }
+      } else {
+        // point tier: time and mark
+        next();
+        next();
+      }
+    }
+
+    if (tierClass !== "IntervalTier") {
+      continue;
+    }
+    if (tierName !== undefined) {
+      if (name === tierName) {
+        return sanitizeSegments(segments);
+      }
+    } else if (!fallback && segments.length > 0) {
+      fallback = segments;
+    }
+  }
+
+  return sanitizeSegments(fallback ?? []);
+}
+
+/*
+Write segments as one interval tier in the long text format.
+Gaps between segments are filled with empty intervals, and overlapping segments are
+cut at the start of the next one, because intervals of a tier must be contiguous.
+*/
+export function writeTextGrid(
+  segments: Segment[],
+  duration: number,
+  tierName: string = "segments",
+): string {
+  const xmax = Math.max(duration, ...segments.map((s) => s.end), 0);
+  const intervals: Segment[] = [];
+  let t = 0;
+  for (const s of sanitizeSegments(segments)) {
+    const start = Math.max(s.start, t);
+    if (s.end <= start) {
+      continue;
+    }
+    if (t < start) {
+      intervals.push({ start: t, end: start, label: "" });
+    }
+    intervals.push({ start, end: s.end, label: s.label });
+    t = s.end;
+  }
+  if (t < xmax || intervals.length === 0) {
+    intervals.push({ start: t, end: xmax, label: "" });
+  }
+
+  const quote = (v: string) => `"${v.replace(/"/g, '""')}"`;
+  const lines = [
+    'File type = "ooTextFile"',
+    'Object class = "TextGrid"',
+    "",
+    "xmin = 0 ",
+    `xmax = ${xmax} `,
+    "tiers? <exists> ",
+    "size = 1 ",
+    "item []: ",
+    "    item [1]:",
+    '        class = "IntervalTier" ',
+    `        name = ${quote(tierName)} `,
+    "        xmin = 0 ",
+    `        xmax = ${xmax} `,
+    `        intervals: size = ${intervals.length} `,
+  ];
+  intervals.forEach((interval, index) => {
+    lines.push(
+      `        intervals [${index + 1}]:`,
+      `            xmin = ${interval.start} `,
+      `            xmax = ${interval.end} `,
+      `            text = ${quote(interval.label)} `,
+    );
+  });
+  return lines.join("\n") + "\n";
+}
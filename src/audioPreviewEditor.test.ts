@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+import * as path from "path";
+import * as vscode from "vscode";
+import { AudioPreviewEditorProvider } from "./audioPreviewEditor";
+import { WebviewMessage, WebviewMessageType } from "./message";
+
+const root = path.resolve("/workspace");
+
+// files of the fake workspace and the AudioLabeller settings
+const mockFiles = new Map<string, string>();
+const mockConfig = new Map<string, unknown>();
+
+jest.mock(
+  "vscode",
+  () => {
+    class EventEmitter {
+      private _listeners: ((e: unknown) => void)[] = [];
+      public event = (listener: (e: unknown) => void) => {
+        this._listeners.push(listener);
+        return { dispose: () => undefined };
+      };
+      public fire(e: unknown) {
+        this._listeners.forEach((listener) => listener(e));
+      }
+      public dispose() {
+        this._listeners = [];
+      }
+    }
+    const uriFile = (fsPath: string) => ({
+      scheme: "file",
+      fsPath,
+      path: fsPath,
+      toString: () => `file://${fsPath}`,
+    });
+    const disposable = () => ({ dispose: () => undefined });
+    const joinPath = (base: { fsPath: string }, ...paths: string[]) =>
+      uriFile(jest.requireActual("path").join(base.fsPath, ...paths));
+    return {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      EventEmitter,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      Uri: { file: uriFile, parse: uriFile, joinPath },
+      commands: { executeCommand: jest.fn() },
+      window: {
+        showWarningMessage: jest.fn(),
+        showErrorMessage: jest.fn(),
+      },
+      workspace: {
+        fs: {
+          readFile: jest.fn(async (uri: { fsPath: string }) => {
+            if (!mockFiles.has(uri.fsPath)) {
+              throw new Error(`File not found: ${uri.fsPath}`);
+            }
+            return Buffer.from(mockFiles.get(uri.fsPath));
+          }),
+        },
+        getConfiguration: () => ({ get: (key: string) => mockConfig.get(key) }),
+        getWorkspaceFolder: () => ({ uri: uriFile(root) }),
+        onDidChangeConfiguration: disposable,
+        createFileSystemWatcher: () => ({
+          onDidChange: disposable,
+          onDidCreate: disposable,
+          onDidDelete: disposable,
+          dispose: () => undefined,
+        }),
+      },
+    };
+  },
+  { virtual: true },
+);
+
+function createProvider() {
+  const context = {
+    extensionUri: vscode.Uri.file(path.resolve("/extension")),
+    workspaceState: { get: () => undefined, update: async () => undefined },
+  } as unknown as vscode.ExtensionContext;
+  return new AudioPreviewEditorProvider(context);
+}
+
+function openDocument(provider: AudioPreviewEditorProvider, audioPath: string) {
+  return provider.openCustomDocument(
+    vscode.Uri.file(audioPath),
+    {},
+    {} as vscode.CancellationToken,
+  );
+}
+
+// a panel in the background, which becomes active some time after reveal()
+function createBackgroundPanel() {
+  const viewState =
+    new vscode.EventEmitter<vscode.WebviewPanelOnDidChangeViewStateEvent>();
+  const panel = {
+    active: false,
+    webview: {
+      options: {},
+      html: "",
+      cspSource: "",
+      asWebviewUri: (uri: vscode.Uri) => uri,
+      onDidReceiveMessage: jest.fn(),
+      postMessage: jest.fn(),
+    },
+    onDidChangeViewState: viewState.event,
+    onDidDispose: jest.fn(() => ({ dispose: () => undefined })),
+    reveal: jest.fn(() => {
+      setTimeout(() => {
+        panel.active = true;
+        viewState.fire({
+          webviewPanel: panel as unknown as vscode.WebviewPanel,
+        });
+      }, 10);
+    }),
+  };
+  return panel;
+}
+
+describe("audioPreviewEditor", () => {
+  beforeEach(() => {
+    mockFiles.clear();
+    mockConfig.clear();
+    jest.clearAllMocks();
+  });
+
+  test("open a document when the configured manifest is missing", async () => {
+    mockFiles.set(path.join(root, "wav", "a.wav"), "RIFF");
+    mockFiles.set(path.join(root, "text", "a.txt"), "hello world");
+    mockConfig.set("manifest", { path: "data/manifest.jsonl" });
+
+    const provider = createProvider();
+    const document = await openDocument(
+      provider,
+      path.join(root, "wav", "a.wav"),
+    );
+    expect(document.labelData).toBe("hello world");
+    expect(document.labelManifest).toBeUndefined();
+    expect(document.isLabelDirty).toBe(false);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `Cannot read manifest: ${path.join(root, "data", "manifest.jsonl")}`,
+      ),
+    );
+    provider.dispose();
+  });
+
+  test("read the label from the manifest if the file is listed", async () => {
+    mockFiles.set(path.join(root, "wav", "a.wav"), "RIFF");
+    mockFiles.set(path.join(root, "text", "a.txt"), "label file");
+    mockFiles.set(
+      path.join(root, "manifest.jsonl"),
+      '{"audio_filepath": "wav/a.wav", "text": "from manifest"}\n',
+    );
+    mockConfig.set("manifest", { path: "manifest.jsonl" });
+
+    const provider = createProvider();
+    const document = await openDocument(
+      provider,
+      path.join(root, "wav", "a.wav"),
+    );
+    expect(document.labelData).toBe("from manifest");
+    expect(document.labelManifest).toBeDefined();
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+    provider.dispose();
+  });
+
+  test("save the label after the panel becomes active", async () => {
+    mockFiles.set(path.join(root, "wav", "a.wav"), "RIFF");
+    const provider = createProvider();
+    const document = await openDocument(
+      provider,
+      path.join(root, "wav", "a.wav"),
+    );
+    const panel = createBackgroundPanel();
+    // the save command saves the active editor
+    const activeOnSave: boolean[] = [];
+    (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+      (command: string) => {
+        if (command === "workbench.action.files.save") {
+          activeOnSave.push(panel.active);
+        }
+      },
+    );
+    await provider.resolveCustomEditor(
+      document,
+      panel as unknown as vscode.WebviewPanel,
+      {} as vscode.CancellationToken,
+    );
+    const onMessage: (msg: WebviewMessage) => Promise<void> =
+      panel.webview.onDidReceiveMessage.mock.calls[0][0];
+    await onMessage({ type: WebviewMessageType.SAVE_LABEL, data: "new label" });
+    expect(panel.reveal).toHaveBeenCalled();
+    expect(activeOnSave).toEqual([true]);
+    expect(document.labelData).toBe("new label");
+    provider.dispose();
+  });
+});
@@ -2,37 +2,110 @@ import * as vscode from "vscode";
 import * as path from "path";
 import { Disposable, disposeAll } from "./dispose";
 import { getNonce } from "./util";
-import { AnalyzeDefault, PlayerDefault } from "./config";
+import {
+  AnalyzeDefault,
+  ExportDefault,
+  LabelResolverConfig,
+  ManifestConfig,
+  PlayerDefault,
+} from "./config";
 import {
   ExtMessage,
   ExtMessageType,
+  PlayerCommand,
+  WebviewExportClipsMessageData,
   WebviewMessage,
         WebviewMessageType,
       } from "./message";
-      
-      function getLabelPath(audioPath: string): string {
-        const parentDir = path.dirname(path.dirname(audioPath));
-        const filename = path.basename(audioPath, path.extname(audioPath));
-        return path.join(parentDir, "text", filename + ".txt");
-      }
-      
-      class AudioPreviewDocument extends Disposable implements vscode.CustomDocument {  static async create(
+import { isSameSegments, Segment, sanitizeSegments } from "./segment";
+import {
+  annotationFileExtensions,
+  annotationFormatNames,
+  AnnotationFormat,
+  decodeAnnotationFile,
+  getAnnotationFormat,
+  parseAnnotations,
+  writeAnnotations,
+} from "./annotation/annotationFormat";
+import {
+  createLabelResolver,
+  getHypothesisGlob,
+  getHypothesisModel,
+  getSegmentsPath,
+  LabelResolver,
+} from "./labelResolver";
+import { ManifestIndex } from "./manifest/manifestIndex";
+import { LabelingSession, LabelingSessionDirection } from "./labelingSession";
+import { calculateCer, calculateWer } from "./errorRate";
+import { ManifestEntry, toSingleLine } from "./manifest/manifestEntry";
+import { formatJsonlManifest } from "./manifest/jsonl";
+import { formatCsvManifest } from "./manifest/csv";
+import { expandClipFilename, makeUniqueFilenames } from "./clipExport";
+
+// write to a temporary file and rename it, so that readers never see a partial file
+async function writeFileAtomic(uri: vscode.Uri, content: Uint8Array) {
+  const tempUri = uri.with({ path: `${uri.path}.${getNonce()}.tmp` });
+  await vscode.workspace.fs.writeFile(tempUri, content);
+  try {
+    await vscode.workspace.fs.rename(tempUri, uri, { overwrite: true });
+  } catch (e) {
+    await vscode.workspace.fs.delete(tempUri).then(undefined, () => undefined);
+    throw e;
+  }
+}
+
+// where the label of a document is read from and written to
+interface LabelSource {
+  resolver: LabelResolver;
+  // transcripts listed in the manifest take precedence over label files
+  manifest?: ManifestIndex;
+}
+
+// parts of a document which are edited in the webview and saved with the document
+interface DocumentContent {
+  label: string;
+  segments: Segment[];
+}
+
+interface DocumentEdit {
+  before: Partial<DocumentContent>;
+  after: Partial<DocumentContent>;
+  time: number;
+}
+
+class AudioPreviewDocument extends Disposable implements vscode.CustomDocument {
+  // consecutive label edits within this time are undone at once, like typing in a text editor
+  private static readonly labelEditMergeMs = 1000;
+
+  static async create(
     uri: vscode.Uri,
     backupId: string | undefined,
+    labelSource: LabelSource,
   ): Promise<AudioPreviewDocument | PromiseLike<AudioPreviewDocument>> {
-    // If we have a backup, read that. Otherwise read the resource from the workspace
-    const dataFile =
-      typeof backupId === "string" ? vscode.Uri.parse(backupId) : uri;
-    const data = await AudioPreviewDocument.readFile(dataFile);
-    const label = await AudioPreviewDocument.readLabelFile(uri);
-    return new AudioPreviewDocument(uri, data, label);
+    const data = await AudioPreviewDocument.readFile(uri);
+    const document = new AudioPreviewDocument(uri, data, labelSource);
+    await document.loadLabel();
+    // If we have a backup, restore the unsaved label and segments from it
+    if (typeof backupId === "string") {
+      const backup = await vscode.workspace.fs.readFile(
+        vscode.Uri.parse(backupId),
+      );
+      const content = JSON.parse(new TextDecoder().decode(backup));
+      document.setContent({
+        label: typeof content.label === "string" ? content.label : "",
+        segments: sanitizeSegments(content.segments),
+      });
+    }
+    return document;
   }
 
-  private static async readLabelFile(uri: vscode.Uri): Promise<string> {
-    if (uri.scheme === "untitled") {
+  private static async readLabelFile(
+    labelPath: string | undefined,
+  ): Promise<string> {
+    if (!labelPath) {
       return "";
     }
-    const labelUri = vscode.Uri.file(getLabelPath(uri.fsPath));
+    const labelUri = vscode.Uri.file(labelPath);
     try {
       const labelData = await vscode.workspace.fs.readFile(labelUri);
       return labelData.toString();
@@ -41,6 +114,21 @@ import {
     }
   }
 
+  private static async readSegmentsFile(
+    labelPath: string | undefined,
+  ): Promise<Segment[]> {
+    if (!labelPath) {
+      return [];
+    }
+    const segmentsUri = vscode.Uri.file(getSegmentsPath(labelPath));
+    try {
+      const segmentsData = await vscode.workspace.fs.readFile(segmentsUri);
+      return sanitizeSegments(JSON.parse(segmentsData.toString()).segments);
+    } catch (e) {
+      return [];
+    }
+  }
+
   private static async readFile(uri: vscode.Uri): Promise<Uint8Array> {
     if (uri.scheme === "untitled") {
       return new Uint8Array();
@@ -49,27 +137,52 @@ import {
   }
 
   private readonly _uri: vscode.Uri;
+  private readonly _labelSource: LabelSource;
   private _documentData: Uint8Array;
-  private _labelData: string;
+  private _labelPath: string | undefined;
+  private _labelManifest: ManifestIndex | undefined;
+  private _labelData: string = "";
+  private _segmentsData: Segment[] = [];
+  // content on disk, to save only what has changed
+  private _savedContent: DocumentContent = { label: "", segments: [] };
+  // the latest label edit, which following keystrokes are merged into
+  private _mergeableEdit: DocumentEdit | undefined;
 
   public get documentData() {
     return this._documentData;
   }
+  // undefined if the label resolver has no location for this file
+  public get labelPath() {
+    return this._labelPath;
+  }
+  // the manifest if this file is listed in it, otherwise undefined
+  public get labelManifest() {
+    return this._labelManifest;
+  }
   public get labelData() {
     return this._labelData;
   }
+  public get segmentsData() {
+    return this._segmentsData;
+  }
+  public get isLabelDirty() {
+    return this._labelData !== this._savedContent.label;
+  }
+  public get isSegmentsDirty() {
+    return !isSameSegments(this._segmentsData, this._savedContent.segments);
+  }
 
   private _fsWatcher: vscode.FileSystemWatcher;
 
   private constructor(
     uri: vscode.Uri,
     initialContent: Uint8Array,
-    labelContent: string,
+    labelSource: LabelSource,
   ) {
     super();
     this._uri = uri;
     this._documentData = initialContent;
-    this._labelData = labelContent;
+    this._labelSource = labelSource;
     this._fsWatcher = vscode.workspace.createFileSystemWatcher(
       uri.fsPath,
       true,
@@ -85,9 +198,165 @@ import {
 
   public onDidChange: vscode.Event<vscode.Uri>;
 
+  // fired for each edit, forwarded to VS Code for dirty state and undo/redo
+  private readonly _onDidEdit = this._register(
+    new vscode.EventEmitter<
+      vscode.CustomDocumentEditEvent<AudioPreviewDocument>
+    >(),
+  );
+  public readonly onDidEdit = this._onDidEdit.event;
+
+  // fired when the content changes by undo, redo, revert or import, to update the webview
+  private readonly _onDidChangeContent = this._register(
+    new vscode.EventEmitter<Partial<DocumentContent>>(),
+  );
+  public readonly onDidChangeContent = this._onDidChangeContent.event;
+
   public async reload() {
     this._documentData = await AudioPreviewDocument.readFile(this.uri);
-    this._labelData = await AudioPreviewDocument.readLabelFile(this.uri);
+    // keep unsaved label and segments when the audio file changes on disk
+    if (!this.isLabelDirty && !this.isSegmentsDirty) {
+      await this.loadLabel();
+    }
+  }
+
+  // label edits from the webview, which already shows the new label
+  public editLabel(label: string) {
+    if (label === this._labelData) {
+      return;
+    }
+    const now = Date.now();
+    const last = this._mergeableEdit;
+    if (last && now - last.time < AudioPreviewDocument.labelEditMergeMs) {
+      last.after.label = label;
+      last.time = now;
+      this._labelData = label;
+      return;
+    }
+    this._mergeableEdit = this.makeEdit("Edit Label", { label }, false);
+  }
+
+  // segments edits from the webview, which already shows the new segments
+  public editSegments(segments: Segment[]) {
+    if (isSameSegments(segments, this._segmentsData)) {
+      return;
+    }
+    this.makeEdit("Edit Segments", { segments }, false);
+  }
+
+  // segments which are not shown in the webview yet, such as imported ones
+  public replaceSegments(segments: Segment[]) {
+    this.makeEdit("Import Segments", { segments }, true);
+  }
+
+  public markSaved() {
+    // VS Code must be told about the next change to mark the document dirty again
+    this._mergeableEdit = undefined;
+    this._savedContent = {
+      label: this._labelData,
+      segments: this._segmentsData,
+    };
+  }
+
+  public async revert() {
+    await this.loadLabel();
+    this._onDidChangeContent.fire({
+      label: this._labelData,
+      segments: this._segmentsData,
+    });
+  }
+
+  public async backup(
+    destination: vscode.Uri,
+  ): Promise<vscode.CustomDocumentBackup> {
+    const content: DocumentContent = {
+      label: this._labelData,
+      segments: this._segmentsData,
+    };
+    await vscode.workspace.fs.writeFile(
+      destination,
+      new TextEncoder().encode(JSON.stringify(content)),
+    );
+    return {
+      id: destination.toString(),
+      delete: async () => {
+        try {
+          await vscode.workspace.fs.delete(destination);
+        } catch (e) {
+          // noop
+        }
+      },
+    };
+  }
+
+  private makeEdit(
+    name: string,
+    after: Partial<DocumentContent>,
+    notifyWebview: boolean,
+  ): DocumentEdit {
+    const before: Partial<DocumentContent> = {};
+    if (after.label !== undefined) {
+      before.label = this._labelData;
+    }
+    if (after.segments !== undefined) {
+      before.segments = this._segmentsData;
+    }
+    const edit: DocumentEdit = { before, after, time: Date.now() };
+    this._mergeableEdit = undefined;
+    this.setContent(after);
+    if (notifyWebview) {
+      this._onDidChangeContent.fire(after);
+    }
+
+    this._onDidEdit.fire({
+      document: this,
+      label: name,
+      undo: async () => {
+        this._mergeableEdit = undefined;
+        this.setContent(edit.before);
+        this._onDidChangeContent.fire(edit.before);
+      },
+      redo: async () => {
+        this._mergeableEdit = undefined;
+        this.setContent(edit.after);
+        this._onDidChangeContent.fire(edit.after);
+      },
+    });
+    return edit;
+  }
+
+  private setContent(content: Partial<DocumentContent>) {
+    if (content.label !== undefined) {
+      this._labelData = content.label;
+    }
+    if (content.segments !== undefined) {
+      this._segmentsData = content.segments;
+    }
+  }
+
+  private async loadLabel() {
+    if (this.uri.scheme === "untitled") {
+      return;
+    }
+    const { resolver, manifest } = this._labelSource;
+    this._labelPath = await resolver.getLabelPath(this.uri.fsPath);
+    let entry: ManifestEntry | undefined;
+    try {
+      entry = await manifest?.getEntry(this.uri.fsPath);
+    } catch (e) {
+      // the label file is still usable when the manifest is missing or broken
+      vscode.window.showWarningMessage(
+        `${e.message}, reading the label file instead`,
+      );
+    }
+    this._labelManifest = entry ? manifest : undefined;
+    this._labelData = entry
+      ? entry.text
+      : await AudioPreviewDocument.readLabelFile(this._labelPath);
+    this._segmentsData = await AudioPreviewDocument.readSegmentsFile(
+      this._labelPath,
+    );
+    this.markSaved();
   }
 
   private readonly _onDidDispose = this._register(
@@ -107,7 +376,7 @@ import {
 }
 
 export class AudioPreviewEditorProvider
-  implements vscode.CustomReadonlyEditorProvider
+  implements vscode.CustomEditorProvider<AudioPreviewDocument>
 {
   public static register(context: vscode.ExtensionContext): vscode.Disposable {
     const provider = new AudioPreviewEditorProvider(context);
@@ -129,7 +398,49 @@ export class AudioPreviewEditorProvider
       },
     );
 
-    return vscode.Disposable.from(providerRegistration, commandRegistration);
+    const sessionCommands = [
+      vscode.commands.registerCommand(
+        "audioLabeller.startLabelingSession",
+        () => provider.startLabelingSession(),
+      ),
+      vscode.commands.registerCommand("audioLabeller.endLabelingSession", () =>
+        provider.endLabelingSession(),
+      ),
+      vscode.commands.registerCommand(
+        "audioLabeller.labelingSession.next",
+        () => provider.requestLabelingSessionNavigate("next"),
+      ),
+      vscode.commands.registerCommand(
+        "audioLabeller.labelingSession.previous",
+        () => provider.requestLabelingSessionNavigate("previous"),
+      ),
+      vscode.commands.registerCommand(
+        "audioLabeller.labelingSession.skip",
+        () => provider.requestLabelingSessionNavigate("skip"),
+      ),
+    ];
+
+    const playerCommands = (
+      [
+        "togglePlay",
+        "skipBackward",
+        "skipForward",
+        "speedUp",
+        "speedDown",
+      ] as PlayerCommand[]
+    ).map((command) =>
+      vscode.commands.registerCommand(`audioLabeller.player.${command}`, () =>
+        provider.requestPlayerCommand(command),
+      ),
+    );
+
+    return vscode.Disposable.from(
+      providerRegistration,
+      commandRegistration,
+      ...sessionCommands,
+      ...playerCommands,
+      provider,
+    );
   }
 
   private showActiveLearningView() {
@@ -146,10 +457,46 @@ export class AudioPreviewEditorProvider
 
 
   private static readonly viewType = "audioLabeller.audioPreview";
+  // same extensions as the customEditors selector in package.json
+  private static readonly audioFileGlob =
+    "**/*.{wav,mp3,aac,ogg,opus,flac,m4a,sph}";
 
   private readonly webviews = new WebviewCollection();
 
-  constructor(private readonly _context: vscode.ExtensionContext) {}
+  // manifests are indexed once per workspace folder and shared by documents
+  private readonly _manifests = new Map<
+    string,
+    { index: ManifestIndex; watchers: vscode.Disposable[] }
+  >();
+  private readonly _configListener: vscode.Disposable;
+  // errors of the labelResolver setting already shown, until the setting changes
+  private readonly _labelResolverErrors = new Set<string>();
+  private _labelingSession: LabelingSession | undefined;
+
+  constructor(private readonly _context: vscode.ExtensionContext) {
+    this._labelingSession = LabelingSession.restore(_context.workspaceState);
+    this.updateLabelingSessionContext();
+    this._configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("AudioLabeller.manifest")) {
+        this.clearManifests();
+      }
+      if (e.affectsConfiguration("AudioLabeller.labelResolver")) {
+        this._labelResolverErrors.clear();
+      }
+    });
+  }
+
+  public dispose() {
+    this.clearManifests();
+    this._configListener.dispose();
+    this._onDidChangeCustomDocument.dispose();
+  }
+
+  private readonly _onDidChangeCustomDocument = new vscode.EventEmitter<
+    vscode.CustomDocumentEditEvent<AudioPreviewDocument>
+  >();
+  public readonly onDidChangeCustomDocument =
+    this._onDidChangeCustomDocument.event;
 
   async openCustomDocument(
     uri: vscode.Uri,
@@ -160,17 +507,35 @@ export class AudioPreviewEditorProvider
     const document: AudioPreviewDocument = await AudioPreviewDocument.create(
       uri,
       openContext.backupId,
+      {
+        resolver: this.createLabelResolver(uri),
+        manifest: this.getManifestIndex(uri),
+      },
     );
 
     const listeners: vscode.Disposable[] = [];
 
+    listeners.push(document.onDidChange(() => this.reloadDocument(document)));
+
+    listeners.push(
+      document.onDidEdit((e) => this._onDidChangeCustomDocument.fire(e)),
+    );
+
     listeners.push(
-      document.onDidChange(async () => {
-        await document.reload();
+      document.onDidChangeContent((content) => {
         for (const webviewPanel of this.webviews.get(document.uri)) {
-          this.postMessage(webviewPanel.webview, {
-            type: ExtMessageType.RELOAD,
-          });
+          if (content.label !== undefined) {
+            this.postMessage(webviewPanel.webview, {
+              type: ExtMessageType.LABEL,
+              data: content.label,
+            });
+          }
+          if (content.segments !== undefined) {
+            this.postMessage(webviewPanel.webview, {
+              type: ExtMessageType.SEGMENTS,
+              data: content.segments,
+            });
+          }
         }
       }),
     );
@@ -180,6 +545,66 @@ export class AudioPreviewEditorProvider
     return document;
   }
 
+  async saveCustomDocument(
+    document: AudioPreviewDocument,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _cancellation: vscode.CancellationToken,
+  ): Promise<void> {
+    const messages: string[] = [];
+    if (document.isLabelDirty) {
+      messages.push(await this.saveLabel(document, document.labelData));
+    }
+    if (document.isSegmentsDirty) {
+      const segmentsPath = getSegmentsPath(this.requireLabelPath(document));
+      await this.writeSegmentsFile(segmentsPath, document.segmentsData);
+      messages.push(`Segments file written to: ${segmentsPath}`);
+    }
+    document.markSaved();
+    if (messages.length > 0) {
+      vscode.window.setStatusBarMessage(messages.join(", "), 5000);
+    }
+  }
+
+  // copy the audio file and write the label and segments next to the copy
+  async saveCustomDocumentAs(
+    document: AudioPreviewDocument,
+    destination: vscode.Uri,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _cancellation: vscode.CancellationToken,
+  ): Promise<void> {
+    await vscode.workspace.fs.writeFile(destination, document.documentData);
+    const labelPath = await this.createLabelResolver(destination).getLabelPath(
+      destination.fsPath,
+    );
+    if (!labelPath) {
+      return;
+    }
+    await this.writeLabelFile(labelPath, document.labelData);
+    if (document.segmentsData.length > 0) {
+      await this.writeSegmentsFile(
+        getSegmentsPath(labelPath),
+        document.segmentsData,
+      );
+    }
+  }
+
+  async revertCustomDocument(
+    document: AudioPreviewDocument,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _cancellation: vscode.CancellationToken,
+  ): Promise<void> {
+    await document.revert();
+  }
+
+  async backupCustomDocument(
+    document: AudioPreviewDocument,
+    context: vscode.CustomDocumentBackupContext,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _cancellation: vscode.CancellationToken,
+  ): Promise<vscode.CustomDocumentBackup> {
+    return document.backup(context.destination);
+  }
+
   async resolveCustomEditor(
     document: AudioPreviewDocument,
     webviewPanel: vscode.WebviewPanel,
@@ -220,6 +645,7 @@ export class AudioPreviewEditorProvider
             autoAnalyze: config.get("autoAnalyze") as boolean,
             playerDefault: config.get("playerDefault") as PlayerDefault,
             analyzeDefault: config.get("analyzeDefault") as AnalyzeDefault,
+            exportDefault: config.get("exportDefault") as ExportDefault,
           },
         });
         break;
@@ -261,11 +687,34 @@ export class AudioPreviewEditorProvider
           const content = new Uint8Array(msg.data.samples);
           await vscode.workspace.fs.writeFile(wavUri, content);
           vscode.window.showInformationMessage(
-            `Success! Wav file written to: ${wavUri.fsPath}`,
+            `Success! Audio file written to: ${wavUri.fsPath}`,
+          );
+        }
+        break;
+
+      case WebviewMessageType.SAVE_AUDIO:
+        if (WebviewMessageType.isSaveAudio(msg)) {
+          await this.saveAudio(
+            document,
+            new Uint8Array(msg.data.samples),
+            msg.data.saveAs,
+            msg.data.extension,
           );
         }
         break;
 
+      case WebviewMessageType.EXPORT_CLIPS:
+        if (WebviewMessageType.isExportClips(msg)) {
+          await this.exportClips(document, msg.data);
+        }
+        break;
+
+      case WebviewMessageType.EXPORT_PITCH:
+        if (WebviewMessageType.isExportPitch(msg)) {
+          await this.exportPitch(document, msg.data.csv);
+        }
+        break;
+
       case WebviewMessageType.ERROR:
         if (WebviewMessageType.isERROR(msg)) {
           vscode.window.showErrorMessage(msg.data.message);
@@ -281,14 +730,69 @@ export class AudioPreviewEditorProvider
 
       case WebviewMessageType.SAVE_LABEL:
         if (WebviewMessageType.isSaveLabel(msg)) {
-          const labelUri = vscode.Uri.file(getLabelPath(document.uri.fsPath));
-          const content = new TextEncoder().encode(msg.data);
-          await vscode.workspace.fs.createDirectory(
-            vscode.Uri.file(path.dirname(labelUri.fsPath)),
+          document.editLabel(msg.data);
+          await this.saveDocument(webviewPanel);
+        }
+        break;
+
+      case WebviewMessageType.EDIT_LABEL:
+        if (WebviewMessageType.isEditLabel(msg)) {
+          document.editLabel(msg.data);
+        }
+        break;
+
+      case WebviewMessageType.GET_LABELING_SESSION:
+        this.postMessage(webviewPanel.webview, {
+          type: ExtMessageType.LABELING_SESSION,
+          data: this._labelingSession?.getProgress(document.uri.fsPath),
+        });
+        break;
+
+      case WebviewMessageType.LABELING_SESSION_NAVIGATE:
+        if (WebviewMessageType.isLabelingSessionNavigate(msg)) {
+          await this.navigateLabelingSession(
+            document,
+            webviewPanel,
+            msg.data.direction,
+            msg.data.label,
           );
-          await vscode.workspace.fs.writeFile(labelUri, content);
-          vscode.window.showInformationMessage(
-            `Success! Label file written to: ${labelUri.fsPath}`,
+        }
+        break;
+
+      case WebviewMessageType.GET_SEGMENTS:
+        this.postMessage(webviewPanel.webview, {
+          type: ExtMessageType.SEGMENTS,
+          data: document.segmentsData,
+        });
+        break;
+
+      case WebviewMessageType.SAVE_SEGMENTS:
+        if (WebviewMessageType.isSaveSegments(msg)) {
+          document.editSegments(sanitizeSegments(msg.data));
+          await this.saveDocument(webviewPanel);
+        }
+        break;
+
+      case WebviewMessageType.EDIT_SEGMENTS:
+        if (WebviewMessageType.isEditSegments(msg)) {
+          document.editSegments(sanitizeSegments(msg.data));
+        }
+        break;
+
+      case WebviewMessageType.IMPORT_SEGMENTS: {
+        const segments = await this.importSegments(document);
+        if (segments) {
+          document.replaceSegments(segments);
+        }
+        break;
+      }
+
+      case WebviewMessageType.EXPORT_SEGMENTS:
+        if (WebviewMessageType.isExportSegments(msg)) {
+          await this.exportSegments(
+            document,
+            sanitizeSegments(msg.data.segments),
+            msg.data.duration,
           );
         }
         break;
@@ -311,6 +815,562 @@ export class AudioPreviewEditorProvider
     }
   }
 
+  // write the label and return a message for the user
+  private async saveLabel(
+    document: AudioPreviewDocument,
+    label: string,
+  ): Promise<string> {
+    if (document.labelManifest) {
+      const manifestPath = await document.labelManifest.saveText(
+        document.uri.fsPath,
+        label,
+      );
+      return `Success! Label written to manifest: ${manifestPath}`;
+    }
+    const labelPath = this.requireLabelPath(document);
+    await this.writeLabelFile(labelPath, label);
+    return `Success! Label file written to: ${labelPath}`;
+  }
+
+  private async writeLabelFile(labelPath: string, label: string) {
+    const labelUri = vscode.Uri.file(labelPath);
+    await vscode.workspace.fs.createDirectory(
+      vscode.Uri.file(path.dirname(labelPath)),
+    );
+    await vscode.workspace.fs.writeFile(
+      labelUri,
+      new TextEncoder().encode(label),
+    );
+  }
+
+  private async writeSegmentsFile(segmentsPath: string, segments: Segment[]) {
+    const content = new TextEncoder().encode(
+      JSON.stringify({ segments }, null, 2),
+    );
+    await vscode.workspace.fs.createDirectory(
+      vscode.Uri.file(path.dirname(segmentsPath)),
+    );
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(segmentsPath), content);
+  }
+
+  private async reloadDocument(document: AudioPreviewDocument) {
+    await document.reload();
+    for (const webviewPanel of this.webviews.get(document.uri)) {
+      this.postMessage(webviewPanel.webview, {
+        type: ExtMessageType.RELOAD,
+      });
+    }
+  }
+
+  /*
+  Write audio edited in the webview (wav) over the opened file, or to a file chosen by the user.
+  Files in other formats can only be saved as a new wav file.
+  */
+  private async saveAudio(
+    document: AudioPreviewDocument,
+    content: Uint8Array,
+    saveAs: boolean,
+    extension: string,
+  ) {
+    const audioPath = document.uri.fsPath;
+    let uri = document.uri;
+    // overwrite only when the encoded format is the one of the opened file
+    if (saveAs || path.extname(audioPath).toLowerCase() !== extension) {
+      const fileId = path.basename(audioPath, path.extname(audioPath));
+      const format = extension.slice(1);
+      uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(
+          path.join(path.dirname(audioPath), `${fileId}_edited${extension}`),
+        ),
+        filters: { [format]: [format] },
+      });
+      if (!uri) {
+        return;
+      }
+    } else {
+      const overwrite = "Overwrite";
+      const answer = await vscode.window.showWarningMessage(
+        `Overwrite ${path.basename(audioPath)} with the edited audio?`,
+        { modal: true },
+        overwrite,
+      );
+      if (answer !== overwrite) {
+        return;
+      }
+    }
+
+    await writeFileAtomic(uri, content);
+    if (uri.toString() === document.uri.toString()) {
+      // the file watcher may miss the rename, so reload the webview explicitly
+      await this.reloadDocument(document);
+    }
+    vscode.window.showInformationMessage(
+      `Success! Audio written to: ${uri.fsPath}`,
+    );
+  }
+
+  // write each clip to a folder chosen by the user, with a manifest listing them
+  private async exportClips(
+    document: AudioPreviewDocument,
+    data: WebviewExportClipsMessageData,
+  ) {
+    const audioPath = document.uri.fsPath;
+    const folders = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.dirname(audioPath)),
+      openLabel: "Export Clips",
+    });
+    if (!folders || folders.length === 0) {
+      return;
+    }
+
+    const dir = folders[0].fsPath;
+    const name = path.basename(audioPath, path.extname(audioPath));
+    const filenames = makeUniqueFilenames(
+      data.clips.map((clip, i) =>
+        expandClipFilename(
+          data.filenameTemplate,
+          clip,
+          i,
+          data.clips.length,
+          name,
+        ),
+      ),
+    );
+    const entries: ManifestEntry[] = [];
+    for (const [i, clip] of data.clips.entries()) {
+      const clipPath = path.join(dir, filenames[i] + data.extension);
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.file(clipPath),
+        new Uint8Array(clip.samples),
+      );
+      entries.push({
+        audioPath: clipPath,
+        text: toSingleLine(clip.label),
+        duration: Number((clip.end - clip.start).toFixed(3)),
+      });
+    }
+
+    let message = `Success! ${entries.length} clips written to: ${dir}`;
+    if (data.manifestFormat !== "none") {
+      const manifestPath = path.join(
+        dir,
+        `${name}_clips.${data.manifestFormat}`,
+      );
+      const content =
+        data.manifestFormat === "csv"
+          ? formatCsvManifest(entries, dir)
+          : formatJsonlManifest(entries, dir);
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.file(manifestPath),
+        new TextEncoder().encode(content),
+      );
+      message += `, manifest: ${manifestPath}`;
+    }
+    vscode.window.showInformationMessage(message);
+  }
+
+  /*
+  Save through VS Code, so that the dirty state of the editor is cleared.
+  The save command saves the active editor, so wait until this panel is active.
+  */
+  private async saveDocument(webviewPanel: vscode.WebviewPanel) {
+    if (!webviewPanel.active) {
+      await new Promise<void>((resolve, reject) => {
+        const listeners = [
+          webviewPanel.onDidChangeViewState((e) => {
+            if (e.webviewPanel.active) {
+              disposeAll(listeners);
+              resolve();
+            }
+          }),
+          webviewPanel.onDidDispose(() => {
+            disposeAll(listeners);
+            reject(new Error("The editor was closed before saving"));
+          }),
+        ];
+        webviewPanel.reveal();
+      });
+    }
+    await vscode.commands.executeCommand("workbench.action.files.save");
+  }
+
+  private async startLabelingSession() {
+    type SourceItem = vscode.QuickPickItem & { source: string };
+    const items: SourceItem[] = [];
+    if (this._labelingSession) {
+      items.push({
+        label: "Resume",
+        description: `${this._labelingSession.doneCount} / ${this._labelingSession.files.length} done`,
+        source: "resume",
+      });
+    }
+    items.push(
+      { label: "Folder...", source: "folder" },
+      { label: "Glob Pattern...", source: "glob" },
+      { label: "Active Learning Ranking...", source: "ranking" },
+    );
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Build the labeling queue from",
+    });
+    if (!picked) {
+      return;
+    }
+
+    if (picked.source === "resume") {
+      await this.openAudioFile(this._labelingSession.getResumeFile());
+      return;
+    }
+
+    let files: string[] | undefined;
+    switch (picked.source) {
+      case "folder":
+        files = await this.findAudioFilesInFolder();
+        break;
+      case "glob":
+        files = await this.findAudioFilesByGlob();
+        break;
+      case "ranking":
+        files = await this.rankAudioFilesByErrorRate();
+        break;
+    }
+    if (!files) {
+      return;
+    }
+    if (files.length === 0) {
+      vscode.window.showWarningMessage("No audio files found");
+      return;
+    }
+
+    this._labelingSession = await LabelingSession.start(
+      this._context.workspaceState,
+      files,
+    );
+    this.updateLabelingSessionContext();
+    await this.openAudioFile(this._labelingSession.getResumeFile());
+  }
+
+  private async endLabelingSession() {
+    if (!this._labelingSession) {
+      return;
+    }
+    this._labelingSession = undefined;
+    await LabelingSession.end(this._context.workspaceState);
+    this.updateLabelingSessionContext();
+    for (const webviewPanel of this.webviews.all()) {
+      this.postMessage(webviewPanel.webview, {
+        type: ExtMessageType.LABELING_SESSION,
+        data: undefined,
+      });
+    }
+  }
+
+  // ask the active webview to navigate, it replies with its current label
+  private requestLabelingSessionNavigate(direction: LabelingSessionDirection) {
+    const webviewPanel = this.webviews.getActive();
+    if (webviewPanel) {
+      this.postMessage(webviewPanel.webview, {
+        type: ExtMessageType.LABELING_SESSION_NAVIGATE,
+        data: direction,
+      });
+    }
+  }
+
+  private requestPlayerCommand(command: PlayerCommand) {
+    const webviewPanel = this.webviews.getActive();
+    if (webviewPanel) {
+      this.postMessage(webviewPanel.webview, {
+        type: ExtMessageType.PLAYER_COMMAND,
+        data: command,
+      });
+    }
+  }
+
+  private async navigateLabelingSession(
+    document: AudioPreviewDocument,
+    webviewPanel: vscode.WebviewPanel,
+    direction: LabelingSessionDirection,
+    label: string,
+  ) {
+    const session = this._labelingSession;
+    const audioPath = document.uri.fsPath;
+    if (!session?.getProgress(audioPath)) {
+      return;
+    }
+
+    // auto-save before leaving the file
+    document.editLabel(label);
+    if (document.isLabelDirty || document.isSegmentsDirty) {
+      await this.saveDocument(webviewPanel);
+    }
+
+    const target = await session.navigate(audioPath, direction);
+    if (!target) {
+      this.postMessage(webviewPanel.webview, {
+        type: ExtMessageType.LABELING_SESSION,
+        data: session.getProgress(audioPath),
+      });
+      let message = "No other pending files in the labeling session.";
+      if (direction === "previous") {
+        message = "This is the first file of the labeling session.";
+      } else if (session.isFinished) {
+        message = `Labeling session finished: all ${session.files.length} files are done.`;
+      }
+      vscode.window.showInformationMessage(message);
+      return;
+    }
+
+    await this.openAudioFile(target);
+    // keep a single editor open while going through the queue
+    webviewPanel.dispose();
+  }
+
+  private updateLabelingSessionContext() {
+    vscode.commands.executeCommand(
+      "setContext",
+      "audioLabeller.labelingSessionActive",
+      this._labelingSession !== undefined,
+    );
+  }
+
+  private async openAudioFile(audioPath: string) {
+    await vscode.commands.executeCommand(
+      "vscode.openWith",
+      vscode.Uri.file(audioPath),
+      AudioPreviewEditorProvider.viewType,
+    );
+  }
+
+  private async findAudioFilesInFolder(): Promise<string[] | undefined> {
+    const folders = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: "Start Labeling",
+    });
+    if (!folders || folders.length === 0) {
+      return undefined;
+    }
+    const uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(
+        folders[0],
+        AudioPreviewEditorProvider.audioFileGlob,
+      ),
+    );
+    return this.sortPaths(uris.map((uri) => uri.fsPath));
+  }
+
+  private async findAudioFilesByGlob(): Promise<string[] | undefined> {
+    const glob = await vscode.window.showInputBox({
+      prompt: "Glob pattern of the audio files, relative to the workspace",
+      value: AudioPreviewEditorProvider.audioFileGlob,
+    });
+    if (!glob) {
+      return undefined;
+    }
+    const uris = await vscode.workspace.findFiles(glob);
+    return this.sortPaths(uris.map((uri) => uri.fsPath));
+  }
+
+  // files with the highest error rate first, like the active learning view
+  private async rankAudioFilesByErrorRate(): Promise<string[] | undefined> {
+    const results = Object.values(await this.scanWorkspace());
+    const models = [
+      ...new Set(results.flatMap((r) => Object.keys(r.hypotheses))),
+    ];
+    if (models.length === 0) {
+      vscode.window.showWarningMessage(
+        "No ASR hypotheses found. See the Active Learning section of the README for the file naming convention.",
+      );
+      return undefined;
+    }
+    const model =
+      models.length === 1
+        ? models[0]
+        : await vscode.window.showQuickPick(models, {
+            placeHolder: "Model to rank by",
+          });
+    if (!model) {
+      return undefined;
+    }
+    const metric = await vscode.window.showQuickPick(["WER", "CER"], {
+      placeHolder: "Error rate to rank by",
+    });
+    if (!metric) {
+      return undefined;
+    }
+
+    const calculate = metric === "CER" ? calculateCer : calculateWer;
+    return results
+      .filter((r) => model in r.hypotheses)
+      .map((r) => {
+        const rate = calculate(r.reference, r.hypotheses[model]);
+        // an empty reference and hypothesis give NaN
+        return { file: r.audio, rate: Number.isNaN(rate) ? 0 : rate };
+      })
+      .sort((a, b) => b.rate - a.rate)
+      .map((r) => r.file);
+  }
+
+  private sortPaths(paths: string[]): string[] {
+    return paths.sort((a, b) =>
+      a.localeCompare(b, undefined, { numeric: true }),
+    );
+  }
+
+  private createLabelResolver(uri: vscode.Uri): LabelResolver {
+    const config = vscode.workspace.getConfiguration("AudioLabeller", uri);
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const baseDir = workspaceFolder
+      ? workspaceFolder.uri.fsPath
+      : path.dirname(uri.fsPath);
+    return createLabelResolver(
+      config.get("labelResolver") as LabelResolverConfig,
+      baseDir,
+      (filePath) => vscode.workspace.fs.readFile(vscode.Uri.file(filePath)),
+      (message) => {
+        if (!this._labelResolverErrors.has(message)) {
+          this._labelResolverErrors.add(message);
+          vscode.window.showErrorMessage(message);
+        }
+      },
+    );
+  }
+
+  private getManifestIndex(uri: vscode.Uri): ManifestIndex | undefined {
+    const config = vscode.workspace
+      .getConfiguration("AudioLabeller", uri)
+      .get("manifest") as ManifestConfig;
+    if (!config?.path) {
+      return undefined;
+    }
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const baseDir = workspaceFolder
+      ? workspaceFolder.uri.fsPath
+      : path.dirname(uri.fsPath);
+
+    const cached = this._manifests.get(baseDir);
+    if (cached) {
+      return cached.index;
+    }
+    const index = new ManifestIndex(config, baseDir, {
+      readFile: (filePath) =>
+        vscode.workspace.fs.readFile(vscode.Uri.file(filePath)),
+      writeFile: (filePath, content) =>
+        writeFileAtomic(vscode.Uri.file(filePath), content),
+    });
+    // pick up edits made outside of this extension on the next read
+    const watchers = index.files.map((filePath) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(filePath);
+      watcher.onDidChange(() => index.invalidate());
+      watcher.onDidCreate(() => index.invalidate());
+      watcher.onDidDelete(() => index.invalidate());
+      return watcher;
+    });
+    this._manifests.set(baseDir, { index, watchers });
+    return index;
+  }
+
+  private clearManifests() {
+    for (const { watchers } of this._manifests.values()) {
+      disposeAll(watchers);
+    }
+    this._manifests.clear();
+  }
+
+  private requireLabelPath(document: AudioPreviewDocument): string {
+    if (!document.labelPath) {
+      throw new Error(
+        `No label location is configured for: ${document.uri.fsPath}`,
+      );
+    }
+    return document.labelPath;
+  }
+
+  private async importSegments(
+    document: AudioPreviewDocument,
+  ): Promise<Segment[] | undefined> {
+    const uris = await vscode.window.showOpenDialog({
+      defaultUri: vscode.Uri.file(path.dirname(document.uri.fsPath)),
+      canSelectMany: false,
+      filters: this.getAnnotationFileFilters(),
+      openLabel: "Import",
+    });
+    if (!uris || uris.length === 0) {
+      return undefined;
+    }
+
+    const format = getAnnotationFormat(uris[0].fsPath);
+    if (!format) {
+      throw new Error(`Unsupported annotation file: ${uris[0].fsPath}`);
+    }
+    const data = await vscode.workspace.fs.readFile(uris[0]);
+    const segments = parseAnnotations(format, decodeAnnotationFile(data));
+    vscode.window.showInformationMessage(
+      `Imported ${segments.length} segments from: ${uris[0].fsPath}`,
+    );
+    return segments;
+  }
+
+  private async exportSegments(
+    document: AudioPreviewDocument,
+    segments: Segment[],
+    duration: number,
+  ) {
+    const audioPath = document.uri.fsPath;
+    const fileId = path.basename(audioPath, path.extname(audioPath));
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(path.dirname(audioPath), fileId + ".TextGrid"),
+      ),
+      filters: this.getAnnotationFileFilters(),
+      saveLabel: "Export",
+    });
+    if (!uri) {
+      return;
+    }
+
+    const format = getAnnotationFormat(uri.fsPath);
+    if (!format) {
+      throw new Error(`Unsupported annotation file: ${uri.fsPath}`);
+    }
+    const text = writeAnnotations(format, segments, { duration, fileId });
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+    vscode.window.showInformationMessage(
+      `Success! ${annotationFormatNames[format]} written to: ${uri.fsPath}`,
+    );
+  }
+
+  private async exportPitch(document: AudioPreviewDocument, csv: string) {
+    const audioPath = document.uri.fsPath;
+    const fileId = path.basename(audioPath, path.extname(audioPath));
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(path.dirname(audioPath), fileId + ".f0.csv"),
+      ),
+      filters: { csv: ["csv"] },
+      saveLabel: "Export",
+    });
+    if (!uri) {
+      return;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(csv));
+    vscode.window.showInformationMessage(
+      `Success! Pitch written to: ${uri.fsPath}`,
+    );
+  }
+
+  private getAnnotationFileFilters(): { [name: string]: string[] } {
+    const filters: { [name: string]: string[] } = {};
+    for (const format of Object.values(AnnotationFormat)) {
+      filters[annotationFormatNames[format]] = annotationFileExtensions[format];
+    }
+    return filters;
+  }
+
   private async scanWorkspace(): Promise<{
     [key: string]: {
       audio: string;
@@ -326,30 +1386,52 @@ export class AudioPreviewEditorProvider
         hypotheses: { [model: string]: string };
       };
     } = {};
+    const labelResolvers = new Map<string, LabelResolver>();
 
     for (const audioFile of audioFiles) {
       const audioPath = audioFile.fsPath;
-      const referencePath = getLabelPath(audioPath);
-      const referenceUri = vscode.Uri.file(referencePath);
 
       try {
-        const referenceContent =
-          await vscode.workspace.fs.readFile(referenceUri);
+        // the manifest of a label resolver is read once per workspace folder
+        const folderKey =
+          vscode.workspace.getWorkspaceFolder(audioFile)?.uri.toString() ??
+          audioPath;
+        if (!labelResolvers.has(folderKey)) {
+          labelResolvers.set(folderKey, this.createLabelResolver(audioFile));
+        }
+        const referencePath = await labelResolvers
+          .get(folderKey)
+          .getLabelPath(audioPath);
+        // transcripts in the manifest take precedence over label files
+        const manifestEntry =
+          await this.getManifestIndex(audioFile)?.getEntry(audioPath);
+        if (!referencePath && !manifestEntry) {
+          continue;
+        }
+        const reference = manifestEntry
+          ? manifestEntry.text
+          : (
+              await vscode.workspace.fs.readFile(vscode.Uri.file(referencePath))
+            ).toString();
         const hypotheses: { [model: string]: string } = {};
+        if (!referencePath) {
+          results[audioPath] = { audio: audioPath, reference, hypotheses };
+          continue;
+        }
 
-        const textDir = path.dirname(referencePath);
-        const baseName = path.basename(audioPath, path.extname(audioPath));
         const pattern = new vscode.RelativePattern(
-          vscode.Uri.file(textDir),
-          `${baseName}.*.txt`,
+          vscode.Uri.file(path.dirname(referencePath)),
+          getHypothesisGlob(referencePath),
         );
 
         const hypothesisFiles = await vscode.workspace.findFiles(pattern);
 
         for (const hypothesisFile of hypothesisFiles) {
-          const modelMatch = hypothesisFile.fsPath.match(/\.([^/.]+)\.txt$/);
-          if (modelMatch) {
-            const model = modelMatch[1];
+          const model = getHypothesisModel(
+            referencePath,
+            hypothesisFile.fsPath,
+          );
+          if (model) {
             const hypothesisContent =
               await vscode.workspace.fs.readFile(hypothesisFile);
             hypotheses[model] = hypothesisContent.toString();
@@ -358,7 +1440,7 @@ export class AudioPreviewEditorProvider
 
         results[audioPath] = {
           audio: audioPath,
-          reference: referenceContent.toString(),
+          reference,
           hypotheses,
         };
       } catch (e) {
@@ -386,6 +1468,13 @@ export class AudioPreviewEditorProvider
         scriptName,
       ),
     );
+    const spectrogramWorkerUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(
+        this._context.extensionUri,
+        "dist",
+        "spectrogramWorker.js",
+      ),
+    );
 
     // Use a nonce to whitelist which scripts can be run
     const nonce = getNonce();
@@ -396,14 +1485,14 @@ export class AudioPreviewEditorProvider
             <head>
                 <meta charset="UTF-8">
                 
-                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} blob:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'wasm-unsafe-eval' 'nonce-${nonce}'; connect-src data:;">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} blob:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'wasm-unsafe-eval' 'nonce-${nonce}'; worker-src blob:; connect-src ${webview.cspSource} data:;">
                 
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 
                 <title>Audio Labeller</title>
             </head>
             <body>
-                <div id="root"></div>
+                <div id="root" data-spectrogram-worker="${spectrogramWorkerUri}"></div>
                 <script nonce="${nonce}" src="${scriptUri}"></script>
             </body>
 			</html>
@@ -433,6 +1522,27 @@ class WebviewCollection {
     }
   }
 
+  /**
+   * Get all known webviews.
+   */
+  public *all(): Iterable<vscode.WebviewPanel> {
+    for (const entry of this._webviews) {
+      yield entry.webviewPanel;
+    }
+  }
+
+  /**
+   * Get the webview which is currently active, if any.
+   */
+  public getActive(): vscode.WebviewPanel | undefined {
+    for (const entry of this._webviews) {
+      if (entry.webviewPanel.active) {
+        return entry.webviewPanel;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Add a new webview to the collection.
    */
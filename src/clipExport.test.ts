@@ -0,0 +1,40 @@
+import { expandClipFilename, makeUniqueFilenames } from "./clipExport";
+
+describe("clipExport", () => {
+  const clip = { start: 1.5, end: 2.25, label: "hello world" };
+
+  test("expand placeholders", () => {
+    expect(
+      expandClipFilename(
+        "${name}_${index}_${label}_${start}-${end}",
+        clip,
+        2,
+        120,
+        "speech",
+      ),
+    ).toBe("speech_003_hello_world_1.500-2.250");
+  });
+
+  test("unknown placeholders are kept and invalid characters replaced", () => {
+    expect(expandClipFilename("${label}/${foo}", clip, 0, 1, "a")).toBe(
+      "hello_world_${foo}",
+    );
+  });
+
+  test("empty template uses the default, empty result falls back", () => {
+    expect(expandClipFilename("", clip, 0, 9, "a")).toBe("a_1");
+    expect(
+      expandClipFilename("${label}", { ...clip, label: "" }, 0, 9, "a"),
+    ).toBe("a_1");
+  });
+
+  test("duplicate file names get a suffix", () => {
+    expect(makeUniqueFilenames(["a", "b", "a", "A", "a_2"])).toEqual([
+      "a",
+      "b",
+      "a_2",
+      "A_3",
+      "a_2_2",
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { Segment } from "./segment";
+
+export type ClipManifestFormat = "jsonl" | "csv" | "none";
+
+export const defaultClipFilenameTemplate = "${name}_${index}";
+
+const maxLabelLength = 50;
+
+// characters which can not be used in file names on Windows
+function sanitizeFilename(value: string): string {
+  return value.replace(/[<>:"/\\|?*]+/g, "_");
+}
+
+/*
+File name of a clip without extension. Supported placeholders:
+  ${name}  - name of the source audio file without extension
+  ${index} - 1-based index of the clip, zero-padded to the number of clips
+  ${label} - label of the clip, spaces are replaced with "_"
+  ${start}, ${end} - time range of the clip in seconds
+*/
+export function expandClipFilename(
+  template: string,
+  clip: Segment,
+  index: number,
+  count: number,
+  name: string,
+): string {
+  const label = clip.label.trim().replace(/\s+/g, "_").slice(0, maxLabelLength);
+  const values: { [key: string]: string } = {
+    name,
+    index: String(index + 1).padStart(String(count).length, "0"),
+    label,
+    start: clip.start.toFixed(3),
+    end: clip.end.toFixed(3),
+  };
+  const filename = (template || defaultClipFilenameTemplate).replace(
+    /\$\{(\w+)\}/g,
+    (match, key: string) => values[key] ?? match,
+  );
+  return sanitizeFilename(filename) || `${name}_${values.index}`;
+}
+
+// append _2, _3, ... to file names which are already used
+export function makeUniqueFilenames(filenames: string[]): string[] {
+  const used = new Set<string>();
+  return filenames.map((filename) => {
+    let unique = filename;
+    for (let i = 2; used.has(unique.toLowerCase()); i++) {
+      unique = `${filename}_${i}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
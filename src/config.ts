@@ -2,6 +2,7 @@ export interface Config {
   autoAnalyze: boolean;
   playerDefault: PlayerDefault;
   analyzeDefault: AnalyzeDefault;
+  exportDefault: ExportDefault;
 }
 
 export type PlayerDefault = {
@@ -16,11 +17,36 @@ export type PlayerDefault = {
   lpfFrequency?: number;
   matchFilterFrequencyToSpectrogram?: boolean;
   playbackRate?: number;
+  // time-stretch instead of resampling when the playback rate is not 1
+  preservePitch?: boolean;
+  // seconds played before and after the A/B loop
+  loopPreRoll?: number;
+  loopPostRoll?: number;
+  // transcriber-style controls
+  autoRewindSec?: number;
+  skipSec?: number;
+  speedStep?: number;
+  // KeyboardEvent.code of the key which plays while it is held, e.g. "F12"
+  holdToPlayKey?: string;
+  // listen to the sum of the channels in both speakers
+  monoSum?: boolean;
 };
 
 export type AnalyzeDefault = {
   fftSize?: number;
-  windowFunction?: "hann" | "hamming" | "blackman" | "rectangular";
+  windowFunction?:
+    | "hann"
+    | "hamming"
+    | "blackman"
+    | "rectangular"
+    | "kaiser"
+    | "gaussian"
+    | "flattop";
+  // shape of the kaiser window, larger values give lower side lobes
+  kaiserBeta?: number;
+  // width of the gaussian window relative to its half length
+  gaussianSigma?: number;
+  spectrogramType?: "stft" | "cqt" | "mfcc" | "chroma" | "reassigned";
   frequencyScale?: "linear" | "log" | number;
   minFrequency?: number;
   maxFrequency?: number;
@@ -32,7 +58,51 @@ export type AnalyzeDefault = {
   spectrogramVerticalScale?: number;
   windowSizeIndex?: number;
   melFilterNum?: number;
+  // number of MFCC coefficients, 20 like librosa
+  mfccNum?: number;
+  // melScale "slaney" with melNorm "slaney" matches librosa, "htk" with "none" matches torchaudio
+  melScale?: "slaney" | "htk";
+  melNorm?: "slaney" | "none";
   minAmplitude?: number;
   maxAmplitude?: number;
   spectrogramAmplitudeRange?: number;
+  followPlayhead?: "off" | "page" | "scroll";
+  // F0 contour over the spectrogram, searched between minF0 and maxF0 in Hz
+  pitchVisible?: boolean;
+  minF0?: number;
+  maxF0?: number;
+  // LPC formants over the spectrogram, like Praat's "To Formant (burg)"
+  formantVisible?: boolean;
+  maxFormant?: number;
+  numFormants?: number;
+  // effective window length in seconds
+  formantWindowLength?: number;
+};
+
+// format of exported audio files, see webview/encoder.ts
+export type ExportDefault = {
+  fileFormat?: "wav" | "flac" | "opus" | "mp3";
+  sampleFormat?: "int16" | "int24" | "int32" | "float32";
+  sampleRate?: number;
+  // "all", "mix" (downmix to mono) or the 0-based index of the channel to keep
+  channels?: "all" | "mix" | number;
+  // FLAC compression level, or bitrate in kbps for Opus and MP3
+  quality?: number;
+};
+
+// where to find the label of an audio file, see labelResolver.ts
+export type LabelResolverConfig = {
+  type?: "template" | "sibling" | "jsonManifest";
+  template?: string;
+  extension?: string;
+  manifest?: string;
+};
+
+// corpus manifest which holds the transcripts, see manifest/manifestIndex.ts
+export type ManifestConfig = {
+  type?: "kaldi" | "jsonl" | "csv";
+  // Kaldi data directory, or JSONL / CSV file
+  path?: string;
+  audioField?: string;
+  textField?: string;
 };
@@ -1,13 +1,17 @@
 #include <emscripten/bind.h>
+#include <emscripten/val.h>
 #include <string>
 #include <vector>
 #include <limits>
 #include <cmath>
+#include <cstdio>
+#include <algorithm>
 
 extern "C" {
     #define __STDC_CONSTANT_MACROS
     #include <libavutil/log.h>
     #include <libavutil/opt.h>
+    #include <libavutil/channel_layout.h>
     #include <libavcodec/avcodec.h>
     #include <libavformat/avformat.h>
 };
@@ -26,11 +30,6 @@ typedef struct AudioInfo {
     float duration;
 } AudioInfo;
 
-typedef struct DecodeAudioResult {
-  Status status;
-  std::vector<float> samples;
-} DecodeAudioResult;
-
 std::string get_error_str(int status) {
   char errbuf[AV_ERROR_MAX_STRING_SIZE];
   av_make_error_string(errbuf, AV_ERROR_MAX_STRING_SIZE, status);
@@ -191,69 +190,398 @@ AudioInfo getAudioInfo(const std::string& path) {
     return audio_info;
 }
 
-DecodeAudioResult decode_audio(const std::string& path) {
-    av_log_set_level(AV_LOG_ERROR);
+/*
+Decode the audio in chunks, so that the beginning of long recordings can be shown
+before the whole file is decoded and the decoded samples do not pile up in the wasm heap.
+*/
+class AudioStreamDecoder {
+public:
+    Status open(const std::string& path) {
+        av_log_set_level(AV_LOG_ERROR);
+
+        Status status = open_audio_stream(path, format_, codec_, audio_stream_index_);
+        if (status.status < 0) {
+            close();
+            return status;
+        }
+        packet_ = av_packet_alloc();
+        frame_ = av_frame_alloc();
+        if (!packet_ || !frame_) {
+            close();
+            status.status = -1;
+            status.error = "av_packet_alloc/av_frame_alloc: Failed to allocate decoder frame";
+            return status;
+        }
+        done_ = false;
+        flushing_ = false;
+        return status;
+    }
+
+    // decode at least min_samples interleaved samples unless the end is reached
+    Status decode(int min_samples) {
+        Status status;
+        samples_.clear();
+        if (!codec_ || done_) {
+            return status;
+        }
+
+        while (static_cast<int>(samples_.size()) < min_samples) {
+            // receive uncompressed frames already in the decoder
+            status.status = avcodec_receive_frame(codec_, frame_);
+            if (status.status >= 0) {
+                read_samples(frame_, codec_->sample_fmt, samples_);
+                av_frame_unref(frame_);
+                continue;
+            }
+            if (status.status == AVERROR_EOF) {
+                done_ = true;
+                break;
+            }
+            if (status.status != AVERROR(EAGAIN)) {
+                status.error = "avcodec_receive_frame: " + get_error_str(status.status);
+                return status;
+            }
+
+            // send the next compressed packet, or flush the decoder at the end of the file
+            if (flushing_) {
+                done_ = true;
+                break;
+            }
+            status.status = av_read_frame(format_, packet_);
+            if (status.status < 0) {
+                flushing_ = true;
+                avcodec_send_packet(codec_, nullptr);
+                continue;
+            }
+            if (packet_->stream_index == audio_stream_index_) {
+                status.status = avcodec_send_packet(codec_, packet_);
+                if (status.status < 0 && status.status != AVERROR(EAGAIN) && status.status != AVERROR_EOF) {
+                    av_packet_unref(packet_);
+                    status.error = "avcodec_send_packet: " + get_error_str(status.status);
+                    return status;
+                }
+            }
+            av_packet_unref(packet_);
+        }
+
+        status.status = 0;
+        return status;
+    }
+
+    // view of the samples of the last chunk, valid until the next call of decode
+    emscripten::val get_samples() const {
+        return emscripten::val(emscripten::typed_memory_view(samples_.size(), samples_.data()));
+    }
+
+    bool is_done() const {
+        return done_;
+    }
+
+    void close() {
+        close_audio_stream(format_, codec_, frame_, packet_);
+        format_ = nullptr;
+        codec_ = nullptr;
+        frame_ = nullptr;
+        packet_ = nullptr;
+        samples_.clear();
+        samples_.shrink_to_fit();
+        done_ = true;
+    }
+
+private:
+    AVFormatContext* format_ = nullptr;
+    AVCodecContext* codec_ = nullptr;
+    AVFrame* frame_ = nullptr;
+    AVPacket* packet_ = nullptr;
+    int audio_stream_index_ = -1;
+    bool done_ = true;
+    bool flushing_ = false;
+    std::vector<float> samples_;
+};
+
+template <typename SampleType>
+void write_samples(AVFrame* frame, const std::vector<float>& src, size_t offset, bool is_planar) {
+    // samples are interleaved float in [-1, 1], zero after the end of src
+    const float max_numeric = static_cast<float>(std::numeric_limits<SampleType>::max());
+    for (int i = 0; i < frame->nb_samples; i++) {
+        for (int j = 0; j < frame->channels; j++) {
+            size_t index = (offset + i) * frame->channels + j;
+            float sample = index < src.size() ? std::max(-1.0f, std::min(1.0f, src[index])) : 0.0f;
+            SampleType value = static_cast<SampleType>(std::lround(static_cast<double>(sample) * max_numeric));
+            if (is_planar) {
+                reinterpret_cast<SampleType*>(frame->extended_data[j])[i] = value;
+            } else {
+                reinterpret_cast<SampleType*>(frame->data[0])[i * frame->channels + j] = value;
+            }
+        }
+    }
+}
+
+template <>
+void write_samples<float>(AVFrame* frame, const std::vector<float>& src, size_t offset, bool is_planar) {
+    for (int i = 0; i < frame->nb_samples; i++) {
+        for (int j = 0; j < frame->channels; j++) {
+            size_t index = (offset + i) * frame->channels + j;
+            float sample = index < src.size() ? src[index] : 0.0f;
+            if (is_planar) {
+                reinterpret_cast<float*>(frame->extended_data[j])[i] = sample;
+            } else {
+                reinterpret_cast<float*>(frame->data[0])[i * frame->channels + j] = sample;
+            }
+        }
+    }
+}
+
+int write_samples(AVFrame* frame, AVSampleFormat format, const std::vector<float>& src, size_t offset) {
+    bool is_planar = av_sample_fmt_is_planar(format);
+    switch (format) {
+    case AV_SAMPLE_FMT_S16:
+    case AV_SAMPLE_FMT_S16P:
+        write_samples<int16_t>(frame, src, offset, is_planar);
+        return 0;
+    case AV_SAMPLE_FMT_S32:
+    case AV_SAMPLE_FMT_S32P:
+        write_samples<int32_t>(frame, src, offset, is_planar);
+        return 0;
+    case AV_SAMPLE_FMT_FLT:
+    case AV_SAMPLE_FMT_FLTP:
+        write_samples<float>(frame, src, offset, is_planar);
+        return 0;
+    default:
+        return -1;
+    }
+}
+
+// the first sample format supported by the encoder, integer formats are preferred to keep the bit depth
+AVSampleFormat select_sample_format(const AVCodec* encoder, int bits_per_sample) {
+    const AVSampleFormat preferred_16[] = { AV_SAMPLE_FMT_S16, AV_SAMPLE_FMT_S16P, AV_SAMPLE_FMT_S32, AV_SAMPLE_FMT_S32P, AV_SAMPLE_FMT_FLT, AV_SAMPLE_FMT_FLTP };
+    const AVSampleFormat preferred_32[] = { AV_SAMPLE_FMT_S32, AV_SAMPLE_FMT_S32P, AV_SAMPLE_FMT_FLT, AV_SAMPLE_FMT_FLTP, AV_SAMPLE_FMT_S16, AV_SAMPLE_FMT_S16P };
+    const AVSampleFormat* preferred = bits_per_sample <= 16 ? preferred_16 : preferred_32;
+    for (int i = 0; i < 6; i++) {
+        for (const AVSampleFormat* f = encoder->sample_fmts; f && *f != AV_SAMPLE_FMT_NONE; f++) {
+            if (*f == preferred[i]) {
+                return *f;
+            }
+        }
+    }
+    return AV_SAMPLE_FMT_NONE;
+}
 
+bool read_input_samples(const std::string& path, std::vector<float>& dest) {
+    std::FILE* file = std::fopen(path.c_str(), "rb");
+    if (!file) {
+        return false;
+    }
+    std::fseek(file, 0, SEEK_END);
+    long size = std::ftell(file);
+    std::fseek(file, 0, SEEK_SET);
+    dest.resize(size / sizeof(float));
+    size_t read = std::fread(dest.data(), sizeof(float), dest.size(), file);
+    std::fclose(file);
+    return read == dest.size();
+}
+
+Status encode_frame(AVFormatContext* format, AVCodecContext* codec, AVStream* stream, AVFrame* frame, AVPacket* packet) {
     Status status;
-    AVFormatContext* format;
-    AVCodecContext* codec;
-    int audio_stream_index;
+    // frame is nullptr to flush the encoder
+    if ((status.status = avcodec_send_frame(codec, frame)) < 0) {
+        status.error = "avcodec_send_frame: " + get_error_str(status.status);
+        return status;
+    }
+    while ((status.status = avcodec_receive_packet(codec, packet)) >= 0) {
+        av_packet_rescale_ts(packet, codec->time_base, stream->time_base);
+        packet->stream_index = stream->index;
+        if ((status.status = av_interleaved_write_frame(format, packet)) < 0) {
+            status.error = "av_interleaved_write_frame: " + get_error_str(status.status);
+            return status;
+        }
+    }
+    if (status.status != AVERROR(EAGAIN) && status.status != AVERROR_EOF) {
+        status.error = "avcodec_receive_packet: " + get_error_str(status.status);
+        return status;
+    }
+    status.status = 0;
+    return status;
+}
 
-    status = open_audio_stream(path, format, codec, audio_stream_index);
-    if (status.status < 0) {
-        close_audio_stream(format, codec, nullptr, nullptr);
-        // check if vector is undefined/null in js
-        return { status };
+void close_output_stream(AVFormatContext* format, AVCodecContext* codec, AVFrame* frame, AVPacket* packet) {
+    if (format) {
+    if (format->pb) {
+        avio_closep(&format->pb);
+    }
+    avformat_free_context(format);
+    }
+    if (codec) {
+    avcodec_free_context(&codec);
+    }
+    if (packet) {
+    av_packet_free(&packet);
+    }
+    if (frame) {
+    av_frame_free(&frame);
     }
+}
 
-    AVPacket* packet = av_packet_alloc();
-    AVFrame* frame = av_frame_alloc();
-    if (!packet || !frame) {
-        close_audio_stream(format, codec, frame, packet);
+/*
+Encode interleaved float samples in input_path to output_path.
+format_name is "flac", "opus" or "mp3".
+quality is the compression level for FLAC and the bitrate in kbps for the others.
+*/
+Status encode_audio(
+    const std::string& input_path,
+    const std::string& output_path,
+    int sample_rate,
+    int channels,
+    const std::string& format_name,
+    int bits_per_sample,
+    int quality
+) {
+    av_log_set_level(AV_LOG_ERROR);
+
+    Status status;
+    std::string codec_name, muxer_name;
+    if (format_name == "flac") {
+        codec_name = "flac";
+        muxer_name = "flac";
+    } else if (format_name == "opus") {
+        codec_name = "libopus";
+        muxer_name = "ogg";
+    } else if (format_name == "mp3") {
+        codec_name = "libmp3lame";
+        muxer_name = "mp3";
+    } else {
         status.status = -1;
-        status.error = "av_packet_alloc/av_frame_alloc: Failed to allocate decoder frame";
-        return { status };
+        status.error = "Unsupported format: " + format_name;
+        return status;
     }
 
-    // decode loop 
     std::vector<float> samples;
-    while ((status.status = av_read_frame(format, packet)) >= 0) {
-        if (packet->stream_index == audio_stream_index) {
-            // send compressed packet to decoder
-            status.status = avcodec_send_packet(codec, packet);
-            if (status.status == AVERROR(EAGAIN) || status.status == AVERROR_EOF) {
-                continue;
-            } else if (status.status < 0) {
-                close_audio_stream(format, codec, frame, packet);
-                status.error = "avcodec_send_packet: " + get_error_str(status.status);
-                return { status };
-            }
+    if (!read_input_samples(input_path, samples)) {
+        status.status = -1;
+        status.error = "Failed to read input samples";
+        return status;
+    }
 
-            // receive uncompressed frame from decoder
-            while ((status.status = avcodec_receive_frame(codec, frame)) >= 0) {
-                if (status.status == AVERROR(EAGAIN) || status.status == AVERROR_EOF) {
-                    break;
-                } else if (status.status < 0) {
-                    close_audio_stream(format, codec, frame, packet);
-                    status.error = "avcodec_receive_frame: " + get_error_str(status.status);
-                    return { status };
-                }
+    AVFormatContext* format = nullptr;
+    AVCodecContext* codec = nullptr;
+    AVFrame* frame = nullptr;
+    AVPacket* packet = nullptr;
 
-                // read samples from frame into result
-                read_samples(frame, codec->sample_fmt, samples);
-                av_frame_unref(frame);
-            }
+    if ((status.status = avformat_alloc_output_context2(&format, nullptr, muxer_name.c_str(), output_path.c_str())) < 0) {
+        status.error = "avformat_alloc_output_context2: " + get_error_str(status.status);
+        return status;
+    }
+    AVCodec* encoder = avcodec_find_encoder_by_name(codec_name.c_str());
+    if (!encoder) {
+        close_output_stream(format, codec, frame, packet);
+        status.status = -1;
+        status.error = "avcodec_find_encoder_by_name: Failed to find " + codec_name;
+        return status;
+    }
+    AVStream* stream = avformat_new_stream(format, nullptr);
+    codec = avcodec_alloc_context3(encoder);
+    if (!stream || !codec) {
+        close_output_stream(format, codec, frame, packet);
+        status.status = -1;
+        status.error = "avformat_new_stream/avcodec_alloc_context3: Failed to allocate encoder";
+        return status;
+    }
 
-            av_packet_unref(packet);
+    codec->sample_fmt = select_sample_format(encoder, bits_per_sample);
+    codec->sample_rate = sample_rate;
+    codec->channels = channels;
+    codec->channel_layout = av_get_default_channel_layout(channels);
+    codec->time_base = { 1, sample_rate };
+    if (format_name == "flac") {
+        codec->compression_level = quality;
+        if (codec->sample_fmt == AV_SAMPLE_FMT_S32) {
+            codec->bits_per_raw_sample = bits_per_sample;
         }
+    } else {
+        codec->bit_rate = static_cast<int64_t>(quality) * 1000;
+    }
+    if (format->oformat->flags & AVFMT_GLOBALHEADER) {
+        codec->flags |= AV_CODEC_FLAG_GLOBAL_HEADER;
+    }
+
+    if ((status.status = avcodec_open2(codec, encoder, nullptr)) < 0) {
+        close_output_stream(format, codec, frame, packet);
+        status.error = "avcodec_open2: " + get_error_str(status.status);
+        return status;
+    }
+    if ((status.status = avcodec_parameters_from_context(stream->codecpar, codec)) < 0) {
+        close_output_stream(format, codec, frame, packet);
+        status.error = "avcodec_parameters_from_context: " + get_error_str(status.status);
+        return status;
+    }
+    stream->time_base = codec->time_base;
+    if ((status.status = avio_open(&format->pb, output_path.c_str(), AVIO_FLAG_WRITE)) < 0) {
+        close_output_stream(format, codec, frame, packet);
+        status.error = "avio_open: " + get_error_str(status.status);
+        return status;
+    }
+    if ((status.status = avformat_write_header(format, nullptr)) < 0) {
+        close_output_stream(format, codec, frame, packet);
+        status.error = "avformat_write_header: " + get_error_str(status.status);
+        return status;
+    }
+
+    packet = av_packet_alloc();
+    frame = av_frame_alloc();
+    if (!packet || !frame) {
+        close_output_stream(format, codec, frame, packet);
+        status.status = -1;
+        status.error = "av_packet_alloc/av_frame_alloc: Failed to allocate encoder frame";
+        return status;
+    }
+
+    // encode loop, frame_size is 0 if the encoder accepts any number of samples
+    size_t length = samples.size() / channels;
+    bool variable_frame_size = codec->codec->capabilities & AV_CODEC_CAP_VARIABLE_FRAME_SIZE;
+    bool small_last_frame = codec->codec->capabilities & AV_CODEC_CAP_SMALL_LAST_FRAME;
+    int frame_size = codec->frame_size > 0 && !variable_frame_size ? codec->frame_size : 4096;
+    for (size_t offset = 0; offset < length; offset += frame_size) {
+        int nb_samples = static_cast<int>(std::min<size_t>(frame_size, length - offset));
+        // pad the last frame with silence if the encoder needs full frames
+        frame->nb_samples = nb_samples < frame_size && !variable_frame_size && !small_last_frame ? frame_size : nb_samples;
+        frame->format = codec->sample_fmt;
+        frame->channels = codec->channels;
+        frame->channel_layout = codec->channel_layout;
+        frame->sample_rate = codec->sample_rate;
+        frame->pts = offset;
+        if ((status.status = av_frame_get_buffer(frame, 0)) < 0) {
+            close_output_stream(format, codec, frame, packet);
+            status.error = "av_frame_get_buffer: " + get_error_str(status.status);
+            return status;
+        }
+        write_samples(frame, codec->sample_fmt, samples, offset);
+
+        status = encode_frame(format, codec, stream, frame, packet);
+        av_frame_unref(frame);
+        if (status.status < 0) {
+            close_output_stream(format, codec, frame, packet);
+            return status;
+        }
+    }
+
+    // flush
+    status = encode_frame(format, codec, stream, nullptr, packet);
+    if (status.status < 0) {
+        close_output_stream(format, codec, frame, packet);
+        return status;
+    }
+    if ((status.status = av_write_trailer(format)) < 0) {
+        close_output_stream(format, codec, frame, packet);
+        status.error = "av_write_trailer: " + get_error_str(status.status);
+        return status;
     }
 
     // cleanup
-    close_audio_stream(format, codec, frame, packet);
+    close_output_stream(format, codec, frame, packet);
 
     // success
     status.status = 0;
-    return { status, samples };
+    return status;
 }
 
 EMSCRIPTEN_BINDINGS(structs) {
@@ -267,10 +595,13 @@ EMSCRIPTEN_BINDINGS(structs) {
         .field("sampleRate",  &AudioInfo::sample_rate)
         .field("numChannels",  &AudioInfo::channels)
         .field("duration",  &AudioInfo::duration);
-    emscripten::value_object<DecodeAudioResult>("DecodeAudioResult")
-        .field("status", &DecodeAudioResult::status)
-        .field("samples", &DecodeAudioResult::samples);
     emscripten::function("getAudioInfo", &getAudioInfo);
-    emscripten::function("decodeAudio", &decode_audio);
-    emscripten::register_vector<float>("vector<float>");
+    emscripten::function("encodeAudio", &encode_audio);
+    emscripten::class_<AudioStreamDecoder>("AudioStreamDecoder")
+        .constructor<>()
+        .function("open", &AudioStreamDecoder::open)
+        .function("decode", &AudioStreamDecoder::decode)
+        .function("getSamples", &AudioStreamDecoder::get_samples)
+        .function("isDone", &AudioStreamDecoder::is_done)
+        .function("close", &AudioStreamDecoder::close);
 }
@@ -0,0 +1,43 @@
+// word and character error rates between a reference and an ASR hypothesis
+
+export function calculateWer(ref: string, hyp: string): number {
+  const refWords = ref.split(" ").filter((w) => w.length > 0);
+  const hypWords = hyp.split(" ").filter((w) => w.length > 0);
+  const d = levenshteinDistance(refWords, hypWords);
+  return d / refWords.length;
+}
+
+export function calculateCer(ref: string, hyp: string): number {
+  const refChars = Array.from(ref.replace(/\s/g, ""));
+  const hypChars = Array.from(hyp.replace(/\s/g, ""));
+  const d = levenshteinDistance(refChars, hypChars);
+  return d / refChars.length;
+}
+
+export function levenshteinDistance<T>(a: T[], b: T[]): number {
+  const matrix = [];
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b[i - 1] === a[j - 1]) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1,
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+}
@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+import * as path from "path";
+import {
+  createLabelResolver,
+  expandLabelTemplate,
+  getHypothesisGlob,
+  getHypothesisModel,
+  getSegmentsPath,
+  JsonManifestLabelResolver,
+} from "./labelResolver";
+
+const root = path.resolve("/data");
+
+function fakeReadFile(files: { [path: string]: string }) {
+  const readFile = jest.fn(async (filePath: string) => {
+    if (!(filePath in files)) {
+      throw new Error(`not found: ${filePath}`);
+    }
+    return new TextEncoder().encode(files[filePath]);
+  });
+  return readFile;
+}
+
+describe("labelResolver", () => {
+  test("default resolver should keep the text directory layout", async () => {
+    const resolver = createLabelResolver(
+      undefined,
+      root,
+      fakeReadFile({}),
+      jest.fn(),
+    );
+    expect(await resolver.getLabelPath(path.join(root, "wav", "a.wav"))).toBe(
+      path.join(root, "text", "a.txt"),
+    );
+  });
+
+  test("expandLabelTemplate should expand variables", () => {
+    const audioPath = path.join(root, "wav", "a.flac");
+    expect(expandLabelTemplate("${dir}/${name}.${ext}.lab", audioPath)).toBe(
+      path.join(root, "wav", "a.flac.lab"),
+    );
+    expect(expandLabelTemplate("../labels/${name}.txt", audioPath)).toBe(
+      path.join(root, "labels", "a.txt"),
+    );
+    expect(expandLabelTemplate("${unknown}.txt", audioPath)).toBe(
+      path.join(root, "wav", "${unknown}.txt"),
+    );
+  });
+
+  test("sibling resolver should replace the extension", async () => {
+    const resolver = createLabelResolver(
+      { type: "sibling", extension: "lab" },
+      root,
+      fakeReadFile({}),
+      jest.fn(),
+    );
+    expect(await resolver.getLabelPath(path.join(root, "wav", "a.b.wav"))).toBe(
+      path.join(root, "wav", "a.b.lab"),
+    );
+  });
+
+  test("json manifest resolver should resolve paths against the manifest", async () => {
+    const manifestPath = path.join(root, "meta", "labels.json");
+    const readFile = fakeReadFile({
+      [manifestPath]: JSON.stringify(
+        Object.fromEntries([
+          ["../wav/a.wav", "../text/a.txt"],
+          [path.join(root, "b.wav"), "b.txt"],
+        ]),
+      ),
+    });
+    const resolver = createLabelResolver(
+      { type: "jsonManifest", manifest: "meta/labels.json" },
+      root,
+      readFile,
+      jest.fn(),
+    );
+    expect(await resolver.getLabelPath(path.join(root, "wav", "a.wav"))).toBe(
+      path.join(root, "text", "a.txt"),
+    );
+    expect(await resolver.getLabelPath(path.join(root, "b.wav"))).toBe(
+      path.join(root, "meta", "b.txt"),
+    );
+    expect(
+      await resolver.getLabelPath(path.join(root, "c.wav")),
+    ).toBeUndefined();
+    expect(readFile).toHaveBeenCalledTimes(1);
+  });
+
+  test("json manifest resolver should reject non-object manifest", async () => {
+    const manifestPath = path.join(root, "labels.json");
+    const resolver = new JsonManifestLabelResolver(
+      manifestPath,
+      fakeReadFile({ [manifestPath]: "[]" }),
+    );
+    await expect(
+      resolver.getLabelPath(path.join(root, "a.wav")),
+    ).rejects.toThrow("Label manifest must be a JSON object");
+  });
+
+  test("json manifest resolver without manifest setting falls back to the default", async () => {
+    const reportError = jest.fn();
+    const resolver = createLabelResolver(
+      { type: "jsonManifest" },
+      root,
+      fakeReadFile({}),
+      reportError,
+    );
+    expect(reportError).toHaveBeenCalledWith(
+      expect.stringContaining("labelResolver.manifest is not set"),
+    );
+    expect(await resolver.getLabelPath(path.join(root, "wav", "a.wav"))).toBe(
+      path.join(root, "text", "a.txt"),
+    );
+  });
+
+  test("json manifest resolver falls back to the default if the manifest cannot be read", async () => {
+    const reportError = jest.fn();
+    const readFile = fakeReadFile({
+      [path.join(root, "invalid.json")]: "{",
+    });
+    for (const manifest of ["missing.json", "invalid.json"]) {
+      const resolver = createLabelResolver(
+        { type: "jsonManifest", manifest },
+        root,
+        readFile,
+        reportError,
+      );
+      expect(await resolver.getLabelPath(path.join(root, "wav", "a.wav"))).toBe(
+        path.join(root, "text", "a.txt"),
+      );
+      expect(await resolver.getLabelPath(path.join(root, "wav", "b.wav"))).toBe(
+        path.join(root, "text", "b.txt"),
+      );
+    }
+    // reported once for each resolver, the manifest is not read again
+    expect(reportError).toHaveBeenCalledTimes(2);
+    expect(reportError).toHaveBeenCalledWith(
+      expect.stringContaining(`not found: ${path.join(root, "missing.json")}`),
+    );
+    expect(readFile).toHaveBeenCalledTimes(2);
+  });
+
+  test("sidecar paths should follow the label path", () => {
+    const labelPath = path.join(root, "text", "a.lab");
+    expect(getSegmentsPath(labelPath)).toBe(
+      path.join(root, "text", "a.segments.json"),
+    );
+    expect(getHypothesisGlob(labelPath)).toBe("a.*.lab");
+    expect(
+      getHypothesisModel(labelPath, path.join(root, "text", "a.whisper.lab")),
+    ).toBe("whisper");
+    expect(
+      getHypothesisModel(labelPath, path.join(root, "text", "a.x.y.lab")),
+    ).toBeUndefined();
+    expect(
+      getHypothesisModel(labelPath, path.join(root, "text", "ab.whisper.lab")),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import * as path from "path";
+import { LabelResolverConfig } from "./config";
+
+export type ReadFile = (filePath: string) => PromiseLike<Uint8Array>;
+export type ReportError = (message: string) => void;
+
+// Decide where the label (transcript) of an audio file is stored
+export interface LabelResolver {
+  // return undefined if the audio file has no label location
+  getLabelPath(audioPath: string): Promise<string | undefined>;
+}
+
+export const defaultLabelTemplate = "${parentDir}/text/${name}.txt";
+
+/*
+Expand a path template. Available variables:
+  ${dir}       directory of the audio file
+  ${parentDir} parent directory of ${dir}
+  ${name}      filename of the audio file without extension
+  ${ext}       extension of the audio file without the leading dot
+Relative results are resolved against the directory of the audio file.
+*/
+export function expandLabelTemplate(
+  template: string,
+  audioPath: string,
+): string {
+  const dir = path.dirname(audioPath);
+  const ext = path.extname(audioPath);
+  const variables: { [key: string]: string } = {
+    dir,
+    parentDir: path.dirname(dir),
+    name: path.basename(audioPath, ext),
+    ext: ext.replace(/^\./, ""),
+  };
+  const expanded = template.replace(/\$\{(\w+)\}/g, (match, key) =>
+    key in variables ? variables[key] : match,
+  );
+  return path.resolve(dir, expanded);
+}
+
+export class TemplateLabelResolver implements LabelResolver {
+  constructor(private readonly _template: string) {}
+
+  public async getLabelPath(audioPath: string) {
+    return expandLabelTemplate(this._template, audioPath);
+  }
+}
+
+// <dir>/<name>.wav -> <dir>/<name><extension>
+export class SiblingLabelResolver implements LabelResolver {
+  private readonly _extension: string;
+
+  constructor(extension: string) {
+    this._extension = extension.startsWith(".") ? extension : "." + extension;
+  }
+
+  public async getLabelPath(audioPath: string) {
+    const ext = path.extname(audioPath);
+    return path.join(
+      path.dirname(audioPath),
+      path.basename(audioPath, ext) + this._extension,
+    );
+  }
+}
+
+/*
+Look up the label path in a JSON manifest such as {"audio/a.wav": "text/a.txt"}
+Relative paths in the manifest are resolved against the directory of the manifest.
+*/
+export class JsonManifestLabelResolver implements LabelResolver {
+  private _entries: Map<string, string>;
+
+  constructor(
+    private readonly _manifestPath: string,
+    private readonly _readFile: ReadFile,
+  ) {}
+
+  public async getLabelPath(audioPath: string) {
+    const entries = await this.loadEntries();
+    return entries.get(path.resolve(audioPath));
+  }
+
+  private async loadEntries(): Promise<Map<string, string>> {
+    if (this._entries) {
+      return this._entries;
+    }
+    const data = await this._readFile(this._manifestPath);
+    const manifest = JSON.parse(new TextDecoder().decode(data));
+    if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) {
+      throw new Error(
+        `Label manifest must be a JSON object: ${this._manifestPath}`,
+      );
+    }
+    const baseDir = path.dirname(this._manifestPath);
+    this._entries = new Map();
+    for (const [audio, label] of Object.entries(manifest)) {
+      if (typeof label === "string") {
+        this._entries.set(
+          path.resolve(baseDir, audio),
+          path.resolve(baseDir, label),
+        );
+      }
+    }
+    return this._entries;
+  }
+}
+
+/*
+Use the fallback if the resolver fails, e.g. when its manifest is missing or invalid.
+The error is reported once, and the fallback is used from then on.
+*/
+export class FallbackLabelResolver implements LabelResolver {
+  private _failed = false;
+
+  constructor(
+    private readonly _resolver: LabelResolver,
+    private readonly _fallback: LabelResolver,
+    private readonly _reportError: ReportError,
+  ) {}
+
+  public async getLabelPath(audioPath: string) {
+    if (!this._failed) {
+      try {
+        return await this._resolver.getLabelPath(audioPath);
+      } catch (e) {
+        this._failed = true;
+        this._reportError(`${e.message}, using ${defaultLabelTemplate}`);
+      }
+    }
+    return this._fallback.getLabelPath(audioPath);
+  }
+}
+
+/*
+baseDir is used to resolve a relative manifest path, usually the workspace folder.
+An invalid setting is reported and the default template is used instead.
+*/
+export function createLabelResolver(
+  config: LabelResolverConfig | undefined,
+  baseDir: string,
+  readFile: ReadFile,
+  reportError: ReportError,
+): LabelResolver {
+  switch (config?.type) {
+    case "sibling":
+      return new SiblingLabelResolver(config.extension || ".txt");
+    case "jsonManifest":
+      if (!config.manifest) {
+        reportError(
+          `labelResolver.manifest is not set, using ${defaultLabelTemplate}`,
+        );
+        return new TemplateLabelResolver(defaultLabelTemplate);
+      }
+      return new FallbackLabelResolver(
+        new JsonManifestLabelResolver(
+          path.resolve(baseDir, config.manifest),
+          readFile,
+        ),
+        new TemplateLabelResolver(defaultLabelTemplate),
+        reportError,
+      );
+    case "template":
+    default:
+      return new TemplateLabelResolver(
+        config?.template || defaultLabelTemplate,
+      );
+  }
+}
+
+// segments are stored in a sidecar json file next to the label file
+export function getSegmentsPath(labelPath: string): string {
+  const ext = path.extname(labelPath);
+  return path.join(
+    path.dirname(labelPath),
+    path.basename(labelPath, ext) + ".segments.json",
+  );
+}
+
+// hypotheses of ASR models are stored as <label name>.<model><label ext>
+export function getHypothesisGlob(labelPath: string): string {
+  const ext = path.extname(labelPath);
+  return `${path.basename(labelPath, ext)}.*${ext}`;
+}
+
+export function getHypothesisModel(
+  labelPath: string,
+  hypothesisPath: string,
+): string | undefined {
+  const ext = path.extname(labelPath);
+  const prefix = path.basename(labelPath, ext) + ".";
+  const filename = path.basename(hypothesisPath);
+  if (!filename.startsWith(prefix) || !filename.endsWith(ext)) {
+    return undefined;
+  }
+  const model = filename.slice(prefix.length, filename.length - ext.length);
+  // segments sidecar and nested extensions are not hypotheses
+  if (!model || model.includes(".") || model === "segments") {
+    return undefined;
+  }
+  return model;
+}
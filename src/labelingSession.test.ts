@@ -0,0 +1,70 @@
+import { LabelingSession, SessionStorage } from "./labelingSession";
+
+function createStorage(): SessionStorage & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    get: <T>(key: string) => data.get(key) as T,
+    update: async (key: string, value: unknown) => {
+      data.set(key, value);
+    },
+  };
+}
+
+describe("labelingSession", () => {
+  test("next marks the file as done and moves forward", async () => {
+    const storage = createStorage();
+    const session = await LabelingSession.start(storage, ["a", "b", "c"]);
+    expect(session.getResumeFile()).toBe("a");
+    expect(await session.navigate("a", "next")).toBe("b");
+    expect(session.getProgress("a")).toEqual({
+      position: 0,
+      total: 3,
+      doneCount: 1,
+      isDone: true,
+    });
+    expect(session.getProgress("x")).toBeUndefined();
+  });
+
+  test("skip leaves the file pending and comes back to it", async () => {
+    const storage = createStorage();
+    const session = await LabelingSession.start(storage, ["a", "b", "c"]);
+    expect(await session.navigate("a", "skip")).toBe("b");
+    expect(await session.navigate("b", "next")).toBe("c");
+    expect(await session.navigate("c", "next")).toBe("a");
+    expect(session.isFinished).toBe(false);
+    expect(await session.navigate("a", "skip")).toBeUndefined();
+    expect(await session.navigate("a", "next")).toBeUndefined();
+    expect(session.isFinished).toBe(true);
+  });
+
+  test("previous moves to the previous file even if it is done", async () => {
+    const storage = createStorage();
+    const session = await LabelingSession.start(storage, ["a", "b"]);
+    await session.navigate("a", "next");
+    expect(await session.navigate("b", "previous")).toBe("a");
+    expect(await session.navigate("a", "previous")).toBeUndefined();
+    expect(session.getProgress("b").isDone).toBe(false);
+  });
+
+  test("session is restored from storage", async () => {
+    const storage = createStorage();
+    const session = await LabelingSession.start(storage, ["a", "b", "c", "a"]);
+    await session.navigate("a", "next");
+    await session.navigate("b", "skip");
+
+    const restored = LabelingSession.restore(storage);
+    expect(restored.files).toEqual(["a", "b", "c"]);
+    expect(restored.doneCount).toBe(1);
+    expect(restored.getResumeFile()).toBe("c");
+
+    await LabelingSession.end(storage);
+    expect(LabelingSession.restore(storage)).toBeUndefined();
+  });
+
+  test("broken state is ignored", () => {
+    const storage = createStorage();
+    storage.data.set(LabelingSession.STORAGE_KEY, { files: "a" });
+    expect(LabelingSession.restore(storage)).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+export type LabelingSessionDirection = "next" | "previous" | "skip";
+
+// progress shown in the webview, position is 0-based
+export interface LabelingSessionProgress {
+  position: number;
+  total: number;
+  doneCount: number;
+  isDone: boolean;
+}
+
+// subset of vscode.Memento, so that the session can be tested without vscode
+export interface SessionStorage {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+interface SessionState {
+  files: string[];
+  done: string[];
+  lastPosition: number;
+}
+
+/*
+Ordered queue of audio files to label.
+The queue and the finished files are kept in storage (workspace state),
+so that the session can be resumed after a restart.
+*/
+export class LabelingSession {
+  public static readonly STORAGE_KEY = "audioLabeller.labelingSession";
+
+  private readonly _files: string[];
+  private readonly _done: Set<string>;
+  private _lastPosition: number;
+  private readonly _storage: SessionStorage;
+
+  private constructor(storage: SessionStorage, state: SessionState) {
+    this._storage = storage;
+    this._files = state.files;
+    this._done = new Set(state.done.filter((f) => state.files.includes(f)));
+    this._lastPosition = state.lastPosition;
+  }
+
+  public static async start(
+    storage: SessionStorage,
+    files: string[],
+  ): Promise<LabelingSession> {
+    const session = new LabelingSession(storage, {
+      files: [...new Set(files)],
+      done: [],
+      lastPosition: 0,
+    });
+    await session.save();
+    return session;
+  }
+
+  // return the stored session, or undefined if there is none
+  public static restore(storage: SessionStorage): LabelingSession | undefined {
+    const state = storage.get<SessionState>(LabelingSession.STORAGE_KEY);
+    if (!state || !Array.isArray(state.files) || state.files.length === 0) {
+      return undefined;
+    }
+    return new LabelingSession(storage, {
+      files: state.files,
+      done: Array.isArray(state.done) ? state.done : [],
+      lastPosition: Number.isInteger(state.lastPosition)
+        ? state.lastPosition
+        : 0,
+    });
+  }
+
+  public static async end(storage: SessionStorage) {
+    await storage.update(LabelingSession.STORAGE_KEY, undefined);
+  }
+
+  public get files(): readonly string[] {
+    return this._files;
+  }
+
+  public get doneCount() {
+    return this._done.size;
+  }
+
+  public get isFinished() {
+    return this._done.size === this._files.length;
+  }
+
+  public getProgress(file: string): LabelingSessionProgress | undefined {
+    const position = this._files.indexOf(file);
+    if (position < 0) {
+      return undefined;
+    }
+    return {
+      position,
+      total: this._files.length,
+      doneCount: this._done.size,
+      isDone: this._done.has(file),
+    };
+  }
+
+  // the file to open when the session is resumed
+  public getResumeFile(): string {
+    const position = Math.min(
+      Math.max(this._lastPosition, 0),
+      this._files.length - 1,
+    );
+    return this._files[this.findPending(position) ?? position];
+  }
+
+  /*
+  Move from file and return the file to open, or undefined at the end of the queue.
+  "next" marks file as done, "skip" leaves it pending.
+  Both move to the next pending file, "previous" moves to the previous file.
+  */
+  public async navigate(
+    file: string,
+    direction: LabelingSessionDirection,
+  ): Promise<string | undefined> {
+    const position = this._files.indexOf(file);
+    if (position < 0) {
+      return undefined;
+    }
+    if (direction === "next") {
+      this._done.add(file);
+    }
+
+    let target: number | undefined;
+    if (direction === "previous") {
+      target = position > 0 ? position - 1 : undefined;
+    } else {
+      target = this.findPending(position + 1, position);
+    }
+    this._lastPosition = target ?? position;
+    await this.save();
+    return target === undefined ? undefined : this._files[target];
+  }
+
+  // first pending file at or after start, wrapping around to skipped files
+  private findPending(start: number, exclude?: number): number | undefined {
+    for (let i = 0; i < this._files.length; i++) {
+      const index = (start + i) % this._files.length;
+      if (index !== exclude && !this._done.has(this._files[index])) {
+        return index;
+      }
+    }
+    return undefined;
+  }
+
+  private async save() {
+    const state: SessionState = {
+      files: this._files,
+      done: [...this._done],
+      lastPosition: this._lastPosition,
+    };
+    await this._storage.update(LabelingSession.STORAGE_KEY, state);
+  }
+}
@@ -0,0 +1,68 @@
+import * as path from "path";
+import {
+  formatCsvManifest,
+  formatCsvRow,
+  parseCsv,
+  parseCsvManifest,
+  updateCsvManifest,
+} from "./csv";
+
+const root = path.resolve("/corpus");
+
+describe("csv", () => {
+  test("parse quoted fields", () => {
+    const rows = parseCsv('a,"b,""c"""\r\n"multi\nline",d\n\n');
+    expect(rows.map((r) => r.fields)).toEqual([
+      ["a", 'b,"c"'],
+      ["multi\nline", "d"],
+    ]);
+  });
+
+  test("format quotes only when needed", () => {
+    expect(formatCsvRow(["a", "b,c", 'say "hi"', "x\ny"])).toBe(
+      'a,"b,c","say ""hi""","x\ny"',
+    );
+  });
+
+  test("parse manifest with known columns", () => {
+    const content = "path,duration,transcript\nwav/a.wav,1.5,hello\n";
+    expect(parseCsvManifest(content, root)).toEqual([
+      {
+        audioPath: path.join(root, "wav", "a.wav"),
+        text: "hello",
+        duration: 1.5,
+      },
+    ]);
+  });
+
+  test("parse manifest without text column throws", () => {
+    expect(() => parseCsvManifest("path,speaker\na.wav,x\n", root)).toThrow(
+      "CSV manifest needs",
+    );
+  });
+
+  test("update rewrites only the matching row", () => {
+    const content =
+      'file,text,speaker\r\na.wav,"one, two",s1\r\nb.wav,"multi\nline",s2\r\n';
+    expect(
+      updateCsvManifest(content, root, path.join(root, "b.wav"), 'say "x"'),
+    ).toBe(
+      'file,text,speaker\r\na.wav,"one, two",s1\r\nb.wav,"say ""x""",s2\r\n',
+    );
+  });
+
+  test("format writes a header and can be parsed back", () => {
+    const entries = [
+      {
+        audioPath: path.join(root, "a_1.wav"),
+        text: "one, two",
+        duration: 0.5,
+      },
+    ];
+    const formatted = formatCsvManifest(entries, root);
+    expect(formatted).toBe(
+      'audio_filepath,text,duration\na_1.wav,"one, two",0.5\n',
+    );
+    expect(parseCsvManifest(formatted, root)).toEqual(entries);
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  ManifestEntry,
+  resolveAudioPath,
+  toManifestPath,
+} from "./manifestEntry";
+
+export interface CsvManifestOptions {
+  // column names, the first one found in the header is used
+  audioColumns: string[];
+  textColumns: string[];
+  durationColumns: string[];
+}
+
+export const defaultCsvManifestOptions: CsvManifestOptions = {
+  audioColumns: ["audio_filepath", "audio", "path", "file", "filename", "wav"],
+  textColumns: ["text", "transcript", "transcription", "sentence"],
+  durationColumns: ["duration"],
+};
+
+// a row and its position in the content, end excludes the line break
+export interface CsvRow {
+  fields: string[];
+  start: number;
+  end: number;
+}
+
+// RFC 4180: quoted fields may contain commas, line breaks and "" escapes
+export function parseCsv(content: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let start = 0;
+
+  const endRow = (end: number) => {
+    fields.push(field);
+    // skip blank lines
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push({ fields, start, end });
+    }
+    fields = [];
+    field = "";
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+    if (quoted) {
+      if (c === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+      i++;
+      continue;
+    }
+
+    if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else if (c === "\r" || c === "\n") {
+      endRow(i);
+      i += c === "\r" && content[i + 1] === "\n" ? 2 : 1;
+      start = i;
+      continue;
+    } else {
+      field += c;
+    }
+    i++;
+  }
+  if (start < content.length) {
+    endRow(content.length);
+  }
+  return rows;
+}
+
+export function formatCsvRow(fields: string[]): string {
+  return fields
+    .map((f) => (/[",\r\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f))
+    .join(",");
+}
+
+interface CsvColumns {
+  audio: number;
+  text: number;
+  duration: number;
+}
+
+function findColumns(header: string[], options: CsvManifestOptions) {
+  const find = (names: string[]) =>
+    header.findIndex((h) => names.includes(h.trim()));
+  const columns: CsvColumns = {
+    audio: find(options.audioColumns),
+    text: find(options.textColumns),
+    duration: find(options.durationColumns),
+  };
+  if (columns.audio < 0 || columns.text < 0) {
+    throw new Error(
+      `CSV manifest needs an audio column (${options.audioColumns.join(", ")}) and a text column (${options.textColumns.join(", ")})`,
+    );
+  }
+  return columns;
+}
+
+function toEntry(
+  row: CsvRow,
+  columns: CsvColumns,
+  baseDir: string,
+): ManifestEntry | undefined {
+  const audioPath = row.fields[columns.audio];
+  if (!audioPath) {
+    return undefined;
+  }
+  const duration = Number(row.fields[columns.duration] ?? NaN);
+  return {
+    audioPath: resolveAudioPath(baseDir, audioPath),
+    text: row.fields[columns.text] ?? "",
+    duration: Number.isFinite(duration) ? duration : undefined,
+  };
+}
+
+// the first row is the header. Relative audio paths are resolved against baseDir
+export function parseCsvManifest(
+  content: string,
+  baseDir: string,
+  options: CsvManifestOptions = defaultCsvManifestOptions,
+): ManifestEntry[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+  const columns = findColumns(header.fields, options);
+  return rows.map((row) => toEntry(row, columns, baseDir)).filter((e) => e);
+}
+
+// rewrite only the row of audioPath, other rows are kept as they are
+export function updateCsvManifest(
+  content: string,
+  baseDir: string,
+  audioPath: string,
+  text: string,
+  options: CsvManifestOptions = defaultCsvManifestOptions,
+): string {
+  const [header, ...rows] = parseCsv(content);
+  const columns = header ? findColumns(header.fields, options) : undefined;
+  const row = rows.find(
+    (r) => toEntry(r, columns, baseDir)?.audioPath === audioPath,
+  );
+  if (!row) {
+    throw new Error(`${audioPath} is not listed in the manifest`);
+  }
+  const fields = [...row.fields];
+  while (fields.length <= columns.text) {
+    fields.push("");
+  }
+  fields[columns.text] = text;
+  return (
+    content.slice(0, row.start) + formatCsvRow(fields) + content.slice(row.end)
+  );
+}
+
+// write a new manifest with the first column names of options as the header
+export function formatCsvManifest(
+  entries: ManifestEntry[],
+  baseDir: string,
+  options: CsvManifestOptions = defaultCsvManifestOptions,
+): string {
+  const rows = [
+    [
+      options.audioColumns[0],
+      options.textColumns[0],
+      options.durationColumns[0],
+    ],
+    ...entries.map((e) => [
+      toManifestPath(baseDir, e.audioPath),
+      e.text,
+      e.duration === undefined ? "" : String(e.duration),
+    ]),
+  ];
+  return rows.map((row) => formatCsvRow(row) + "\n").join("");
+}
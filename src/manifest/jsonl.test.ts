@@ -0,0 +1,83 @@
+import * as path from "path";
+import {
+  formatJsonlManifest,
+  parseJsonlManifest,
+  updateJsonlManifest,
+} from "./jsonl";
+
+const root = path.resolve("/corpus");
+
+describe("jsonl", () => {
+  const content = [
+    '{"audio_filepath": "wav/a.wav", "text": "hello", "duration": 1.5}',
+    "not json",
+    '{"audio_filepath": "/abs/b.wav", "lang": "en"}',
+    "",
+  ].join("\n");
+
+  test("parse manifest and skip invalid lines", () => {
+    expect(parseJsonlManifest(content, root)).toEqual([
+      {
+        audioPath: path.join(root, "wav", "a.wav"),
+        text: "hello",
+        duration: 1.5,
+      },
+      { audioPath: path.resolve("/abs/b.wav"), text: "", duration: undefined },
+    ]);
+  });
+
+  test("update rewrites only the matching line", () => {
+    const updated = updateJsonlManifest(
+      content,
+      root,
+      path.resolve("/abs/b.wav"),
+      "new\ntext",
+    );
+    expect(updated.split("\n")).toEqual([
+      '{"audio_filepath": "wav/a.wav", "text": "hello", "duration": 1.5}',
+      "not json",
+      '{"audio_filepath":"/abs/b.wav","lang":"en","text":"new\\ntext"}',
+      "",
+    ]);
+  });
+
+  test("custom fields", () => {
+    const options = {
+      audioField: "path",
+      textField: "sentence",
+      durationField: "duration",
+    };
+    const custom = '{"path": "a.wav", "sentence": "hi"}';
+    expect(parseJsonlManifest(custom, root, options)[0].text).toBe("hi");
+    expect(
+      updateJsonlManifest(
+        custom,
+        root,
+        path.join(root, "a.wav"),
+        "yo",
+        options,
+      ),
+    ).toBe('{"path":"a.wav","sentence":"yo"}');
+  });
+
+  test("update throws for unlisted audio", () => {
+    expect(() =>
+      updateJsonlManifest(content, root, path.join(root, "c.wav"), ""),
+    ).toThrow("is not listed in the manifest");
+  });
+
+  test("format writes relative paths and can be parsed back", () => {
+    const entries = [
+      {
+        audioPath: path.join(root, "clips", "a_1.wav"),
+        text: "hi",
+        duration: 1,
+      },
+    ];
+    const formatted = formatJsonlManifest(entries, root);
+    expect(formatted).toBe(
+      '{"audio_filepath":"clips/a_1.wav","text":"hi","duration":1}\n',
+    );
+    expect(parseJsonlManifest(formatted, root)).toEqual(entries);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  detectLineBreak,
+  ManifestEntry,
+  resolveAudioPath,
+  toManifestPath,
+} from "./manifestEntry";
+
+export interface JsonlManifestOptions {
+  audioField: string;
+  textField: string;
+  durationField: string;
+}
+
+// NeMo style manifest: {"audio_filepath": "a.wav", "text": "...", "duration": 1.2}
+export const defaultJsonlManifestOptions: JsonlManifestOptions = {
+  audioField: "audio_filepath",
+  textField: "text",
+  durationField: "duration",
+};
+
+interface JsonlRecord {
+  entry: ManifestEntry;
+  line: number;
+  value: { [key: string]: unknown };
+}
+
+/*
+Relative audio paths are resolved against baseDir, the directory of the manifest.
+Lines which are not JSON objects or have no audio path are skipped.
+*/
+function parseJsonlRecords(
+  content: string,
+  baseDir: string,
+  options: JsonlManifestOptions,
+): JsonlRecord[] {
+  const records: JsonlRecord[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let value;
+    try {
+      value = JSON.parse(line);
+    } catch (e) {
+      return;
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return;
+    }
+    const audioPath = value[options.audioField];
+    if (typeof audioPath !== "string" || !audioPath) {
+      return;
+    }
+    const text = value[options.textField];
+    const duration = Number(value[options.durationField]);
+    records.push({
+      entry: {
+        audioPath: resolveAudioPath(baseDir, audioPath),
+        text: typeof text === "string" ? text : "",
+        duration: Number.isFinite(duration) ? duration : undefined,
+      },
+      line: index,
+      value,
+    });
+  });
+  return records;
+}
+
+export function parseJsonlManifest(
+  content: string,
+  baseDir: string,
+  options: JsonlManifestOptions = defaultJsonlManifestOptions,
+): ManifestEntry[] {
+  return parseJsonlRecords(content, baseDir, options).map((r) => r.entry);
+}
+
+// rewrite only the line of audioPath, other lines are kept as they are
+export function updateJsonlManifest(
+  content: string,
+  baseDir: string,
+  audioPath: string,
+  text: string,
+  options: JsonlManifestOptions = defaultJsonlManifestOptions,
+): string {
+  const record = parseJsonlRecords(content, baseDir, options).find(
+    (r) => r.entry.audioPath === audioPath,
+  );
+  if (!record) {
+    throw new Error(`${audioPath} is not listed in the manifest`);
+  }
+  const lines = content.split(/\r?\n/);
+  lines[record.line] = JSON.stringify({
+    ...record.value,
+    [options.textField]: text,
+  });
+  return lines.join(detectLineBreak(content));
+}
+
+// write a new manifest, audio paths are relative to baseDir
+export function formatJsonlManifest(
+  entries: ManifestEntry[],
+  baseDir: string,
+  options: JsonlManifestOptions = defaultJsonlManifestOptions,
+): string {
+  return entries
+    .map((e) =>
+      JSON.stringify({
+        [options.audioField]: toManifestPath(baseDir, e.audioPath),
+        [options.textField]: e.text,
+        [options.durationField]: e.duration,
+      }),
+    )
+    .map((line) => line + "\n")
+    .join("");
+}
@@ -0,0 +1,51 @@
+import * as path from "path";
+import { parseKaldiText, parseWavScp, updateKaldiText } from "./kaldi";
+
+const root = path.resolve("/corpus");
+
+describe("kaldi", () => {
+  test("parse wav.scp and skip piped commands", () => {
+    const recordings = parseWavScp(
+      "utt1 wav/a.wav\nutt2 /abs/b.wav\nutt3 sox c.wav -t wav - |\n\n",
+      root,
+    );
+    expect([...recordings]).toEqual([
+      ["utt1", path.join(root, "wav", "a.wav")],
+      ["utt2", path.resolve("/abs/b.wav")],
+    ]);
+  });
+
+  test("parse text with empty transcript", () => {
+    const texts = parseKaldiText("utt1 hello  world\r\nutt2\n");
+    expect([...texts]).toEqual([
+      ["utt1", "hello  world"],
+      ["utt2", ""],
+    ]);
+  });
+
+  test("update replaces the line and keeps the others", () => {
+    const content = "utt1 a\r\nutt10 b\r\nutt2 c\r\n";
+    expect(updateKaldiText(content, "utt1", "new\ntext")).toBe(
+      "utt1 new text\r\nutt10 b\r\nutt2 c\r\n",
+    );
+  });
+
+  test("update appends a missing utterance", () => {
+    expect(updateKaldiText("utt1 a", "utt2", "b")).toBe("utt1 a\nutt2 b\n");
+    expect(updateKaldiText("", "utt1", "")).toBe("utt1\n");
+  });
+
+  test("update inserts a missing utterance in sorted order", () => {
+    const content = "utt1 a\nutt3 c\n";
+    expect(updateKaldiText(content, "utt2", "b")).toBe(
+      "utt1 a\nutt2 b\nutt3 c\n",
+    );
+    expect(updateKaldiText(content, "utt0", "z")).toBe(
+      "utt0 z\nutt1 a\nutt3 c\n",
+    );
+    // byte order like "LC_ALL=C sort", not numeric
+    expect(updateKaldiText(content, "utt10", "d")).toBe(
+      "utt1 a\nutt10 d\nutt3 c\n",
+    );
+  });
+});
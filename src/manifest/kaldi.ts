@@ -0,0 +1,65 @@
+import {
+  detectLineBreak,
+  resolveAudioPath,
+  toSingleLine,
+} from "./manifestEntry";
+
+/*
+Kaldi data directory
+  wav.scp: "<utterance-id> <path>"
+  text:    "<utterance-id> <transcript>"
+Piped commands ("sox a.wav -t wav - |") in wav.scp are not supported and skipped.
+*/
+export function parseWavScp(
+  content: string,
+  baseDir: string,
+): Map<string, string> {
+  const recordings = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.trim().match(/^(\S+)\s+(.+)$/);
+    if (!match || match[2].endsWith("|")) {
+      continue;
+    }
+    recordings.set(match[1], resolveAudioPath(baseDir, match[2]));
+  }
+  return recordings;
+}
+
+export function parseKaldiText(content: string): Map<string, string> {
+  const texts = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.trim().match(/^(\S+)(?:\s+(.*))?$/);
+    if (match) {
+      texts.set(match[1], match[2] ?? "");
+    }
+  }
+  return texts;
+}
+
+/*
+Replace the transcript of uttId, or insert it if the utterance has no line yet.
+The new line is inserted in the order of the utterance ids, the C locale order
+that Kaldi requires (utils/validate_data_dir.sh).
+*/
+export function updateKaldiText(
+  content: string,
+  uttId: string,
+  text: string,
+): string {
+  const lineBreak = detectLineBreak(content);
+  const newLine = `${uttId} ${toSingleLine(text)}`.trimEnd();
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+
+  const ids = lines.map((line) => line.trim().split(/\s/)[0]);
+  const index = ids.indexOf(uttId);
+  if (index < 0) {
+    const next = ids.findIndex((id) => id > uttId);
+    lines.splice(next < 0 ? lines.length : next, 0, newLine);
+  } else {
+    lines[index] = newLine;
+  }
+  return lines.join(lineBreak) + lineBreak;
+}
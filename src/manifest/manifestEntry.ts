@@ -0,0 +1,29 @@
+import * as path from "path";
+
+// transcript of one audio file listed in a corpus manifest
+export interface ManifestEntry {
+  // absolute path of the audio file
+  audioPath: string;
+  text: string;
+  // seconds, if the manifest has it
+  duration?: number;
+}
+
+// transcripts in manifests are a single line
+export function toSingleLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, " ").trim();
+}
+
+export function resolveAudioPath(baseDir: string, audioPath: string): string {
+  return path.resolve(baseDir, audioPath);
+}
+
+// path written to a manifest, relative to baseDir with "/" as separator
+export function toManifestPath(baseDir: string, audioPath: string): string {
+  return path.relative(baseDir, audioPath).split(path.sep).join("/");
+}
+
+// line break used by the file, so that rewritten lines match the others
+export function detectLineBreak(content: string): string {
+  return content.includes("\r\n") ? "\r\n" : "\n";
+}
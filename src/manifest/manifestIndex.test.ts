@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import * as path from "path";
+import { ManifestIndex } from "./manifestIndex";
+
+const root = path.resolve("/workspace");
+
+function createFileSystem(files: { [path: string]: string }) {
+  return {
+    files,
+    readFile: jest.fn(async (filePath: string) => {
+      if (!(filePath in files)) {
+        throw new Error(`not found: ${filePath}`);
+      }
+      return new TextEncoder().encode(files[filePath]);
+    }),
+    writeFile: jest.fn(async (filePath: string, content: Uint8Array) => {
+      files[filePath] = new TextDecoder().decode(content);
+    }),
+  };
+}
+
+describe("manifestIndex", () => {
+  test("kaldi data directory", async () => {
+    const fs = createFileSystem({
+      [path.join(root, "data", "train", "wav.scp")]:
+        "utt1 wav/a.wav\nutt2 wav/b.wav\n",
+      [path.join(root, "data", "train", "text")]: "utt1 hello\n",
+    });
+    const index = new ManifestIndex({ path: "data/train" }, root, fs);
+    // relative paths in wav.scp are relative to the recipe directory
+    const audioPath = path.join(root, "wav", "b.wav");
+    expect(await index.getEntry(path.join(root, "wav", "a.wav"))).toEqual({
+      audioPath: path.join(root, "wav", "a.wav"),
+      text: "hello",
+      duration: undefined,
+    });
+    expect((await index.getEntry(audioPath)).text).toBe("");
+
+    const written = await index.saveText(audioPath, "world");
+    expect(written).toBe(path.join(root, "data", "train", "text"));
+    expect(fs.files[written]).toBe("utt1 hello\nutt2 world\n");
+    expect((await index.getEntry(audioPath)).text).toBe("world");
+  });
+
+  test("type is guessed from the extension", async () => {
+    const manifestPath = path.join(root, "train.csv");
+    const fs = createFileSystem({
+      [manifestPath]: "audio,text\na.wav,hello\n",
+    });
+    const index = new ManifestIndex({ path: "train.csv" }, root, fs);
+    expect(index.textPath).toBe(manifestPath);
+    expect(await index.getEntries()).toEqual([
+      {
+        audioPath: path.join(root, "a.wav"),
+        text: "hello",
+        duration: undefined,
+      },
+    ]);
+  });
+
+  test("manifest is cached until invalidated", async () => {
+    const manifestPath = path.join(root, "train.jsonl");
+    const fs = createFileSystem({
+      [manifestPath]: '{"audio_filepath": "a.wav", "text": "one"}\n',
+    });
+    const index = new ManifestIndex(
+      { type: "jsonl", path: manifestPath },
+      root,
+      fs,
+    );
+    const audioPath = path.join(root, "a.wav");
+    expect((await index.getEntry(audioPath)).text).toBe("one");
+
+    fs.files[manifestPath] = '{"audio_filepath": "a.wav", "text": "two"}\n';
+    expect((await index.getEntry(audioPath)).text).toBe("one");
+    index.invalidate();
+    expect((await index.getEntry(audioPath)).text).toBe("two");
+    expect(fs.readFile).toHaveBeenCalledTimes(2);
+  });
+
+  test("concurrent saves are applied in order", async () => {
+    const manifestPath = path.join(root, "train.jsonl");
+    const fs = createFileSystem({
+      [manifestPath]: [
+        '{"audio_filepath": "a.wav", "text": ""}',
+        '{"audio_filepath": "b.wav", "text": ""}',
+      ].join("\n"),
+    });
+    const index = new ManifestIndex({ path: "train.jsonl" }, root, fs);
+    await Promise.all([
+      index.saveText(path.join(root, "a.wav"), "A"),
+      index.saveText(path.join(root, "b.wav"), "B"),
+    ]);
+    expect(fs.files[manifestPath]).toBe(
+      [
+        '{"audio_filepath":"a.wav","text":"A"}',
+        '{"audio_filepath":"b.wav","text":"B"}',
+      ].join("\n"),
+    );
+  });
+
+  test("saving unlisted audio throws", async () => {
+    const fs = createFileSystem({
+      [path.join(root, "train.jsonl")]: "",
+    });
+    const index = new ManifestIndex({ path: "train.jsonl" }, root, fs);
+    await expect(index.saveText(path.join(root, "a.wav"), "A")).rejects.toThrow(
+      "is not listed in the manifest",
+    );
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+import * as path from "path";
+import { ManifestConfig } from "../config";
+import {
+  CsvManifestOptions,
+  defaultCsvManifestOptions,
+  parseCsvManifest,
+  updateCsvManifest,
+} from "./csv";
+import {
+  defaultJsonlManifestOptions,
+  JsonlManifestOptions,
+  parseJsonlManifest,
+  updateJsonlManifest,
+} from "./jsonl";
+import { parseKaldiText, parseWavScp, updateKaldiText } from "./kaldi";
+import { ManifestEntry, toSingleLine } from "./manifestEntry";
+
+export interface ManifestFileSystem {
+  readFile(filePath: string): PromiseLike<Uint8Array>;
+  // must replace the file atomically, so that readers never see a partial manifest
+  writeFile(filePath: string, content: Uint8Array): PromiseLike<void>;
+}
+
+interface IndexedEntry extends ManifestEntry {
+  // utterance id of Kaldi data directories
+  uttId?: string;
+}
+
+/*
+Index of the transcripts in a corpus manifest.
+The manifest is read once and cached until invalidate() is called.
+*/
+export class ManifestIndex {
+  private readonly _type: ManifestConfig["type"];
+  private readonly _path: string;
+  private readonly _options: ManifestConfig;
+  private readonly _fs: ManifestFileSystem;
+  private _entries: Map<string, IndexedEntry>;
+  // writes are serialized so that concurrent saves do not drop each other
+  private _writeQueue: Promise<unknown> = Promise.resolve();
+
+  // baseDir is used to resolve a relative manifest path, usually the workspace folder
+  constructor(config: ManifestConfig, baseDir: string, fs: ManifestFileSystem) {
+    if (!config.path) {
+      throw new Error("manifest.path is not set");
+    }
+    this._type = config.type ?? ManifestIndex.guessType(config.path);
+    this._path = path.resolve(baseDir, config.path);
+    this._options = config;
+    this._fs = fs;
+  }
+
+  private static guessType(manifestPath: string): ManifestConfig["type"] {
+    switch (path.extname(manifestPath).toLowerCase()) {
+      case ".jsonl":
+      case ".json":
+        return "jsonl";
+      case ".csv":
+        return "csv";
+      default:
+        // a Kaldi data directory
+        return "kaldi";
+    }
+  }
+
+  // the file written by saveText
+  public get textPath(): string {
+    return this._type === "kaldi" ? path.join(this._path, "text") : this._path;
+  }
+
+  // files the index is read from, to watch for external changes
+  public get files(): string[] {
+    return this._type === "kaldi"
+      ? [path.join(this._path, "wav.scp"), this.textPath]
+      : [this._path];
+  }
+
+  public invalidate() {
+    this._entries = undefined;
+  }
+
+  public async getEntries(): Promise<ManifestEntry[]> {
+    const entries = await this.load();
+    return [...entries.values()].map(({ audioPath, text, duration }) => ({
+      audioPath,
+      text,
+      duration,
+    }));
+  }
+
+  public async getEntry(audioPath: string): Promise<ManifestEntry | undefined> {
+    const entries = await this.load();
+    const entry = entries.get(path.resolve(audioPath));
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      audioPath: entry.audioPath,
+      text: entry.text,
+      duration: entry.duration,
+    };
+  }
+
+  // write the transcript of audioPath back into the manifest and return the written file
+  public saveText(audioPath: string, text: string): Promise<string> {
+    const write = this._writeQueue.then(() =>
+      this.writeText(path.resolve(audioPath), text),
+    );
+    this._writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeText(audioPath: string, text: string): Promise<string> {
+    // apply the change to the latest content in case the file was edited outside
+    this.invalidate();
+    const entry = (await this.load()).get(audioPath);
+    if (!entry) {
+      throw new Error(
+        `${audioPath} is not listed in the manifest: ${this._path}`,
+      );
+    }
+
+    const baseDir = path.dirname(this._path);
+    let content: string;
+    switch (this._type) {
+      case "kaldi":
+        content = updateKaldiText(
+          await this.readText(this.textPath, true),
+          entry.uttId,
+          text,
+        );
+        break;
+      case "csv":
+        content = updateCsvManifest(
+          await this.readText(this._path),
+          baseDir,
+          audioPath,
+          text,
+          this.getCsvOptions(),
+        );
+        break;
+      case "jsonl":
+      default:
+        content = updateJsonlManifest(
+          await this.readText(this._path),
+          baseDir,
+          audioPath,
+          text,
+          this.getJsonlOptions(),
+        );
+        break;
+    }
+    await this._fs.writeFile(this.textPath, new TextEncoder().encode(content));
+
+    entry.text = this._type === "kaldi" ? toSingleLine(text) : text;
+    return this.textPath;
+  }
+
+  private async load(): Promise<Map<string, IndexedEntry>> {
+    if (this._entries) {
+      return this._entries;
+    }
+
+    const baseDir = path.dirname(this._path);
+    let entries: IndexedEntry[];
+    switch (this._type) {
+      case "kaldi": {
+        // relative paths in wav.scp are relative to the recipe directory (<recipe>/data/<set>)
+        const recordings = parseWavScp(
+          await this.readText(path.join(this._path, "wav.scp")),
+          path.dirname(path.dirname(this._path)),
+        );
+        const texts = parseKaldiText(await this.readText(this.textPath, true));
+        entries = [...recordings].map(([uttId, audioPath]) => ({
+          uttId,
+          audioPath,
+          text: texts.get(uttId) ?? "",
+        }));
+        break;
+      }
+      case "csv":
+        entries = parseCsvManifest(
+          await this.readText(this._path),
+          baseDir,
+          this.getCsvOptions(),
+        );
+        break;
+      case "jsonl":
+      default:
+        entries = parseJsonlManifest(
+          await this.readText(this._path),
+          baseDir,
+          this.getJsonlOptions(),
+        );
+        break;
+    }
+
+    this._entries = new Map(entries.map((e) => [e.audioPath, e]));
+    return this._entries;
+  }
+
+  private async readText(filePath: string, optional = false): Promise<string> {
+    try {
+      return new TextDecoder().decode(await this._fs.readFile(filePath));
+    } catch (e) {
+      if (optional) {
+        return "";
+      }
+      throw new Error(`Cannot read manifest: ${filePath}`);
+    }
+  }
+
+  private getJsonlOptions(): JsonlManifestOptions {
+    return {
+      ...defaultJsonlManifestOptions,
+      audioField:
+        this._options.audioField || defaultJsonlManifestOptions.audioField,
+      textField:
+        this._options.textField || defaultJsonlManifestOptions.textField,
+    };
+  }
+
+  private getCsvOptions(): CsvManifestOptions {
+    return {
+      ...defaultCsvManifestOptions,
+      audioColumns: this._options.audioField
+        ? [this._options.audioField]
+        : defaultCsvManifestOptions.audioColumns,
+      textColumns: this._options.textField
+        ? [this._options.textField]
+        : defaultCsvManifestOptions.textColumns,
+    };
+  }
+}
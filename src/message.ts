@@ -1,4 +1,10 @@
 import { Config } from "./config";
+import { Segment } from "./segment";
+import { ClipManifestFormat } from "./clipExport";
+import {
+  LabelingSessionDirection,
+  LabelingSessionProgress,
+} from "./labelingSession";
 
 // Type of messages from Extension to Webview
 export class ExtMessageType {
@@ -7,6 +13,11 @@ export class ExtMessageType {
   public static readonly RELOAD = "RELOAD";
   public static readonly LABEL = "LABEL";
   public static readonly SCAN_WORKSPACE_RESULT = "SCAN_WORKSPACE_RESULT";
+  public static readonly SEGMENTS = "SEGMENTS";
+  public static readonly LABELING_SESSION = "LABELING_SESSION";
+  public static readonly LABELING_SESSION_NAVIGATE =
+    "LABELING_SESSION_NAVIGATE";
+  public static readonly PLAYER_COMMAND = "PLAYER_COMMAND";
 
   public static isCONFIG(msg: ExtMessage): msg is ExtConfigMessage {
     return msg.type === ExtMessageType.CONFIG;
@@ -27,6 +38,28 @@ export class ExtMessageType {
   public static isScanWorkspaceResult(msg: ExtMessage): msg is ExtScanWorkspaceResultMessage {
     return msg.type === ExtMessageType.SCAN_WORKSPACE_RESULT;
   }
+
+  public static isSEGMENTS(msg: ExtMessage): msg is ExtSegmentsMessage {
+    return msg.type === ExtMessageType.SEGMENTS;
+  }
+
+  public static isLabelingSession(
+    msg: ExtMessage,
+  ): msg is ExtLabelingSessionMessage {
+    return msg.type === ExtMessageType.LABELING_SESSION;
+  }
+
+  public static isLabelingSessionNavigate(
+    msg: ExtMessage,
+  ): msg is ExtLabelingSessionNavigateMessage {
+    return msg.type === ExtMessageType.LABELING_SESSION_NAVIGATE;
+  }
+
+  public static isPlayerCommand(
+    msg: ExtMessage,
+  ): msg is ExtPlayerCommandMessage {
+    return msg.type === ExtMessageType.PLAYER_COMMAND;
+  }
 }
 
 export type ExtMessage =
@@ -34,7 +67,11 @@ export type ExtMessage =
   | ExtDataMessage
   | ExtReloadMessage
   | ExtLabelMessage
-  | ExtScanWorkspaceResultMessage;
+  | ExtScanWorkspaceResultMessage
+  | ExtSegmentsMessage
+  | ExtLabelingSessionMessage
+  | ExtLabelingSessionNavigateMessage
+  | ExtPlayerCommandMessage;
 
 export class ExtConfigMessage {
   type = ExtMessageType.CONFIG;
@@ -46,6 +83,36 @@ export class ExtLabelMessage {
   data: string;
 }
 
+export class ExtSegmentsMessage {
+  type = ExtMessageType.SEGMENTS;
+  data: Segment[];
+}
+
+// data is undefined if the file is not in the labeling session
+export class ExtLabelingSessionMessage {
+  type = ExtMessageType.LABELING_SESSION;
+  data: LabelingSessionProgress | undefined;
+}
+
+// sent by the keyboard shortcuts, the webview replies with LABELING_SESSION_NAVIGATE
+export class ExtLabelingSessionNavigateMessage {
+  type = ExtMessageType.LABELING_SESSION_NAVIGATE;
+  data: LabelingSessionDirection;
+}
+
+export type PlayerCommand =
+  | "togglePlay"
+  | "skipBackward"
+  | "skipForward"
+  | "speedUp"
+  | "speedDown";
+
+// sent by the player commands, which work while typing the label
+export class ExtPlayerCommandMessage {
+  type = ExtMessageType.PLAYER_COMMAND;
+  data: PlayerCommand;
+}
+
 export class ExtDataMessage {
   type = ExtMessageType.DATA;
   data: ExtDataMessageData;
@@ -77,6 +144,18 @@ export class WebviewMessageType {
   public static readonly SAVE_LABEL = "SAVE_LABEL";
   public static readonly SCAN_WORKSPACE = "SCAN_WORKSPACE";
   public static readonly OPEN_FILE = "OPEN_FILE";
+  public static readonly GET_SEGMENTS = "GET_SEGMENTS";
+  public static readonly SAVE_SEGMENTS = "SAVE_SEGMENTS";
+  public static readonly IMPORT_SEGMENTS = "IMPORT_SEGMENTS";
+  public static readonly EXPORT_SEGMENTS = "EXPORT_SEGMENTS";
+  public static readonly GET_LABELING_SESSION = "GET_LABELING_SESSION";
+  public static readonly EDIT_LABEL = "EDIT_LABEL";
+  public static readonly EDIT_SEGMENTS = "EDIT_SEGMENTS";
+  public static readonly LABELING_SESSION_NAVIGATE =
+    "LABELING_SESSION_NAVIGATE";
+  public static readonly SAVE_AUDIO = "SAVE_AUDIO";
+  public static readonly EXPORT_CLIPS = "EXPORT_CLIPS";
+  public static readonly EXPORT_PITCH = "EXPORT_PITCH";
 
   public static isCONFIG(msg: WebviewMessage): msg is WebviewConfigMessage {
     return msg.type === WebviewMessageType.CONFIG;
@@ -111,6 +190,72 @@ export class WebviewMessageType {
   public static isOpen(msg: WebviewMessage): msg is WebviewOpenFileMessage {
     return msg.type === WebviewMessageType.OPEN_FILE;
   }
+
+  public static isGetSegments(
+    msg: WebviewMessage,
+  ): msg is WebviewGetSegmentsMessage {
+    return msg.type === WebviewMessageType.GET_SEGMENTS;
+  }
+
+  public static isSaveSegments(
+    msg: WebviewMessage,
+  ): msg is WebviewSaveSegmentsMessage {
+    return msg.type === WebviewMessageType.SAVE_SEGMENTS;
+  }
+
+  public static isImportSegments(
+    msg: WebviewMessage,
+  ): msg is WebviewImportSegmentsMessage {
+    return msg.type === WebviewMessageType.IMPORT_SEGMENTS;
+  }
+
+  public static isExportSegments(
+    msg: WebviewMessage,
+  ): msg is WebviewExportSegmentsMessage {
+    return msg.type === WebviewMessageType.EXPORT_SEGMENTS;
+  }
+
+  public static isEditLabel(
+    msg: WebviewMessage,
+  ): msg is WebviewEditLabelMessage {
+    return msg.type === WebviewMessageType.EDIT_LABEL;
+  }
+
+  public static isEditSegments(
+    msg: WebviewMessage,
+  ): msg is WebviewEditSegmentsMessage {
+    return msg.type === WebviewMessageType.EDIT_SEGMENTS;
+  }
+
+  public static isGetLabelingSession(
+    msg: WebviewMessage,
+  ): msg is WebviewGetLabelingSessionMessage {
+    return msg.type === WebviewMessageType.GET_LABELING_SESSION;
+  }
+
+  public static isLabelingSessionNavigate(
+    msg: WebviewMessage,
+  ): msg is WebviewLabelingSessionNavigateMessage {
+    return msg.type === WebviewMessageType.LABELING_SESSION_NAVIGATE;
+  }
+
+  public static isSaveAudio(
+    msg: WebviewMessage,
+  ): msg is WebviewSaveAudioMessage {
+    return msg.type === WebviewMessageType.SAVE_AUDIO;
+  }
+
+  public static isExportClips(
+    msg: WebviewMessage,
+  ): msg is WebviewExportClipsMessage {
+    return msg.type === WebviewMessageType.EXPORT_CLIPS;
+  }
+
+  public static isExportPitch(
+    msg: WebviewMessage,
+  ): msg is WebviewExportPitchMessage {
+    return msg.type === WebviewMessageType.EXPORT_PITCH;
+  }
 }
 
 export type WebviewMessage =
@@ -121,7 +266,18 @@ export type WebviewMessage =
   | WebviewGetLabelMessage
   | WebviewSaveLabelMessage
   | WebviewScanWorkspaceMessage
-  | WebviewOpenFileMessage;
+  | WebviewOpenFileMessage
+  | WebviewGetSegmentsMessage
+  | WebviewSaveSegmentsMessage
+  | WebviewImportSegmentsMessage
+  | WebviewExportSegmentsMessage
+  | WebviewGetLabelingSessionMessage
+  | WebviewEditLabelMessage
+  | WebviewEditSegmentsMessage
+  | WebviewLabelingSessionNavigateMessage
+  | WebviewSaveAudioMessage
+  | WebviewExportClipsMessage
+  | WebviewExportPitchMessage;
 
 export class WebviewConfigMessage {
   type = WebviewMessageType.CONFIG;
@@ -136,6 +292,55 @@ export class WebviewSaveLabelMessage {
   data: string;
 }
 
+// edits are tracked by the document for dirty state and undo/redo
+export class WebviewEditLabelMessage {
+  type = WebviewMessageType.EDIT_LABEL;
+  data: string;
+}
+
+export class WebviewEditSegmentsMessage {
+  type = WebviewMessageType.EDIT_SEGMENTS;
+  data: Segment[];
+}
+
+export class WebviewGetSegmentsMessage {
+  type = WebviewMessageType.GET_SEGMENTS;
+}
+
+export class WebviewSaveSegmentsMessage {
+  type = WebviewMessageType.SAVE_SEGMENTS;
+  data: Segment[];
+}
+
+export class WebviewImportSegmentsMessage {
+  type = WebviewMessageType.IMPORT_SEGMENTS;
+}
+
+export class WebviewExportSegmentsMessage {
+  type = WebviewMessageType.EXPORT_SEGMENTS;
+  data: WebviewExportSegmentsMessageData;
+}
+
+export interface WebviewExportSegmentsMessageData {
+  segments: Segment[];
+  duration: number;
+}
+
+export class WebviewGetLabelingSessionMessage {
+  type = WebviewMessageType.GET_LABELING_SESSION;
+}
+
+export class WebviewLabelingSessionNavigateMessage {
+  type = WebviewMessageType.LABELING_SESSION_NAVIGATE;
+  data: WebviewLabelingSessionNavigateMessageData;
+}
+
+// label is the text in the label editor, saved before moving to another file
+export interface WebviewLabelingSessionNavigateMessageData {
+  direction: LabelingSessionDirection;
+  label: string;
+}
+
 export class WebviewDataMessage {
   type = WebviewMessageType.DATA;
   data: WebviewDataMessageData;
@@ -156,6 +361,47 @@ export interface WebviewWriteWavMessageData {
   samples: ArrayBufferLike;
 }
 
+// edited audio, written over the opened file or to a file chosen in the save dialog
+export class WebviewSaveAudioMessage {
+  type = WebviewMessageType.SAVE_AUDIO;
+  data: WebviewSaveAudioMessageData;
+}
+
+export interface WebviewSaveAudioMessageData {
+  samples: ArrayBufferLike;
+  saveAs: boolean;
+  // extension of the encoded file format, e.g. ".wav"
+  extension: string;
+}
+
+export class WebviewExportClipsMessage {
+  type = WebviewMessageType.EXPORT_CLIPS;
+  data: WebviewExportClipsMessageData;
+}
+
+export interface WebviewExportClipsMessageData {
+  clips: ExportClip[];
+  filenameTemplate: string;
+  // extension of the encoded file format, e.g. ".wav"
+  extension: string;
+  manifestFormat: ClipManifestFormat;
+}
+
+// pitch track as CSV, written to a file chosen in the save dialog
+export class WebviewExportPitchMessage {
+  type = WebviewMessageType.EXPORT_PITCH;
+  data: WebviewExportPitchMessageData;
+}
+
+export interface WebviewExportPitchMessageData {
+  csv: string;
+}
+
+// a region of the audio encoded as wav
+export interface ExportClip extends Segment {
+  samples: ArrayBufferLike;
+}
+
 export class WebviewErrorMessage {
   type = WebviewMessageType.ERROR;
   data: WebviewErrorMessageData;
@@ -0,0 +1,48 @@
+// Time-aligned annotation shared by the extension and the webview.
+// start and end are seconds from the beginning of the audio file.
+export interface Segment {
+  start: number;
+  end: number;
+  label: string;
+}
+
+// Drop malformed entries and return segments sorted by start time.
+// Used for data read from disk, so anything may come in.
+export function sanitizeSegments(value: unknown): Segment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const segments: Segment[] = [];
+  for (const v of value) {
+    if (!v || typeof v !== "object") {
+      continue;
+    }
+    const start = Number(v.start);
+    const end = Number(v.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+      continue;
+    }
+    segments.push({
+      start: Math.max(0, start),
+      end,
+      label: typeof v.label === "string" ? v.label : "",
+    });
+  }
+
+  return sortSegments(segments);
+}
+
+export function sortSegments(segments: Segment[]): Segment[] {
+  return segments.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+export function isSameSegments(a: readonly Segment[], b: readonly Segment[]) {
+  return (
+    a.length === b.length &&
+    a.every(
+      (s, i) =>
+        s.start === b[i].start && s.end === b[i].end && s.label === b[i].label,
+    )
+  );
+}
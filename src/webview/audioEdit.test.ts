@@ -0,0 +1,169 @@
+import {
+  applyAudioEdit,
+  dbToGain,
+  getPeak,
+  mapEditTime,
+  moveSegments,
+  unmapEditTime,
+} from "./audioEdit";
+
+describe("applyAudioEdit", () => {
+  const channels = () => [
+    new Float32Array([0.1, 0.2, 0.3, 0.4, 0.5]),
+    new Float32Array([-0.1, -0.2, -0.3, -0.4, -0.5]),
+  ];
+  const toArrays = (result: Float32Array[]) =>
+    result.map((c) => Array.from(c, (v) => Math.round(v * 1000) / 1000));
+
+  test("delete removes the range from each channel", () => {
+    const result = applyAudioEdit(channels(), {
+      type: "delete",
+      start: 1,
+      end: 3,
+    });
+    expect(toArrays(result)).toEqual([
+      [0.1, 0.4, 0.5],
+      [-0.1, -0.4, -0.5],
+    ]);
+  });
+
+  test("crop keeps only the range", () => {
+    const result = applyAudioEdit(channels(), {
+      type: "crop",
+      start: 3,
+      end: 9,
+    });
+    expect(toArrays(result)).toEqual([
+      [0.4, 0.5],
+      [-0.4, -0.5],
+    ]);
+  });
+
+  test("insertSilence inserts zeros at start", () => {
+    const result = applyAudioEdit(channels(), {
+      type: "insertSilence",
+      start: 2,
+      length: 2,
+    });
+    expect(toArrays(result)[0]).toEqual([0.1, 0.2, 0, 0, 0.3, 0.4, 0.5]);
+  });
+
+  test("fades are linear over the range", () => {
+    const input = [new Float32Array([1, 1, 1, 1, 1])];
+    expect(
+      toArrays(applyAudioEdit(input, { type: "fadeIn", start: 0, end: 5 })),
+    ).toEqual([[0, 0.25, 0.5, 0.75, 1]]);
+    expect(
+      toArrays(applyAudioEdit(input, { type: "fadeOut", start: 2, end: 5 })),
+    ).toEqual([[1, 1, 1, 0.5, 0]]);
+  });
+
+  test("gain and normalize scale only the range", () => {
+    const gain = applyAudioEdit(channels(), {
+      type: "gain",
+      start: 0,
+      end: 1,
+      gainDb: 20 * Math.log10(2),
+    });
+    expect(toArrays(gain)[0]).toEqual([0.2, 0.2, 0.3, 0.4, 0.5]);
+
+    const normalized = applyAudioEdit(channels(), {
+      type: "normalize",
+      start: 0,
+      end: 5,
+      peakDb: 0,
+    });
+    expect(getPeak(normalized, 0, 5)).toBeCloseTo(1);
+    expect(normalized[0][0]).toBeCloseTo(0.2);
+  });
+
+  test("normalize keeps silence", () => {
+    const result = applyAudioEdit([new Float32Array(3)], {
+      type: "normalize",
+      start: 0,
+      end: 3,
+      peakDb: -1,
+    });
+    expect(toArrays(result)).toEqual([[0, 0, 0]]);
+  });
+
+  test("reverse reverses the range", () => {
+    const result = applyAudioEdit(channels(), {
+      type: "reverse",
+      start: 1,
+      end: 4,
+    });
+    expect(toArrays(result)[0]).toEqual([0.1, 0.4, 0.3, 0.2, 0.5]);
+  });
+
+  test("input is not modified", () => {
+    const input = channels();
+    applyAudioEdit(input, { type: "gain", start: 0, end: 5, gainDb: 6 });
+    applyAudioEdit(input, { type: "reverse", start: 0, end: 5 });
+    expect(toArrays(input)).toEqual(toArrays(channels()));
+  });
+
+  test("dbToGain", () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(-20)).toBeCloseTo(0.1);
+  });
+});
+
+describe("timeline of edits", () => {
+  // 1 Hz sample rate, so that sample indices are seconds
+  const segments = [
+    { start: 0, end: 1, label: "before" },
+    { start: 1, end: 3, label: "overlap start" },
+    { start: 4, end: 5, label: "inside" },
+    { start: 5, end: 7, label: "overlap end" },
+    { start: 8, end: 9, label: "after" },
+  ];
+
+  test("delete shifts the following times and trims overlapping segments", () => {
+    const op = { type: "delete" as const, start: 2, end: 6 };
+    expect([1, 2, 4, 6, 8].map((t) => mapEditTime(op, t, 1))).toEqual([
+      1, 2, 2, 2, 4,
+    ]);
+    expect(moveSegments(segments, (t) => mapEditTime(op, t, 1))).toEqual([
+      { start: 0, end: 1, label: "before" },
+      { start: 1, end: 2, label: "overlap start" },
+      { start: 2, end: 3, label: "overlap end" },
+      { start: 4, end: 5, label: "after" },
+    ]);
+    expect([1, 2, 4].map((t) => unmapEditTime(op, t, 1))).toEqual([1, 6, 8]);
+  });
+
+  test("crop keeps the segments in the range", () => {
+    const op = { type: "crop" as const, start: 2, end: 6 };
+    expect(moveSegments(segments, (t) => mapEditTime(op, t, 1))).toEqual([
+      { start: 0, end: 1, label: "overlap start" },
+      { start: 2, end: 3, label: "inside" },
+      { start: 3, end: 4, label: "overlap end" },
+    ]);
+    expect(unmapEditTime(op, 3, 1)).toBe(5);
+  });
+
+  test("insertSilence shifts the following times and extends a segment over it", () => {
+    const op = { type: "insertSilence" as const, start: 2, length: 3 };
+    expect(moveSegments(segments, (t) => mapEditTime(op, t, 1))).toEqual([
+      { start: 0, end: 1, label: "before" },
+      { start: 1, end: 6, label: "overlap start" },
+      { start: 7, end: 8, label: "inside" },
+      { start: 8, end: 10, label: "overlap end" },
+      { start: 11, end: 12, label: "after" },
+    ]);
+    // the inserted silence maps back to its start
+    expect([1, 3, 5].map((t) => unmapEditTime(op, t, 1))).toEqual([1, 2, 2]);
+  });
+
+  test("operations in place keep the timeline", () => {
+    const op = { type: "gain" as const, start: 2, end: 6, gainDb: 6 };
+    expect(mapEditTime(op, 3, 1)).toBe(3);
+    expect(unmapEditTime(op, 3, 1)).toBe(3);
+  });
+
+  test("times are in seconds and ranges in samples", () => {
+    const op = { type: "delete" as const, start: 8000, end: 16000 };
+    expect(mapEditTime(op, 2.5, 8000)).toBe(1.5);
+  });
+});
@@ -0,0 +1,195 @@
+import { Segment, sortSegments } from "../segment";
+
+// ranges are in samples, end is exclusive
+export type AudioEditOperation =
+  | { type: "delete"; start: number; end: number }
+  | { type: "crop"; start: number; end: number }
+  | { type: "insertSilence"; start: number; length: number }
+  | { type: "fadeIn"; start: number; end: number }
+  | { type: "fadeOut"; start: number; end: number }
+  | { type: "gain"; start: number; end: number; gainDb: number }
+  | { type: "normalize"; start: number; end: number; peakDb: number }
+  | { type: "reverse"; start: number; end: number };
+
+export const audioEditOperationNames: Record<
+  AudioEditOperation["type"],
+  string
+> = {
+  delete: "delete",
+  crop: "crop",
+  insertSilence: "insert silence",
+  fadeIn: "fade in",
+  fadeOut: "fade out",
+  gain: "gain",
+  normalize: "normalize",
+  reverse: "reverse",
+};
+
+function clampRange(start: number, end: number, length: number) {
+  const s = Math.min(Math.max(Math.floor(start), 0), length);
+  const e = Math.min(Math.max(Math.floor(end), s), length);
+  return { start: s, end: e };
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// copy channel and apply f to each sample in the range
+function mapRange(
+  channel: Float32Array,
+  start: number,
+  end: number,
+  f: (value: number, index: number) => number,
+): Float32Array {
+  const result = channel.slice();
+  for (let i = start; i < end; i++) {
+    result[i] = f(channel[i], i);
+  }
+  return result;
+}
+
+export function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+// absolute peak of all channels in the range
+export function getPeak(channels: Float32Array[], start: number, end: number) {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = start; i < end; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  return peak;
+}
+
+/*
+Apply an edit operation to the samples of each channel.
+The input is never modified, so that it can be kept for undo.
+*/
+export function applyAudioEdit(
+  channels: Float32Array[],
+  op: AudioEditOperation,
+): Float32Array[] {
+  const length = channels[0]?.length ?? 0;
+
+  if (op.type === "insertSilence") {
+    const at = clampRange(op.start, op.start, length).start;
+    const silence = new Float32Array(Math.max(Math.floor(op.length), 0));
+    return channels.map((c) =>
+      concat(c.subarray(0, at), silence, c.subarray(at)),
+    );
+  }
+
+  const { start, end } = clampRange(op.start, op.end, length);
+  const rangeLength = end - start;
+  switch (op.type) {
+    case "delete":
+      return channels.map((c) => concat(c.subarray(0, start), c.subarray(end)));
+    case "crop":
+      return channels.map((c) => c.slice(start, end));
+    case "fadeIn":
+      return channels.map((c) =>
+        mapRange(
+          c,
+          start,
+          end,
+          (v, i) => (v * (i - start)) / Math.max(rangeLength - 1, 1),
+        ),
+      );
+    case "fadeOut":
+      return channels.map((c) =>
+        mapRange(
+          c,
+          start,
+          end,
+          (v, i) => (v * (end - 1 - i)) / Math.max(rangeLength - 1, 1),
+        ),
+      );
+    case "gain": {
+      const gain = dbToGain(op.gainDb);
+      return channels.map((c) => mapRange(c, start, end, (v) => v * gain));
+    }
+    case "normalize": {
+      const peak = getPeak(channels, start, end);
+      // silence can not be normalized
+      const gain = peak > 0 ? dbToGain(op.peakDb) / peak : 1;
+      return channels.map((c) => mapRange(c, start, end, (v) => v * gain));
+    }
+    case "reverse":
+      return channels.map((c) =>
+        mapRange(c, start, end, (_, i) => c[start + end - 1 - i]),
+      );
+  }
+}
+
+/*
+Move a time in seconds of the audio before op to the same audio after it.
+A time in a deleted range moves to its start, and one out of a cropped range to its nearest end.
+Operations which do not change the timeline keep the time.
+*/
+export function mapEditTime(
+  op: AudioEditOperation,
+  sec: number,
+  sampleRate: number,
+): number {
+  const start = op.start / sampleRate;
+  switch (op.type) {
+    case "delete": {
+      const end = op.end / sampleRate;
+      return sec < start ? sec : Math.max(sec - (end - start), start);
+    }
+    case "crop": {
+      const end = op.end / sampleRate;
+      return Math.min(Math.max(sec - start, 0), end - start);
+    }
+    case "insertSilence":
+      return sec < start ? sec : sec + op.length / sampleRate;
+    default:
+      return sec;
+  }
+}
+
+// move a time in seconds back to the audio before op, to undo it
+export function unmapEditTime(
+  op: AudioEditOperation,
+  sec: number,
+  sampleRate: number,
+): number {
+  const start = op.start / sampleRate;
+  switch (op.type) {
+    case "delete": {
+      const end = op.end / sampleRate;
+      return sec < start ? sec : sec + (end - start);
+    }
+    case "crop":
+      return sec + start;
+    case "insertSilence":
+      return sec < start ? sec : Math.max(sec - op.length / sampleRate, start);
+    default:
+      return sec;
+  }
+}
+
+/*
+Move the start and end of each segment with the audio.
+A segment overlapping a deleted or cropped range is trimmed, and dropped if nothing is left.
+*/
+export function moveSegments(
+  segments: readonly Segment[],
+  moveTime: (sec: number) => number,
+): Segment[] {
+  const moved = segments
+    .map((s) => ({ ...s, start: moveTime(s.start), end: moveTime(s.end) }))
+    .filter((s) => s.end > s.start);
+  return sortSegments(moved);
+}
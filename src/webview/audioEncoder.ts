@@ -0,0 +1,73 @@
+// You should compile wasm before build extension
+import Module from "../decoder/wasm/decoder.js";
+import { CompressedEncoder, CompressedFileFormat } from "./encoder";
+
+interface Status {
+  status: number;
+  error: string;
+}
+
+// encode FLAC, Opus and MP3 with the encoder of the WASM module
+export default class AudioEncoder implements CompressedEncoder {
+  private static _inputFilePath = "encoder_input";
+  private static _outputFilePath = "encoder_output";
+
+  private _module;
+
+  constructor(module) {
+    this._module = module;
+  }
+
+  public static async create(): Promise<AudioEncoder> {
+    const module = await Module();
+    return new AudioEncoder(module);
+  }
+
+  public encode(
+    channels: Float32Array[],
+    sampleRate: number,
+    fileFormat: CompressedFileFormat,
+    bitsPerSample: number,
+    quality: number,
+  ): Uint8Array {
+    // the module reads interleaved float samples from a file
+    const length = channels[0].length;
+    const interleaved = new Float32Array(length * channels.length);
+    for (let i = 0; i < length; i++) {
+      for (let ch = 0; ch < channels.length; ch++) {
+        interleaved[i * channels.length + ch] = channels[ch][i];
+      }
+    }
+    this._module.FS.writeFile(
+      AudioEncoder._inputFilePath,
+      new Uint8Array(interleaved.buffer),
+    );
+
+    try {
+      const status: Status = this._module.encodeAudio(
+        AudioEncoder._inputFilePath,
+        AudioEncoder._outputFilePath,
+        sampleRate,
+        channels.length,
+        fileFormat,
+        bitsPerSample,
+        Math.round(quality),
+      );
+      if (status.status < 0) {
+        throw new Error(
+          `failed to encode audio: ${status.status}: ${status.error}`,
+        );
+      }
+      return this._module.FS.readFile(AudioEncoder._outputFilePath);
+    } finally {
+      this.unlink(AudioEncoder._inputFilePath);
+      this.unlink(AudioEncoder._outputFilePath);
+    }
+  }
+
+  private unlink(path: string) {
+    if (this._module.FS.analyzePath(path).exists) {
+      this._module.FS.unlink(path);
+    }
+  }
+}
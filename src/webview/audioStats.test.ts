@@ -0,0 +1,91 @@
+import {
+  createAudioStatsMeter,
+  getAudioStats,
+  getCrestFactor,
+  measureAudioStats,
+  toDecibels,
+} from "./audioStats";
+
+function sine(
+  frequency: number,
+  amplitude: number,
+  length: number,
+  sampleRate: number,
+  phase = 0,
+) {
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    data[i] =
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate + phase);
+  }
+  return data;
+}
+
+function measure(channels: Float32Array[], sampleRate: number, chunk = 4096) {
+  const length = channels[0].length;
+  const meter = createAudioStatsMeter(length, channels.length, sampleRate);
+  for (let i = 0; i < length; i += chunk) {
+    measureAudioStats(meter, channels, i, i + chunk);
+  }
+  return getAudioStats(meter);
+}
+
+describe("audioStats", () => {
+  test("a full scale 1 kHz sine in one channel is -3.01 LUFS", () => {
+    for (const sampleRate of [44100, 48000]) {
+      const data = sine(997, 1, sampleRate * 5, sampleRate);
+      const stats = measure([data, new Float32Array(data.length)], sampleRate);
+      expect(stats.integratedLoudness).toBeCloseTo(-3.01, 1);
+      expect(stats.maxShortTermLoudness).toBeCloseTo(-3.01, 1);
+    }
+  });
+
+  test("silence is gated out of the integrated loudness", () => {
+    const sampleRate = 48000;
+    const data = new Float32Array(sampleRate * 10);
+    data.set(sine(997, 0.1, sampleRate * 4, sampleRate));
+    const stats = measure([data, data], sampleRate);
+    // -20 dB in both channels, lowered by the 3 blocks at the end of the sine
+    // which have 3/4, 2/4 and 1/4 of its energy
+    const expected = -20 + 10 * Math.log10((37 + 1.5) / 40);
+    expect(stats.integratedLoudness).toBeCloseTo(expected, 1);
+    expect(measure([new Float32Array(sampleRate)], sampleRate)).toMatchObject({
+      integratedLoudness: -Infinity,
+      maxShortTermLoudness: -Infinity,
+    });
+  });
+
+  test("true peak is found between the samples", () => {
+    const sampleRate = 48000;
+    // samples of a sine at a quarter of the sample rate miss its peaks by 3 dB
+    const data = sine(sampleRate / 4, 0.5, sampleRate, sampleRate, Math.PI / 4);
+    const [stats] = measure([data], sampleRate).channels;
+    expect(toDecibels(stats.peak)).toBeCloseTo(toDecibels(0.5) - 3.01, 1);
+    expect(Math.abs(toDecibels(stats.truePeak / 0.5))).toBeLessThan(0.2);
+  });
+
+  test("rms, dc offset and crest factor", () => {
+    const sampleRate = 8000;
+    const data = sine(100, 0.5, sampleRate, sampleRate).map((v) => v + 0.1);
+    const [stats] = measure([data], sampleRate, 1000).channels;
+    expect(stats.rms).toBeCloseTo(Math.sqrt(0.125 + 0.01), 3);
+    expect(stats.dcOffset).toBeCloseTo(0.1, 3);
+    expect(getCrestFactor(stats)).toBeCloseTo(
+      toDecibels(0.6 / Math.sqrt(0.135)),
+      1,
+    );
+  });
+
+  test("runs of clipped samples are found across chunks", () => {
+    const data = new Float32Array(100);
+    data.fill(1, 8, 12);
+    data.fill(-1, 30, 31);
+    data[50] = 0.99;
+    const [stats] = measure([data], 8000, 10).channels;
+    expect(stats.numClipped).toBe(5);
+    expect(stats.clippedRegions).toEqual([
+      { start: 8, end: 12 },
+      { start: 30, end: 31 },
+    ]);
+  });
+});
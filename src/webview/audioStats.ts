@@ -0,0 +1,275 @@
+// samples at least this loud are clipped, the max of 16-bit PCM and every deeper format
+export const clipLevel = 32767 / 32768;
+
+export function isClipped(value: number) {
+  return value >= clipLevel || value <= -clipLevel;
+}
+
+// consecutive clipped samples, end is exclusive
+export interface ClippedRegion {
+  start: number;
+  end: number;
+}
+
+export interface ChannelStats {
+  // linear amplitudes, true peak is the peak of the 4x oversampled signal
+  peak: number;
+  truePeak: number;
+  rms: number;
+  dcOffset: number;
+  numClipped: number;
+  clippedRegions: ClippedRegion[];
+}
+
+export interface AudioStats {
+  // LUFS of EBU R128, -Infinity if the audio is too short or silent
+  integratedLoudness: number;
+  maxShortTermLoudness: number;
+  channels: ChannelStats[];
+}
+
+interface ChannelMeter extends ChannelStats {
+  sum: number;
+  sumSquares: number;
+  // state of the two biquads of the K-weighting filter
+  filterState: Float64Array;
+  // last samples of the previous chunk for the oversampling filter
+  history: Float32Array;
+}
+
+/*
+Statistics of a whole audio measured chunk by chunk, so that long files do not block the UI.
+The k-weighted energy is summed for every 100 ms, the step of the gating blocks of BS.1770.
+*/
+export interface AudioStatsMeter {
+  sampleRate: number;
+  length: number;
+  stepSize: number;
+  // k-weighted energy of all channels in each step
+  stepEnergies: Float64Array;
+  channels: ChannelMeter[];
+}
+
+const stepSec = 0.1;
+// gating blocks of 400 ms for the integrated loudness, 3 s windows for the short-term loudness
+const momentarySteps = 4;
+const shortTermSteps = 30;
+const absoluteGate = -70;
+const relativeGate = -10;
+// taps of each phase of the interpolation filter of the true peak
+const truePeakTaps = 12;
+const oversampling = 4;
+
+// coefficients [b0, b1, b2, a1, a2] of the two stages of the K-weighting filter
+interface KWeightingFilter {
+  shelf: number[];
+  highPass: number[];
+}
+
+/*
+The pre-filter (high shelf) and RLB filter (high pass) of BS.1770 at any sample rate,
+from their analog prototypes like libebur128. They give the coefficients of the standard at 48 kHz.
+*/
+function createKWeightingFilter(sampleRate: number): KWeightingFilter {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = [
+    (vh + (vb * k) / q + k * k) / a0,
+    (2 * (k * k - vh)) / a0,
+    (vh - (vb * k) / q + k * k) / a0,
+    (2 * (k * k - 1)) / a0,
+    (1 - k / q + k * k) / a0,
+  ];
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass = [1, -2, 1, (2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0];
+  return { shelf, highPass };
+}
+
+/*
+Hann windowed sinc of each phase between the samples, normalized to unity gain.
+Phase p interpolates the point p / 4 after the center of the last truePeakTaps samples.
+*/
+function createTruePeakFilter(): Float64Array[] {
+  const center = truePeakTaps / 2 - 1;
+  const phases: Float64Array[] = [];
+  for (let p = 0; p < oversampling; p++) {
+    const phase = new Float64Array(truePeakTaps);
+    let sum = 0;
+    for (let j = 0; j < truePeakTaps; j++) {
+      const d = center + p / oversampling - j;
+      const sinc = d === 0 ? 1 : Math.sin(Math.PI * d) / (Math.PI * d);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * d) / (truePeakTaps / 2));
+      phase[j] = sinc * window;
+      sum += phase[j];
+    }
+    for (let j = 0; j < truePeakTaps; j++) {
+      phase[j] /= sum;
+    }
+    phases.push(phase);
+  }
+  return phases;
+}
+
+const truePeakFilter = createTruePeakFilter();
+
+export function createAudioStatsMeter(
+  length: number,
+  numChannels: number,
+  sampleRate: number,
+): AudioStatsMeter {
+  const stepSize = Math.max(Math.round(stepSec * sampleRate), 1);
+  const channels: ChannelMeter[] = [];
+  for (let ch = 0; ch < numChannels; ch++) {
+    channels.push({
+      peak: 0,
+      truePeak: 0,
+      rms: 0,
+      dcOffset: 0,
+      numClipped: 0,
+      clippedRegions: [],
+      sum: 0,
+      sumSquares: 0,
+      filterState: new Float64Array(4),
+      history: new Float32Array(truePeakTaps - 1),
+    });
+  }
+  return {
+    sampleRate,
+    length,
+    stepSize,
+    stepEnergies: new Float64Array(Math.ceil(length / stepSize)),
+    channels,
+  };
+}
+
+/*
+Measure the samples from start to end (exclusive) of each channel.
+The chunks must be measured in order, the filters continue from the previous chunk.
+*/
+export function measureAudioStats(
+  meter: AudioStatsMeter,
+  channels: Float32Array[],
+  start: number,
+  end: number,
+) {
+  end = Math.min(end, meter.length);
+  if (end <= start) {
+    return;
+  }
+  const { shelf, highPass } = createKWeightingFilter(meter.sampleRate);
+  meter.channels.forEach((channel, ch) => {
+    const data = channels[ch];
+    const state = channel.filterState;
+    // the samples of this chunk after the last ones of the previous chunk
+    const samples = new Float32Array(truePeakTaps - 1 + end - start);
+    samples.set(channel.history);
+    samples.set(data.subarray(start, end), truePeakTaps - 1);
+
+    for (let i = start; i < end; i++) {
+      const v = data[i];
+      channel.sum += v;
+      channel.sumSquares += v * v;
+      channel.peak = Math.max(channel.peak, Math.abs(v));
+
+      if (isClipped(v)) {
+        channel.numClipped++;
+        const last = channel.clippedRegions[channel.clippedRegions.length - 1];
+        if (last?.end === i) {
+          last.end = i + 1;
+        } else {
+          channel.clippedRegions.push({ start: i, end: i + 1 });
+        }
+      }
+
+      // k-weighting by two biquads in transposed direct form II
+      const s = shelf[0] * v + state[0];
+      state[0] = shelf[1] * v - shelf[3] * s + state[1];
+      state[1] = shelf[2] * v - shelf[4] * s;
+      const y = highPass[0] * s + state[2];
+      state[2] = highPass[1] * s - highPass[3] * y + state[3];
+      state[3] = highPass[2] * s - highPass[4] * y;
+      meter.stepEnergies[Math.floor(i / meter.stepSize)] += y * y;
+
+      // points between the samples around the center of the last taps
+      const first = i - start;
+      for (const phase of truePeakFilter) {
+        let interpolated = 0;
+        for (let j = 0; j < truePeakTaps; j++) {
+          interpolated += samples[first + j] * phase[j];
+        }
+        channel.truePeak = Math.max(channel.truePeak, Math.abs(interpolated));
+      }
+    }
+    channel.history.set(samples.subarray(samples.length - truePeakTaps + 1));
+  });
+}
+
+// loudness in LUFS of a mean square of the k-weighted samples, summed over the channels
+function toLoudness(meanSquare: number) {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+// statistics of the samples measured so far
+export function getAudioStats(meter: AudioStatsMeter): AudioStats {
+  const { length, stepSize, stepEnergies } = meter;
+  const numSteps = Math.floor(length / stepSize);
+
+  // gating blocks of 400 ms overlapping by 75 %
+  const blocks: number[] = [];
+  for (let i = 0; i + momentarySteps <= numSteps; i++) {
+    let energy = 0;
+    for (let j = 0; j < momentarySteps; j++) {
+      energy += stepEnergies[i + j];
+    }
+    blocks.push(energy / (momentarySteps * stepSize));
+  }
+  const mean = (values: number[]) =>
+    values.reduce((a, b) => a + b, 0) / values.length;
+  let gated = blocks.filter((z) => toLoudness(z) > absoluteGate);
+  const threshold = toLoudness(mean(gated)) + relativeGate;
+  gated = gated.filter((z) => toLoudness(z) > threshold);
+  const integratedLoudness =
+    gated.length > 0 ? toLoudness(mean(gated)) : -Infinity;
+
+  // audio shorter than 3 s is measured as a whole
+  const windowSteps = Math.min(shortTermSteps, numSteps);
+  let maxShortTermLoudness = -Infinity;
+  let energy = 0;
+  for (let i = 0; i < numSteps; i++) {
+    energy += stepEnergies[i];
+    if (i >= windowSteps) {
+      energy -= stepEnergies[i - windowSteps];
+    }
+    if (i >= windowSteps - 1) {
+      maxShortTermLoudness = Math.max(
+        maxShortTermLoudness,
+        toLoudness(Math.max(energy, 0) / (windowSteps * stepSize)),
+      );
+    }
+  }
+
+  const channels = meter.channels.map((channel) => ({
+    peak: channel.peak,
+    truePeak: Math.max(channel.truePeak, channel.peak),
+    rms: length > 0 ? Math.sqrt(channel.sumSquares / length) : 0,
+    dcOffset: length > 0 ? channel.sum / length : 0,
+    numClipped: channel.numClipped,
+    clippedRegions: channel.clippedRegions,
+  }));
+  return { integratedLoudness, maxShortTermLoudness, channels };
+}
+
+export function toDecibels(amplitude: number) {
+  return 20 * Math.log10(amplitude);
+}
+
+// ratio of the peak to the rms in dB, 0 for silence
+export function getCrestFactor(stats: ChannelStats) {
+  return stats.rms > 0 ? toDecibels(stats.peak / stats.rms) : 0;
+}
@@ -0,0 +1,44 @@
+import { chromaNames, computeChroma } from "./chroma";
+
+// power spectrum with a peak at each frequency
+function createSpectrum(frequencies: number[], df: number, length: number) {
+  const spectrum = new Float32Array(length);
+  for (const frequency of frequencies) {
+    spectrum[Math.round(frequency / df)] += 1;
+  }
+  return spectrum;
+}
+
+describe("computeChroma", () => {
+  const df = 1;
+
+  test("a tone has its pitch class", () => {
+    const spectrum = createSpectrum([440], df, 2000);
+    const output = new Float32Array(12);
+    computeChroma(spectrum, df, 0, 2000, output, 0);
+    expect(output[chromaNames.indexOf("A")]).toBe(1);
+    expect(output[chromaNames.indexOf("C")]).toBe(0);
+  });
+
+  test("octaves are folded and the frame is normalized by its max", () => {
+    // C major triad over two octaves, E at half power
+    const spectrum = createSpectrum([261.63, 523.25, 392, 783.99], df, 2000);
+    spectrum[Math.round(329.63 / df)] = 1;
+    const output = new Float32Array(12 + 3);
+    computeChroma(spectrum, df, 0, 2000, output, 3);
+    const chroma = output.subarray(3);
+    expect(Math.max(...chroma)).toBe(1);
+    expect(chroma[chromaNames.indexOf("C")]).toBeGreaterThan(0.9);
+    expect(chroma[chromaNames.indexOf("G")]).toBeGreaterThan(0.9);
+    expect(chroma[chromaNames.indexOf("E")]).toBeGreaterThan(0.4);
+    expect(chroma[chromaNames.indexOf("E")]).toBeLessThan(0.6);
+    expect(chroma[chromaNames.indexOf("F#")]).toBe(0);
+  });
+
+  test("bins out of the range are ignored", () => {
+    const spectrum = createSpectrum([440], df, 2000);
+    const output = new Float32Array(12);
+    computeChroma(spectrum, df, 500, 2000, output, 0);
+    expect(Array.from(output).every((v) => v === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+export const chromaNames = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+
+/*
+Energy of the 12 pitch classes of a frame, from the power of the fft bins between
+minIndex and maxIndex (exclusive). Each bin is split between the two pitch classes
+nearest to its frequency, and the frame is normalized by its max like librosa.feature.chroma_stft.
+*/
+export function computeChroma(
+  spectrum: Float32Array,
+  df: number,
+  minIndex: number,
+  maxIndex: number,
+  output: Float32Array,
+  offset: number,
+) {
+  const chroma = output.subarray(offset, offset + chromaNames.length);
+  chroma.fill(0);
+  // the dc bin has no pitch
+  for (let k = Math.max(minIndex, 1); k < maxIndex; k++) {
+    // midi note number, whose integer values are the centers of the pitch classes
+    const note = 69 + 12 * Math.log2((k * df) / 440);
+    const lower = Math.floor(note);
+    const ratio = note - lower;
+    const pitchClass = ((lower % 12) + 12) % 12;
+    chroma[pitchClass] += spectrum[k] * (1 - ratio);
+    chroma[(pitchClass + 1) % 12] += spectrum[k] * ratio;
+  }
+
+  let max = 0;
+  for (let i = 0; i < chroma.length; i++) {
+    max = Math.max(max, chroma[i]);
+  }
+  if (max > 0) {
+    for (let i = 0; i < chroma.length; i++) {
+      chroma[i] /= max;
+    }
+  }
+}
@@ -6,6 +6,10 @@ import {
 import { EventType } from "../../events";
 import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
+import { MelNorm, MelScale } from "../../melFilterBank";
+import { WindowFunction } from "../../windowFunction";
+import { SpectrogramType } from "../../spectrogram";
+import { WebviewMessageType } from "../../../message";
 import AnalyzeSettingsComponent from "./analyzeSettingsComponent";
 
 describe("analyzeSettingsComponent", () => {
@@ -13,6 +17,7 @@ describe("analyzeSettingsComponent", () => {
   let analyzeService: AnalyzeService;
   let analyzeSettingsService: AnalyzeSettingsService;
   let analyzerSettingsComponent: AnalyzeSettingsComponent;
+  let postMessage: jest.Mock;
   beforeAll(() => {
     document.body.innerHTML = '<div id="analyzeSettings"></div>';
     const audioContext = createAudioContext(44100);
@@ -32,6 +37,7 @@ describe("analyzeSettingsComponent", () => {
       melFilterNum: undefined,
     };
     analyzeService = new AnalyzeService(audioBuffer);
+    postMessage = jest.fn();
     analyzeSettingsService = AnalyzeSettingsService.fromDefaultSetting(
       ad,
       audioBuffer,
@@ -40,6 +46,7 @@ describe("analyzeSettingsComponent", () => {
       "#analyzeSettings",
       analyzeService,
       analyzeSettingsService,
+      postMessage,
     );
   });
 
@@ -120,6 +127,76 @@ describe("analyzeSettingsComponent", () => {
     expect(windowSizeSelect.selectedIndex).toBe(index);
   });
 
+  test("spectrogram type should be updated when user change spectrogram-type-select", () => {
+    const spectrogramTypeSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-spectrogramType")
+    );
+    spectrogramTypeSelect.selectedIndex = SpectrogramType.Mfcc;
+    spectrogramTypeSelect.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.spectrogramType).toBe(SpectrogramType.Mfcc);
+
+    analyzeSettingsService.spectrogramType = SpectrogramType.Reassigned;
+    expect(spectrogramTypeSelect.selectedIndex).toBe(
+      SpectrogramType.Reassigned,
+    );
+    analyzeSettingsService.spectrogramType = SpectrogramType.Stft;
+  });
+
+  test("mfcc num should be updated when user change mfcc-num-input", () => {
+    const mfccNumInput = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-mfccNum")
+    );
+    mfccNumInput.value = "13";
+    mfccNumInput.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.mfccNum).toBe(13);
+  });
+
+  test("window function should be updated when user change window-function-select", () => {
+    const windowFunctionSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-windowFunction")
+    );
+    windowFunctionSelect.selectedIndex = WindowFunction.Blackman;
+    windowFunctionSelect.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.windowFunction).toBe(WindowFunction.Blackman);
+  });
+
+  test("window parameter inputs should be shown only for their window function", () => {
+    const kaiserBetaBox = <HTMLElement>(
+      document.querySelector(".js-analyzeSetting-kaiserBetaBox")
+    );
+    const gaussianSigmaBox = <HTMLElement>(
+      document.querySelector(".js-analyzeSetting-gaussianSigmaBox")
+    );
+    analyzeSettingsService.windowFunction = WindowFunction.Kaiser;
+    const windowFunctionSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-windowFunction")
+    );
+    expect(windowFunctionSelect.selectedIndex).toBe(WindowFunction.Kaiser);
+    expect(kaiserBetaBox.style.display).toBe("");
+    expect(gaussianSigmaBox.style.display).toBe("none");
+
+    analyzeSettingsService.windowFunction = WindowFunction.Gaussian;
+    expect(kaiserBetaBox.style.display).toBe("none");
+    expect(gaussianSigmaBox.style.display).toBe("");
+  });
+
+  test("kaiser beta should be updated when user change kaiser-beta-input", () => {
+    const kaiserBetaInput = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-kaiserBeta")
+    );
+    kaiserBetaInput.value = "4.5";
+    kaiserBetaInput.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.kaiserBeta).toBe(4.5);
+  });
+
+  test("gaussian-sigma-input should be updated when recieving update-gaussian-sigma event", () => {
+    analyzeSettingsService.gaussianSigma = 0.25;
+    const gaussianSigmaInput = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-gaussianSigma")
+    );
+    expect(gaussianSigmaInput.value).toBe("0.25");
+  });
+
   test("frequency scale should be updated when user change frequency-scale-select", () => {
     const frequencyScale = getRandomInt(0, 2);
     const frequencyScaleSelect = <HTMLSelectElement>(
@@ -144,6 +221,23 @@ describe("analyzeSettingsComponent", () => {
     expect(frequencyScaleSelect.selectedIndex).toBe(frequencyScale);
   });
 
+  test("follow-playhead should be updated when user change follow-playhead-select", () => {
+    const followPlayheadSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-followPlayhead")
+    );
+    expect(followPlayheadSelect.selectedIndex).toBe(0);
+    followPlayheadSelect.selectedIndex = 2;
+    followPlayheadSelect.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.followPlayhead).toBe(2);
+  });
+  test("follow-playhead-select should be updated when recieving update-follow-playhead event", () => {
+    analyzeSettingsService.followPlayhead = 1;
+    const followPlayheadSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-followPlayhead")
+    );
+    expect(followPlayheadSelect.selectedIndex).toBe(1);
+  });
+
   test("mel-filter-num should be updated when user change mel-filter-num-input", () => {
     const melFilterNum = getRandomFloat(20, 200);
     const melFilterNumInput = <HTMLInputElement>(
@@ -168,6 +262,25 @@ describe("analyzeSettingsComponent", () => {
     expect(Number(melFilterNumInput.value)).toBe(melFilterNum);
   });
 
+  test("mel scale and norm should be updated when user change their selects", () => {
+    const melScaleSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-melScale")
+    );
+    melScaleSelect.selectedIndex = MelScale.Htk;
+    melScaleSelect.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.melScale).toBe(MelScale.Htk);
+
+    const melNormSelect = <HTMLSelectElement>(
+      document.querySelector(".js-analyzeSetting-melNorm")
+    );
+    melNormSelect.selectedIndex = MelNorm.None;
+    melNormSelect.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.melNorm).toBe(MelNorm.None);
+
+    analyzeSettingsService.melNorm = MelNorm.Slaney;
+    expect(melNormSelect.selectedIndex).toBe(MelNorm.Slaney);
+  });
+
   test("min-frequency should be updated when user change min-frequency-input", () => {
     const minFrequency = getRandomFloat(0, audioBuffer.sampleRate / 2);
     const minFrequencyInput = <HTMLInputElement>(
@@ -357,4 +470,74 @@ describe("analyzeSettingsComponent", () => {
       spectrogramAmplitudeRange,
     );
   });
+
+  test("pitch settings should be updated when user change the pitch inputs", () => {
+    const pitchVisible = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-pitchVisible")
+    );
+    pitchVisible.checked = true;
+    pitchVisible.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.pitchVisible).toBe(true);
+
+    const maxF0Input = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-maxF0")
+    );
+    maxF0Input.value = "400";
+    maxF0Input.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.maxF0).toBe(400);
+  });
+  test("min-f0-input should be updated when recieving update-min-f0 event", () => {
+    analyzeSettingsService.minF0 = 100;
+    const minF0Input = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-minF0")
+    );
+    expect(minF0Input.value).toBe("100");
+  });
+  test("formant settings should be updated when user change the formant inputs", () => {
+    const formantVisible = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-formantVisible")
+    );
+    formantVisible.checked = true;
+    formantVisible.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.formantVisible).toBe(true);
+
+    const numFormantsInput = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-numFormants")
+    );
+    numFormantsInput.value = "4";
+    numFormantsInput.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.numFormants).toBe(4);
+
+    const formantWindowLengthInput = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-formantWindowLength")
+    );
+    formantWindowLengthInput.value = "0.05";
+    formantWindowLengthInput.dispatchEvent(new Event(EventType.CHANGE));
+    expect(analyzeSettingsService.formantWindowLength).toBe(0.05);
+  });
+  test("max-formant-input should be updated when recieving update-max-formant event", () => {
+    analyzeSettingsService.maxFormant = 5000;
+    const maxFormantInput = <HTMLInputElement>(
+      document.querySelector(".js-analyzeSetting-maxFormant")
+    );
+    expect(maxFormantInput.value).toBe("5000");
+  });
+  test("pitch of all channels should be exported as CSV", async () => {
+    const exportButton = <HTMLButtonElement>(
+      document.querySelector(".js-analyzeSetting-exportPitch")
+    );
+    exportButton.dispatchEvent(new Event(EventType.CLICK));
+    expect(exportButton.disabled).toBe(true);
+    while (postMessage.mock.calls.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    const msg = postMessage.mock.calls[0][0];
+    expect(msg.type).toBe(WebviewMessageType.EXPORT_PITCH);
+    const lines = msg.data.csv.trim().split("\n");
+    expect(lines[0]).toBe("time,f0_1,voiced_1,f0_2,voiced_2");
+    // the audio is silent
+    expect(lines[1]).toBe("0.000,,0,,0");
+    expect(lines.length).toBe(101);
+    expect(exportButton.disabled).toBe(false);
+  });
 });
@@ -5,21 +5,26 @@ import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService, {
   AnalyzeSettingsProps,
 } from "../../services/analyzeSettingsService";
+import { WindowFunction } from "../../windowFunction";
+import { PostMessage, WebviewMessageType } from "../../../message";
 
 export default class AnalyzeSettingsComponent extends Component {
   private _componentRoot: HTMLElement;
   private _analyzeService: AnalyzeService;
   private _analyzeSettingsService: AnalyzeSettingsService;
+  private _postMessage: PostMessage;
 
   constructor(
     componentRootSelector: string,
     analyzeService: AnalyzeService,
     analyzeSettingsService: AnalyzeSettingsService,
+    postMessage: PostMessage,
   ) {
     super();
     this._componentRoot = document.querySelector(componentRootSelector);
     this._analyzeService = analyzeService;
     this._analyzeSettingsService = analyzeSettingsService;
+    this._postMessage = postMessage;
 
     this._componentRoot.innerHTML = `
     <div class="analyzeSetting">
@@ -29,6 +34,14 @@ export default class AnalyzeSettingsComponent extends Component {
           <input class="analyzeSetting__input js-analyzeSetting-minTime" type="number" step="0.1">s ~
           <input class="analyzeSetting__input js-analyzeSetting-maxTime" type="number" step="0.1">s
       </div>
+      <div>
+          follow playhead:
+          <select class="analyzeSetting__select js-analyzeSetting-followPlayhead">
+              <option value="0">Off</option>
+              <option value="1">Page</option>
+              <option value="2">Scroll</option>
+          </select>
+      </div>
 
       <h3>WaveForm Settings</h3>
       <div>
@@ -44,6 +57,18 @@ export default class AnalyzeSettingsComponent extends Component {
       <div>
           <input class="js-analyzeSetting-spectrogramVisible" type="checkbox">visible
       </div>
+      <div>
+          type:
+          <select class="analyzeSetting__select js-analyzeSetting-spectrogramType">
+              <option value="0">Spectrogram</option>
+              <option value="1">Constant-Q</option>
+              <option value="2">MFCC</option>
+              <option value="3">Chromagram</option>
+              <option value="4">Reassigned</option>
+          </select>
+          mfcc num:
+          <input class="analyzeSetting__input js-analyzeSetting-mfccNum" type="number" step="1">
+      </div>
       <div>
           window size:
           <select class="analyzeSetting__select js-analyzeSetting-windowSize">
@@ -57,6 +82,26 @@ export default class AnalyzeSettingsComponent extends Component {
               <option value="7">32768</option>
           </select>
       </div>
+      <div>
+          window function:
+          <select class="analyzeSetting__select js-analyzeSetting-windowFunction">
+              <option value="0">Hann</option>
+              <option value="1">Hamming</option>
+              <option value="2">Blackman</option>
+              <option value="3">Rectangular</option>
+              <option value="4">Kaiser</option>
+              <option value="5">Gaussian</option>
+              <option value="6">Flat-top</option>
+          </select>
+          <span class="js-analyzeSetting-kaiserBetaBox">
+              beta:
+              <input class="analyzeSetting__input js-analyzeSetting-kaiserBeta" type="number" step="0.5">
+          </span>
+          <span class="js-analyzeSetting-gaussianSigmaBox">
+              sigma:
+              <input class="analyzeSetting__input js-analyzeSetting-gaussianSigma" type="number" step="0.05">
+          </span>
+      </div>
       <div>
           frequency scale:
           <select class="analyzeSetting__select js-analyzeSetting-frequencyScale">
@@ -66,6 +111,16 @@ export default class AnalyzeSettingsComponent extends Component {
           </select>
           mel filter num:
           <input class="analyzeSetting__input js-analyzeSetting-melFilterNum" type="number" step="10">
+          mel scale:
+          <select class="analyzeSetting__select js-analyzeSetting-melScale">
+              <option value="0">Slaney</option>
+              <option value="1">HTK</option>
+          </select>
+          mel norm:
+          <select class="analyzeSetting__select js-analyzeSetting-melNorm">
+              <option value="0">None</option>
+              <option value="1">Slaney</option>
+          </select>
       </div>
       <div>
           frequency range:
@@ -83,6 +138,32 @@ export default class AnalyzeSettingsComponent extends Component {
               <canvas class="analyzeSetting__canvas js-analyzeSetting-spectrogramColor" width="100px" height="5px"></canvas>
           </div>
       </div>
+
+      <h3>Pitch Settings</h3>
+      <div>
+          <input class="js-analyzeSetting-pitchVisible" type="checkbox">visible
+      </div>
+      <div>
+          F0 range:
+          <input class="analyzeSetting__input js-analyzeSetting-minF0" type="number" step="10">Hz ~
+          <input class="analyzeSetting__input js-analyzeSetting-maxF0" type="number" step="10">Hz
+      </div>
+      <div>
+          <button class="analyzeSettingButton js-analyzeSetting-exportPitch">export pitch as CSV</button>
+      </div>
+
+      <h3>Formant Settings</h3>
+      <div>
+          <input class="js-analyzeSetting-formantVisible" type="checkbox">visible
+      </div>
+      <div>
+          max formant:
+          <input class="analyzeSetting__input js-analyzeSetting-maxFormant" type="number" step="500">Hz
+          number of formants:
+          <input class="analyzeSetting__input js-analyzeSetting-numFormants" type="number" step="1">
+          window length:
+          <input class="analyzeSetting__input js-analyzeSetting-formantWindowLength" type="number" step="0.005">s
+      </div>
     </div>
     `;
 
@@ -140,6 +221,88 @@ export default class AnalyzeSettingsComponent extends Component {
       },
     );
 
+    // init window function select, the parameter of kaiser and gaussian is shown only for them
+    const windowFunctionSelect = <HTMLSelectElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-windowFunction")
+    );
+    windowFunctionSelect.selectedIndex = settings.windowFunction;
+    this.updateWindowParameterVisibility(settings.windowFunction);
+    this._addEventlistener(windowFunctionSelect, EventType.CHANGE, () => {
+      settings.windowFunction = Number(windowFunctionSelect.selectedIndex);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_WINDOW_FUNCTION,
+      (e: CustomEventInit) => {
+        windowFunctionSelect.selectedIndex = e.detail.value;
+        this.updateWindowParameterVisibility(e.detail.value);
+      },
+    );
+
+    // init kaiser beta input
+    const kaiserBetaInput = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-kaiserBeta")
+    );
+    kaiserBetaInput.value = `${settings.kaiserBeta}`;
+    this._addEventlistener(kaiserBetaInput, EventType.CHANGE, () => {
+      settings.kaiserBeta = Number(kaiserBetaInput.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_KAISER_BETA,
+      (e: CustomEventInit) => {
+        kaiserBetaInput.value = `${e.detail.value}`;
+      },
+    );
+
+    // init gaussian sigma input
+    const gaussianSigmaInput = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-gaussianSigma")
+    );
+    gaussianSigmaInput.value = `${settings.gaussianSigma}`;
+    this._addEventlistener(gaussianSigmaInput, EventType.CHANGE, () => {
+      settings.gaussianSigma = Number(gaussianSigmaInput.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_GAUSSIAN_SIGMA,
+      (e: CustomEventInit) => {
+        gaussianSigmaInput.value = `${e.detail.value}`;
+      },
+    );
+
+    // init spectrogram type select
+    const spectrogramTypeSelect = <HTMLSelectElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-spectrogramType")
+    );
+    spectrogramTypeSelect.selectedIndex = settings.spectrogramType;
+    this._addEventlistener(spectrogramTypeSelect, EventType.CHANGE, () => {
+      settings.spectrogramType = Number(spectrogramTypeSelect.selectedIndex);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_SPECTROGRAM_TYPE,
+      (e: CustomEventInit) => {
+        spectrogramTypeSelect.selectedIndex = e.detail.value;
+      },
+    );
+
+    // init mfcc num input
+    const mfccNumInput = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-mfccNum")
+    );
+    mfccNumInput.value = `${settings.mfccNum}`;
+    this._addEventlistener(mfccNumInput, EventType.CHANGE, () => {
+      settings.mfccNum = Number(mfccNumInput.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_MFCC_NUM,
+      (e: CustomEventInit) => {
+        mfccNumInput.value = `${e.detail.value}`;
+      },
+    );
+
     // init frequency scale select
     const frequencyScaleSelect = <HTMLSelectElement>(
       this._componentRoot.querySelector(".js-analyzeSetting-frequencyScale")
@@ -172,6 +335,38 @@ export default class AnalyzeSettingsComponent extends Component {
       },
     );
 
+    // init mel scale select
+    const melScaleSelect = <HTMLSelectElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-melScale")
+    );
+    melScaleSelect.selectedIndex = settings.melScale;
+    this._addEventlistener(melScaleSelect, EventType.CHANGE, () => {
+      settings.melScale = Number(melScaleSelect.selectedIndex);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_MEL_SCALE,
+      (e: CustomEventInit) => {
+        melScaleSelect.selectedIndex = e.detail.value;
+      },
+    );
+
+    // init mel norm select
+    const melNormSelect = <HTMLSelectElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-melNorm")
+    );
+    melNormSelect.selectedIndex = settings.melNorm;
+    this._addEventlistener(melNormSelect, EventType.CHANGE, () => {
+      settings.melNorm = Number(melNormSelect.selectedIndex);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_MEL_NORM,
+      (e: CustomEventInit) => {
+        melNormSelect.selectedIndex = e.detail.value;
+      },
+    );
+
     // init frequency range input
     const minFreqInput = <HTMLInputElement>(
       this._componentRoot.querySelector(".js-analyzeSetting-minFrequency")
@@ -234,6 +429,22 @@ export default class AnalyzeSettingsComponent extends Component {
       },
     );
 
+    // init follow playhead select
+    const followPlayheadSelect = <HTMLSelectElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-followPlayhead")
+    );
+    followPlayheadSelect.selectedIndex = settings.followPlayhead;
+    this._addEventlistener(followPlayheadSelect, EventType.CHANGE, () => {
+      settings.followPlayhead = Number(followPlayheadSelect.selectedIndex);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_FOLLOW_PLAYHEAD,
+      (e: CustomEventInit) => {
+        followPlayheadSelect.selectedIndex = e.detail.value;
+      },
+    );
+
     // init amplitude range input
     const minAmplitudeInput = <HTMLInputElement>(
       this._componentRoot.querySelector(".js-analyzeSetting-minAmplitude")
@@ -290,6 +501,150 @@ export default class AnalyzeSettingsComponent extends Component {
         this.updateColorBar(settings);
       },
     );
+
+    // init pitch visible checkbox
+    const pitchVisible = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-pitchVisible")
+    );
+    pitchVisible.checked = settings.pitchVisible;
+    this._addEventlistener(pitchVisible, EventType.CHANGE, () => {
+      settings.pitchVisible = pitchVisible.checked;
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_PITCH_VISIBLE,
+      (e: CustomEventInit) => {
+        pitchVisible.checked = e.detail.value;
+      },
+    );
+
+    // init F0 range input
+    const minF0Input = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-minF0")
+    );
+    minF0Input.value = `${settings.minF0}`;
+    this._addEventlistener(minF0Input, EventType.CHANGE, () => {
+      settings.minF0 = Number(minF0Input.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_MIN_F0,
+      (e: CustomEventInit) => {
+        minF0Input.value = `${e.detail.value}`;
+      },
+    );
+
+    const maxF0Input = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-maxF0")
+    );
+    maxF0Input.value = `${settings.maxF0}`;
+    this._addEventlistener(maxF0Input, EventType.CHANGE, () => {
+      settings.maxF0 = Number(maxF0Input.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_MAX_F0,
+      (e: CustomEventInit) => {
+        maxF0Input.value = `${e.detail.value}`;
+      },
+    );
+
+    // export the pitch of the whole audio with the current F0 range
+    const exportPitchButton = <HTMLButtonElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-exportPitch")
+    );
+    this._addEventlistener(exportPitchButton, EventType.CLICK, async () => {
+      exportPitchButton.disabled = true;
+      try {
+        const csv = await this._analyzeService.getPitchCsv(
+          settings.minF0,
+          settings.maxF0,
+        );
+        this._postMessage({
+          type: WebviewMessageType.EXPORT_PITCH,
+          data: { csv },
+        });
+      } finally {
+        exportPitchButton.disabled = false;
+      }
+    });
+
+    // init formant visible checkbox
+    const formantVisible = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-formantVisible")
+    );
+    formantVisible.checked = settings.formantVisible;
+    this._addEventlistener(formantVisible, EventType.CHANGE, () => {
+      settings.formantVisible = formantVisible.checked;
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_FORMANT_VISIBLE,
+      (e: CustomEventInit) => {
+        formantVisible.checked = e.detail.value;
+      },
+    );
+
+    // init formant analysis inputs
+    const maxFormantInput = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-maxFormant")
+    );
+    maxFormantInput.value = `${settings.maxFormant}`;
+    this._addEventlistener(maxFormantInput, EventType.CHANGE, () => {
+      settings.maxFormant = Number(maxFormantInput.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_MAX_FORMANT,
+      (e: CustomEventInit) => {
+        maxFormantInput.value = `${e.detail.value}`;
+      },
+    );
+
+    const numFormantsInput = <HTMLInputElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-numFormants")
+    );
+    numFormantsInput.value = `${settings.numFormants}`;
+    this._addEventlistener(numFormantsInput, EventType.CHANGE, () => {
+      settings.numFormants = Number(numFormantsInput.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_NUM_FORMANTS,
+      (e: CustomEventInit) => {
+        numFormantsInput.value = `${e.detail.value}`;
+      },
+    );
+
+    const formantWindowLengthInput = <HTMLInputElement>(
+      this._componentRoot.querySelector(
+        ".js-analyzeSetting-formantWindowLength",
+      )
+    );
+    formantWindowLengthInput.value = `${settings.formantWindowLength}`;
+    this._addEventlistener(formantWindowLengthInput, EventType.CHANGE, () => {
+      settings.formantWindowLength = Number(formantWindowLengthInput.value);
+    });
+    this._addEventlistener(
+      settings,
+      EventType.AS_UPDATE_FORMANT_WINDOW_LENGTH,
+      (e: CustomEventInit) => {
+        formantWindowLengthInput.value = `${e.detail.value}`;
+      },
+    );
+  }
+
+  private updateWindowParameterVisibility(windowFunction: WindowFunction) {
+    const kaiserBetaBox = <HTMLElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-kaiserBetaBox")
+    );
+    kaiserBetaBox.style.display =
+      windowFunction === WindowFunction.Kaiser ? "" : "none";
+    const gaussianSigmaBox = <HTMLElement>(
+      this._componentRoot.querySelector(".js-analyzeSetting-gaussianSigmaBox")
+    );
+    gaussianSigmaBox.style.display =
+      windowFunction === WindowFunction.Gaussian ? "" : "none";
   }
 
   private updateColorBar(settings: AnalyzeSettingsProps) {
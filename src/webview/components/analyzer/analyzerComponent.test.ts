@@ -3,6 +3,7 @@ import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
 import PlayerService from "../../services/playerService";
 import PlayerSettingsService from "../../services/playerSettingsService";
+import SegmentService from "../../services/segmentService";
 import AnalyzerComponent from "./analyzerComponent";
 
 describe("analyserComponent", () => {
@@ -60,6 +61,7 @@ describe("analyserComponent", () => {
       analyzeService,
       analyzeSettingsService,
       playerService,
+      new SegmentService(audioBuffer.duration),
       false,
     );
   });
@@ -137,6 +139,7 @@ describe("auto analyze", () => {
       analyzeService,
       analyzeSettingsService,
       playerService,
+      new SegmentService(audioBuffer.duration),
       true,
     );
     expect(
@@ -195,6 +198,7 @@ describe("auto analyze", () => {
       analyzeService,
       analyzeSettingsService,
       playerService,
+      new SegmentService(audioBuffer.duration),
       false,
     );
     expect(
@@ -263,6 +267,7 @@ describe("position of seek-bar should be updated when recieving update-seekbar e
       analyzeService,
       analyzeSettingsService,
       playerService,
+      new SegmentService(audioBuffer.duration),
       false,
     );
     analyzeService.analyze();
@@ -314,4 +319,19 @@ describe("position of seek-bar should be updated when recieving update-seekbar e
     );
     expect(visibleSeekbar.style.width).toBe("100%");
   });
+
+  test("loop shown range button loops the range of the figures", () => {
+    const loopRangeButton = document.querySelector(
+      ".js-loopRangeButton",
+    ) as HTMLButtonElement;
+    loopRangeButton.click();
+    expect(playerService.loop).toEqual({ start: 2, end: 6 });
+
+    const loopRegion = document.querySelector(
+      ".figureLoopRegion",
+    ) as HTMLDivElement;
+    expect(loopRegion.style.display).toBe("block");
+    expect(loopRegion.style.left).toBe("0%");
+    expect(loopRegion.style.width).toBe("100%");
+  });
 });
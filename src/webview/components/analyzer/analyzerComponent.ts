@@ -3,10 +3,14 @@ import { EventType } from "../../events";
 import Component from "../../component";
 import PlayerService from "../../services/playerService";
 import AnalyzeService from "../../services/analyzeService";
-import AnalyzeSettingsService from "../../services/analyzeSettingsService";
+import AnalyzeSettingsService, {
+  FollowPlayhead,
+} from "../../services/analyzeSettingsService";
+import SegmentService from "../../services/segmentService";
 import WaveFormComponent from "../waveform/waveFormComponent";
 import SpectrogramComponent from "../spectrogram/spectrogramComponent";
 import FigureInteractionComponent from "../figureInteraction/figureInteractionComponent";
+import MinimapComponent from "../minimap/minimapComponent";
 
 export default class AnalyzerComponent extends Component {
   private _componentRootSelector: string;
@@ -16,9 +20,13 @@ export default class AnalyzerComponent extends Component {
   private _analyzeService: AnalyzeService;
   private _analyzeSettingsService: AnalyzeSettingsService;
   private _playerService: PlayerService;
+  private _segmentService: SegmentService;
 
   private _analyzeButton: HTMLButtonElement;
   private _analyzeResultBox: HTMLElement;
+  private _minimapComponent: MinimapComponent | undefined;
+  // disposed when the result is cleared, which cancels the computation of spectrograms
+  private _resultComponents: Component[] = [];
 
   constructor(
     componentRootSelector: string,
@@ -26,6 +34,7 @@ export default class AnalyzerComponent extends Component {
     analyzeService: AnalyzeService,
     analyzeSettingsService: AnalyzeSettingsService,
     playerService: PlayerService,
+    segmentService: SegmentService,
     autoAnalyze: boolean,
   ) {
     super();
@@ -33,6 +42,8 @@ export default class AnalyzerComponent extends Component {
     this._analyzeService = analyzeService;
     this._analyzeSettingsService = analyzeSettingsService;
     this._playerService = playerService;
+    this._segmentService = segmentService;
+    this._register({ dispose: () => this.disposeResultComponents() });
 
     // init base html
     this._componentRootSelector = componentRootSelector;
@@ -40,6 +51,8 @@ export default class AnalyzerComponent extends Component {
     this._componentRoot.innerHTML = `
       <div class="analyzerComponent">
         <button class="analyzeButton">analyze</button>
+        <button class="loopRangeButton js-loopRangeButton">loop shown range</button>
+        <div class="js-minimapBox"></div>
         <div class="analyzeResultBox"></div>
       </div>
     `;
@@ -48,14 +61,44 @@ export default class AnalyzerComponent extends Component {
       this.renderAnalyzeResult();
     });
 
+    this._addEventlistener(
+      this._playerService,
+      EventType.UPDATE_SEEKBAR,
+      (e: CustomEventInit) => {
+        // follow only during playback, after the first analysis
+        if (!this._playerService.isPlaying || !this._minimapComponent) {
+          return;
+        }
+        const sec = (e.detail.value * this._audioBuffer.duration) / 100;
+        if (!this._analyzeSettingsService.followPlayheadAt(sec)) {
+          return;
+        }
+        if (
+          this._analyzeSettingsService.followPlayhead === FollowPlayhead.Scroll
+        ) {
+          this._analyzeService.analyzeOnNextFrame();
+        } else {
+          this._analyzeService.analyze();
+        }
+      },
+    );
+
     // init analyze button
     this._analyzeButton = <HTMLButtonElement>(
       this._componentRoot.querySelector(".analyzeButton")
     );
-    this._analyzeButton.onclick = () => {
-      this._analyzeResultBox.style.display = "block";
-      this._analyzeService.analyze();
-    };
+    this._analyzeButton.onclick = () => this.analyze();
+
+    // loop the range of the figures, which is the last selection after zooming in
+    const loopRangeButton = this._componentRoot.querySelector(
+      ".js-loopRangeButton",
+    ) as HTMLButtonElement;
+    this._addEventlistener(loopRangeButton, EventType.CLICK, () => {
+      this._playerService.setLoop(
+        this._analyzeSettingsService.minTime,
+        this._analyzeSettingsService.maxTime,
+      );
+    });
 
     // init analyze result box
     this._analyzeResultBox =
@@ -67,7 +110,25 @@ export default class AnalyzerComponent extends Component {
     }
   }
 
+  // true once the figures have been drawn
+  public get isAnalyzed() {
+    return this._analyzeResultBox.childElementCount > 0;
+  }
+
+  public analyze() {
+    this._analyzeResultBox.style.display = "block";
+    this._analyzeService.analyze();
+  }
+
+  private disposeResultComponents() {
+    for (const c of this._resultComponents) {
+      c.dispose();
+    }
+    this._resultComponents = [];
+  }
+
   private clearAnalyzeResult() {
+    this.disposeResultComponents();
     for (const c of Array.from(this._analyzeResultBox.children)) {
       this._analyzeResultBox.removeChild(c);
     }
@@ -76,12 +137,26 @@ export default class AnalyzerComponent extends Component {
   private renderAnalyzeResult() {
     // disable analyze button
     this._analyzeButton.style.display = "none";
+    this._componentRoot.querySelector<HTMLElement>(
+      ".js-loopRangeButton",
+    ).style.display = "inline-block";
     // clear previous result
     this.clearAnalyzeResult();
 
     const settings = this._analyzeSettingsService.toProps();
     console.log("analyze", settings);
 
+    // the minimap is kept while zooming and panning
+    if (!this._minimapComponent) {
+      this._minimapComponent = new MinimapComponent(
+        `${this._componentRootSelector} .js-minimapBox`,
+        this._audioBuffer,
+        this._analyzeService,
+        this._analyzeSettingsService,
+      );
+      this._register(this._minimapComponent);
+    }
+
     for (let ch = 0; ch < this._audioBuffer.numberOfChannels; ch++) {
       if (this._analyzeSettingsService.waveformVisible) {
         const canvasBox = document.createElement("div");
@@ -96,19 +171,22 @@ export default class AnalyzerComponent extends Component {
             this._analyzeSettingsService.waveformVerticalScale,
           settings,
           this._audioBuffer.sampleRate,
-          this._audioBuffer.getChannelData(ch),
+          this._analyzeService.getPeakPyramid(ch),
           ch,
           this._audioBuffer.numberOfChannels,
         );
 
-        new FigureInteractionComponent(
-          `${this._componentRootSelector} .analyzeResultBox .${canvasBoxClass}`,
-          true,
-          this._playerService,
-          this._analyzeService,
-          this._analyzeSettingsService,
-          this._audioBuffer,
-          settings,
+        this._resultComponents.push(
+          new FigureInteractionComponent(
+            `${this._componentRootSelector} .analyzeResultBox .${canvasBoxClass}`,
+            true,
+            this._playerService,
+            this._analyzeService,
+            this._analyzeSettingsService,
+            this._segmentService,
+            this._audioBuffer,
+            settings,
+          ),
         );
       }
 
@@ -118,26 +196,31 @@ export default class AnalyzerComponent extends Component {
         canvasBox.classList.add("canvasBox", canvasBoxClass);
         this._analyzeResultBox.appendChild(canvasBox);
 
-        new SpectrogramComponent(
-          `${this._componentRootSelector} .analyzeResultBox .${canvasBoxClass}`,
-          AnalyzeSettingsService.SPECTROGRAM_CANVAS_WIDTH,
-          AnalyzeSettingsService.SPECTROGRAM_CANVAS_HEIGHT *
-            this._analyzeSettingsService.spectrogramVerticalScale,
-          this._analyzeService,
-          settings,
-          this._audioBuffer.sampleRate,
-          ch,
-          this._audioBuffer.numberOfChannels,
+        this._resultComponents.push(
+          new SpectrogramComponent(
+            `${this._componentRootSelector} .analyzeResultBox .${canvasBoxClass}`,
+            AnalyzeSettingsService.SPECTROGRAM_CANVAS_WIDTH,
+            AnalyzeSettingsService.SPECTROGRAM_CANVAS_HEIGHT *
+              this._analyzeSettingsService.spectrogramVerticalScale,
+            this._analyzeService,
+            settings,
+            this._audioBuffer.sampleRate,
+            ch,
+            this._audioBuffer.numberOfChannels,
+          ),
         );
 
-        new FigureInteractionComponent(
-          `${this._componentRootSelector} .analyzeResultBox .${canvasBoxClass}`,
-          false,
-          this._playerService,
-          this._analyzeService,
-          this._analyzeSettingsService,
-          this._audioBuffer,
-          settings,
+        this._resultComponents.push(
+          new FigureInteractionComponent(
+            `${this._componentRootSelector} .analyzeResultBox .${canvasBoxClass}`,
+            false,
+            this._playerService,
+            this._analyzeService,
+            this._analyzeSettingsService,
+            this._segmentService,
+            this._audioBuffer,
+            settings,
+          ),
         );
       }
     }
@@ -0,0 +1,111 @@
+import { WebviewMessageType } from "../../../message";
+import { defaultEncoderOptions } from "../../encoder";
+import AudioEditService from "../../services/audioEditService";
+import AudioEditComponent from "./audioEditComponent";
+
+describe("audioEditComponent", () => {
+  let postMessage: jest.Mock;
+  let audioEditService: AudioEditService;
+  let selection: { start: number; end: number };
+  const click = (selector: string) =>
+    (document.querySelector(selector) as HTMLButtonElement).click();
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="audioEdit"></div>';
+    postMessage = jest.fn();
+    audioEditService = new AudioEditService([new Float32Array(100)], 100);
+    selection = { start: 0.2, end: 0.5 };
+    new AudioEditComponent(
+      "#audioEdit",
+      audioEditService,
+      () => selection,
+      defaultEncoderOptions,
+      async () => ({ encode: () => new Uint8Array(10) }),
+      postMessage,
+    );
+  });
+
+  test("tools are hidden until edit mode is enabled", () => {
+    const tools = document.querySelector(".js-audioEditTools") as HTMLElement;
+    expect(tools.style.display).toBe("none");
+    const modeInput = document.querySelector(
+      ".js-audioEditMode",
+    ) as HTMLInputElement;
+    modeInput.checked = true;
+    modeInput.dispatchEvent(new Event("change"));
+    expect(tools.style.display).toBe("");
+  });
+
+  test("operations are applied to the selected range", () => {
+    click(".js-audioEdit-delete");
+    expect(audioEditService.operations).toEqual([
+      { type: "delete", start: 20, end: 50 },
+    ]);
+    expect(audioEditService.length).toBe(70);
+    expect(document.querySelector(".js-audioEditStatus").textContent).toBe(
+      "1 edit, last: delete",
+    );
+
+    click(".js-audioEdit-insertSilence");
+    expect(audioEditService.operations[1]).toEqual({
+      type: "insertSilence",
+      start: 20,
+      length: 100,
+    });
+  });
+
+  test("undo and redo buttons follow the history", () => {
+    const undoButton = document.querySelector(
+      ".js-audioEditUndo",
+    ) as HTMLButtonElement;
+    const redoButton = document.querySelector(
+      ".js-audioEditRedo",
+    ) as HTMLButtonElement;
+    expect(undoButton.disabled).toBe(true);
+    click(".js-audioEdit-reverse");
+    expect(undoButton.disabled).toBe(false);
+    click(".js-audioEditUndo");
+    expect(redoButton.disabled).toBe(false);
+    expect(audioEditService.operations.length).toBe(0);
+  });
+
+  test("removing the whole audio shows an error", () => {
+    selection = { start: 0, end: 1 };
+    click(".js-audioEdit-delete");
+    expect(audioEditService.length).toBe(100);
+    expect(postMessage).toHaveBeenCalledWith({
+      type: WebviewMessageType.ERROR,
+      data: { message: "Cannot remove the whole audio" },
+    });
+  });
+
+  // encoding is async, wait until the message is posted
+  const waitForEncode = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  test("save sends the edited audio as wav", async () => {
+    click(".js-audioEdit-crop");
+    click(".js-audioEditSaveAs");
+    await waitForEncode();
+    const msg = postMessage.mock.calls[0][0];
+    expect(msg.type).toBe(WebviewMessageType.SAVE_AUDIO);
+    expect(msg.data.saveAs).toBe(true);
+    expect(msg.data.extension).toBe(".wav");
+    // 44 bytes header and 30 samples of 16 bit
+    expect(msg.data.samples.byteLength).toBe(44 + 30 * 2);
+  });
+
+  test("save sends the edited audio as mp3", async () => {
+    const fileFormatSelect = document.querySelector(
+      ".js-encoderOptionsFileFormat",
+    ) as HTMLSelectElement;
+    fileFormatSelect.value = "mp3";
+    click(".js-audioEdit-reverse");
+    click(".js-audioEditSave");
+    await waitForEncode();
+    const msg = postMessage.mock.calls[0][0];
+    expect(msg.type).toBe(WebviewMessageType.SAVE_AUDIO);
+    expect(msg.data.saveAs).toBe(false);
+    expect(msg.data.extension).toBe(".mp3");
+    expect(msg.data.samples.byteLength).toBe(10);
+  });
+});
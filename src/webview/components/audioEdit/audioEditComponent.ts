@@ -0,0 +1,246 @@
+import "./audioEditComponent.css";
+import Component from "../../component";
+import { EventType } from "../../events";
+import { PostMessage, WebviewMessageType } from "../../../message";
+import { AudioEditOperation, audioEditOperationNames } from "../../audioEdit";
+import {
+  audioFileExtensions,
+  CreateEncoder,
+  EncoderOptions,
+  encodeAudio,
+} from "../../encoder";
+import AudioEditService from "../../services/audioEditService";
+import EncoderOptionsComponent from "../encoderOptions/encoderOptionsComponent";
+
+// selected range in seconds, the one shown in the analyzer
+export type GetSelection = () => { start: number; end: number };
+
+type OperationType = AudioEditOperation["type"];
+
+export default class AudioEditComponent extends Component {
+  private _componentRoot: HTMLElement;
+  private _audioEditService: AudioEditService;
+  private _getSelection: GetSelection;
+  private _encoderOptionsComponent: EncoderOptionsComponent;
+  private _createEncoder: CreateEncoder;
+  private _postMessage: PostMessage;
+
+  constructor(
+    componentRootSelector: string,
+    audioEditService: AudioEditService,
+    getSelection: GetSelection,
+    encoderOptions: EncoderOptions,
+    createEncoder: CreateEncoder,
+    postMessage: PostMessage,
+  ) {
+    super();
+    this._audioEditService = audioEditService;
+    this._getSelection = getSelection;
+    this._createEncoder = createEncoder;
+    this._postMessage = postMessage;
+
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="audioEdit">
+        <label><input class="js-audioEditMode" type="checkbox">edit mode</label>
+        <div class="audioEdit__tools js-audioEditTools">
+          <div class="audioEdit__group">
+            <button class="js-audioEdit-delete" title="Delete the selected range">delete</button>
+            <button class="js-audioEdit-crop" title="Keep only the selected range">crop</button>
+            <button class="js-audioEdit-reverse" title="Reverse the selected range">reverse</button>
+            <button class="js-audioEdit-fadeIn" title="Fade in over the selected range">fade in</button>
+            <button class="js-audioEdit-fadeOut" title="Fade out over the selected range">fade out</button>
+          </div>
+          <div class="audioEdit__group">
+            <button class="js-audioEdit-insertSilence" title="Insert silence at the start of the selected range">insert silence</button>
+            <input class="audioEdit__input js-audioEditSilence" type="number" value="1" min="0" step="0.1">s
+            <button class="js-audioEdit-gain" title="Change the gain of the selected range">gain</button>
+            <input class="audioEdit__input js-audioEditGain" type="number" value="3" step="0.5">dB
+            <button class="js-audioEdit-normalize" title="Scale the selected range to the peak level">normalize</button>
+            <input class="audioEdit__input js-audioEditPeak" type="number" value="-1" max="0" step="0.5">dBFS
+          </div>
+          <div class="audioEdit__group">
+            <button class="js-audioEditUndo">undo</button>
+            <button class="js-audioEditRedo">redo</button>
+            <button class="js-audioEditSave" title="Overwrite the audio file with the edited audio">save</button>
+            <button class="js-audioEditSaveAs" title="Save the edited audio to a new file">save as</button>
+            <span class="audioEdit__status js-audioEditStatus"></span>
+          </div>
+          <div class="js-audioEditEncoderOptions"></div>
+        </div>
+      </div>
+    `;
+
+    this._encoderOptionsComponent = new EncoderOptionsComponent(
+      `${componentRootSelector} .js-audioEditEncoderOptions`,
+      encoderOptions,
+      audioEditService.sampleRate,
+      audioEditService.numberOfChannels,
+    );
+    this._register(this._encoderOptionsComponent);
+
+    const modeInput = this._componentRoot.querySelector(
+      ".js-audioEditMode",
+    ) as HTMLInputElement;
+    this._addEventlistener(modeInput, EventType.CHANGE, () => {
+      this.setEditMode(modeInput.checked);
+    });
+
+    const operations: OperationType[] = [
+      "delete",
+      "crop",
+      "reverse",
+      "fadeIn",
+      "fadeOut",
+      "insertSilence",
+      "gain",
+      "normalize",
+    ];
+    for (const type of operations) {
+      const button = this._componentRoot.querySelector(`.js-audioEdit-${type}`);
+      this._addEventlistener(button, EventType.CLICK, () => {
+        this.applyOperation(type);
+      });
+    }
+
+    const undoButton = this._componentRoot.querySelector(".js-audioEditUndo");
+    this._addEventlistener(undoButton, EventType.CLICK, () => {
+      this._audioEditService.undo();
+    });
+    const redoButton = this._componentRoot.querySelector(".js-audioEditRedo");
+    this._addEventlistener(redoButton, EventType.CLICK, () => {
+      this._audioEditService.redo();
+    });
+    const saveButton = this._componentRoot.querySelector(".js-audioEditSave");
+    this._addEventlistener(saveButton, EventType.CLICK, () => {
+      this.save(false);
+    });
+    const saveAsButton = this._componentRoot.querySelector(
+      ".js-audioEditSaveAs",
+    );
+    this._addEventlistener(saveAsButton, EventType.CLICK, () => {
+      this.save(true);
+    });
+
+    this._addEventlistener(
+      this._audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+      () => this.updateStatus(),
+    );
+
+    this.setEditMode(false);
+    this.updateStatus();
+  }
+
+  public setEditMode(value: boolean) {
+    const modeInput = this._componentRoot.querySelector(
+      ".js-audioEditMode",
+    ) as HTMLInputElement;
+    modeInput.checked = value;
+    const tools = this._componentRoot.querySelector(
+      ".js-audioEditTools",
+    ) as HTMLElement;
+    tools.style.display = value ? "" : "none";
+  }
+
+  public applyOperation(type: OperationType) {
+    if (!this._audioEditService.apply(this.createOperation(type))) {
+      this._postMessage({
+        type: WebviewMessageType.ERROR,
+        data: { message: "Cannot remove the whole audio" },
+      });
+    }
+  }
+
+  private createOperation(type: OperationType): AudioEditOperation {
+    const selection = this._getSelection();
+    const start = this._audioEditService.toSampleIndex(selection.start);
+    const end = this._audioEditService.toSampleIndex(selection.end);
+    switch (type) {
+      case "insertSilence":
+        return {
+          type,
+          start,
+          length: Math.round(
+            Math.max(this.getInputValue(".js-audioEditSilence", 1), 0) *
+              this._audioEditService.sampleRate,
+          ),
+        };
+      case "gain":
+        return {
+          type,
+          start,
+          end,
+          gainDb: this.getInputValue(".js-audioEditGain", 0),
+        };
+      case "normalize":
+        return {
+          type,
+          start,
+          end,
+          peakDb: Math.min(this.getInputValue(".js-audioEditPeak", -1), 0),
+        };
+      default:
+        return { type, start, end };
+    }
+  }
+
+  private getInputValue(selector: string, defaultValue: number) {
+    const input = this._componentRoot.querySelector(
+      selector,
+    ) as HTMLInputElement;
+    const value = Number(input.value);
+    return Number.isFinite(value) ? value : defaultValue;
+  }
+
+  private async save(saveAs: boolean) {
+    const options = this._encoderOptionsComponent.options;
+    let samples: Uint8Array;
+    try {
+      samples = await encodeAudio(
+        [...this._audioEditService.channels],
+        this._audioEditService.sampleRate,
+        this._audioEditService.numberOfChannels,
+        options,
+        this._createEncoder,
+      );
+    } catch (error) {
+      this._postMessage({
+        type: WebviewMessageType.ERROR,
+        data: { message: `Failed to encode audio: ${error.message}` },
+      });
+      return;
+    }
+    this._postMessage({
+      type: WebviewMessageType.SAVE_AUDIO,
+      data: {
+        samples,
+        saveAs,
+        extension: audioFileExtensions[options.fileFormat ?? "wav"],
+      },
+    });
+  }
+
+  private updateStatus() {
+    const service = this._audioEditService;
+    const undoButton = this._componentRoot.querySelector(
+      ".js-audioEditUndo",
+    ) as HTMLButtonElement;
+    undoButton.disabled = !service.canUndo;
+    const redoButton = this._componentRoot.querySelector(
+      ".js-audioEditRedo",
+    ) as HTMLButtonElement;
+    redoButton.disabled = !service.canRedo;
+    const saveButton = this._componentRoot.querySelector(
+      ".js-audioEditSave",
+    ) as HTMLButtonElement;
+    saveButton.disabled = !service.canUndo;
+
+    const operations = service.operations;
+    const status = this._componentRoot.querySelector(".js-audioEditStatus");
+    status.textContent =
+      operations.length === 0
+        ? "no edits"
+        : `${operations.length} edit${operations.length > 1 ? "s" : ""}, last: ${audioEditOperationNames[operations[operations.length - 1].type]}`;
+  }
+}
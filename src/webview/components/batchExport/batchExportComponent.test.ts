@@ -0,0 +1,98 @@
+import { MockAudioBuffer } from "../../../__mocks__/helper";
+import { WebviewMessageType } from "../../../message";
+import { defaultEncoderOptions } from "../../encoder";
+import SegmentService from "../../services/segmentService";
+import BatchExportComponent from "./batchExportComponent";
+
+describe("batchExportComponent", () => {
+  let postMessage: jest.Mock;
+  let encode: jest.Mock;
+  let segmentService: SegmentService;
+  let batchExportComponent: BatchExportComponent;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="batchExport"></div>';
+    postMessage = jest.fn();
+    encode = jest.fn(() => new Uint8Array(10));
+    const audioBuffer = new MockAudioBuffer(1, 3000, 1000);
+    // tone from 1 s to 2 s
+    audioBuffer.data[0].fill(0.5, 1000, 2000);
+    segmentService = new SegmentService(3, [
+      { start: 0, end: 0.5, label: "a" },
+      { start: 1, end: 2, label: "b" },
+    ]);
+    batchExportComponent = new BatchExportComponent(
+      "#batchExport",
+      audioBuffer as unknown as AudioBuffer,
+      segmentService,
+      defaultEncoderOptions,
+      async () => ({ encode }),
+      postMessage,
+    );
+  });
+
+  const selectSource = (value: string) => {
+    const select = document.querySelector(
+      ".js-batchExportSource",
+    ) as HTMLSelectElement;
+    select.value = value;
+    select.dispatchEvent(new Event("change"));
+  };
+
+  test("export segments as wav clips", async () => {
+    expect(document.querySelector(".js-batchExportCount").textContent).toBe(
+      "2 regions",
+    );
+    await batchExportComponent.exportClips();
+    const msg = postMessage.mock.calls[0][0];
+    expect(msg.type).toBe(WebviewMessageType.EXPORT_CLIPS);
+    expect(msg.data.filenameTemplate).toBe("${name}_${index}");
+    expect(msg.data.extension).toBe(".wav");
+    expect(msg.data.manifestFormat).toBe("jsonl");
+    expect(msg.data.clips.map((c) => [c.label, c.samples.byteLength])).toEqual([
+      ["a", 44 + 500 * 2],
+      ["b", 44 + 1000 * 2],
+    ]);
+  });
+
+  test("export segments as flac clips", async () => {
+    const fileFormatSelect = document.querySelector(
+      ".js-encoderOptionsFileFormat",
+    ) as HTMLSelectElement;
+    fileFormatSelect.value = "flac";
+    fileFormatSelect.dispatchEvent(new Event("change", { bubbles: true }));
+    expect(document.querySelector(".js-batchExportExtension").textContent).toBe(
+      ".flac",
+    );
+    await batchExportComponent.exportClips();
+    const msg = postMessage.mock.calls[0][0];
+    expect(msg.data.extension).toBe(".flac");
+    expect(msg.data.clips.map((c) => c.samples.byteLength)).toEqual([10, 10]);
+    expect(encode).toHaveBeenCalledTimes(2);
+    expect(encode.mock.calls[1].slice(1)).toEqual([1000, "flac", 16, 5]);
+  });
+
+  test("split on silence", () => {
+    selectSource("silence");
+    const silenceOptions = document.querySelector(
+      ".js-batchExportSilence",
+    ) as HTMLElement;
+    expect(silenceOptions.style.display).toBe("");
+    const regions = batchExportComponent.getRegions();
+    expect(regions.length).toBe(1);
+    expect(regions[0].start).toBeCloseTo(0.95);
+    expect(regions[0].end).toBeCloseTo(2.05);
+  });
+
+  test("show an error when there is nothing to export", async () => {
+    segmentService.setSegments([]);
+    expect(document.querySelector(".js-batchExportCount").textContent).toBe(
+      "0 regions",
+    );
+    await batchExportComponent.exportClips();
+    expect(postMessage).toHaveBeenCalledWith({
+      type: WebviewMessageType.ERROR,
+      data: { message: "No regions to export" },
+    });
+  });
+});
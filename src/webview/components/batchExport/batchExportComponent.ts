@@ -0,0 +1,245 @@
+import "./batchExportComponent.css";
+import Component from "../../component";
+import { EventType } from "../../events";
+import { ExportClip, PostMessage, WebviewMessageType } from "../../../message";
+import { Segment } from "../../../segment";
+import {
+  ClipManifestFormat,
+  defaultClipFilenameTemplate,
+} from "../../../clipExport";
+import {
+  audioFileExtensions,
+  CreateEncoder,
+  EncoderOptions,
+  encodeAudio,
+} from "../../encoder";
+import {
+  defaultSilenceSplitOptions,
+  SilenceSplitOptions,
+  splitOnSilence,
+} from "../../silenceSplit";
+import SegmentService from "../../services/segmentService";
+import EncoderOptionsComponent from "../encoderOptions/encoderOptionsComponent";
+
+type RegionSource = "segments" | "silence";
+
+export default class BatchExportComponent extends Component {
+  private _componentRoot: HTMLElement;
+  private _audioBuffer: AudioBuffer;
+  private _segmentService: SegmentService;
+  private _encoderOptionsComponent: EncoderOptionsComponent;
+  private _createEncoder: CreateEncoder;
+  private _postMessage: PostMessage;
+
+  constructor(
+    componentRootSelector: string,
+    audioBuffer: AudioBuffer,
+    segmentService: SegmentService,
+    encoderOptions: EncoderOptions,
+    createEncoder: CreateEncoder,
+    postMessage: PostMessage,
+  ) {
+    super();
+    this._audioBuffer = audioBuffer;
+    this._segmentService = segmentService;
+    this._createEncoder = createEncoder;
+    this._postMessage = postMessage;
+
+    const o = defaultSilenceSplitOptions;
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="batchExport">
+        <p>Export each region to its own audio file, and write a manifest listing the clips with their labels</p>
+        <div class="batchExport__row">
+          regions:
+          <select class="js-batchExportSource">
+            <option value="segments">segments</option>
+            <option value="silence">split on silence</option>
+          </select>
+          <span class="js-batchExportCount"></span>
+        </div>
+        <div class="batchExport__row js-batchExportSilence">
+          threshold <input class="batchExport__input js-batchExportThreshold" type="number" value="${o.thresholdDb}" step="1">dBFS
+          min silence <input class="batchExport__input js-batchExportMinSilence" type="number" value="${o.minSilence}" min="0" step="0.05">s
+          min region <input class="batchExport__input js-batchExportMinRegion" type="number" value="${o.minRegion}" min="0" step="0.05">s
+          padding <input class="batchExport__input js-batchExportPadding" type="number" value="${o.padding}" min="0" step="0.01">s
+        </div>
+        <div class="batchExport__row">
+          filename:
+          <input class="js-batchExportTemplate" type="text" value="${defaultClipFilenameTemplate}"><span class="js-batchExportExtension"></span>
+        </div>
+        <p class="batchExport__hint">\${name}, \${index}, \${label}, \${start} and \${end} are replaced for each clip</p>
+        <div class="batchExport__row">
+          manifest:
+          <select class="js-batchExportManifest">
+            <option value="jsonl">JSONL</option>
+            <option value="csv">CSV</option>
+            <option value="none">none</option>
+          </select>
+        </div>
+        <div class="js-batchExportEncoderOptions"></div>
+        <button class="batchExport__button js-batchExportButton">export all</button>
+      </div>
+    `;
+
+    this._encoderOptionsComponent = new EncoderOptionsComponent(
+      `${componentRootSelector} .js-batchExportEncoderOptions`,
+      encoderOptions,
+      audioBuffer.sampleRate,
+      audioBuffer.numberOfChannels,
+    );
+    this._register(this._encoderOptionsComponent);
+    const encoderOptionsRoot = this._componentRoot.querySelector(
+      ".js-batchExportEncoderOptions",
+    );
+    this._addEventlistener(encoderOptionsRoot, EventType.CHANGE, () =>
+      this.updateExtension(),
+    );
+    this.updateExtension();
+
+    const sourceSelect = this._componentRoot.querySelector(
+      ".js-batchExportSource",
+    ) as HTMLSelectElement;
+    this._addEventlistener(sourceSelect, EventType.CHANGE, () =>
+      this.updateRegionCount(),
+    );
+    const silenceOptions = this._componentRoot.querySelector(
+      ".js-batchExportSilence",
+    );
+    this._addEventlistener(silenceOptions, EventType.CHANGE, () =>
+      this.updateRegionCount(),
+    );
+    this._addEventlistener(
+      this._segmentService,
+      EventType.SEG_UPDATE_SEGMENTS,
+      () => this.updateRegionCount(),
+    );
+
+    const exportButton = this._componentRoot.querySelector(
+      ".js-batchExportButton",
+    );
+    this._addEventlistener(exportButton, EventType.CLICK, () =>
+      this.exportClips(),
+    );
+
+    this.updateRegionCount();
+  }
+
+  public getRegions(): Segment[] {
+    if (this.getSource() === "segments") {
+      return this._segmentService.segmentsInDuration;
+    }
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < this._audioBuffer.numberOfChannels; ch++) {
+      channels.push(this._audioBuffer.getChannelData(ch));
+    }
+    return splitOnSilence(
+      channels,
+      this._audioBuffer.sampleRate,
+      this.getSilenceSplitOptions(),
+    );
+  }
+
+  public async exportClips() {
+    const regions = this.getRegions();
+    if (regions.length === 0) {
+      this._postMessage({
+        type: WebviewMessageType.ERROR,
+        data: { message: "No regions to export" },
+      });
+      return;
+    }
+
+    const sampleRate = this._audioBuffer.sampleRate;
+    const encoderOptions = this._encoderOptionsComponent.options;
+    const clips: ExportClip[] = [];
+    try {
+      for (const region of regions) {
+        const start = Math.floor(region.start * sampleRate);
+        const end = Math.floor(region.end * sampleRate);
+        const audioData: Float32Array[] = [];
+        for (let ch = 0; ch < this._audioBuffer.numberOfChannels; ch++) {
+          audioData.push(
+            this._audioBuffer.getChannelData(ch).slice(start, end),
+          );
+        }
+        clips.push({
+          ...region,
+          samples: await encodeAudio(
+            audioData,
+            sampleRate,
+            this._audioBuffer.numberOfChannels,
+            encoderOptions,
+            this._createEncoder,
+          ),
+        });
+      }
+    } catch (error) {
+      this._postMessage({
+        type: WebviewMessageType.ERROR,
+        data: { message: `Failed to encode clips: ${error.message}` },
+      });
+      return;
+    }
+
+    const templateInput = this._componentRoot.querySelector(
+      ".js-batchExportTemplate",
+    ) as HTMLInputElement;
+    const manifestSelect = this._componentRoot.querySelector(
+      ".js-batchExportManifest",
+    ) as HTMLSelectElement;
+    this._postMessage({
+      type: WebviewMessageType.EXPORT_CLIPS,
+      data: {
+        clips,
+        filenameTemplate: templateInput.value,
+        extension: audioFileExtensions[encoderOptions.fileFormat ?? "wav"],
+        manifestFormat: manifestSelect.value as ClipManifestFormat,
+      },
+    });
+  }
+
+  private getSource(): RegionSource {
+    const sourceSelect = this._componentRoot.querySelector(
+      ".js-batchExportSource",
+    ) as HTMLSelectElement;
+    return sourceSelect.value as RegionSource;
+  }
+
+  private getSilenceSplitOptions(): SilenceSplitOptions {
+    const getValue = (selector: string, defaultValue: number) => {
+      const input = this._componentRoot.querySelector(
+        selector,
+      ) as HTMLInputElement;
+      const value = Number(input.value);
+      return input.value !== "" && Number.isFinite(value)
+        ? value
+        : defaultValue;
+    };
+    const o = defaultSilenceSplitOptions;
+    return {
+      thresholdDb: getValue(".js-batchExportThreshold", o.thresholdDb),
+      minSilence: getValue(".js-batchExportMinSilence", o.minSilence),
+      minRegion: getValue(".js-batchExportMinRegion", o.minRegion),
+      padding: getValue(".js-batchExportPadding", o.padding),
+    };
+  }
+
+  private updateExtension() {
+    const fileFormat = this._encoderOptionsComponent.options.fileFormat;
+    this._componentRoot.querySelector(".js-batchExportExtension").textContent =
+      audioFileExtensions[fileFormat ?? "wav"];
+  }
+
+  private updateRegionCount() {
+    const isSilence = this.getSource() === "silence";
+    const silenceOptions = this._componentRoot.querySelector(
+      ".js-batchExportSilence",
+    ) as HTMLElement;
+    silenceOptions.style.display = isSilence ? "" : "none";
+
+    const count = this.getRegions().length;
+    const countText = this._componentRoot.querySelector(".js-batchExportCount");
+    countText.textContent = `${count} region${count === 1 ? "" : "s"}`;
+  }
+}
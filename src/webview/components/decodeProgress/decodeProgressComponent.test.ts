@@ -0,0 +1,33 @@
+import DecodeProgressComponent from "./decodeProgressComponent";
+
+describe("decodeProgressComponent", () => {
+  let decodeProgressComponent: DecodeProgressComponent;
+  const root = () => document.getElementById("decodeProgress");
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="decodeProgress"></div>';
+    decodeProgressComponent = new DecodeProgressComponent("#decodeProgress");
+  });
+
+  test("hidden by default", () => {
+    expect(root().style.display).toBe("none");
+  });
+
+  test("show the progress", () => {
+    decodeProgressComponent.show("decoding", 0.256);
+    expect(root().style.display).toBe("");
+    expect(document.querySelector(".js-decodeProgressText").textContent).toBe(
+      "decoding 25%",
+    );
+    const progressBar = document.querySelector(
+      ".js-decodeProgressBar",
+    ) as HTMLProgressElement;
+    expect(progressBar.value).toBeCloseTo(0.256);
+  });
+
+  test("hide after finishing", () => {
+    decodeProgressComponent.show("loading", 0.5);
+    decodeProgressComponent.hide();
+    expect(root().style.display).toBe("none");
+  });
+});
@@ -0,0 +1,34 @@
+import "./decodeProgressComponent.css";
+import Component from "../../component";
+
+// progress of loading and decoding the audio file, hidden when finished
+export default class DecodeProgressComponent extends Component {
+  private _componentRoot: HTMLElement;
+
+  constructor(componentRootSelector: string) {
+    super();
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="decodeProgress">
+        <span class="decodeProgress__text js-decodeProgressText"></span>
+        <progress class="decodeProgress__bar js-decodeProgressBar" max="1"></progress>
+      </div>
+    `;
+    this.hide();
+  }
+
+  // ratio is in [0, 1]
+  public show(text: string, ratio: number) {
+    this._componentRoot.style.display = "";
+    this._componentRoot.querySelector(".js-decodeProgressText").textContent =
+      `${text} ${Math.floor(ratio * 100)}%`;
+    const progressBar = this._componentRoot.querySelector(
+      ".js-decodeProgressBar",
+    ) as HTMLProgressElement;
+    progressBar.value = ratio;
+  }
+
+  public hide() {
+    this._componentRoot.style.display = "none";
+  }
+}
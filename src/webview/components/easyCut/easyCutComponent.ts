@@ -3,13 +3,21 @@ import { PostMessage, WebviewMessageType } from "../../../message";
 import Component from "../../component";
 import { EventType } from "../../events";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
-import { encodeToWav } from "../../encoder";
+import {
+  audioFileExtensions,
+  CreateEncoder,
+  EncoderOptions,
+  encodeAudio,
+} from "../../encoder";
+import EncoderOptionsComponent from "../encoderOptions/encoderOptionsComponent";
 
 export default class EasyCutComponent extends Component {
   constructor(
     componentRootSelector: string,
     audioBuffer: AudioBuffer,
     analyzeSettingsService: AnalyzeSettingsService,
+    encoderOptions: EncoderOptions,
+    createEncoder: CreateEncoder,
     postMessage: PostMessage,
   ) {
     super();
@@ -18,15 +26,38 @@ export default class EasyCutComponent extends Component {
 
     componentRoot.innerHTML = `
       <div class="easyCut">
-        <p>Cut the currently selected range and save it to a wav file (experimental)</p>
+        <p>Cut the currently selected range and save it to an audio file (experimental)</p>
         <div>
           filename:
-          <input class="js-easyCut-filename" type="text">.wav
+          <input class="js-easyCut-filename" type="text"><span class="js-easyCut-extension"></span>
         </div>
+        <div class="js-easyCut-encoderOptions"></div>
         <button class="easyCut__button js-easyCutButton-cut">cut</button>
       </div>
     `;
 
+    const encoderOptionsComponent = new EncoderOptionsComponent(
+      `${componentRootSelector} .js-easyCut-encoderOptions`,
+      encoderOptions,
+      audioBuffer.sampleRate,
+      audioBuffer.numberOfChannels,
+    );
+    this._register(encoderOptionsComponent);
+
+    // the extension follows the selected file format
+    const extensionText = componentRoot.querySelector(".js-easyCut-extension");
+    const updateExtension = () => {
+      extensionText.textContent = this.getExtension(
+        encoderOptionsComponent.options,
+      );
+    };
+    updateExtension();
+    this._addEventlistener(
+      componentRoot.querySelector(".js-easyCut-encoderOptions"),
+      EventType.CHANGE,
+      updateExtension,
+    );
+
     const cutButton = componentRoot.querySelector(
       ".js-easyCutButton-cut",
     ) as HTMLButtonElement;
@@ -36,7 +67,7 @@ export default class EasyCutComponent extends Component {
     ) as HTMLInputElement;
     filenameInput.value = `cut_${this.getTimeString()}`;
 
-    this._addEventlistener(cutButton, EventType.CLICK, () => {
+    this._addEventlistener(cutButton, EventType.CLICK, async () => {
       const minIndex = Math.floor(
         analyzeSettingsService.minTime * audioBuffer.sampleRate,
       );
@@ -50,13 +81,28 @@ export default class EasyCutComponent extends Component {
         audioData.push(channelData.slice(minIndex, maxIndex));
       }
 
-      const samples = encodeToWav(
-        audioData,
-        audioBuffer.sampleRate,
-        audioBuffer.numberOfChannels,
-      );
+      const options = encoderOptionsComponent.options;
+      let samples: Uint8Array;
+      try {
+        samples = await encodeAudio(
+          audioData,
+          audioBuffer.sampleRate,
+          audioBuffer.numberOfChannels,
+          options,
+          createEncoder,
+        );
+      } catch (error) {
+        postMessage({
+          type: WebviewMessageType.ERROR,
+          data: { message: `Failed to encode audio: ${error.message}` },
+        });
+        return;
+      }
 
-      const filename = this.checkAndReplaceFilename(filenameInput.value);
+      const filename = this.checkAndReplaceFilename(
+        filenameInput.value,
+        this.getExtension(options),
+      );
 
       postMessage({
         type: WebviewMessageType.WRITE_WAV,
@@ -68,11 +114,15 @@ export default class EasyCutComponent extends Component {
     });
   }
 
-  private checkAndReplaceFilename(filename: string): string {
+  private checkAndReplaceFilename(filename: string, extension: string): string {
     if (!filename) {
-      return `cut_${this.getTimeString()}.wav`;
+      return `cut_${this.getTimeString()}${extension}`;
     }
-    return filename.replace(/[<>:"/\\|?*]+/g, "_") + ".wav";
+    return filename.replace(/[<>:"/\\|?*]+/g, "_") + extension;
+  }
+
+  private getExtension(options: EncoderOptions): string {
+    return audioFileExtensions[options.fileFormat ?? "wav"];
   }
 
   private getTimeString() {
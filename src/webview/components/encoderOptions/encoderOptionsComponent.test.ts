@@ -0,0 +1,111 @@
+import EncoderOptionsComponent from "./encoderOptionsComponent";
+
+describe("encoderOptionsComponent", () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="encoderOptions"></div>';
+  });
+
+  test("default options are selected", () => {
+    const encoderOptionsComponent = new EncoderOptionsComponent(
+      "#encoderOptions",
+      { sampleFormat: "float32", sampleRate: 11025, channels: 1 },
+      44100,
+      2,
+    );
+    expect(encoderOptionsComponent.options).toEqual({
+      fileFormat: "wav",
+      sampleFormat: "float32",
+      sampleRate: 11025,
+      channels: 1,
+      quality: undefined,
+    });
+  });
+
+  test("original sample rate and missing channel", () => {
+    const encoderOptionsComponent = new EncoderOptionsComponent(
+      "#encoderOptions",
+      { sampleFormat: "int16", sampleRate: 16000, channels: 1 },
+      16000,
+      1,
+    );
+    expect(encoderOptionsComponent.options).toEqual({
+      fileFormat: "wav",
+      sampleFormat: "int16",
+      sampleRate: undefined,
+      channels: "all",
+      quality: undefined,
+    });
+  });
+
+  test("options follow the selects", () => {
+    const encoderOptionsComponent = new EncoderOptionsComponent(
+      "#encoderOptions",
+      { sampleFormat: "int16", channels: "all" },
+      44100,
+      2,
+    );
+    (
+      document.querySelector(".js-encoderOptionsFormat") as HTMLSelectElement
+    ).value = "int24";
+    (
+      document.querySelector(
+        ".js-encoderOptionsSampleRate",
+      ) as HTMLSelectElement
+    ).value = "16000";
+    (
+      document.querySelector(".js-encoderOptionsChannels") as HTMLSelectElement
+    ).value = "mix";
+    expect(encoderOptionsComponent.options).toEqual({
+      fileFormat: "wav",
+      sampleFormat: "int24",
+      sampleRate: 16000,
+      channels: "mix",
+      quality: undefined,
+    });
+  });
+
+  test("default file format and quality are selected", () => {
+    const encoderOptionsComponent = new EncoderOptionsComponent(
+      "#encoderOptions",
+      {
+        fileFormat: "mp3",
+        sampleFormat: "int16",
+        channels: "all",
+        quality: 192,
+      },
+      44100,
+      2,
+    );
+    expect(encoderOptionsComponent.options.fileFormat).toBe("mp3");
+    expect(encoderOptionsComponent.options.quality).toBe(192);
+    const sampleFormatSelect = document.querySelector(
+      ".js-encoderOptionsFormat",
+    ) as HTMLSelectElement;
+    expect(sampleFormatSelect.style.display).toBe("none");
+  });
+
+  test("changing the file format resets the quality", () => {
+    const encoderOptionsComponent = new EncoderOptionsComponent(
+      "#encoderOptions",
+      {
+        fileFormat: "opus",
+        sampleFormat: "int16",
+        channels: "all",
+        quality: 96,
+      },
+      48000,
+      1,
+    );
+    const fileFormatSelect = document.querySelector(
+      ".js-encoderOptionsFileFormat",
+    ) as HTMLSelectElement;
+    fileFormatSelect.value = "flac";
+    fileFormatSelect.dispatchEvent(new Event("change"));
+    expect(encoderOptionsComponent.options.fileFormat).toBe("flac");
+    expect(encoderOptionsComponent.options.quality).toBeUndefined();
+    const qualityInput = document.querySelector(
+      ".js-encoderOptionsQuality",
+    ) as HTMLInputElement;
+    expect(qualityInput.placeholder).toBe("5");
+  });
+});
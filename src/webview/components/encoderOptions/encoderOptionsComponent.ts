@@ -0,0 +1,162 @@
+import "./encoderOptionsComponent.css";
+import Component from "../../component";
+import { EventType } from "../../events";
+import {
+  AudioFileFormat,
+  defaultQuality,
+  EncoderOptions,
+  WavSampleFormat,
+} from "../../encoder";
+
+const fileFormatNames: Record<AudioFileFormat, string> = {
+  wav: "WAV",
+  flac: "FLAC",
+  opus: "Opus",
+  mp3: "MP3",
+};
+
+const sampleFormatNames: Record<WavSampleFormat, string> = {
+  int16: "16-bit",
+  int24: "24-bit",
+  int32: "32-bit",
+  float32: "32-bit float",
+};
+
+const commonSampleRates = [8000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+// format of exported audio files, shared by the export features
+export default class EncoderOptionsComponent extends Component {
+  private _componentRoot: HTMLElement;
+
+  constructor(
+    componentRootSelector: string,
+    defaultOptions: EncoderOptions,
+    sampleRate: number,
+    numberOfChannels: number,
+  ) {
+    super();
+
+    const fileFormatOptions = Object.entries(fileFormatNames)
+      .map(([value, name]) => `<option value="${value}">${name}</option>`)
+      .join("");
+    const formatOptions = Object.entries(sampleFormatNames)
+      .map(([value, name]) => `<option value="${value}">${name}</option>`)
+      .join("");
+    const sampleRates = [
+      ...new Set([...commonSampleRates, defaultOptions.sampleRate ?? 0]),
+    ]
+      .filter((rate) => rate > 0 && rate !== sampleRate)
+      .sort((a, b) => a - b);
+    const sampleRateOptions = sampleRates
+      .map((rate) => `<option value="${rate}">${rate} Hz</option>`)
+      .join("");
+    let channelOptions = "";
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      channelOptions += `<option value="${ch}">ch ${ch + 1} only</option>`;
+    }
+
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="encoderOptions">
+        format:
+        <select class="js-encoderOptionsFileFormat">${fileFormatOptions}</select>
+        <select class="js-encoderOptionsFormat">${formatOptions}</select>
+        <select class="js-encoderOptionsSampleRate">
+          <option value="">${sampleRate} Hz (original)</option>
+          ${sampleRateOptions}
+        </select>
+        <select class="js-encoderOptionsChannels">
+          <option value="all">all channels</option>
+          <option value="mix">mix to mono</option>
+          ${channelOptions}
+        </select>
+        <span class="js-encoderOptionsQualityRow">
+          <span class="js-encoderOptionsQualityName"></span>
+          <input class="encoderOptions__input js-encoderOptionsQuality" type="number" min="0">
+        </span>
+      </div>
+    `;
+
+    this.getSelect(".js-encoderOptionsFileFormat").value =
+      defaultOptions.fileFormat ?? "wav";
+    this.getSelect(".js-encoderOptionsFormat").value =
+      defaultOptions.sampleFormat;
+    this.getQualityInput().value =
+      defaultOptions.quality !== undefined
+        ? String(defaultOptions.quality)
+        : "";
+    this.getSelect(".js-encoderOptionsSampleRate").value =
+      defaultOptions.sampleRate && defaultOptions.sampleRate !== sampleRate
+        ? String(defaultOptions.sampleRate)
+        : "";
+    const channelsSelect = this.getSelect(".js-encoderOptionsChannels");
+    channelsSelect.value = String(defaultOptions.channels);
+    // the default channel may not exist in this file
+    if (channelsSelect.selectedIndex < 0) {
+      channelsSelect.value = "all";
+    }
+
+    this.updateFileFormat();
+    this._addEventlistener(
+      this.getSelect(".js-encoderOptionsFileFormat"),
+      EventType.CHANGE,
+      () => {
+        // the quality of one format does not make sense for another
+        this.getQualityInput().value = "";
+        this.updateFileFormat();
+      },
+    );
+  }
+
+  public get options(): EncoderOptions {
+    const sampleRate = this.getSelect(".js-encoderOptionsSampleRate").value;
+    const channels = this.getSelect(".js-encoderOptionsChannels").value;
+    const quality = Number(this.getQualityInput().value);
+    return {
+      fileFormat: this.getSelect(".js-encoderOptionsFileFormat")
+        .value as AudioFileFormat,
+      sampleFormat: this.getSelect(".js-encoderOptionsFormat")
+        .value as WavSampleFormat,
+      sampleRate: sampleRate ? Number(sampleRate) : undefined,
+      channels:
+        channels === "all" || channels === "mix" ? channels : Number(channels),
+      quality:
+        this.getQualityInput().value !== "" && Number.isFinite(quality)
+          ? quality
+          : undefined,
+    };
+  }
+
+  // sample format applies to wav and FLAC, quality to the compressed formats
+  private updateFileFormat() {
+    const fileFormat = this.getSelect(".js-encoderOptionsFileFormat")
+      .value as AudioFileFormat;
+    this.getSelect(".js-encoderOptionsFormat").style.display =
+      fileFormat === "wav" || fileFormat === "flac" ? "" : "none";
+    const qualityRow = this._componentRoot.querySelector(
+      ".js-encoderOptionsQualityRow",
+    ) as HTMLElement;
+    if (fileFormat === "wav") {
+      qualityRow.style.display = "none";
+      return;
+    }
+    qualityRow.style.display = "";
+    const isFlac = fileFormat === "flac";
+    this._componentRoot.querySelector(
+      ".js-encoderOptionsQualityName",
+    ).textContent = isFlac ? "compression level" : "bitrate (kbps)";
+    const qualityInput = this.getQualityInput();
+    qualityInput.max = isFlac ? "12" : "320";
+    qualityInput.placeholder = String(defaultQuality[fileFormat]);
+  }
+
+  private getQualityInput() {
+    return this._componentRoot.querySelector(
+      ".js-encoderOptionsQuality",
+    ) as HTMLInputElement;
+  }
+
+  private getSelect(selector: string) {
+    return this._componentRoot.querySelector(selector) as HTMLSelectElement;
+  }
+}
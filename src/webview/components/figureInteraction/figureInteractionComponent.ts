@@ -4,8 +4,10 @@ import PlayerService from "../../services/playerService";
 import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService, {
   AnalyzeSettingsProps,
-  FrequencyScale,
 } from "../../services/analyzeSettingsService";
+import { FrequencyScale, SpectrogramType } from "../../spectrogram";
+import { getConstantQBins, getConstantQFrequency } from "../../constantQ";
+import SegmentService from "../../services/segmentService";
 import Component from "../../component";
 
 export default class FigureInteractionComponent extends Component {
@@ -13,6 +15,8 @@ export default class FigureInteractionComponent extends Component {
   private isDragging: boolean = false;
   private isTimeAxisOnly: boolean = false;
   private isValueAxisOnly: boolean = false;
+  private isSegmentMode: boolean = false;
+  private isPanning: boolean = false;
   private mouseDownX: number = 0;
   private mouseDownY: number = 0;
   private currentX: number = 0;
@@ -24,12 +28,40 @@ export default class FigureInteractionComponent extends Component {
     playerService: PlayerService,
     analyzeService: AnalyzeService,
     analyseSettingsService: AnalyzeSettingsService,
+    segmentService: SegmentService,
     audioBuffer: AudioBuffer,
     settings: AnalyzeSettingsProps,
   ) {
     super();
     const componentRoot = document.querySelector(componentRootSelector);
 
+    // draw labeled segments on figures
+    const segmentLayer = document.createElement("div");
+    segmentLayer.className = "segmentLayer";
+    componentRoot.appendChild(segmentLayer);
+    const renderSegments = () =>
+      this.renderSegments(segmentLayer, segmentService, settings);
+    this._addEventlistener(
+      segmentService,
+      EventType.SEG_UPDATE_SEGMENTS,
+      renderSegments,
+    );
+    this._addEventlistener(
+      segmentService,
+      EventType.SEG_UPDATE_SELECTED_INDEX,
+      renderSegments,
+    );
+    renderSegments();
+
+    // draw A/B loop on figures
+    const loopRegion = document.createElement("div");
+    loopRegion.className = "figureLoopRegion";
+    componentRoot.appendChild(loopRegion);
+    const renderLoop = () =>
+      this.renderLoop(loopRegion, playerService, settings);
+    this._addEventlistener(playerService, EventType.UPDATE_LOOP, renderLoop);
+    renderLoop();
+
     // register seekbar on figures
     const visibleBar = document.createElement("div");
     visibleBar.className = "visibleBar";
@@ -76,6 +108,17 @@ export default class FigureInteractionComponent extends Component {
             this.selectionDiv = null;
           }
           const rect = userInputDiv.getBoundingClientRect();
+          if (this.isSegmentMode) {
+            this.isSegmentMode = false;
+            this.addSegment(
+              this.mouseDownX,
+              event.clientX,
+              rect,
+              settings,
+              segmentService,
+            );
+            return;
+          }
           this.applySelectedRange(
             this.mouseDownX,
             this.mouseDownY,
@@ -96,6 +139,8 @@ export default class FigureInteractionComponent extends Component {
         // left click
         if (event.button === 0) {
           this.isDragging = true;
+          // drag with alt key creates a segment instead of zooming
+          this.isSegmentMode = event.altKey;
           // create a new div for the selection
           this.selectionDiv = document.createElement("div");
           this.selectionDiv.style.position = "absolute";
@@ -106,6 +151,14 @@ export default class FigureInteractionComponent extends Component {
           return;
         }
 
+        // middle button drag pans the time axis
+        if (event.button === 1) {
+          // prevent auto scroll
+          event.preventDefault();
+          this.isPanning = true;
+          return;
+        }
+
         // right click
         if (event.button === 2) {
           // reset the range to the default range
@@ -173,18 +226,30 @@ export default class FigureInteractionComponent extends Component {
           Math.abs(this.mouseDownX - mouseUpX) < 3 &&
           Math.abs(this.mouseDownY - mouseUpY) < 3
         ) {
+          const sec = this.clientXToSec(mouseUpX, rect, settings);
+          // alt + click selects the segment under the cursor
+          if (this.isSegmentMode) {
+            this.isSegmentMode = false;
+            segmentService.selectedIndex = segmentService.findSegmentAt(sec);
+          }
           // start playing from the clicked position
-          const xPercentInFigureRange =
-            ((mouseUpX - rect.left) / rect.width) * 100;
-          const sec =
-            (xPercentInFigureRange / 100) *
-              (settings.maxTime - settings.minTime) +
-            settings.minTime;
           const percentInFullRange = (sec / audioBuffer.duration) * 100;
           playerService.onSeekbarInput(percentInFullRange);
           return;
         }
 
+        if (this.isSegmentMode) {
+          this.isSegmentMode = false;
+          this.addSegment(
+            this.mouseDownX,
+            mouseUpX,
+            rect,
+            settings,
+            segmentService,
+          );
+          return;
+        }
+
         // treat as drag
         this.applySelectedRange(
           mouseUpX,
@@ -200,6 +265,82 @@ export default class FigureInteractionComponent extends Component {
       },
     );
 
+    // listen on window, as the mouse may leave the figure while panning
+    this._addEventlistener(
+      window,
+      EventType.MOUSE_MOVE,
+      (event: MouseEvent) => {
+        if (!this.isPanning) {
+          return;
+        }
+        this.translateFigures(componentRoot, event.clientX - this.mouseDownX);
+      },
+    );
+
+    this._addEventlistener(window, EventType.MOUSE_UP, (event: MouseEvent) => {
+      if (!this.isPanning) {
+        return;
+      }
+      this.isPanning = false;
+      this.translateFigures(componentRoot, 0);
+      const dx = event.clientX - this.mouseDownX;
+      if (dx === 0) {
+        return;
+      }
+      // dragging to the right shows earlier time
+      const rect = userInputDiv.getBoundingClientRect();
+      analyseSettingsService.panTimeRange(
+        (-dx / rect.width) * (settings.maxTime - settings.minTime),
+      );
+      analyzeService.analyze();
+    });
+
+    this._addEventlistener(
+      userInputDiv,
+      EventType.WHEEL,
+      (event: WheelEvent) => {
+        const rect = userInputDiv.getBoundingClientRect();
+        // the range may have changed since the figure was drawn, see analyzeOnNextFrame
+        const minTime = analyseSettingsService.minTime;
+        const timeRange = analyseSettingsService.maxTime - minTime;
+        const pixelsPerDelta =
+          event.deltaMode === WheelEvent.DOM_DELTA_LINE
+            ? 16
+            : event.deltaMode === WheelEvent.DOM_DELTA_PAGE
+              ? rect.width
+              : 1;
+
+        // ctrl + wheel, and pinch on touchpads, zoom the time axis around the cursor
+        if (event.ctrlKey || event.metaKey) {
+          event.preventDefault();
+          const sec =
+            ((event.clientX - rect.left) / rect.width) * timeRange + minTime;
+          analyseSettingsService.zoomTimeRange(
+            sec,
+            Math.exp(event.deltaY * pixelsPerDelta * 0.002),
+          );
+          analyzeService.analyzeOnNextFrame();
+          return;
+        }
+
+        // shift + wheel, and horizontal scroll, pan the time axis
+        const delta = event.shiftKey
+          ? event.deltaX || event.deltaY
+          : Math.abs(event.deltaX) > Math.abs(event.deltaY)
+            ? event.deltaX
+            : 0;
+        if (delta === 0) {
+          // vertical scroll scrolls the page
+          return;
+        }
+        event.preventDefault();
+        analyseSettingsService.panTimeRange(
+          ((delta * pixelsPerDelta) / rect.width) * timeRange,
+        );
+        analyzeService.analyzeOnNextFrame();
+      },
+    );
+
     // When the control key or shift key is pressed, even if the mouse is not moving,
     // if the selectuionDiv already exists, update the selection range.
     this._addEventlistener(
@@ -245,7 +386,7 @@ export default class FigureInteractionComponent extends Component {
 
     // draw selection range
     // note: direction of y-axis is top to bottom
-    if (this.isTimeAxisOnly) {
+    if (this.isTimeAxisOnly || this.isSegmentMode) {
       // select time axis only
       this.selectionDiv.style.left =
         Math.min(this.mouseDownX, this.currentX) - rect.left + "px";
@@ -274,6 +415,106 @@ export default class FigureInteractionComponent extends Component {
     }
   }
 
+  // move the figures while panning, until they are drawn for the new range
+  private translateFigures(componentRoot: Element, dx: number) {
+    const canvases =
+      componentRoot.parentElement.querySelectorAll(".canvasBox canvas");
+    for (const canvas of Array.from(canvases)) {
+      (canvas as HTMLCanvasElement).style.transform =
+        dx === 0 ? "" : `translateX(${dx}px)`;
+    }
+  }
+
+  private clientXToSec(
+    clientX: number,
+    rect: DOMRect,
+    settings: AnalyzeSettingsProps,
+  ): number {
+    const x = clientX - rect.left;
+    return (
+      (x / rect.width) * (settings.maxTime - settings.minTime) +
+      settings.minTime
+    );
+  }
+
+  private addSegment(
+    mouseDownX: number,
+    mouseUpX: number,
+    rect: DOMRect,
+    settings: AnalyzeSettingsProps,
+    segmentService: SegmentService,
+  ) {
+    const start = this.clientXToSec(
+      Math.min(mouseDownX, mouseUpX),
+      rect,
+      settings,
+    );
+    const end = this.clientXToSec(
+      Math.max(mouseDownX, mouseUpX),
+      rect,
+      settings,
+    );
+    segmentService.addSegment(start, end);
+  }
+
+  private renderSegments(
+    segmentLayer: HTMLDivElement,
+    segmentService: SegmentService,
+    settings: AnalyzeSettingsProps,
+  ) {
+    segmentLayer.innerHTML = "";
+    const timeRange = settings.maxTime - settings.minTime;
+
+    segmentService.segments.forEach((segment, index) => {
+      // skip segments out of the figure range
+      if (
+        segment.end <= settings.minTime ||
+        settings.maxTime <= segment.start
+      ) {
+        return;
+      }
+      const start = Math.max(segment.start, settings.minTime);
+      const end = Math.min(segment.end, settings.maxTime);
+
+      const region = document.createElement("div");
+      region.classList.add("segmentRegion");
+      if (index === segmentService.selectedIndex) {
+        region.classList.add("segmentRegion--selected");
+      }
+      region.style.left = `${((start - settings.minTime) / timeRange) * 100}%`;
+      region.style.width = `${((end - start) / timeRange) * 100}%`;
+
+      const label = document.createElement("span");
+      label.className = "segmentRegion__label";
+      label.textContent = segment.label;
+      region.appendChild(label);
+
+      segmentLayer.appendChild(region);
+    });
+  }
+
+  private renderLoop(
+    loopRegion: HTMLDivElement,
+    playerService: PlayerService,
+    settings: AnalyzeSettingsProps,
+  ) {
+    const loop = playerService.loop;
+    if (
+      !loop ||
+      loop.end <= settings.minTime ||
+      settings.maxTime <= loop.start
+    ) {
+      loopRegion.style.display = "none";
+      return;
+    }
+    const timeRange = settings.maxTime - settings.minTime;
+    const start = Math.max(loop.start, settings.minTime);
+    const end = Math.min(loop.end, settings.maxTime);
+    loopRegion.style.display = "block";
+    loopRegion.style.left = `${((start - settings.minTime) / timeRange) * 100}%`;
+    loopRegion.style.width = `${((end - start) / timeRange) * 100}%`;
+  }
+
   private applySelectedRange(
     mouseUpX: number,
     mouseUpY: number,
@@ -309,8 +550,21 @@ export default class FigureInteractionComponent extends Component {
           (1 - minY / rect.height) * amplitudeRange + settings.minAmplitude;
         analyseSettingsService.minAmplitude = minAmplitude;
         analyseSettingsService.maxAmplitude = maxAmplitude;
-      } else {
-        // SpectrogramCanvas
+      } else if (settings.spectrogramType === SpectrogramType.ConstantQ) {
+        // rows of the constant-Q transform are equally spaced in log frequency
+        const bins = getConstantQBins(
+          settings.minFrequency,
+          settings.maxFrequency,
+        );
+        const toFrequency = (y: number) =>
+          getConstantQFrequency(bins, (1 - y / rect.height) * bins.numBins);
+        analyseSettingsService.minFrequency = toFrequency(maxY);
+        analyseSettingsService.maxFrequency = toFrequency(minY);
+      } else if (
+        settings.spectrogramType === SpectrogramType.Stft ||
+        settings.spectrogramType === SpectrogramType.Reassigned
+      ) {
+        // SpectrogramCanvas, the rows of MFCC and chroma are not frequencies
         let minFrequency, maxFrequency, frequencyRange;
         switch (settings.frequencyScale) {
           case FrequencyScale.Linear:
@@ -331,19 +585,24 @@ export default class FigureInteractionComponent extends Component {
               Math.pow(10, (1 - minY / rect.height) * frequencyRange) +
               settings.minFrequency;
             break;
-          case FrequencyScale.Mel:
+          case FrequencyScale.Mel: {
+            const minMel = AnalyzeService.hzToMel(
+              settings.minFrequency,
+              settings.melScale,
+            );
             frequencyRange =
-              AnalyzeService.hzToMel(settings.maxFrequency) -
-              AnalyzeService.hzToMel(settings.minFrequency);
-            minFrequency =
-              AnalyzeService.melToHz(
-                (1 - maxY / rect.height) * frequencyRange,
-              ) + settings.minFrequency;
-            maxFrequency =
-              AnalyzeService.melToHz(
-                (1 - minY / rect.height) * frequencyRange,
-              ) + settings.minFrequency;
+              AnalyzeService.hzToMel(settings.maxFrequency, settings.melScale) -
+              minMel;
+            minFrequency = AnalyzeService.melToHz(
+              (1 - maxY / rect.height) * frequencyRange + minMel,
+              settings.melScale,
+            );
+            maxFrequency = AnalyzeService.melToHz(
+              (1 - minY / rect.height) * frequencyRange + minMel,
+              settings.melScale,
+            );
             break;
+          }
         }
         analyseSettingsService.minFrequency = minFrequency;
         analyseSettingsService.maxFrequency = maxFrequency;
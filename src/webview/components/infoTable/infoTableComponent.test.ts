@@ -57,4 +57,32 @@ describe("infoTableComponent", () => {
       document.querySelector(".js-infoTableData-duration")?.textContent,
     ).toBe("12.3 s");
   });
+
+  test("show audio stats of each channel", () => {
+    const channel = {
+      peak: 1,
+      truePeak: 1.2,
+      rms: 0.1,
+      dcOffset: 0.001,
+      numClipped: 3,
+      clippedRegions: [{ start: 4410, end: 4413 }],
+    };
+    infoTableComponent.showAudioStats(
+      {
+        integratedLoudness: -23.04,
+        maxShortTermLoudness: -Infinity,
+        channels: [channel, { ...channel, numClipped: 0, clippedRegions: [] }],
+      },
+      44100,
+    );
+    const text = (name: string) =>
+      document.querySelector(`.js-infoTableData-${name}`)?.textContent;
+    expect(text("integrated_loudness")).toBe("-23.0 LUFS");
+    expect(text("max_short_term_loudness")).toBe("-inf LUFS");
+    expect(text("true_peak")).toBe("1.6 dBTP / 1.6 dBTP");
+    expect(text("rms")).toBe("-20.0 dBFS / -20.0 dBFS");
+    expect(text("crest_factor")).toBe("20.0 dB / 20.0 dB");
+    expect(text("clipped_samples")).toBe("3 / 0");
+    expect(text("clipped_positions")).toBe("0.100 s");
+  });
 });
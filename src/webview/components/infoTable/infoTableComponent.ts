@@ -1,4 +1,19 @@
 import "./infoTableComponent.css";
+import {
+  AudioStats,
+  ChannelStats,
+  getCrestFactor,
+  toDecibels,
+} from "../../audioStats";
+
+// clipped positions listed in the table, the rest are counted
+const maxClippedPositions = 10;
+
+function formatLevel(value: number, unit: string) {
+  return Number.isFinite(value)
+    ? `${value.toFixed(1)} ${unit}`
+    : `-inf ${unit}`;
+}
 
 export default class InfoTableComponent {
   private _infoTable: HTMLTableElement;
@@ -46,7 +61,64 @@ export default class InfoTableComponent {
     );
   }
 
+  // values of each channel are separated by " / "
+  public showAudioStats(stats: AudioStats, sampleRate: number) {
+    const perChannel = (format: (ch: ChannelStats) => string) =>
+      stats.channels.map(format).join(" / ");
+    this.insertTableData(
+      "integrated_loudness",
+      formatLevel(stats.integratedLoudness, "LUFS"),
+    );
+    this.insertTableData(
+      "max_short_term_loudness",
+      formatLevel(stats.maxShortTermLoudness, "LUFS"),
+    );
+    this.insertTableData(
+      "true_peak",
+      perChannel((ch) => formatLevel(toDecibels(ch.truePeak), "dBTP")),
+    );
+    this.insertTableData(
+      "rms",
+      perChannel((ch) => formatLevel(toDecibels(ch.rms), "dBFS")),
+    );
+    this.insertTableData(
+      "dc_offset",
+      perChannel((ch) => ch.dcOffset.toFixed(5)),
+    );
+    this.insertTableData(
+      "crest_factor",
+      perChannel((ch) => formatLevel(getCrestFactor(ch), "dB")),
+    );
+    this.insertTableData(
+      "clipped_samples",
+      perChannel((ch) => ch.numClipped.toLocaleString()),
+    );
+
+    // start of the clipped regions of all channels in time order
+    const starts = stats.channels
+      .flatMap((ch) => ch.clippedRegions.map((r) => r.start))
+      .sort((a, b) => a - b)
+      .filter((start, i, sorted) => i === 0 || sorted[i - 1] !== start);
+    let positions = starts
+      .slice(0, maxClippedPositions)
+      .map((start) => `${(start / sampleRate).toFixed(3)} s`)
+      .join(", ");
+    if (starts.length > maxClippedPositions) {
+      positions += ` and ${starts.length - maxClippedPositions} more`;
+    }
+    this.insertTableData("clipped_positions", positions || "none");
+  }
+
   private insertTableData(name: string, value: string) {
+    // update the row if it is already shown, the duration changes after audio edits
+    const currentValueTd = this._infoTable.querySelector(
+      `.js-infoTableData-${name}`,
+    );
+    if (currentValueTd) {
+      currentValueTd.textContent = value;
+      return;
+    }
+
     const tr = document.createElement("tr");
     tr.classList.add("infoTableRow");
 
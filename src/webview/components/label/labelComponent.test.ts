@@ -0,0 +1,38 @@
+import { WebviewMessageType } from "../../../message";
+import LabelComponent from "./labelComponent";
+
+describe("labelComponent", () => {
+  let postMessage: jest.Mock;
+  let labelComponent: LabelComponent;
+  let textarea: HTMLTextAreaElement;
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="label"></div>';
+    postMessage = jest.fn();
+    labelComponent = new LabelComponent("#label", postMessage);
+    textarea = document.getElementById("label-textarea") as HTMLTextAreaElement;
+  });
+
+  test("typing sends an edit", () => {
+    textarea.value = "hello";
+    textarea.dispatchEvent(new Event("input"));
+    expect(postMessage).toHaveBeenCalledWith({
+      type: WebviewMessageType.EDIT_LABEL,
+      data: "hello",
+    });
+  });
+
+  test("setLabel does not send an edit", () => {
+    labelComponent.setLabel("from extension");
+    expect(textarea.value).toBe("from extension");
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  test("save button sends the current label", () => {
+    textarea.value = "hello";
+    document.getElementById("save-label-button").click();
+    expect(postMessage).toHaveBeenCalledWith({
+      type: WebviewMessageType.SAVE_LABEL,
+      data: "hello",
+    });
+  });
+});
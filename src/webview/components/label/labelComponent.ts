@@ -26,22 +26,43 @@ export default class LabelComponent extends Component {
       "click",
       this.saveLabel.bind(this),
     );
+
+    // every change is an edit of the document, for dirty state and undo/redo
+    this._addEventlistener(
+      document.getElementById("label-textarea"),
+      "input",
+      this.editLabel.bind(this),
+    );
   }
 
   setLabel(text: string) {
     const textarea = document.getElementById(
       "label-textarea",
     ) as HTMLTextAreaElement;
-    textarea.value = text;
+    // keep the cursor position if the label is not changed
+    if (textarea.value !== text) {
+      textarea.value = text;
+    }
   }
 
-  saveLabel() {
+  getLabel(): string {
     const textarea = document.getElementById(
       "label-textarea",
     ) as HTMLTextAreaElement;
+    return textarea.value;
+  }
+
+  editLabel() {
+    this._postMessage({
+      type: WebviewMessageType.EDIT_LABEL,
+      data: this.getLabel(),
+    });
+  }
+
+  saveLabel() {
     this._postMessage({
       type: WebviewMessageType.SAVE_LABEL,
-      data: textarea.value,
+      data: this.getLabel(),
     });
   }
 }
@@ -0,0 +1,55 @@
+import { WebviewMessageType } from "../../../message";
+import LabelComponent from "../label/labelComponent";
+import LabelingSessionComponent from "./labelingSessionComponent";
+
+describe("labelingSessionComponent", () => {
+  let postMessage: jest.Mock;
+  let labelingSessionComponent: LabelingSessionComponent;
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<div id="label"></div><div id="labelingSession"></div>';
+    postMessage = jest.fn();
+    const labelComponent = new LabelComponent("#label", postMessage);
+    labelComponent.setLabel("hello");
+    labelingSessionComponent = new LabelingSessionComponent(
+      "#labelingSession",
+      labelComponent,
+      postMessage,
+    );
+  });
+
+  test("hidden when the file is not in a session", () => {
+    const container = document.querySelector(".labelingSession") as HTMLElement;
+    expect(container.style.display).toBe("none");
+    labelingSessionComponent.navigate("next");
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  test("show progress", () => {
+    labelingSessionComponent.setProgress({
+      position: 1,
+      total: 10,
+      doneCount: 3,
+      isDone: false,
+    });
+    expect(
+      document.querySelector(".js-labelingSessionProgress").textContent,
+    ).toBe("2 / 10 (3 done)");
+  });
+
+  test("buttons send the current label", () => {
+    labelingSessionComponent.setProgress({
+      position: 0,
+      total: 2,
+      doneCount: 0,
+      isDone: false,
+    });
+    (
+      document.querySelector(".js-labelingSessionSkip") as HTMLButtonElement
+    ).click();
+    expect(postMessage).toHaveBeenCalledWith({
+      type: WebviewMessageType.LABELING_SESSION_NAVIGATE,
+      data: { direction: "skip", label: "hello" },
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import "./labelingSessionComponent.css";
+import Component from "../../component";
+import { EventType } from "../../events";
+import { PostMessage, WebviewMessageType } from "../../../message";
+import {
+  LabelingSessionDirection,
+  LabelingSessionProgress,
+} from "../../../labelingSession";
+import LabelComponent from "../label/labelComponent";
+
+export default class LabelingSessionComponent extends Component {
+  private _componentRoot: HTMLElement;
+  private _labelComponent: LabelComponent;
+  private _postMessage: PostMessage;
+  private _progress: LabelingSessionProgress | undefined;
+
+  constructor(
+    componentRootSelector: string,
+    labelComponent: LabelComponent,
+    postMessage: PostMessage,
+  ) {
+    super();
+    this._labelComponent = labelComponent;
+    this._postMessage = postMessage;
+
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="labelingSession">
+        <span class="labelingSession__progress js-labelingSessionProgress"></span>
+        <progress class="labelingSession__progressBar js-labelingSessionProgressBar"></progress>
+        <button class="js-labelingSessionPrevious" title="Save and go to the previous file">previous</button>
+        <button class="js-labelingSessionSkip" title="Save and go to the next pending file without marking this one as done">skip</button>
+        <button class="js-labelingSessionNext" title="Save, mark as done and go to the next pending file">next</button>
+      </div>
+    `;
+
+    const buttons: [string, LabelingSessionDirection][] = [
+      [".js-labelingSessionPrevious", "previous"],
+      [".js-labelingSessionSkip", "skip"],
+      [".js-labelingSessionNext", "next"],
+    ];
+    for (const [selector, direction] of buttons) {
+      const button = this._componentRoot.querySelector(selector);
+      this._addEventlistener(button, EventType.CLICK, () => {
+        this.navigate(direction);
+      });
+    }
+
+    this.setProgress(undefined);
+  }
+
+  // undefined hides the component, the file is not in a labeling session
+  public setProgress(progress: LabelingSessionProgress | undefined) {
+    this._progress = progress;
+    const container = this._componentRoot.querySelector(
+      ".labelingSession",
+    ) as HTMLElement;
+    container.style.display = progress ? "" : "none";
+    if (!progress) {
+      return;
+    }
+
+    const progressText = this._componentRoot.querySelector(
+      ".js-labelingSessionProgress",
+    );
+    progressText.textContent = `${progress.position + 1} / ${progress.total} (${progress.doneCount} done)${progress.isDone ? " ✓" : ""}`;
+    const progressBar = this._componentRoot.querySelector(
+      ".js-labelingSessionProgressBar",
+    ) as HTMLProgressElement;
+    progressBar.max = progress.total;
+    progressBar.value = progress.doneCount;
+  }
+
+  // the extension saves the label and opens the next file
+  public navigate(direction: LabelingSessionDirection) {
+    if (!this._progress) {
+      return;
+    }
+    this._postMessage({
+      type: WebviewMessageType.LABELING_SESSION_NAVIGATE,
+      data: { direction, label: this._labelComponent.getLabel() },
+    });
+  }
+}
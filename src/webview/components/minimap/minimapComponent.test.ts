@@ -0,0 +1,90 @@
+import { MockAudioBuffer } from "../../../__mocks__/helper";
+import AnalyzeService from "../../services/analyzeService";
+import AnalyzeSettingsService from "../../services/analyzeSettingsService";
+import MinimapComponent from "./minimapComponent";
+
+describe("minimapComponent", () => {
+  let analyzeService: AnalyzeService;
+  let analyzeSettingsService: AnalyzeSettingsService;
+  let minimapComponent: MinimapComponent;
+  const viewport = () =>
+    document.querySelector(".js-minimapViewport") as HTMLDivElement;
+  const mouse = (target: EventTarget, type: string, clientX: number) =>
+    target.dispatchEvent(
+      new MouseEvent(type, { button: 0, clientX, bubbles: true }),
+    );
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="minimap"></div>';
+    const audioBuffer = new MockAudioBuffer(
+      2,
+      44100 * 10,
+      44100,
+    ) as unknown as AudioBuffer;
+    analyzeService = new AnalyzeService(audioBuffer);
+    jest
+      .spyOn(analyzeService, "analyzeOnNextFrame")
+      .mockImplementation(() => analyzeService.analyze());
+    analyzeSettingsService = AnalyzeSettingsService.fromDefaultSetting(
+      {
+        waveformVisible: undefined,
+        waveformVerticalScale: undefined,
+        spectrogramVisible: undefined,
+        spectrogramVerticalScale: undefined,
+        windowSizeIndex: undefined,
+        minAmplitude: undefined,
+        maxAmplitude: undefined,
+        minFrequency: undefined,
+        maxFrequency: undefined,
+        spectrogramAmplitudeRange: undefined,
+        frequencyScale: undefined,
+        melFilterNum: undefined,
+      },
+      audioBuffer,
+    );
+    minimapComponent = new MinimapComponent(
+      "#minimap",
+      audioBuffer,
+      analyzeService,
+      analyzeSettingsService,
+    );
+    // 1 pixel is 0.01 sec
+    jest
+      .spyOn(document.querySelector(".js-minimap"), "getBoundingClientRect")
+      .mockReturnValue({ left: 0, width: 1000 } as DOMRect);
+  });
+
+  afterEach(() => {
+    minimapComponent.dispose();
+  });
+
+  test("viewport follows the time range", () => {
+    expect(viewport().style.left).toBe("0%");
+    expect(viewport().style.width).toBe("100%");
+    analyzeSettingsService.setTimeRange(2, 4);
+    expect(viewport().style.left).toBe("20%");
+    expect(viewport().style.width).toBe("20%");
+  });
+
+  test("dragging the viewport pans the time range", () => {
+    analyzeSettingsService.setTimeRange(2, 4);
+    const analyze = jest.spyOn(analyzeService, "analyze");
+    mouse(document.querySelector(".js-minimap"), "mousedown", 300);
+    mouse(window, "mousemove", 500);
+    expect(analyzeSettingsService.minTime).toBeCloseTo(4);
+    expect(analyzeSettingsService.maxTime).toBeCloseTo(6);
+    mouse(window, "mouseup", 500);
+    mouse(window, "mousemove", 700);
+    expect(analyzeSettingsService.minTime).toBeCloseTo(4);
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  test("clicking outside of the viewport centers it", () => {
+    analyzeSettingsService.setTimeRange(2, 4);
+    mouse(document.querySelector(".js-minimap"), "mousedown", 800);
+    mouse(window, "mouseup", 800);
+    expect(analyzeSettingsService.minTime).toBeCloseTo(7);
+    expect(analyzeSettingsService.maxTime).toBeCloseTo(9);
+    expect(viewport().style.left).toBe("70%");
+  });
+});
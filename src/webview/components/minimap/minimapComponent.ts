@@ -0,0 +1,130 @@
+import "./minimapComponent.css";
+import { EventType } from "../../events";
+import Component from "../../component";
+import AnalyzeService from "../../services/analyzeService";
+import AnalyzeSettingsService from "../../services/analyzeSettingsService";
+
+// overview of the whole audio with the time range of the figures, which can be dragged
+export default class MinimapComponent extends Component {
+  public static readonly CANVAS_WIDTH = 1000;
+  public static readonly CANVAS_HEIGHT = 40;
+
+  private _componentRoot: HTMLElement;
+  private _viewport: HTMLDivElement;
+  private _duration: number;
+  private _analyzeService: AnalyzeService;
+  private _analyzeSettingsService: AnalyzeSettingsService;
+  // distance from the cursor to the left of the viewport while dragging
+  private _dragOffsetTime: number | undefined;
+
+  constructor(
+    componentRootSelector: string,
+    audioBuffer: AudioBuffer,
+    analyzeService: AnalyzeService,
+    analyzeSettingsService: AnalyzeSettingsService,
+  ) {
+    super();
+    this._duration = audioBuffer.duration;
+    this._analyzeService = analyzeService;
+    this._analyzeSettingsService = analyzeSettingsService;
+
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="minimap js-minimap">
+        <canvas class="minimap__canvas js-minimapCanvas"></canvas>
+        <div class="minimap__viewport js-minimapViewport"></div>
+      </div>
+    `;
+    const canvas = this._componentRoot.querySelector(
+      ".js-minimapCanvas",
+    ) as HTMLCanvasElement;
+    canvas.width = MinimapComponent.CANVAS_WIDTH;
+    canvas.height = MinimapComponent.CANVAS_HEIGHT;
+    this.drawOverview(canvas, audioBuffer);
+
+    this._viewport = this._componentRoot.querySelector(".js-minimapViewport");
+    this.updateViewport();
+    this._addEventlistener(
+      analyzeSettingsService,
+      EventType.AS_UPDATE_MIN_TIME,
+      () => this.updateViewport(),
+    );
+    this._addEventlistener(
+      analyzeSettingsService,
+      EventType.AS_UPDATE_MAX_TIME,
+      () => this.updateViewport(),
+    );
+
+    const minimap = this._componentRoot.querySelector(
+      ".js-minimap",
+    ) as HTMLElement;
+    this._addEventlistener(minimap, EventType.MOUSE_DOWN, (e: MouseEvent) => {
+      if (e.button !== 0) {
+        return;
+      }
+      const sec = this.clientXToSec(e.clientX);
+      const { minTime, maxTime } = this._analyzeSettingsService;
+      // clicking outside of the viewport centers it at the cursor
+      if (sec < minTime || maxTime < sec) {
+        this.moveViewport(sec - (maxTime - minTime) / 2);
+      }
+      this._dragOffsetTime = sec - this._analyzeSettingsService.minTime;
+    });
+    this._addEventlistener(window, EventType.MOUSE_MOVE, (e: MouseEvent) => {
+      if (this._dragOffsetTime === undefined) {
+        return;
+      }
+      this.moveViewport(this.clientXToSec(e.clientX) - this._dragOffsetTime);
+    });
+    this._addEventlistener(window, EventType.MOUSE_UP, () => {
+      this._dragOffsetTime = undefined;
+    });
+  }
+
+  private moveViewport(minTime: number) {
+    const { minTime: currentMinTime, maxTime } = this._analyzeSettingsService;
+    this._analyzeSettingsService.setTimeRange(
+      minTime,
+      minTime + maxTime - currentMinTime,
+    );
+    this._analyzeService.analyzeOnNextFrame();
+  }
+
+  private updateViewport() {
+    const { minTime, maxTime } = this._analyzeSettingsService;
+    this._viewport.style.left = `${(minTime / this._duration) * 100}%`;
+    this._viewport.style.width = `${((maxTime - minTime) / this._duration) * 100}%`;
+  }
+
+  private clientXToSec(clientX: number): number {
+    const rect = this._componentRoot
+      .querySelector(".js-minimap")
+      .getBoundingClientRect();
+    return ((clientX - rect.left) / rect.width) * this._duration;
+  }
+
+  // peaks of all channels
+  private drawOverview(canvas: HTMLCanvasElement, audioBuffer: AudioBuffer) {
+    const context = canvas.getContext("2d", { alpha: false });
+    const width = canvas.width;
+    const height = canvas.height;
+    const min = new Float32Array(width).fill(Infinity);
+    const max = new Float32Array(width).fill(-Infinity);
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      const peaks = this._analyzeService
+        .getPeakPyramid(ch)
+        .getPeaks(0, audioBuffer.length, width);
+      for (let x = 0; x < width; x++) {
+        min[x] = Math.min(min[x], peaks.min[x]);
+        max[x] = Math.max(max[x], peaks.max[x]);
+      }
+    }
+
+    context.fillStyle = "rgb(160,60,200)";
+    for (let x = 0; x < width; x++) {
+      const top = ((1 - Math.min(max[x], 1)) / 2) * height;
+      const bottom = ((1 - Math.max(min[x], -1)) / 2) * height;
+      context.fillRect(x, top, 1, Math.max(bottom - top, 1));
+    }
+  }
+}
@@ -232,4 +232,212 @@ describe("playerComponent", () => {
     playerComponent.dispose();
     document.body.removeChild(player2);
   });
+
+  test("set and clear the loop with the keyboard", () => {
+    if (playerService.isPlaying) {
+      playerService.pause();
+    }
+    playerService.onSeekbarInput(25);
+    window.dispatchEvent(new KeyboardEvent("keydown", { key: "[" }));
+    playerService.onSeekbarInput(50);
+    window.dispatchEvent(new KeyboardEvent("keydown", { key: "]" }));
+    if (playerService.isPlaying) {
+      playerService.pause();
+    }
+    expect(playerService.loop).toEqual({ start: 0.25, end: 0.5 });
+
+    const loopRegion = document.querySelector(
+      ".js-loopRegion",
+    ) as HTMLDivElement;
+    expect(loopRegion.style.display).toBe("block");
+    expect(loopRegion.style.left).toBe("25%");
+    expect(loopRegion.style.width).toBe("25%");
+    expect(document.querySelector(".js-loopText").textContent).toBe(
+      "loop 0.250 - 0.500 s",
+    );
+
+    // keys typed into inputs are ignored
+    const preRollInput = document.querySelector(
+      ".js-loopPreRoll",
+    ) as HTMLInputElement;
+    preRollInput.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "\\", bubbles: true }),
+    );
+    expect(playerService.loop).toBeDefined();
+
+    window.dispatchEvent(new KeyboardEvent("keydown", { key: "\\" }));
+    expect(playerService.loop).toBeUndefined();
+    expect(loopRegion.style.display).toBe("none");
+  });
+
+  test("change loop pre-roll and post-roll", () => {
+    const preRollInput = document.querySelector(
+      ".js-loopPreRoll",
+    ) as HTMLInputElement;
+    preRollInput.value = "0.5";
+    preRollInput.dispatchEvent(new Event("change"));
+    expect(playerSettingService.loopPreRoll).toBe(0.5);
+
+    // out of range values are clamped
+    const postRollInput = document.querySelector(
+      ".js-loopPostRoll",
+    ) as HTMLInputElement;
+    postRollInput.value = "100";
+    postRollInput.dispatchEvent(new Event("change"));
+    expect(playerSettingService.loopPostRoll).toBe(
+      PlayerSettingsService.LOOP_ROLL_MAX,
+    );
+    expect(postRollInput.value).toBe(
+      String(PlayerSettingsService.LOOP_ROLL_MAX),
+    );
+  });
+
+  test("change preserve pitch when the checkbox is changed", () => {
+    const checkbox = document.querySelector(
+      ".js-preservePitch",
+    ) as HTMLInputElement;
+    expect(checkbox.checked).toBe(true);
+    checkbox.checked = false;
+    checkbox.dispatchEvent(new Event("change"));
+    expect(playerSettingService.preservePitch).toBe(false);
+  });
+});
+
+describe("transcriber controls", () => {
+  let playerService: PlayerService;
+  let playerSettingService: PlayerSettingsService;
+  let playerComponent: PlayerComponent;
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="player"></div>';
+    const audioContext = createAudioContext(44100);
+    const audioBuffer = audioContext.createBuffer(1, 44100 * 10, 44100);
+    playerSettingService = PlayerSettingsService.fromDefaultSetting(
+      { holdToPlayKey: "F12", skipSec: 3, enableSeekToPlay: false },
+      audioBuffer,
+    );
+    playerService = new PlayerService(
+      audioContext,
+      audioBuffer,
+      playerSettingService,
+    );
+    playerComponent = new PlayerComponent(
+      "#player",
+      playerService,
+      playerSettingService,
+    );
+  });
+
+  afterEach(() => {
+    playerComponent.dispose();
+    playerService.dispose();
+  });
+
+  test("play while the hold-to-play key is held", () => {
+    window.dispatchEvent(new KeyboardEvent("keydown", { code: "F12" }));
+    expect(playerService.isPlaying).toBe(true);
+    // key repeat does not toggle
+    window.dispatchEvent(
+      new KeyboardEvent("keydown", { code: "F12", repeat: true }),
+    );
+    expect(playerService.isPlaying).toBe(true);
+    window.dispatchEvent(new KeyboardEvent("keyup", { code: "F12" }));
+    expect(playerService.isPlaying).toBe(false);
+  });
+
+  test("skip commands move by skipSec", () => {
+    playerComponent.runCommand("skipForward");
+    playerComponent.runCommand("skipForward");
+    expect(playerService.currentSec).toBe(6);
+    playerComponent.runCommand("skipBackward");
+    expect(playerService.currentSec).toBe(3);
+    playerComponent.runCommand("togglePlay");
+    expect(playerService.isPlaying).toBe(true);
+  });
+
+  test("speed commands nudge the playback rate and show it in the dropdown", () => {
+    playerComponent.runCommand("speedDown");
+    playerComponent.runCommand("speedDown");
+    playerComponent.runCommand("speedDown");
+    expect(playerSettingService.playbackRate).toBe(0.7);
+    const dropdown = document.querySelector(
+      "#playbackRate",
+    ) as HTMLSelectElement;
+    expect(dropdown.value).toBe("0.700");
+    expect(dropdown.selectedOptions[0].textContent).toBe("0.7x");
+    // options stay in order
+    const values = Array.from(dropdown.options).map((o) => Number(o.value));
+    expect(values).toEqual([...values].sort((a, b) => a - b));
+
+    playerComponent.runCommand("speedUp");
+    expect(dropdown.value).toBe("0.800");
+  });
+});
+
+describe("channel mix", () => {
+  const createPlayer = (numberOfChannels: number) => {
+    document.body.innerHTML = '<div id="player"></div>';
+    const audioContext = createAudioContext(44100);
+    const audioBuffer = audioContext.createBuffer(
+      numberOfChannels,
+      44100,
+      44100,
+    );
+    const playerSettingService = PlayerSettingsService.fromDefaultSetting(
+      {},
+      audioBuffer,
+    );
+    const playerService = new PlayerService(
+      audioContext,
+      audioBuffer,
+      playerSettingService,
+    );
+    const playerComponent = new PlayerComponent(
+      "#player",
+      playerService,
+      playerSettingService,
+    );
+    return { playerSettingService, playerService, playerComponent };
+  };
+
+  test("mute, solo, pan and mono sum of stereo audio", () => {
+    const { playerSettingService, playerService, playerComponent } =
+      createPlayer(2);
+    const mutes =
+      document.querySelectorAll<HTMLInputElement>(".js-channelMute");
+    expect(mutes.length).toBe(2);
+    mutes[0].checked = true;
+    mutes[0].dispatchEvent(new Event("change"));
+    expect(playerSettingService.isChannelMuted(0)).toBe(true);
+
+    const solo =
+      document.querySelectorAll<HTMLInputElement>(".js-channelSolo")[1];
+    solo.checked = true;
+    solo.dispatchEvent(new Event("change"));
+    expect(playerSettingService.isChannelSoloed(1)).toBe(true);
+
+    const pan =
+      document.querySelectorAll<HTMLInputElement>(".js-channelPan")[1];
+    expect(pan.value).toBe("1");
+    pan.value = "0.5";
+    pan.dispatchEvent(new Event("input"));
+    expect(playerSettingService.getChannelPan(1)).toBe(0.5);
+    pan.dispatchEvent(new Event("dblclick"));
+    expect(pan.value).toBe("1");
+
+    const monoSum = document.querySelector(".js-monoSum") as HTMLInputElement;
+    monoSum.checked = true;
+    monoSum.dispatchEvent(new Event("change"));
+    expect(playerSettingService.monoSum).toBe(true);
+
+    playerComponent.dispose();
+    playerService.dispose();
+  });
+
+  test("no channel mix for mono audio", () => {
+    const { playerService, playerComponent } = createPlayer(1);
+    const box = document.querySelector(".js-channelMixBox") as HTMLElement;
+    expect(box.style.display).toBe("none");
+    playerComponent.dispose();
+    playerService.dispose();
+  });
 });
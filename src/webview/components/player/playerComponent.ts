@@ -3,10 +3,12 @@ import { EventType } from "../../events";
 import Component from "../../component";
 import PlayerService from "../../services/playerService";
 import PlayerSettingsService from "../../services/playerSettingsService";
+import { PlayerCommand } from "../../../message";
 
 export default class PlayerComponent extends Component {
   private _componentRoot: HTMLElement;
   private _playButton: HTMLButtonElement;
+  private _playbackRateDropdown: HTMLSelectElement;
   private _volumeBar: HTMLInputElement;
   private _playerService: PlayerService;
   private _playerSettingsService: PlayerSettingsService;
@@ -38,6 +40,7 @@ export default class PlayerComponent extends Component {
         <div class="seekPosText">position 0.000 s</div>
         <div class="seekBarBox">
             <input type="range" class="seekBar" value="0" />
+            <div class="loopRegion js-loopRegion"></div>
             <input type="range" class="userInputSeekBar inputSeekBar" value="0" />
         </div>
 
@@ -52,14 +55,31 @@ export default class PlayerComponent extends Component {
             <option value="1.500">1.5x</option>
             <option value="2.000">2.0x</option>
           </select>
+          <label class="preservePitchText">
+            <input type="checkbox" class="js-preservePitch">
+            preserve pitch
+          </label>
         </div>
+
+        <div class="loopBox">
+          <button class="js-loopStart" title="set loop start at the playhead ( [ )">A</button>
+          <button class="js-loopEnd" title="set loop end at the playhead ( ] )">B</button>
+          <button class="js-loopClear" title="clear loop ( \\ )">clear loop</button>
+          <span class="loopText js-loopText">loop off</span>
+          <label>pre-roll <input type="number" class="loopRollInput js-loopPreRoll" min="0" max="${PlayerSettingsService.LOOP_ROLL_MAX}" step="0.1"> s</label>
+          <label>post-roll <input type="number" class="loopRollInput js-loopPostRoll" min="0" max="${PlayerSettingsService.LOOP_ROLL_MAX}" step="0.1"> s</label>
+        </div>
+
+        <div class="channelMixBox js-channelMixBox"></div>
       </div>
     `;
+    this.initChannelMix();
 
     // init playback rate dropdown
     const playbackRateDropdown = this._componentRoot.querySelector(
       "#playbackRate",
     ) as HTMLSelectElement;
+    this._playbackRateDropdown = playbackRateDropdown;
     this._addEventlistener(playbackRateDropdown, EventType.CHANGE, () => {
       this._playerSettingsService.playbackRate = Number(
         playbackRateDropdown.value,
@@ -69,10 +89,26 @@ export default class PlayerComponent extends Component {
       this._playerSettingsService,
       EventType.PS_UPDATE_PLAYBACK_RATE,
       (e: CustomEventInit) => {
-        playbackRateDropdown.value = e.detail.value.toFixed(3);
+        this.showPlaybackRate(e.detail.value);
+      },
+    );
+    this.showPlaybackRate(this._playerSettingsService.playbackRate);
+
+    // init preserve pitch checkbox
+    const preservePitchCheckbox = this._componentRoot.querySelector(
+      ".js-preservePitch",
+    ) as HTMLInputElement;
+    preservePitchCheckbox.checked = this._playerSettingsService.preservePitch;
+    this._addEventlistener(preservePitchCheckbox, EventType.CHANGE, () => {
+      this._playerSettingsService.preservePitch = preservePitchCheckbox.checked;
+    });
+    this._addEventlistener(
+      this._playerSettingsService,
+      EventType.PS_UPDATE_PRESERVE_PITCH,
+      (e: CustomEventInit) => {
+        preservePitchCheckbox.checked = e.detail.value;
       },
     );
-    this._playerSettingsService.playbackRate = 1.0;
 
     // init main seekbar event
     // To avoid inconvenience when the timing of user input overlaps with the change in value over time,
@@ -103,6 +139,93 @@ export default class PlayerComponent extends Component {
       },
     );
 
+    // init loop controls
+    const loopRegion = this._componentRoot.querySelector(
+      ".js-loopRegion",
+    ) as HTMLDivElement;
+    const loopText = this._componentRoot.querySelector(".js-loopText");
+    const updateLoop = () => {
+      const loop = this._playerService.loop;
+      if (!loop) {
+        loopRegion.style.display = "none";
+        loopText.textContent = "loop off";
+        return;
+      }
+      const duration = this._playerService.duration;
+      loopRegion.style.display = "block";
+      loopRegion.style.left = `${(loop.start / duration) * 100}%`;
+      loopRegion.style.width = `${((loop.end - loop.start) / duration) * 100}%`;
+      loopText.textContent = `loop ${loop.start.toFixed(3)} - ${loop.end.toFixed(3)} s`;
+    };
+    this._addEventlistener(
+      this._playerService,
+      EventType.UPDATE_LOOP,
+      updateLoop,
+    );
+    updateLoop();
+
+    const setLoopStart = () =>
+      this._playerService.setLoopStart(this._playerService.position);
+    const setLoopEnd = () =>
+      this._playerService.setLoopEnd(this._playerService.position);
+    const clearLoop = () => this._playerService.clearLoop();
+    this._addEventlistener(
+      this._componentRoot.querySelector(".js-loopStart"),
+      EventType.CLICK,
+      setLoopStart,
+    );
+    this._addEventlistener(
+      this._componentRoot.querySelector(".js-loopEnd"),
+      EventType.CLICK,
+      setLoopEnd,
+    );
+    this._addEventlistener(
+      this._componentRoot.querySelector(".js-loopClear"),
+      EventType.CLICK,
+      clearLoop,
+    );
+
+    this.initLoopRollInput(
+      ".js-loopPreRoll",
+      EventType.PS_UPDATE_LOOP_PRE_ROLL,
+      () => this._playerSettingsService.loopPreRoll,
+      (value) => (this._playerSettingsService.loopPreRoll = value),
+    );
+    this.initLoopRollInput(
+      ".js-loopPostRoll",
+      EventType.PS_UPDATE_LOOP_POST_ROLL,
+      () => this._playerSettingsService.loopPostRoll,
+      (value) => (this._playerSettingsService.loopPostRoll = value),
+    );
+
+    // [ and ] set the loop at the playhead, \ clears it
+    this._addEventlistener(window, EventType.KEY_DOWN, (e: KeyboardEvent) => {
+      if (e.isComposing || e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+      }
+      if (
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+      switch (e.key) {
+        case "[":
+          setLoopStart();
+          break;
+        case "]":
+          setLoopEnd();
+          break;
+        case "\\":
+          clearLoop();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    });
+
     // init volumebar
     this._volumeBar = <HTMLInputElement>(
       this._componentRoot.querySelector(".volumeBar")
@@ -138,11 +261,7 @@ export default class PlayerComponent extends Component {
       this._componentRoot.querySelector(".playButton")
     );
     this._addEventlistener(this._playButton, EventType.CLICK, () => {
-      if (this._playerService.isPlaying) {
-        this._playerService.pause();
-      } else {
-        this._playerService.play();
-      }
+      this._playerService.togglePlay();
     });
     this._playButton.textContent = "play";
     this._playButton.style.display = "block";
@@ -172,6 +291,168 @@ export default class PlayerComponent extends Component {
         this._playButton.click();
       });
     }
+
+    // play while the key is held, like the pedal of transcription tools
+    const holdToPlayKey = this._playerSettingsService.holdToPlayKey;
+    if (holdToPlayKey) {
+      let isHeld = false;
+      const release = () => {
+        if (isHeld && this._playerService.isPlaying) {
+          this._playerService.pause();
+        }
+        isHeld = false;
+      };
+      this._addEventlistener(window, EventType.KEY_DOWN, (e: KeyboardEvent) => {
+        if (e.code !== holdToPlayKey) {
+          return;
+        }
+        // also while typing the label
+        e.preventDefault();
+        if (e.repeat || isHeld) {
+          return;
+        }
+        isHeld = true;
+        if (!this._playerService.isPlaying) {
+          this._playerService.togglePlay();
+        }
+      });
+      this._addEventlistener(window, EventType.KEY_UP, (e: KeyboardEvent) => {
+        if (e.code === holdToPlayKey) {
+          release();
+        }
+      });
+      // key up is not received after the focus moved to VS Code
+      this._addEventlistener(window, EventType.BLUR, release);
+    }
+  }
+
+  // mute, solo and pan of each channel, only for multi-channel audio
+  private initChannelMix() {
+    const settings = this._playerSettingsService;
+    const box = this._componentRoot.querySelector(
+      ".js-channelMixBox",
+    ) as HTMLElement;
+    if (settings.numberOfChannels < 2) {
+      box.style.display = "none";
+      return;
+    }
+
+    let rows = "";
+    for (let ch = 0; ch < settings.numberOfChannels; ch++) {
+      rows += `
+        <div class="channelMixRow">
+          <span class="channelMixName">ch${ch + 1}</span>
+          <label><input type="checkbox" class="js-channelMute" data-channel="${ch}"> mute</label>
+          <label><input type="checkbox" class="js-channelSolo" data-channel="${ch}"> solo</label>
+          <label>pan <input type="range" class="channelPan js-channelPan" data-channel="${ch}" min="-1" max="1" step="0.1"></label>
+        </div>`;
+    }
+    box.innerHTML = `
+      ${rows}
+      <label><input type="checkbox" class="js-monoSum"> mono sum</label>
+    `;
+
+    const inputsOf = (selector: string) =>
+      Array.from(box.querySelectorAll<HTMLInputElement>(selector));
+    const mutes = inputsOf(".js-channelMute");
+    const solos = inputsOf(".js-channelSolo");
+    const pans = inputsOf(".js-channelPan");
+    const updateChannel = (ch: number) => {
+      mutes[ch].checked = settings.isChannelMuted(ch);
+      solos[ch].checked = settings.isChannelSoloed(ch);
+      pans[ch].value = String(settings.getChannelPan(ch));
+    };
+    for (let ch = 0; ch < settings.numberOfChannels; ch++) {
+      updateChannel(ch);
+      this._addEventlistener(mutes[ch], EventType.CHANGE, () =>
+        settings.setChannelMute(ch, mutes[ch].checked),
+      );
+      this._addEventlistener(solos[ch], EventType.CHANGE, () =>
+        settings.setChannelSolo(ch, solos[ch].checked),
+      );
+      this._addEventlistener(pans[ch], EventType.INPUT, () =>
+        settings.setChannelPan(ch, Number(pans[ch].value)),
+      );
+      // double click resets the pan
+      this._addEventlistener(pans[ch], EventType.DOUBLE_CLICK, () =>
+        settings.setChannelPan(ch, settings.getDefaultChannelPan(ch)),
+      );
+    }
+    this._addEventlistener(
+      settings,
+      EventType.PS_UPDATE_CHANNEL_MIX,
+      (e: CustomEventInit) => updateChannel(e.detail.channel),
+    );
+
+    const monoSum = box.querySelector(".js-monoSum") as HTMLInputElement;
+    monoSum.checked = settings.monoSum;
+    this._addEventlistener(monoSum, EventType.CHANGE, () => {
+      settings.monoSum = monoSum.checked;
+    });
+    this._addEventlistener(
+      settings,
+      EventType.PS_UPDATE_MONO_SUM,
+      (e: CustomEventInit) => {
+        monoSum.checked = e.detail.value;
+      },
+    );
+  }
+
+  // commands of VS Code, which can be bound to keys or pedals
+  public runCommand(command: PlayerCommand) {
+    const settings = this._playerSettingsService;
+    switch (command) {
+      case "togglePlay":
+        this._playerService.togglePlay();
+        break;
+      case "skipBackward":
+        this._playerService.skip(-settings.skipSec);
+        break;
+      case "skipForward":
+        this._playerService.skip(settings.skipSec);
+        break;
+      case "speedUp":
+      case "speedDown": {
+        const step =
+          command === "speedUp" ? settings.speedStep : -settings.speedStep;
+        // round off the error of adding steps
+        settings.playbackRate =
+          Math.round((settings.playbackRate + step) * 1000) / 1000;
+        break;
+      }
+    }
+  }
+
+  // rates set by speed up and down are added to the dropdown
+  private showPlaybackRate(value: number) {
+    const optionValue = value.toFixed(3);
+    const options = Array.from(this._playbackRateDropdown.options);
+    if (!options.some((option) => option.value === optionValue)) {
+      const option = document.createElement("option");
+      option.value = optionValue;
+      option.textContent = `${Number(optionValue)}x`;
+      const next = options.find((o) => Number(o.value) > value);
+      this._playbackRateDropdown.insertBefore(option, next ?? null);
+    }
+    this._playbackRateDropdown.value = optionValue;
+  }
+
+  private initLoopRollInput(
+    selector: string,
+    eventType: EventType,
+    getValue: () => number,
+    setValue: (value: number) => void,
+  ) {
+    const input = this._componentRoot.querySelector(
+      selector,
+    ) as HTMLInputElement;
+    input.value = String(getValue());
+    this._addEventlistener(input, EventType.CHANGE, () => {
+      setValue(Number(input.value));
+    });
+    this._addEventlistener(this._playerSettingsService, eventType, () => {
+      input.value = String(getValue());
+    });
   }
 
   public dispose() {
@@ -0,0 +1,153 @@
+import "./segmentComponent.css";
+import Component from "../../component";
+import { EventType } from "../../events";
+import { PostMessage, WebviewMessageType } from "../../../message";
+import PlayerService from "../../services/playerService";
+import SegmentService from "../../services/segmentService";
+
+export default class SegmentComponent extends Component {
+  private _componentRoot: HTMLElement;
+  private _segmentList: HTMLTableSectionElement;
+  private _segmentService: SegmentService;
+  private _playerService: PlayerService;
+
+  constructor(
+    componentRootSelector: string,
+    segmentService: SegmentService,
+    playerService: PlayerService,
+    postMessage: PostMessage,
+  ) {
+    super();
+    this._segmentService = segmentService;
+    this._playerService = playerService;
+
+    this._componentRoot = document.querySelector(componentRootSelector);
+    this._componentRoot.innerHTML = `
+      <div class="segmentComponent">
+        <h2>Segments</h2>
+        <p class="segmentComponent__hint">Drag on the figures with the Alt key pressed to add a segment.</p>
+        <table class="segmentComponent__list">
+          <tbody class="js-segmentList"></tbody>
+        </table>
+        <div class="segmentComponent__buttons">
+          <button class="js-saveSegmentsButton">Save Segments</button>
+          <button class="js-importSegmentsButton">Import...</button>
+          <button class="js-exportSegmentsButton">Export...</button>
+        </div>
+      </div>
+    `;
+
+    this._segmentList = this._componentRoot.querySelector(".js-segmentList");
+
+    const saveButton = this._componentRoot.querySelector(
+      ".js-saveSegmentsButton",
+    ) as HTMLButtonElement;
+    this._addEventlistener(saveButton, EventType.CLICK, () => {
+      postMessage({
+        type: WebviewMessageType.SAVE_SEGMENTS,
+        data: [...this._segmentService.segments],
+      });
+    });
+
+    // file format is chosen in the file dialog of the extension
+    const importButton = this._componentRoot.querySelector(
+      ".js-importSegmentsButton",
+    ) as HTMLButtonElement;
+    this._addEventlistener(importButton, EventType.CLICK, () => {
+      postMessage({ type: WebviewMessageType.IMPORT_SEGMENTS });
+    });
+
+    const exportButton = this._componentRoot.querySelector(
+      ".js-exportSegmentsButton",
+    ) as HTMLButtonElement;
+    this._addEventlistener(exportButton, EventType.CLICK, () => {
+      postMessage({
+        type: WebviewMessageType.EXPORT_SEGMENTS,
+        data: {
+          segments: [...this._segmentService.segments],
+          duration: this._segmentService.duration,
+        },
+      });
+    });
+
+    this._addEventlistener(
+      this._segmentService,
+      EventType.SEG_UPDATE_SEGMENTS,
+      () => this.renderSegmentList(),
+    );
+    this._addEventlistener(
+      this._segmentService,
+      EventType.SEG_UPDATE_SELECTED_INDEX,
+      () => this.updateSelectedRow(),
+    );
+
+    this.renderSegmentList();
+  }
+
+  private renderSegmentList() {
+    this._segmentList.innerHTML = "";
+
+    this._segmentService.segments.forEach((segment, index) => {
+      const tr = document.createElement("tr");
+      tr.classList.add("segmentComponent__row");
+
+      const timeTd = document.createElement("td");
+      timeTd.classList.add("segmentComponent__time");
+      timeTd.textContent = `${segment.start.toFixed(3)} - ${segment.end.toFixed(3)} s`;
+      tr.appendChild(timeTd);
+
+      const labelTd = document.createElement("td");
+      labelTd.style.width = "100%";
+      const labelInput = document.createElement("input");
+      labelInput.type = "text";
+      labelInput.classList.add(
+        "segmentComponent__labelInput",
+        "js-segmentLabelInput",
+      );
+      labelInput.value = segment.label;
+      labelInput.onfocus = () => {
+        this._segmentService.selectedIndex = index;
+      };
+      labelInput.onchange = () => {
+        this._segmentService.updateSegment(index, { label: labelInput.value });
+      };
+      labelTd.appendChild(labelInput);
+      tr.appendChild(labelTd);
+
+      const playTd = document.createElement("td");
+      const playButton = document.createElement("button");
+      playButton.classList.add("js-segmentPlayButton");
+      playButton.textContent = "play";
+      playButton.onclick = () => {
+        this._segmentService.selectedIndex = index;
+        this._playerService.playRange(segment.start, segment.end);
+      };
+      playTd.appendChild(playButton);
+      tr.appendChild(playTd);
+
+      const deleteTd = document.createElement("td");
+      const deleteButton = document.createElement("button");
+      deleteButton.classList.add("js-segmentDeleteButton");
+      deleteButton.textContent = "delete";
+      deleteButton.onclick = () => {
+        this._segmentService.removeSegment(index);
+      };
+      deleteTd.appendChild(deleteButton);
+      tr.appendChild(deleteTd);
+
+      this._segmentList.appendChild(tr);
+    });
+
+    this.updateSelectedRow();
+  }
+
+  private updateSelectedRow() {
+    const rows = this._segmentList.querySelectorAll(".segmentComponent__row");
+    rows.forEach((row, index) => {
+      row.classList.toggle(
+        "segmentComponent__row--selected",
+        index === this._segmentService.selectedIndex,
+      );
+    });
+  }
+}
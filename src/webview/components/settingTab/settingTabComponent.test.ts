@@ -6,6 +6,8 @@ import { AnalyzeDefault, PlayerDefault } from "../../../config";
 import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
 import PlayerSettingsService from "../../services/playerSettingsService";
+import SegmentService from "../../services/segmentService";
+import { defaultEncoderOptions } from "../../encoder";
 import SettingTab from "./settingTabComponent";
 
 describe("settingTabComponent", () => {
@@ -37,6 +39,9 @@ describe("settingTabComponent", () => {
       analyzeService,
       analyzeSettingsService,
       audioBuffer,
+      new SegmentService(audioBuffer.duration),
+      defaultEncoderOptions,
+      async () => ({ encode: () => new Uint8Array(0) }),
       postMessageFromWebview,
     );
   });
@@ -76,6 +81,17 @@ describe("settingTabComponent", () => {
     expect(analyzeContent.style.display).toBe("block");
   });
 
+  test("click batchExport-button should show batchExport content", () => {
+    const batchExportButton = document.querySelector(
+      ".js-settingTabButton-batchExport",
+    ) as HTMLButtonElement;
+    batchExportButton.click();
+    const batchExportContent = document.querySelector(
+      ".js-settingTabContent-batchExport",
+    ) as HTMLElement;
+    expect(batchExportContent.style.display).toBe("block");
+  });
+
   test("click hide-button should hide all contents", () => {
     const hideButton = document.querySelector(
       ".js-settingTabButton-hide",
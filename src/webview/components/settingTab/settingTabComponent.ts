@@ -7,7 +7,10 @@ import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
 import AnalyzeSettingsComponent from "../analyzeSettings/analyzeSettingsComponent";
 import EasyCutComponent from "../easyCut/easyCutComponent";
+import BatchExportComponent from "../batchExport/batchExportComponent";
+import SegmentService from "../../services/segmentService";
 import { PostMessage } from "../../../message";
+import { CreateEncoder, EncoderOptions } from "../../encoder";
 
 export default class SettingTab extends Component {
   private _componentRoot: HTMLElement;
@@ -18,6 +21,9 @@ export default class SettingTab extends Component {
     analyzeService: AnalyzeService,
     analyzeSettingsService: AnalyzeSettingsService,
     audioBuffer: AudioBuffer,
+    segmentService: SegmentService,
+    encoderOptions: EncoderOptions,
+    createEncoder: CreateEncoder,
     postMessage: PostMessage,
   ) {
     super();
@@ -32,11 +38,13 @@ export default class SettingTab extends Component {
           <button class="settingTab__button js-settingTabButton-player">player</button>
           <button class="settingTab__button js-settingTabButton-analyze">analyze</button>
           <button class="settingTab__button js-settingTabButton-easyCut">easyCut</button>
+          <button class="settingTab__button js-settingTabButton-batchExport">batchExport</button>
         </div>
         <div class="settingTab__content">
           <div class="js-settingTabContent-player"></div>
           <div class="js-settingTabContent-analyze"></div>
           <div class="js-settingTabContent-easyCut"></div>
+          <div class="js-settingTabContent-batchExport"></div>
         </div>
       </div>
     `;
@@ -44,23 +52,42 @@ export default class SettingTab extends Component {
     // hide is default
     this.hideAllContent();
 
-    // create tab content
-    new PlayerSettingsComponent(
-      `${coponentRootSelector} .js-settingTabContent-player`,
-      playerSettingsService,
-      analyzeService,
-      analyzeSettingsService,
+    // create tab content, disposed with the tab as they listen to the settings
+    this._register(
+      new PlayerSettingsComponent(
+        `${coponentRootSelector} .js-settingTabContent-player`,
+        playerSettingsService,
+        analyzeService,
+        analyzeSettingsService,
+      ),
     );
-    new AnalyzeSettingsComponent(
-      `${coponentRootSelector} .js-settingTabContent-analyze`,
-      analyzeService,
-      analyzeSettingsService,
+    this._register(
+      new AnalyzeSettingsComponent(
+        `${coponentRootSelector} .js-settingTabContent-analyze`,
+        analyzeService,
+        analyzeSettingsService,
+        postMessage,
+      ),
     );
-    new EasyCutComponent(
-      `${coponentRootSelector} .js-settingTabContent-easyCut`,
-      audioBuffer,
-      analyzeSettingsService,
-      postMessage,
+    this._register(
+      new EasyCutComponent(
+        `${coponentRootSelector} .js-settingTabContent-easyCut`,
+        audioBuffer,
+        analyzeSettingsService,
+        encoderOptions,
+        createEncoder,
+        postMessage,
+      ),
+    );
+    this._register(
+      new BatchExportComponent(
+        `${coponentRootSelector} .js-settingTabContent-batchExport`,
+        audioBuffer,
+        segmentService,
+        encoderOptions,
+        createEncoder,
+        postMessage,
+      ),
     );
 
     // hide tab event
@@ -114,6 +141,20 @@ export default class SettingTab extends Component {
       easyCutTabContent.style.display = "block";
       easyCutTabButton.classList.add("settingTab__button--active");
     });
+
+    // batchExport tab event
+    const batchExportTabButton = this._componentRoot.querySelector(
+      ".js-settingTabButton-batchExport",
+    ) as HTMLButtonElement;
+    this._addEventlistener(batchExportTabButton, EventType.CLICK, () => {
+      this.hideAllContent();
+      this.resetActivebutton();
+      const batchExportTabContent = this._componentRoot.querySelector(
+        ".js-settingTabContent-batchExport",
+      ) as HTMLElement;
+      batchExportTabContent.style.display = "block";
+      batchExportTabButton.classList.add("settingTab__button--active");
+    });
   }
 
   private resetActivebutton() {
@@ -0,0 +1,188 @@
+import { MockAudioBuffer } from "../../../__mocks__/helper";
+import AnalyzeService from "../../services/analyzeService";
+import { AnalyzeSettingsProps } from "../../services/analyzeSettingsService";
+import { MelNorm, MelScale } from "../../melFilterBank";
+import { FrequencyScale, SpectrogramType } from "../../spectrogram";
+import { WindowFunction } from "../../windowFunction";
+import { EventType } from "../../events";
+import SpectrogramComponent from "./spectrogramComponent";
+
+const settings: AnalyzeSettingsProps = {
+  waveformVerticalScale: 1,
+  spectrogramVerticalScale: 1,
+  windowSize: 256,
+  hopSize: 256,
+  minFrequency: 0,
+  maxFrequency: 4000,
+  minTime: 0,
+  maxTime: 0.5,
+  minAmplitude: -1,
+  maxAmplitude: 1,
+  spectrogramAmplitudeRange: -90,
+  spectrogramType: SpectrogramType.Stft,
+  frequencyScale: FrequencyScale.Linear,
+  melFilterNum: 40,
+  mfccNum: 20,
+  melScale: MelScale.Slaney,
+  melNorm: MelNorm.Slaney,
+  windowFunction: WindowFunction.Hann,
+  kaiserBeta: 8.6,
+  gaussianSigma: 0.4,
+  pitchVisible: false,
+  minF0: 75,
+  maxF0: 600,
+  formantVisible: false,
+  maxFormant: 5500,
+  numFormants: 5,
+  formantWindowLength: 0.025,
+};
+
+describe("spectrogramComponent", () => {
+  let analyzeService: AnalyzeService;
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="spectrogram"></div>';
+    const audioBuffer = new MockAudioBuffer(1, 4000, 8000);
+    for (let i = 0; i < 4000; i++) {
+      audioBuffer.data[0][i] = Math.sin((2 * Math.PI * 440 * i) / 8000);
+    }
+    analyzeService = new AnalyzeService(audioBuffer as unknown as AudioBuffer);
+  });
+
+  afterEach(() => {
+    analyzeService.dispose();
+  });
+
+  // labels of the vertical axis and the number of drawn cells
+  async function draw(spectrogramType: SpectrogramType) {
+    const component = new SpectrogramComponent(
+      "#spectrogram",
+      400,
+      300,
+      analyzeService,
+      { ...settings, spectrogramType },
+      8000,
+      0,
+      1,
+    );
+    expect(await component.done).toBe(true);
+    const [canvas, axisCanvas] = Array.from(
+      document.querySelectorAll("canvas"),
+    );
+    const fillText = axisCanvas.getContext("2d").fillText as jest.Mock;
+    const labels = fillText.mock.calls.map(([text]) => text as string);
+    const fillRect = canvas.getContext("2d").fillRect as jest.Mock;
+    const numCells = fillRect.mock.calls.length;
+    component.dispose();
+    return { labels, numCells };
+  }
+
+  test("spectrogram has a row for each frequency bin", async () => {
+    const { labels, numCells } = await draw(SpectrogramType.Stft);
+    expect(labels).toContain("0");
+    expect(numCells).toBe(Math.ceil(4000 / 256) * 128);
+  });
+
+  test("constant-Q axis is labeled at each octave", async () => {
+    const { labels, numCells } = await draw(SpectrogramType.ConstantQ);
+    expect(labels).toEqual(
+      expect.arrayContaining(["32", "65", "130", "261", "523", "1046"]),
+    );
+    expect(numCells).toBe(Math.ceil(4000 / 256) * 83);
+  });
+
+  test("mfcc axis is labeled by the index of the coefficients", async () => {
+    const { labels, numCells } = await draw(SpectrogramType.Mfcc);
+    expect(labels).toEqual(expect.arrayContaining(["0", "2", "18"]));
+    expect(numCells).toBe(Math.ceil(4000 / 256) * 20);
+  });
+
+  test("chroma axis is labeled by the pitch classes", async () => {
+    const { labels, numCells } = await draw(SpectrogramType.Chroma);
+    expect(labels).toEqual(expect.arrayContaining(["C", "A", "B"]));
+    expect(numCells).toBe(Math.ceil(4000 / 256) * 12);
+  });
+
+  test("reassigned spectrogram uses the frequency axis", async () => {
+    const { labels } = await draw(SpectrogramType.Reassigned);
+    expect(labels).toContain("400");
+  });
+
+  test("pitch is drawn over the spectrogram and shown at the cursor", async () => {
+    const component = new SpectrogramComponent(
+      "#spectrogram",
+      400,
+      300,
+      analyzeService,
+      { ...settings, pitchVisible: true },
+      8000,
+      0,
+      1,
+    );
+    // the track is shared with the component
+    await analyzeService.getPitchTrack(0, settings.minF0, settings.maxF0);
+    const pitchCanvas = document.querySelector<HTMLCanvasElement>(
+      "#spectrogram .pitchCanvas",
+    );
+    const lineTo = pitchCanvas.getContext("2d").lineTo as jest.Mock;
+    expect(lineTo).toHaveBeenCalled();
+    // 440 Hz on the axis from 0 to 4000 Hz
+    for (const [, y] of lineTo.mock.calls) {
+      expect(y).toBeCloseTo(300 * (1 - 440 / 4000), 0);
+    }
+
+    const root = document.querySelector("#spectrogram");
+    // 1 pixel is 1/800 sec
+    jest
+      .spyOn(root, "getBoundingClientRect")
+      .mockReturnValue({ left: 0, top: 0, width: 400 } as DOMRect);
+    root.dispatchEvent(
+      new MouseEvent(EventType.MOUSE_MOVE, { clientX: 200, bubbles: true }),
+    );
+    const readout = document.querySelector<HTMLElement>(
+      "#spectrogram .pitchReadout",
+    );
+    expect(readout.style.display).toBe("block");
+    expect(readout.textContent).toMatch(/^0\.250 s, F0 44\d\.\d Hz$/);
+    root.dispatchEvent(new MouseEvent(EventType.MOUSE_LEAVE));
+    expect(readout.style.display).toBe("none");
+    component.dispose();
+  });
+
+  test("formants are drawn as dots over the spectrogram", async () => {
+    const formantSettings = {
+      ...settings,
+      formantVisible: true,
+      maxFormant: 4000,
+    };
+    const component = new SpectrogramComponent(
+      "#spectrogram",
+      400,
+      300,
+      analyzeService,
+      formantSettings,
+      8000,
+      0,
+      1,
+    );
+    // the track is shared with the component
+    await analyzeService.getFormantTrack(
+      0,
+      formantSettings.maxFormant,
+      formantSettings.numFormants,
+      formantSettings.formantWindowLength,
+    );
+    const formantCanvas = document.querySelector<HTMLCanvasElement>(
+      "#spectrogram .formantCanvas",
+    );
+    const fillRect = formantCanvas.getContext("2d").fillRect as jest.Mock;
+    const ys = fillRect.mock.calls.map(([, y, , size]) => y + size / 2);
+    // 440 Hz on the axis from 0 to 4000 Hz
+    const y440 = 300 * (1 - 440 / 4000);
+    expect(ys.filter((y) => Math.abs(y - y440) < 3).length).toBeGreaterThan(40);
+    for (const y of ys) {
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(300);
+    }
+    component.dispose();
+  });
+});
@@ -1,12 +1,39 @@
 import "../../styles/figure.css";
-import AnalyzeService from "../../services/analyzeService";
+import Component from "../../component";
+import AnalyzeService, {
+  SpectrogramChunk,
+  SpectrogramTask,
+} from "../../services/analyzeService";
+import { AnalyzeSettingsProps } from "../../services/analyzeSettingsService";
+import { FrequencyScale, SpectrogramType } from "../../spectrogram";
 import {
-  FrequencyScale,
-  AnalyzeSettingsProps,
-} from "../../services/analyzeSettingsService";
-
-export default class WaveFormComponent {
+  constantQBinsPerOctave,
+  getConstantQBins,
+  getConstantQFrequency,
+} from "../../constantQ";
+import { chromaNames } from "../../chroma";
+import { getPitchAt, PitchTrack } from "../../pitch";
+import { FormantTrack } from "../../formant";
+import { EventType } from "../../events";
+
+// colors of F1, F2, ... , repeated if there are more formants
+const formantColors = [
+  "rgb(255,60,60)",
+  "rgb(60,230,60)",
+  "rgb(80,140,255)",
+  "rgb(255,220,0)",
+  "rgb(230,80,255)",
+];
+
+export default class SpectrogramComponent extends Component {
   private _analyzeService: AnalyzeService;
+  private _settings: AnalyzeSettingsProps;
+  private _sampleRate: number;
+  private _canvas: HTMLCanvasElement;
+  private _context: CanvasRenderingContext2D;
+  private _task: SpectrogramTask;
+  // chunks drawn so far, redrawn if a later chunk raises the max power
+  private _chunks: SpectrogramChunk[] = [];
 
   constructor(
     componentRootSelector: string,
@@ -18,14 +45,19 @@ export default class WaveFormComponent {
     ch: number,
     numOfCh: number,
   ) {
+    super();
     const componentRoot = document.querySelector(componentRootSelector);
     this._analyzeService = analyzeService;
+    this._settings = settings;
+    this._sampleRate = sampleRate;
 
     const canvas = document.createElement("canvas");
     canvas.className = "mainCanvas";
     canvas.width = width;
     canvas.height = height;
     componentRoot.appendChild(canvas);
+    this._canvas = canvas;
+    this._context = canvas.getContext("2d", { alpha: false });
 
     const axisCanvas = document.createElement("canvas");
     axisCanvas.className = "axisCanvas";
@@ -33,26 +65,355 @@ export default class WaveFormComponent {
     axisCanvas.height = height;
     componentRoot.appendChild(axisCanvas);
 
+    switch (settings.spectrogramType) {
+      case SpectrogramType.ConstantQ:
+        this.drawConstantQAxis(axisCanvas, settings, ch, numOfCh);
+        break;
+      case SpectrogramType.Mfcc:
+        this.drawMfccAxis(axisCanvas, settings, ch, numOfCh);
+        break;
+      case SpectrogramType.Chroma:
+        this.drawChromaAxis(axisCanvas, settings, ch, numOfCh);
+        break;
+      default:
+        this.drawFrequencyAxis(axisCanvas, settings, ch, numOfCh);
+        break;
+    }
+
+    this._task = this._analyzeService.computeSpectrogram(
+      ch,
+      settings,
+      settings.spectrogramType === SpectrogramType.Stft &&
+        settings.frequencyScale === FrequencyScale.Mel,
+      (chunk) => this.onChunk(chunk),
+    );
+    this._register({ dispose: () => this._task.cancel() });
+    this._task.done.then((isCompleted) => {
+      if (isCompleted) {
+        this.redrawChunks();
+      }
+    });
+
+    if (settings.formantVisible) {
+      this.initFormants(componentRoot, width, height, ch);
+    }
+    if (settings.pitchVisible) {
+      this.initPitch(componentRoot, width, height, ch);
+    }
+  }
+
+  // formant tracks over the spectrogram, under the F0 contour
+  private initFormants(
+    componentRoot: Element,
+    width: number,
+    height: number,
+    ch: number,
+  ) {
+    const settings = this._settings;
+    const formantCanvas = document.createElement("canvas");
+    formantCanvas.className = "formantCanvas";
+    formantCanvas.width = width;
+    formantCanvas.height = height;
+    componentRoot.appendChild(formantCanvas);
+
+    this._analyzeService
+      .getFormantTrack(
+        ch,
+        settings.maxFormant,
+        settings.numFormants,
+        settings.formantWindowLength,
+      )
+      .then((track) => {
+        if (!track || this._isDisposed) {
+          return;
+        }
+        this.drawFormants(formantCanvas, track);
+      });
+  }
+
+  // a dot per frame and formant, colored by the formant number
+  private drawFormants(formantCanvas: HTMLCanvasElement, track: FormantTrack) {
+    const settings = this._settings;
+    const context = formantCanvas.getContext("2d");
+    const width = formantCanvas.width;
+    const height = formantCanvas.height;
+    const numFormants = track.numFormants;
+    const framesPerSec = track.sampleRate / track.hopSize;
+    const startFrame = Math.max(Math.floor(settings.minTime * framesPerSec), 0);
+    const endFrame = Math.min(
+      Math.ceil(settings.maxTime * framesPerSec) + 1,
+      track.frequencies.length / numFormants,
+    );
+    const dx = width / ((settings.maxTime - settings.minTime) * framesPerSec);
+    const size = Math.min(Math.max(dx, 2), 4);
+
+    for (let f = 0; f < numFormants; f++) {
+      context.fillStyle = formantColors[f % formantColors.length];
+      for (let i = startFrame; i < endFrame; i++) {
+        const frequency = track.frequencies[i * numFormants + f];
+        if (frequency === 0) {
+          continue;
+        }
+        // the mfcc and the chromagram have no frequency axis
+        const position = this.getFrequencyPosition(frequency);
+        if (position === undefined || position < 0 || 1 < position) {
+          continue;
+        }
+        const x = (i - settings.minTime * framesPerSec) * dx;
+        const y = height * (1 - position);
+        context.fillRect(x - size / 2, y - size / 2, size, size);
+      }
+    }
+  }
+
+  // F0 contour over the spectrogram, and the F0 at the cursor
+  private initPitch(
+    componentRoot: Element,
+    width: number,
+    height: number,
+    ch: number,
+  ) {
+    const settings = this._settings;
+    const pitchCanvas = document.createElement("canvas");
+    pitchCanvas.className = "pitchCanvas";
+    pitchCanvas.width = width;
+    pitchCanvas.height = height;
+    componentRoot.appendChild(pitchCanvas);
+
+    const readout = document.createElement("div");
+    readout.className = "pitchReadout";
+    readout.style.display = "none";
+    componentRoot.appendChild(readout);
+
+    let pitchTrack: PitchTrack | undefined;
+    this._analyzeService
+      .getPitchTrack(ch, settings.minF0, settings.maxF0)
+      .then((track) => {
+        if (!track || this._isDisposed) {
+          return;
+        }
+        pitchTrack = track;
+        this.drawPitch(pitchCanvas, track);
+      });
+
+    // mouse events of the figure interaction layer bubble up to the root
+    this._addEventlistener(
+      componentRoot,
+      EventType.MOUSE_MOVE,
+      (event: MouseEvent) => {
+        const rect = componentRoot.getBoundingClientRect();
+        const x = event.clientX - rect.left;
+        const time =
+          settings.minTime +
+          (x / rect.width) * (settings.maxTime - settings.minTime);
+        let f0Text = "F0 computing";
+        if (pitchTrack) {
+          const f0 = getPitchAt(pitchTrack, time);
+          f0Text = f0 === undefined ? "unvoiced" : `F0 ${f0.toFixed(1)} Hz`;
+        }
+        readout.textContent = `${time.toFixed(3)} s, ${f0Text}`;
+        readout.style.left = `${x + 12}px`;
+        readout.style.top = `${event.clientY - rect.top + 12}px`;
+        readout.style.display = "block";
+      },
+    );
+    this._addEventlistener(componentRoot, EventType.MOUSE_LEAVE, () => {
+      readout.style.display = "none";
+    });
+  }
+
+  // line through the voiced frames, and a bar at the bottom where frames are voiced
+  private drawPitch(pitchCanvas: HTMLCanvasElement, track: PitchTrack) {
+    const settings = this._settings;
+    const context = pitchCanvas.getContext("2d");
+    const width = pitchCanvas.width;
+    const height = pitchCanvas.height;
+    const framesPerSec = track.sampleRate / track.hopSize;
+    const startFrame = Math.max(Math.floor(settings.minTime * framesPerSec), 0);
+    const endFrame = Math.min(
+      Math.ceil(settings.maxTime * framesPerSec) + 1,
+      track.f0.length,
+    );
+    const dx = width / ((settings.maxTime - settings.minTime) * framesPerSec);
+    const getX = (i: number) => (i - settings.minTime * framesPerSec) * dx;
+
+    context.fillStyle = "rgb(0,230,230)";
+    context.strokeStyle = "rgb(0,230,230)";
+    context.lineWidth = 3;
+    context.beginPath();
+    let isDrawing = false;
+    for (let i = startFrame; i < endFrame; i++) {
+      if (!track.voiced[i]) {
+        isDrawing = false;
+        continue;
+      }
+      context.fillRect(getX(i), height - 4, Math.max(dx, 1), 4);
+
+      // the mfcc and the chromagram have no frequency axis
+      const position = this.getFrequencyPosition(track.f0[i]);
+      if (position === undefined || position < 0 || 1 < position) {
+        isDrawing = false;
+        continue;
+      }
+      const y = height * (1 - position);
+      if (isDrawing) {
+        context.lineTo(getX(i), y);
+      } else {
+        context.moveTo(getX(i), y);
+        isDrawing = true;
+      }
+    }
+    context.stroke();
+  }
+
+  // position of a frequency on the vertical axis, 0 at the bottom and 1 at the top
+  private getFrequencyPosition(frequency: number): number | undefined {
+    const settings = this._settings;
+    const { minFrequency, maxFrequency } = settings;
+    switch (settings.spectrogramType) {
+      case SpectrogramType.ConstantQ: {
+        // center of the row of the bin
+        const bins = getConstantQBins(minFrequency, maxFrequency);
+        const k =
+          constantQBinsPerOctave * Math.log2(frequency / bins.minFrequency);
+        return (k + 0.5) / bins.numBins;
+      }
+      case SpectrogramType.Mfcc:
+      case SpectrogramType.Chroma:
+        return undefined;
+    }
+    switch (settings.frequencyScale) {
+      case FrequencyScale.Log: {
+        const logMin = Math.log10(minFrequency + Number.EPSILON);
+        const logMax = Math.log10(maxFrequency + Number.EPSILON);
+        return (Math.log10(frequency) - logMin) / (logMax - logMin);
+      }
+      case FrequencyScale.Mel: {
+        const minMel = AnalyzeService.hzToMel(minFrequency, settings.melScale);
+        const maxMel = AnalyzeService.hzToMel(maxFrequency, settings.melScale);
+        const mel = AnalyzeService.hzToMel(frequency, settings.melScale);
+        return (mel - minMel) / (maxMel - minMel);
+      }
+      default:
+        return (frequency - minFrequency) / (maxFrequency - minFrequency);
+    }
+  }
+
+  public get done(): Promise<boolean> {
+    return this._task.done;
+  }
+
+  private onChunk(chunk: SpectrogramChunk) {
+    this._chunks.push(chunk);
+    this.drawChunk(chunk, chunk.maxValue);
+  }
+
+  // chunks drawn before the max power was found are relative to a smaller max
+  private redrawChunks() {
+    const maxValue = Math.max(...this._chunks.map((c) => c.maxValue));
+    for (const chunk of this._chunks) {
+      if (chunk.maxValue < maxValue) {
+        this.drawChunk(chunk, maxValue);
+      }
+    }
+  }
+
+  private drawChunk(chunk: SpectrogramChunk, maxValue: number) {
+    const settings = this._settings;
+    const width = this._canvas.width;
+    const height = this._canvas.height;
+
+    const wholeSampleNum =
+      (settings.maxTime - settings.minTime) * this._sampleRate;
+    const rectWidth = (width * settings.hopSize) / wholeSampleNum;
+
+    for (let i = 0; i < chunk.numFrames; i++) {
+      const x = (chunk.startFrame + i) * rectWidth;
+      for (let j = 0; j < chunk.numBins; j++) {
+        const [y, rectHeight] = this.getBinRect(j, chunk.numBins, height);
+        this._context.fillStyle = this.getColor(
+          chunk.power[i * chunk.numBins + j],
+          maxValue,
+        );
+        this._context.fillRect(x, y, rectWidth, rectHeight);
+      }
+    }
+  }
+
+  private getColor(value: number, maxValue: number): string {
+    const range = this._settings.spectrogramAmplitudeRange;
+    switch (this._settings.spectrogramType) {
+      case SpectrogramType.Mfcc:
+        // coefficients are signed
+        return this._analyzeService.getDivergingColor(value / maxValue);
+      case SpectrogramType.Chroma:
+        // chroma is normalized to 0 ~ 1 in each frame, drawn linearly over the range
+        return this._analyzeService.getSpectrogramColor(
+          (1 - value) * range,
+          range,
+        );
+      default:
+        return this._analyzeService.getSpectrogramColor(
+          10 * Math.log10(value / maxValue),
+          range,
+        );
+    }
+  }
+
+  // y and height of the j-th frequency bin
+  private getBinRect(
+    j: number,
+    numBins: number,
+    height: number,
+  ): [number, number] {
+    // the reassigned spectrogram already has equally spaced rows on the log scale
+    if (
+      this._settings.spectrogramType !== SpectrogramType.Stft ||
+      this._settings.frequencyScale !== FrequencyScale.Log
+    ) {
+      const rectHeight = height / numBins;
+      return [height - (j + 1) * rectHeight, rectHeight];
+    }
+
+    const df = this._sampleRate / this._settings.windowSize;
+    // calculate the height of each frequency band in the logarithmic scale
+    const logMin = Math.log10(this._settings.minFrequency + Number.EPSILON);
+    const logMax = Math.log10(this._settings.maxFrequency + Number.EPSILON);
+    const scale = (logMax - logMin) / height;
+    // convert the frequency index to the logarithmic scale
+    const freq = j * df;
+    const logFreq = Math.log10(freq + Number.EPSILON);
+    const logPrevFreq = Math.log10((j - 1) * df + Number.EPSILON);
+    return [
+      height - (logFreq - logMin) / scale,
+      (logFreq - logPrevFreq) / scale,
+    ];
+  }
+
+  // axis of the stft and reassigned spectrograms, whose rows are frequencies
+  private drawFrequencyAxis(
+    axisCanvas: HTMLCanvasElement,
+    settings: AnalyzeSettingsProps,
+    ch: number,
+    numOfCh: number,
+  ) {
     switch (settings.frequencyScale) {
       case FrequencyScale.Linear:
         this.drawLinearAxis(axisCanvas, settings, ch, numOfCh);
-        this.drawLinearSpectrogram(canvas, sampleRate, settings, ch);
         break;
       case FrequencyScale.Log:
         /*
-        if minFrequency = 0, logscaled minimum value is log10(Number.EPSILON)
-        however, in this case the values are too small, making the graph less readable 
-        so set minFrequency = 1
-        */
+          if minFrequency = 0, logscaled minimum value is log10(Number.EPSILON)
+          however, in this case the values are too small, making the graph less readable 
+          so set minFrequency = 1
+          */
         if (settings.minFrequency < 1) {
           settings.minFrequency = 1;
         }
         this.drawLogAxis(axisCanvas, settings, ch, numOfCh);
-        this.drawLogSpectrogram(canvas, sampleRate, settings, ch);
         break;
       case FrequencyScale.Mel:
         this.drawMelAxis(axisCanvas, settings, ch, numOfCh);
-        this.drawMelSpectrogram(canvas, sampleRate, settings, ch);
         break;
     }
   }
@@ -92,35 +453,6 @@ export default class WaveFormComponent {
     this.drawChannelLabel(axisCanvas, ch, numOfCh);
   }
 
-  private drawLinearSpectrogram(
-    canvas: HTMLCanvasElement,
-    sampleRate: number,
-    settings: AnalyzeSettingsProps,
-    ch: number,
-  ) {
-    const context = canvas.getContext("2d", { alpha: false });
-    const spectrogram = this._analyzeService.getSpectrogram(ch, settings);
-    const width = canvas.width;
-    const height = canvas.height;
-
-    const wholeSampleNum = (settings.maxTime - settings.minTime) * sampleRate;
-    const rectWidth = (width * settings.hopSize) / wholeSampleNum;
-    const rectHeight = height / spectrogram[0].length;
-
-    for (let i = 0; i < spectrogram.length; i++) {
-      const x = i * rectWidth;
-      for (let j = 0; j < spectrogram[i].length; j++) {
-        const y = height - (j + 1) * rectHeight;
-        const value = spectrogram[i][j];
-        context.fillStyle = this._analyzeService.getSpectrogramColor(
-          value,
-          settings.spectrogramAmplitudeRange,
-        );
-        context.fillRect(x, y, rectWidth, rectHeight);
-      }
-    }
-  }
-
   private drawLogAxis(
     axisCanvas: HTMLCanvasElement,
     settings: AnalyzeSettingsProps,
@@ -159,47 +491,48 @@ export default class WaveFormComponent {
     this.drawChannelLabel(axisCanvas, ch, numOfCh);
   }
 
-  private drawLogSpectrogram(
-    canvas: HTMLCanvasElement,
-    sampleRate: number,
+  private drawMelAxis(
+    axisCanvas: HTMLCanvasElement,
     settings: AnalyzeSettingsProps,
     ch: number,
+    numOfCh: number,
   ) {
-    const context = canvas.getContext("2d", { alpha: false });
-    const spectrogram = this._analyzeService.getSpectrogram(ch, settings);
-    const width = canvas.width;
-    const height = canvas.height;
+    // draw horizontal axis
+    this.drawTimeAxis(axisCanvas, settings);
 
-    const wholeSampleNum = (settings.maxTime - settings.minTime) * sampleRate;
-    const rectWidth = (width * settings.hopSize) / wholeSampleNum;
+    // draw vertical axis
+    const axisContext = axisCanvas.getContext("2d");
+    const width = axisCanvas.width;
+    const height = axisCanvas.height;
+    axisContext.font = `20px Arial`;
 
-    const df = sampleRate / settings.windowSize;
-    // calculate the height of each frequency band in the logarithmic scale
-    const logMin = Math.log10(settings.minFrequency + Number.EPSILON);
-    const logMax = Math.log10(settings.maxFrequency + Number.EPSILON);
-    const scale = (logMax - logMin) / height;
+    const numAxes = Math.round(10 * settings.spectrogramVerticalScale);
+    for (let i = 0; i < numAxes; i++) {
+      axisContext.fillStyle = "rgb(245,130,32)";
+      const y = Math.round((i * height) / numAxes);
+      const maxMel = AnalyzeService.hzToMel(
+        settings.maxFrequency,
+        settings.melScale,
+      );
+      const minMel = AnalyzeService.hzToMel(
+        settings.minFrequency,
+        settings.melScale,
+      );
+      const mel = ((numAxes - i) * (maxMel - minMel)) / numAxes + minMel;
+      const f = AnalyzeService.melToHz(mel, settings.melScale);
+      axisContext.fillText(`${Math.trunc(f)}`, 4, y - 4);
 
-    for (let i = 0; i < spectrogram.length; i++) {
-      const x = i * rectWidth;
-      for (let j = 0; j < spectrogram[i].length; j++) {
-        // convert the frequency index to the logarithmic scale
-        const freq = j * df;
-        const logFreq = Math.log10(freq + Number.EPSILON);
-        const logPrevFreq = Math.log10((j - 1) * df + Number.EPSILON);
-        const y = height - (logFreq - logMin) / scale;
-        const rectHeight = (logFreq - logPrevFreq) / scale;
-
-        const value = spectrogram[i][j];
-        context.fillStyle = this._analyzeService.getSpectrogramColor(
-          value,
-          settings.spectrogramAmplitudeRange,
-        );
-        context.fillRect(x, y, rectWidth, rectHeight);
+      axisContext.fillStyle = "rgb(180,120,20)";
+      for (let j = 0; j < width; j++) {
+        axisContext.fillRect(j, y, 2, 2);
       }
     }
+
+    // draw channel label
+    this.drawChannelLabel(axisCanvas, ch, numOfCh);
   }
 
-  private drawMelAxis(
+  private drawConstantQAxis(
     axisCanvas: HTMLCanvasElement,
     settings: AnalyzeSettingsProps,
     ch: number,
@@ -208,20 +541,17 @@ export default class WaveFormComponent {
     // draw horizontal axis
     this.drawTimeAxis(axisCanvas, settings);
 
-    // draw vertical axis
+    // draw vertical axis, a line at each octave from the lowest bin
     const axisContext = axisCanvas.getContext("2d");
     const width = axisCanvas.width;
     const height = axisCanvas.height;
     axisContext.font = `20px Arial`;
 
-    const numAxes = Math.round(10 * settings.spectrogramVerticalScale);
-    for (let i = 0; i < numAxes; i++) {
+    const bins = getConstantQBins(settings.minFrequency, settings.maxFrequency);
+    for (let k = 0; k < bins.numBins; k += 12) {
       axisContext.fillStyle = "rgb(245,130,32)";
-      const y = Math.round((i * height) / numAxes);
-      const maxMel = AnalyzeService.hzToMel(settings.maxFrequency);
-      const minMel = AnalyzeService.hzToMel(settings.minFrequency);
-      const mel = ((numAxes - i) * (maxMel - minMel)) / numAxes + minMel;
-      const f = AnalyzeService.melToHz(mel);
+      const y = height - (k * height) / bins.numBins;
+      const f = getConstantQFrequency(bins, k);
       axisContext.fillText(`${Math.trunc(f)}`, 4, y - 4);
 
       axisContext.fillStyle = "rgb(180,120,20)";
@@ -234,33 +564,69 @@ export default class WaveFormComponent {
     this.drawChannelLabel(axisCanvas, ch, numOfCh);
   }
 
-  private drawMelSpectrogram(
-    canvas: HTMLCanvasElement,
-    sampleRate: number,
+  private drawMfccAxis(
+    axisCanvas: HTMLCanvasElement,
     settings: AnalyzeSettingsProps,
     ch: number,
+    numOfCh: number,
   ) {
-    const context = canvas.getContext("2d", { alpha: false });
-    const spectrogram = this._analyzeService.getMelSpectrogram(ch, settings);
-    const width = canvas.width;
-    const height = canvas.height;
+    // draw horizontal axis
+    this.drawTimeAxis(axisCanvas, settings);
 
-    const wholeSampleNum = (settings.maxTime - settings.minTime) * sampleRate;
-    const rectWidth = (width * settings.hopSize) / wholeSampleNum;
-    const rectHeight = height / spectrogram[0].length;
-
-    for (let i = 0; i < spectrogram.length; i++) {
-      const x = i * rectWidth;
-      for (let j = 0; j < spectrogram[i].length; j++) {
-        const y = height - (j + 1) * rectHeight;
-        const value = spectrogram[i][j];
-        context.fillStyle = this._analyzeService.getSpectrogramColor(
-          value,
-          settings.spectrogramAmplitudeRange,
-        );
-        context.fillRect(x, y, rectWidth, rectHeight);
+    // draw vertical axis, the index of the coefficients
+    const axisContext = axisCanvas.getContext("2d");
+    const width = axisCanvas.width;
+    const height = axisCanvas.height;
+    axisContext.font = `20px Arial`;
+
+    const numCoefficients = Math.min(settings.mfccNum, settings.melFilterNum);
+    const rowHeight = height / numCoefficients;
+    // label a row every 30 px at least
+    const step = Math.ceil(30 / rowHeight);
+    for (let i = 0; i < numCoefficients; i += step) {
+      axisContext.fillStyle = "rgb(245,130,32)";
+      const y = height - i * rowHeight;
+      axisContext.fillText(`${i}`, 4, y - 4);
+
+      axisContext.fillStyle = "rgb(180,120,20)";
+      for (let j = 0; j < width; j++) {
+        axisContext.fillRect(j, y, 2, 2);
       }
     }
+
+    // draw channel label
+    this.drawChannelLabel(axisCanvas, ch, numOfCh);
+  }
+
+  private drawChromaAxis(
+    axisCanvas: HTMLCanvasElement,
+    settings: AnalyzeSettingsProps,
+    ch: number,
+    numOfCh: number,
+  ) {
+    // draw horizontal axis
+    this.drawTimeAxis(axisCanvas, settings);
+
+    // draw vertical axis, the name of each pitch class
+    const axisContext = axisCanvas.getContext("2d");
+    const width = axisCanvas.width;
+    const height = axisCanvas.height;
+    axisContext.font = `20px Arial`;
+
+    const rowHeight = height / chromaNames.length;
+    chromaNames.forEach((name, i) => {
+      axisContext.fillStyle = "rgb(245,130,32)";
+      const y = height - i * rowHeight;
+      axisContext.fillText(name, 4, y - 4);
+
+      axisContext.fillStyle = "rgb(180,120,20)";
+      for (let j = 0; j < width; j++) {
+        axisContext.fillRect(j, y, 2, 2);
+      }
+    });
+
+    // draw channel label
+    this.drawChannelLabel(axisCanvas, ch, numOfCh);
   }
 
   private drawTimeAxis(
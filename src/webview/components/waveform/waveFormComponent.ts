@@ -2,6 +2,8 @@ import "../../styles/figure.css";
 import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
 import { AnalyzeSettingsProps } from "../../services/analyzeSettingsService";
+import PeakPyramid from "../../peakPyramid";
+import { isClipped } from "../../audioStats";
 
 export default class WaveFormComponent {
   public static readonly MIN_DATA_POINTS_PER_PIXEL = 5;
@@ -12,7 +14,7 @@ export default class WaveFormComponent {
     height: number,
     settings: AnalyzeSettingsProps,
     sampleRate: number,
-    channelData: Float32Array,
+    peakPyramid: PeakPyramid,
     ch: number,
     numOfCh: number,
   ) {
@@ -85,44 +87,65 @@ export default class WaveFormComponent {
       }
     }
 
+    // convert data. this is not a normalization.
+    // setting.maxAmplitude and setting.minAmplitude is not a min and max of data, but a figure's Y axis range.
+    // data is converted to satisfy setting.maxAmplitude=1 and setting.minAmplitude=0
+    // samples out of range is not displayed.
+    const toY = (v: number) =>
+      height *
+      (1 -
+        (v - settings.minAmplitude) /
+          (settings.maxAmplitude - settings.minAmplitude));
+
     const startIndex = Math.floor(settings.minTime * sampleRate);
     const endIndex = Math.floor(settings.maxTime * sampleRate);
-    // limit data size
-    // thus, drawing waveform of long duration input can be done in about the same amount of time as short input
-    const step = Math.ceil((endIndex - startIndex) / 200000);
-    const data = channelData
-      .slice(startIndex, endIndex)
-      .filter((_, i) => i % step === 0);
-    // draw waveform
-    for (let i = 0; i < data.length; i++) {
-      // convert data. this is not a normalization.
-      // setting.maxAmplitude and setting.minAmplitude is not a min and max of data, but a figure's Y axis range.
-      // data is converted to satisfy setting.maxAmplitude=1 and setting.minAmplitude=0
-      // samples out of range is not displayed.
-      const d =
-        (data[i] - settings.minAmplitude) /
-        (settings.maxAmplitude - settings.minAmplitude);
-
-      const x = (i / data.length) * width;
-      const y = height * (1 - d);
-
-      if (
-        data.length >
-        AnalyzeSettingsService.WAVEFORM_CANVAS_WIDTH *
-          WaveFormComponent.MIN_DATA_POINTS_PER_PIXEL
-      ) {
-        context.fillRect(x, y, 1, 1);
-      } else {
+    if (
+      endIndex - startIndex >
+      AnalyzeSettingsService.WAVEFORM_CANVAS_WIDTH *
+        WaveFormComponent.MIN_DATA_POINTS_PER_PIXEL
+    ) {
+      // draw min and max of the samples of each pixel column, and rms inside of them
+      // thus, drawing waveform of long duration input can be done in about the same amount of time as short input
+      const peaks = peakPyramid.getPeaks(startIndex, endIndex, width);
+      this.drawClipping(
+        context,
+        height,
+        (x) => isClipped(peaks.max[x]) || isClipped(peaks.min[x]),
+      );
+      context.fillStyle = "rgb(160,60,200)";
+      for (let x = 0; x < width; x++) {
+        const top = toY(peaks.max[x]);
+        context.fillRect(x, top, 1, Math.max(toY(peaks.min[x]) - top, 1));
+      }
+      context.fillStyle = "rgb(200,140,230)";
+      for (let x = 0; x < width; x++) {
+        const top = toY(Math.min(peaks.rms[x], peaks.max[x]));
+        const bottom = toY(Math.max(-peaks.rms[x], peaks.min[x]));
+        if (bottom > top) {
+          context.fillRect(x, top, 1, bottom - top);
+        }
+      }
+    } else {
+      // draw each sample
+      const data = peakPyramid.getSamples(startIndex, endIndex);
+      const clipped = new Uint8Array(width);
+      data.forEach((v, i) => {
+        if (isClipped(v)) {
+          clipped[Math.floor((i / data.length) * width)] = 1;
+        }
+      });
+      this.drawClipping(context, height, (x) => clipped[x] === 1);
+      context.beginPath();
+      for (let i = 0; i < data.length; i++) {
+        const x = (i / data.length) * width;
+        const y = toY(data[i]);
         if (i === 0) {
-          context.beginPath();
           context.moveTo(x, y);
-        } else if (i === data.length - 1) {
-          context.lineTo(x, y);
-          context.stroke();
         } else {
           context.lineTo(x, y);
         }
       }
+      context.stroke();
     }
 
     // draw channel label
@@ -139,4 +162,19 @@ export default class WaveFormComponent {
       axisContext.fillText(channelText, 33, 10);
     }
   }
+
+  // red columns behind the waveform where samples are clipped
+  private drawClipping(
+    context: CanvasRenderingContext2D,
+    height: number,
+    isClippedColumn: (x: number) => boolean,
+  ) {
+    const width = context.canvas.width;
+    context.fillStyle = "rgb(120,20,30)";
+    for (let x = 0; x < width; x++) {
+      if (isClippedColumn(x)) {
+        context.fillRect(x, 0, 1, height);
+      }
+    }
+  }
 }
@@ -12,10 +12,15 @@ import {
   postMessageFromExt,
   createAudioContext,
   wait,
+  waitElement,
   webviewMessageTarget,
 } from "../../../__mocks__/helper";
 import { EventType } from "../../events";
 import PlayerSettingsService from "../../services/playerSettingsService";
+import { Segment } from "../../../segment";
+
+// the WASM encoder is not used by these tests
+const createEncoder = async () => ({ encode: () => new Uint8Array(0) });
 
 describe("webview", () => {
   let webview: Webview;
@@ -38,10 +43,12 @@ describe("webview", () => {
           format: "s16",
           encoding: "pcm_s16le",
           duration: 1,
-          samples: [new Float32Array(44100)],
-          length: 44100,
+          decodedLength: 44100,
+          isDone: true,
           readAudioInfo: () => {},
-          decode: () => {},
+          decodeChunk: (minLength: number) => [
+            new Float32Array(Math.min(minLength, 44100)),
+          ],
           dispose: () => {},
         } as Decoder);
       });
@@ -52,6 +59,7 @@ describe("webview", () => {
         postMessageFromWebview,
         createAudioContext,
         createDecoder,
+        createEncoder,
       );
     });
     expect(msg.type).toBe(WebviewMessageType.CONFIG);
@@ -63,7 +71,7 @@ describe("webview", () => {
         const receivedMessages: (ExtMessage | WebviewMessage)[] = [];
         const listener = (e: MessageEvent<ExtMessage | WebviewMessage>) => {
           receivedMessages.push(e.data);
-          if (receivedMessages.length === 2) {
+          if (receivedMessages.length === 4) {
             webviewMessageTarget.removeEventListener(
               EventType.VSCODE_MESSAGE,
               listener,
@@ -106,12 +114,19 @@ describe("webview", () => {
               frequencyScale: undefined,
               melFilterNum: undefined,
             },
+            exportDefault: {},
           },
         });
       },
     );
 
     expect(messages).toContainEqual({ type: WebviewMessageType.GET_LABEL });
+    expect(messages).toContainEqual({
+      type: WebviewMessageType.GET_SEGMENTS,
+    });
+    expect(messages).toContainEqual({
+      type: WebviewMessageType.GET_LABELING_SESSION,
+    });
     expect(messages).toContainEqual({
       type: WebviewMessageType.DATA,
       data: { start: 0, end: 500000 },
@@ -158,6 +173,13 @@ describe("webview", () => {
     expect(document.getElementById("analyzer")?.innerHTML).not.toBe("");
   });
 
+  test("show audio stats after they are measured", async () => {
+    await wait(100);
+    expect(
+      document.querySelector(".js-infoTableData-integrated_loudness"),
+    ).not.toBeNull();
+  });
+
   test("reload webview", async () => {
     const msg = await waitVSCodeMessageForAction(() => {
       postMessageFromExt({ type: ExtMessageType.RELOAD });
@@ -202,10 +224,12 @@ describe("webview error handling", () => {
           format: "s16",
           encoding: "pcm_s16le",
           duration: 1,
-          samples: [new Float32Array(44100)],
-          length: 44100,
+          decodedLength: 44100,
+          isDone: true,
           readAudioInfo: readAudioInfo,
-          decode: () => {},
+          decodeChunk: (minLength: number) => [
+            new Float32Array(Math.min(minLength, 44100)),
+          ],
           dispose: () => {},
         } as Decoder);
       });
@@ -217,6 +241,7 @@ describe("webview error handling", () => {
         postMessageFromWebview,
         createAudioContext,
         createDecoder,
+        createEncoder,
       );
     });
     // get config
@@ -251,6 +276,7 @@ describe("webview error handling", () => {
             frequencyScale: undefined,
             melFilterNum: undefined,
           },
+          exportDefault: {},
         },
       });
     });
@@ -284,4 +310,654 @@ describe("webview error handling", () => {
       data: { message: "error in webview" },
     });
   });
-});
\ No newline at end of file
+});
+
+describe("webview streaming decode", () => {
+  let webview: Webview;
+
+  beforeAll(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+  });
+
+  afterAll(() => {
+    webview.dispose();
+  });
+
+  test("show the beginning first and rebuild after decoding the rest", async () => {
+    // three chunks of one second
+    let decodedLength = 0;
+    const decoder = {
+      numChannels: 1,
+      sampleRate: 8000,
+      fileSize: 100,
+      format: "s16",
+      encoding: "pcm_s16le",
+      duration: 3,
+      get decodedLength() {
+        return decodedLength;
+      },
+      get isDone() {
+        return decodedLength >= 24000;
+      },
+      readAudioInfo: () => {},
+      decodeChunk: (minLength: number) => {
+        expect(minLength).toBeGreaterThanOrEqual(8000);
+        decodedLength += 8000;
+        return [new Float32Array(8000)];
+      },
+      dispose: jest.fn(),
+    };
+    const createDecoder = async () => decoder as unknown as Decoder;
+
+    await waitVSCodeMessageForAction(() => {
+      webview = new Webview(
+        postMessageFromWebview,
+        createAudioContext,
+        createDecoder,
+        createEncoder,
+      );
+    });
+    await waitVSCodeMessageForAction(() => {
+      postMessageFromExt({
+        type: ExtMessageType.CONFIG,
+        data: {
+          autoAnalyze: false,
+          playerDefault: {
+            volumeUnitDb: undefined,
+            initialVolumeDb: 0.0,
+            initialVolume: 1.0,
+            enableSpacekeyPlay: true,
+            enableSeekToPlay: true,
+            enableHpf: false,
+            hpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_HPF_DEFAULT,
+            enableLpf: false,
+            lpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_LPF_DEFAULT,
+            matchFilterFrequencyToSpectrogram: false,
+          },
+          analyzeDefault: {},
+          exportDefault: {},
+        },
+      });
+    });
+    postMessageFromExt({
+      type: ExtMessageType.DATA,
+      data: {
+        start: 0,
+        end: 100,
+        wholeLength: 100,
+        samples: new Uint8Array(100),
+      },
+    });
+    // audio editing is enabled after the whole audio is decoded
+    await waitElement("#audioEdit .js-audioEditUndo");
+
+    expect(decoder.decodedLength).toBe(24000);
+    expect(decoder.dispose).toHaveBeenCalled();
+    const decodeProgress = document.getElementById("decodeProgress");
+    expect(decodeProgress.style.display).toBe("none");
+    expect(document.getElementById("infoTable")?.textContent).toContain("3");
+  });
+});
+
+describe("webview audio stats while decoding", () => {
+  let webview: Webview;
+
+  beforeAll(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+  });
+
+  afterAll(() => {
+    webview.dispose();
+  });
+
+  test("audio stats are measured after the whole audio is decoded", async () => {
+    // five chunks of one second, each chunk after the first has a clipped sample
+    const shownStats: string[] = [];
+    let decodedLength = 0;
+    const decoder = {
+      numChannels: 1,
+      sampleRate: 8000,
+      fileSize: 100,
+      format: "s16",
+      encoding: "pcm_s16le",
+      duration: 5,
+      get decodedLength() {
+        return decodedLength;
+      },
+      get isDone() {
+        return decodedLength >= 40000;
+      },
+      readAudioInfo: () => {},
+      decodeChunk: () => {
+        shownStats.push(
+          document.querySelector(".js-infoTableData-clipped_samples")
+            ?.textContent,
+        );
+        const chunk = new Float32Array(8000);
+        if (decodedLength > 0) {
+          chunk[100] = 1;
+        }
+        decodedLength += 8000;
+        return [chunk];
+      },
+      dispose: () => {},
+    };
+    const createDecoder = async () => decoder as unknown as Decoder;
+
+    await waitVSCodeMessageForAction(() => {
+      webview = new Webview(
+        postMessageFromWebview,
+        createAudioContext,
+        createDecoder,
+        createEncoder,
+      );
+    });
+    postMessageFromExt({
+      type: ExtMessageType.CONFIG,
+      data: {
+        autoAnalyze: false,
+        playerDefault: {
+          volumeUnitDb: undefined,
+          initialVolumeDb: 0.0,
+          initialVolume: 1.0,
+          enableSpacekeyPlay: true,
+          enableSeekToPlay: true,
+          enableHpf: false,
+          hpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_HPF_DEFAULT,
+          enableLpf: false,
+          lpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_LPF_DEFAULT,
+          matchFilterFrequencyToSpectrogram: false,
+        },
+        analyzeDefault: {},
+        exportDefault: {},
+      },
+    });
+    postMessageFromExt({
+      type: ExtMessageType.DATA,
+      data: {
+        start: 0,
+        end: 100,
+        wholeLength: 100,
+        samples: new Uint8Array(100),
+      },
+    });
+    const clippedSamples = await waitElement(
+      ".js-infoTableData-clipped_samples",
+    );
+
+    expect(decoder.decodedLength).toBe(40000);
+    expect(shownStats).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(clippedSamples.textContent).toBe("4");
+  });
+});
+
+describe("webview segments while decoding", () => {
+  let webview: Webview;
+
+  beforeAll(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+  });
+
+  afterAll(() => {
+    webview.dispose();
+  });
+
+  test("segments after the decoded part survive an edit", async () => {
+    // the first chunk stands for the initially decoded seconds of a long file
+    const editedSegments: unknown[] = [];
+    const onMessage = (e: MessageEvent<WebviewMessage>) => {
+      if (WebviewMessageType.isEditSegments(e.data)) {
+        editedSegments.push(e.data.data);
+      }
+    };
+    webviewMessageTarget.addEventListener(EventType.VSCODE_MESSAGE, onMessage);
+
+    let decodedLength = 0;
+    const decoder = {
+      numChannels: 1,
+      sampleRate: 8000,
+      fileSize: 100,
+      format: "s16",
+      encoding: "pcm_s16le",
+      duration: 3,
+      get decodedLength() {
+        return decodedLength;
+      },
+      get isDone() {
+        return decodedLength >= 24000;
+      },
+      readAudioInfo: () => {},
+      decodeChunk: () => {
+        if (decodedLength === 8000) {
+          // relabel the first segment while only 1 second is decoded
+          const labelInput = document.querySelector<HTMLInputElement>(
+            ".js-segmentLabelInput",
+          );
+          labelInput.value = "edited";
+          labelInput.dispatchEvent(new Event(EventType.CHANGE));
+        }
+        decodedLength += 8000;
+        return [new Float32Array(8000)];
+      },
+      dispose: () => {},
+    };
+    const createDecoder = async () => decoder as unknown as Decoder;
+
+    await waitVSCodeMessageForAction(() => {
+      webview = new Webview(
+        postMessageFromWebview,
+        createAudioContext,
+        createDecoder,
+        createEncoder,
+      );
+    });
+    postMessageFromExt({
+      type: ExtMessageType.CONFIG,
+      data: {
+        autoAnalyze: false,
+        playerDefault: {
+          volumeUnitDb: undefined,
+          initialVolumeDb: 0.0,
+          initialVolume: 1.0,
+          enableSpacekeyPlay: true,
+          enableSeekToPlay: true,
+          enableHpf: false,
+          hpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_HPF_DEFAULT,
+          enableLpf: false,
+          lpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_LPF_DEFAULT,
+          matchFilterFrequencyToSpectrogram: false,
+        },
+        analyzeDefault: {},
+        exportDefault: {},
+      },
+    });
+    postMessageFromExt({
+      type: ExtMessageType.SEGMENTS,
+      data: [
+        { start: 0.2, end: 0.5, label: "first" },
+        { start: 2, end: 2.5, label: "later" },
+      ],
+    });
+    postMessageFromExt({
+      type: ExtMessageType.DATA,
+      data: {
+        start: 0,
+        end: 100,
+        wholeLength: 100,
+        samples: new Uint8Array(100),
+      },
+    });
+    // audio editing is enabled after the whole audio is decoded
+    await waitElement("#audioEdit .js-audioEditUndo");
+    webviewMessageTarget.removeEventListener(
+      EventType.VSCODE_MESSAGE,
+      onMessage,
+    );
+
+    expect(decoder.decodedLength).toBe(24000);
+    expect(editedSegments).toEqual([
+      [
+        { start: 0.2, end: 0.5, label: "edited" },
+        { start: 2, end: 2.5, label: "later" },
+      ],
+    ]);
+    // the segment is shown after the rest is decoded
+    expect(document.getElementById("segment")?.textContent).toContain(
+      "2.000 - 2.500 s",
+    );
+  });
+});
+
+describe("webview rebuild after decoding", () => {
+  let webview: Webview;
+
+  beforeAll(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+  });
+
+  afterAll(() => {
+    webview.dispose();
+  });
+
+  test("playback and the shown range are kept when the whole audio is decoded", async () => {
+    let decodedLength = 0;
+    const decoder = {
+      numChannels: 1,
+      sampleRate: 8000,
+      fileSize: 100,
+      format: "s16",
+      encoding: "pcm_s16le",
+      duration: 3,
+      get decodedLength() {
+        return decodedLength;
+      },
+      get isDone() {
+        return decodedLength >= 24000;
+      },
+      readAudioInfo: () => {},
+      decodeChunk: () => {
+        if (decodedLength === 8000) {
+          // play from 0.5 s and show 0.2 ~ 0.6 s while only 1 second is decoded
+          const seekbar =
+            document.querySelector<HTMLInputElement>(".userInputSeekBar");
+          seekbar.value = "50";
+          seekbar.dispatchEvent(new Event(EventType.CHANGE));
+          for (const [selector, value] of [
+            [".js-analyzeSetting-minTime", "0.2"],
+            [".js-analyzeSetting-maxTime", "0.6"],
+          ]) {
+            const input = document.querySelector<HTMLInputElement>(selector);
+            input.value = value;
+            input.dispatchEvent(new Event(EventType.CHANGE));
+          }
+          document.querySelector<HTMLButtonElement>(".analyzeButton").click();
+        }
+        decodedLength += 8000;
+        return [new Float32Array(8000)];
+      },
+      dispose: () => {},
+    };
+    const createDecoder = async () => decoder as unknown as Decoder;
+
+    await waitVSCodeMessageForAction(() => {
+      webview = new Webview(
+        postMessageFromWebview,
+        createAudioContext,
+        createDecoder,
+        createEncoder,
+      );
+    });
+    postMessageFromExt({
+      type: ExtMessageType.CONFIG,
+      data: {
+        autoAnalyze: false,
+        playerDefault: {
+          volumeUnitDb: undefined,
+          initialVolumeDb: 0.0,
+          initialVolume: 1.0,
+          enableSpacekeyPlay: true,
+          enableSeekToPlay: true,
+          enableHpf: false,
+          hpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_HPF_DEFAULT,
+          enableLpf: false,
+          lpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_LPF_DEFAULT,
+          matchFilterFrequencyToSpectrogram: false,
+        },
+        // the waveform is enough, the spectrogram would slow down decoding
+        analyzeDefault: { spectrogramVisible: false },
+        exportDefault: {},
+      },
+    });
+    postMessageFromExt({
+      type: ExtMessageType.DATA,
+      data: {
+        start: 0,
+        end: 100,
+        wholeLength: 100,
+        samples: new Uint8Array(100),
+      },
+    });
+    // audio editing is enabled after the whole audio is decoded
+    await waitElement("#audioEdit .js-audioEditUndo");
+
+    expect(decoder.decodedLength).toBe(24000);
+    expect(document.querySelector(".playButton").textContent).toBe("pause");
+    // resumed from 0.5 s, the mock audio context has played a little since
+    const position = document
+      .querySelector(".seekPosText")
+      .textContent.match(/^position ([\d.]+) s$/);
+    expect(Number(position[1])).toBeGreaterThanOrEqual(0.5);
+    expect(Number(position[1])).toBeLessThan(1.5);
+    const minTime = document.querySelector<HTMLInputElement>(
+      ".js-analyzeSetting-minTime",
+    );
+    const maxTime = document.querySelector<HTMLInputElement>(
+      ".js-analyzeSetting-maxTime",
+    );
+    expect(Number(minTime.value)).toBeCloseTo(0.2);
+    expect(Number(maxTime.value)).toBeCloseTo(0.6);
+    expect(
+      document.querySelector(".analyzeResultBox .canvasBox"),
+    ).not.toBeNull();
+    document.querySelector<HTMLButtonElement>(".playButton").click();
+  });
+});
+
+describe("webview segments with audio edits", () => {
+  let webview: Webview;
+
+  beforeAll(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+  });
+
+  afterAll(() => {
+    webview.dispose();
+  });
+
+  test("segments follow a deleted range, and come back on undo", async () => {
+    const editedSegments: Segment[][] = [];
+    const onMessage = (e: MessageEvent<WebviewMessage>) => {
+      if (WebviewMessageType.isEditSegments(e.data)) {
+        // rounded, the times are shifted by floating point seconds
+        editedSegments.push(
+          e.data.data.map((s) => ({
+            ...s,
+            start: Number(s.start.toFixed(3)),
+            end: Number(s.end.toFixed(3)),
+          })),
+        );
+      }
+    };
+    webviewMessageTarget.addEventListener(EventType.VSCODE_MESSAGE, onMessage);
+
+    const decoder = {
+      numChannels: 1,
+      sampleRate: 8000,
+      fileSize: 100,
+      format: "s16",
+      encoding: "pcm_s16le",
+      duration: 3,
+      decodedLength: 24000,
+      isDone: true,
+      readAudioInfo: () => {},
+      decodeChunk: () => [new Float32Array(24000)],
+      dispose: () => {},
+    };
+    const createDecoder = async () => decoder as unknown as Decoder;
+
+    await waitVSCodeMessageForAction(() => {
+      webview = new Webview(
+        postMessageFromWebview,
+        createAudioContext,
+        createDecoder,
+        createEncoder,
+      );
+    });
+    postMessageFromExt({
+      type: ExtMessageType.CONFIG,
+      data: {
+        autoAnalyze: false,
+        playerDefault: {
+          volumeUnitDb: undefined,
+          initialVolumeDb: 0.0,
+          initialVolume: 1.0,
+          enableSpacekeyPlay: true,
+          enableSeekToPlay: true,
+          enableHpf: false,
+          hpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_HPF_DEFAULT,
+          enableLpf: false,
+          lpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_LPF_DEFAULT,
+          matchFilterFrequencyToSpectrogram: false,
+        },
+        analyzeDefault: {},
+        exportDefault: {},
+      },
+    });
+    const segments = [
+      { start: 0.2, end: 0.5, label: "before" },
+      { start: 0.8, end: 1.2, label: "overlap" },
+      { start: 1.2, end: 1.5, label: "inside" },
+      { start: 2.2, end: 2.5, label: "after" },
+    ];
+    postMessageFromExt({ type: ExtMessageType.SEGMENTS, data: segments });
+    postMessageFromExt({
+      type: ExtMessageType.DATA,
+      data: {
+        start: 0,
+        end: 100,
+        wholeLength: 100,
+        samples: new Uint8Array(100),
+      },
+    });
+    await waitElement("#audioEdit .js-audioEditUndo");
+
+    // delete 1 ~ 2 s
+    for (const [selector, value] of [
+      [".js-analyzeSetting-minTime", "1"],
+      [".js-analyzeSetting-maxTime", "2"],
+    ]) {
+      const input = document.querySelector<HTMLInputElement>(selector);
+      input.value = value;
+      input.dispatchEvent(new Event(EventType.CHANGE));
+    }
+    document.querySelector<HTMLButtonElement>(".js-audioEdit-delete").click();
+    document.querySelector<HTMLButtonElement>(".js-audioEditUndo").click();
+    document.querySelector<HTMLButtonElement>(".js-audioEditRedo").click();
+    webviewMessageTarget.removeEventListener(
+      EventType.VSCODE_MESSAGE,
+      onMessage,
+    );
+
+    const deleted = [
+      { start: 0.2, end: 0.5, label: "before" },
+      { start: 0.8, end: 1, label: "overlap" },
+      { start: 1.2, end: 1.5, label: "after" },
+    ];
+    expect(editedSegments).toEqual([deleted, segments, deleted]);
+    expect(document.getElementById("segment")?.textContent).toContain(
+      "1.200 - 1.500 s",
+    );
+  });
+});
+
+describe("webview view across audio edits", () => {
+  let webview: Webview;
+
+  beforeAll(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+  });
+
+  afterAll(() => {
+    webview.dispose();
+  });
+
+  test("the shown range moves with the audio, and the settings are kept", async () => {
+    const decoder = {
+      numChannels: 1,
+      sampleRate: 8000,
+      fileSize: 100,
+      format: "s16",
+      encoding: "pcm_s16le",
+      duration: 3,
+      decodedLength: 24000,
+      isDone: true,
+      readAudioInfo: () => {},
+      decodeChunk: () => [new Float32Array(24000)],
+      dispose: () => {},
+    };
+    const createDecoder = async () => decoder as unknown as Decoder;
+
+    await waitVSCodeMessageForAction(() => {
+      webview = new Webview(
+        postMessageFromWebview,
+        createAudioContext,
+        createDecoder,
+        createEncoder,
+      );
+    });
+    postMessageFromExt({
+      type: ExtMessageType.CONFIG,
+      data: {
+        autoAnalyze: false,
+        playerDefault: {
+          volumeUnitDb: undefined,
+          initialVolumeDb: 0.0,
+          initialVolume: 1.0,
+          enableSpacekeyPlay: true,
+          enableSeekToPlay: true,
+          enableHpf: false,
+          hpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_HPF_DEFAULT,
+          enableLpf: false,
+          lpfFrequency: PlayerSettingsService.FILTER_FREQUENCY_LPF_DEFAULT,
+          matchFilterFrequencyToSpectrogram: false,
+        },
+        analyzeDefault: {},
+        exportDefault: {},
+      },
+    });
+    postMessageFromExt({
+      type: ExtMessageType.DATA,
+      data: {
+        start: 0,
+        end: 100,
+        wholeLength: 100,
+        samples: new Uint8Array(100),
+      },
+    });
+    await waitElement("#audioEdit .js-audioEditUndo");
+
+    // the range only moves to later times, the max is set first to keep it valid
+    const setTimeRange = (min: string, max: string) => {
+      for (const [selector, value] of [
+        [".js-analyzeSetting-maxTime", max],
+        [".js-analyzeSetting-minTime", min],
+      ]) {
+        const input = document.querySelector<HTMLInputElement>(selector);
+        input.value = value;
+        input.dispatchEvent(new Event(EventType.CHANGE));
+      }
+    };
+    const getTimeRange = () =>
+      [".js-analyzeSetting-minTime", ".js-analyzeSetting-maxTime"].map(
+        (selector) =>
+          Number(document.querySelector<HTMLInputElement>(selector).value),
+      );
+    const check = (selector: string, checked: boolean) => {
+      const input = document.querySelector<HTMLInputElement>(selector);
+      input.checked = checked;
+      input.dispatchEvent(new Event(EventType.CHANGE));
+    };
+    check(".js-playerSetting-enableHpf", true);
+    check(".js-analyzeSetting-waveformVisible", false);
+
+    // delete 0.5 ~ 1 s, the range after it is shown with the same width
+    setTimeRange("0.5", "1");
+    document.querySelector<HTMLButtonElement>(".js-audioEdit-delete").click();
+    let [minTime, maxTime] = getTimeRange();
+    expect(minTime).toBeCloseTo(0.5);
+    expect(maxTime).toBeCloseTo(1);
+
+    // the audio shown at 1.5 ~ 2 s is at 2 ~ 2.5 s again after undo
+    setTimeRange("1.5", "2");
+    document.querySelector<HTMLButtonElement>(".js-audioEditUndo").click();
+    [minTime, maxTime] = getTimeRange();
+    expect(minTime).toBeCloseTo(2);
+    expect(maxTime).toBeCloseTo(2.5);
+
+    expect(
+      document.querySelector<HTMLInputElement>(".js-playerSetting-enableHpf")
+        .checked,
+    ).toBe(true);
+    expect(
+      document.querySelector<HTMLInputElement>(
+        ".js-analyzeSetting-waveformVisible",
+      ).checked,
+    ).toBe(false);
+  });
+});
@@ -7,28 +7,84 @@ import {
   WebviewMessageType,
 } from "../../../message";
 import Component from "../../component";
+import { Disposable, disposeAll } from "../../../dispose";
 import { Config } from "../../../config";
+import { isSameSegments, Segment } from "../../../segment";
+import { LabelingSessionProgress } from "../../../labelingSession";
 import Decoder from "../../decoder";
-import PlayerService from "../../services/playerService";
+import { CreateEncoder, getEncoderOptions } from "../../encoder";
+import { concatChunks, getDecodeProgress } from "../../decodeChunks";
+import { mapEditTime, moveSegments, unmapEditTime } from "../../audioEdit";
+import SpectrogramWorkerPool, {
+  CreateWorker,
+} from "../../spectrogramWorkerPool";
+import PlayerService, { LoopRange } from "../../services/playerService";
 import PlayerSettingsService from "../../services/playerSettingsService";
 import AnalyzeService from "../../services/analyzeService";
 import AnalyzeSettingsService from "../../services/analyzeSettingsService";
+import SegmentService from "../../services/segmentService";
+import AudioEditService, {
+  AudioEditChange,
+} from "../../services/audioEditService";
 import InfoTableComponent from "../infoTable/infoTableComponent";
+import DecodeProgressComponent from "../decodeProgress/decodeProgressComponent";
 import PlayerComponent from "../player/playerComponent";
 import SettingTab from "../settingTab/settingTabComponent";
 import AnalyzerComponent from "../analyzer/analyzerComponent";
 import LabelComponent from "../label/labelComponent";
+import SegmentComponent from "../segment/segmentComponent";
+import LabelingSessionComponent from "../labelingSession/labelingSessionComponent";
+import AudioEditComponent from "../audioEdit/audioEditComponent";
 
 type CreateAudioContext = (sampleRate: number) => AudioContext;
 type CreateDecoder = (fileData: Uint8Array) => Promise<Decoder>;
 
+// seconds decoded before showing the UI, the rest is decoded in the background
+const initialDecodeSec = 60;
+const decodeChunkSec = 30;
+
+// playback and view of the audio UI, kept when it is rebuilt after an edit or with the whole decoded audio
+interface AudioView {
+  position: number;
+  isPlaying: boolean;
+  loop: LoopRange | undefined;
+  minTime: number;
+  maxTime: number;
+  isAnalyzed: boolean;
+}
+
 export default class WebView extends Component {
   private _fileData: Uint8Array;
   private _labelData: string;
+  private _segmentsData: Segment[];
+  // segments before each audio edit, restored when the edit is undone
+  private _segmentsBeforeEdits: Segment[][];
+  private _segmentService: SegmentService;
+  private _labelComponent: LabelComponent;
+  private _labelingSessionData: LabelingSessionProgress | undefined;
+  private _labelingSessionComponent: LabelingSessionComponent;
+  private _audioContext: AudioContext;
+  private _audioEditService: AudioEditService;
+  // the settings and the segments are kept when the audio UI is rebuilt
+  private _playerSettingsService: PlayerSettingsService;
+  private _analyzeSettingsService: AnalyzeSettingsService;
+  private _infoTableComponent: InfoTableComponent;
+  private _playerService: PlayerService;
+  private _playerComponent: PlayerComponent;
+  private _analyzerComponent: AnalyzerComponent;
+  // the audio stats are measured once the whole audio is decoded
+  private _isDecoded: boolean;
+  private _decodeProgressComponent: DecodeProgressComponent;
+  // undefined if workers are not available, spectrograms are computed on the main thread
+  private _spectrogramWorkerPool: SpectrogramWorkerPool | undefined;
+  // player, analyzer and components which depend on the samples, rebuilt after each audio edit
+  private _audioDisposables: Disposable[];
 
   private _postMessage: PostMessage;
   private _createAudioContext: CreateAudioContext;
   private _createDecoder: CreateDecoder;
+  private _createEncoder: CreateEncoder;
+  private _createSpectrogramWorker: CreateWorker | undefined;
 
   private _config: Config;
 
@@ -36,11 +92,15 @@ export default class WebView extends Component {
     postMessage: PostMessage,
     createAudioContext: CreateAudioContext,
     createDecoder: CreateDecoder,
+    createEncoder: CreateEncoder,
+    createSpectrogramWorker?: CreateWorker,
   ) {
     super();
     this._postMessage = postMessage;
     this._createAudioContext = createAudioContext;
     this._createDecoder = createDecoder;
+    this._createEncoder = createEncoder;
+    this._createSpectrogramWorker = createSpectrogramWorker;
     this.initWebview();
   }
 
@@ -48,6 +108,23 @@ export default class WebView extends Component {
     this._isDisposed = false;
     this._fileData = undefined;
     this._labelData = undefined;
+    this._segmentsData = [];
+    this._segmentsBeforeEdits = [];
+    this._segmentService = undefined;
+    this._labelComponent = undefined;
+    this._labelingSessionData = undefined;
+    this._labelingSessionComponent = undefined;
+    this._audioContext = undefined;
+    this._audioEditService = undefined;
+    this._playerSettingsService = undefined;
+    this._analyzeSettingsService = undefined;
+    this._infoTableComponent = undefined;
+    this._playerService = undefined;
+    this._playerComponent = undefined;
+    this._analyzerComponent = undefined;
+    this._isDecoded = false;
+    this._audioDisposables = [];
+    this._register({ dispose: () => disposeAll(this._audioDisposables) });
 
     this._addEventlistener(
       window,
@@ -58,11 +135,27 @@ export default class WebView extends Component {
     const root = document.getElementById("root");
     root.innerHTML = `
       <div id="infoTable"></div>
+      <div id="decodeProgress"></div>
       <div id="player"></div>
       <div id="label"></div>
+      <div id="labelingSession"></div>
+      <div id="segment"></div>
+      <div id="audioEdit"></div>
       <div id="settingTab"></div>
       <div id="analyzer"></div>
     `;
+    this._decodeProgressComponent = new DecodeProgressComponent(
+      "#decodeProgress",
+    );
+    this._disposables.push(this._decodeProgressComponent);
+
+    this._spectrogramWorkerPool = undefined;
+    if (this._createSpectrogramWorker) {
+      this._spectrogramWorkerPool = new SpectrogramWorkerPool(
+        this._createSpectrogramWorker,
+      );
+      this._disposables.push(this._spectrogramWorkerPool);
+    }
 
     this._postMessage({ type: WebviewMessageType.CONFIG });
   }
@@ -74,6 +167,8 @@ export default class WebView extends Component {
           this._config = msg.data;
           console.log(msg.data);
           this._postMessage({ type: WebviewMessageType.GET_LABEL });
+          this._postMessage({ type: WebviewMessageType.GET_SEGMENTS });
+          this._postMessage({ type: WebviewMessageType.GET_LABELING_SESSION });
           this._postMessage({
             type: WebviewMessageType.DATA,
             data: { start: 0, end: 500000 },
@@ -84,6 +179,35 @@ export default class WebView extends Component {
       case ExtMessageType.LABEL:
         if (ExtMessageType.isLABEL(msg)) {
           this._labelData = msg.data;
+          // label is sent again on undo, redo and revert
+          this._labelComponent?.setLabel(msg.data);
+        }
+        break;
+
+      case ExtMessageType.SEGMENTS:
+        if (ExtMessageType.isSEGMENTS(msg)) {
+          this._segmentsData = msg.data;
+          // segments may be imported, undone or reverted after the UI is activated
+          this._segmentService?.setSegments(msg.data);
+        }
+        break;
+
+      case ExtMessageType.LABELING_SESSION:
+        if (ExtMessageType.isLabelingSession(msg)) {
+          this._labelingSessionData = msg.data;
+          this._labelingSessionComponent?.setProgress(msg.data);
+        }
+        break;
+
+      case ExtMessageType.LABELING_SESSION_NAVIGATE:
+        if (ExtMessageType.isLabelingSessionNavigate(msg)) {
+          this._labelingSessionComponent?.navigate(msg.data);
+        }
+        break;
+
+      case ExtMessageType.PLAYER_COMMAND:
+        if (ExtMessageType.isPlayerCommand(msg)) {
+          this._playerComponent?.runCommand(msg.data);
         }
         break;
 
@@ -101,6 +225,10 @@ export default class WebView extends Component {
           );
           const samples = new Uint8Array(msg.data.samples);
           this._fileData.set(samples, msg.data.start);
+          this._decodeProgressComponent.show(
+            "loading",
+            Math.min(msg.data.end / msg.data.wholeLength, 1),
+          );
 
           // request next data
           if (msg.data.end < msg.data.wholeLength) {
@@ -133,6 +261,8 @@ export default class WebView extends Component {
 
   private async activateUI() {
     const decoder = await this._createDecoder(this._fileData);
+    // the decoder has its own copy of the encoded data
+    this._fileData = undefined;
 
     // show header info
     console.log("read header info");
@@ -145,32 +275,126 @@ export default class WebView extends Component {
       decoder.format,
       decoder.encoding,
     );
+    this._infoTableComponent = infoTableComponent;
 
-    // decode
+    // decode the beginning first, so that long recordings can be shown quickly
     console.log("decode");
-    decoder.decode();
+    const sampleRate = decoder.sampleRate;
+    const chunks = [decoder.decodeChunk(sampleRate * initialDecodeSec)];
+    this._isDecoded = decoder.isDone;
 
     console.log("show other ui");
+    // init audio context and the editable samples
+    this._audioContext = this._createAudioContext(sampleRate);
+    // a copy of the first chunk, whose channels are released when the chunks are joined
+    const audioEditService = new AudioEditService([...chunks[0]], sampleRate);
+    this._disposables.push(audioEditService);
+    this._audioEditService = audioEditService;
+    this._addEventlistener(
+      audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+      (e: CustomEvent<{ change: AudioEditChange }>) => {
+        const view = this.getAudioView();
+        this.moveSegmentsWithEdit(e.detail.change);
+        this.activateAudioUI();
+        this.restoreAudioView(this.moveAudioView(view, e.detail.change));
+      },
+    );
+    this.activateAudioUI();
+
+    // init label
+    const labelComponent = new LabelComponent("#label", this._postMessage);
+    labelComponent.setLabel(this._labelData);
+    this._disposables.push(labelComponent);
+    this._labelComponent = labelComponent;
+
+    // init labeling session navigation
+    const labelingSessionComponent = new LabelingSessionComponent(
+      "#labelingSession",
+      labelComponent,
+      this._postMessage,
+    );
+    labelingSessionComponent.setProgress(this._labelingSessionData);
+    this._disposables.push(labelingSessionComponent);
+    this._labelingSessionComponent = labelingSessionComponent;
+
+    // decode the rest in the background, the audio UI is rebuilt with the whole audio at the end
+    try {
+      while (!decoder.isDone) {
+        this._decodeProgressComponent.show(
+          "decoding",
+          getDecodeProgress(
+            decoder.decodedLength,
+            sampleRate,
+            decoder.duration,
+          ),
+        );
+        // let the UI respond between chunks
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        // the webview was reloaded while decoding
+        if (this._audioEditService !== audioEditService) {
+          return;
+        }
+        chunks.push(decoder.decodeChunk(sampleRate * decodeChunkSec));
+      }
+    } finally {
+      // dispose decoder
+      decoder.dispose();
+    }
+    this._decodeProgressComponent.hide();
+    this._isDecoded = true;
+    if (chunks.length > 1) {
+      audioEditService.reset(
+        concatChunks(chunks, decoder.numChannels, decoder.decodedLength),
+      );
+    }
+
+    // init audio editing after decoding, the selected range is the one shown in the analyzer
+    const audioEditComponent = new AudioEditComponent(
+      "#audioEdit",
+      audioEditService,
+      () => ({
+        start: this._analyzeSettingsService.minTime,
+        end: this._analyzeSettingsService.maxTime,
+      }),
+      getEncoderOptions(this._config.exportDefault),
+      this._createEncoder,
+      this._postMessage,
+    );
+    this._disposables.push(audioEditComponent);
+  }
+
+  // create the player, analyzer and segment list for the current samples
+  private activateAudioUI() {
+    disposeAll(this._audioDisposables);
+    const audioDisposables = this._audioDisposables;
+
     // show additional info
-    infoTableComponent.showAdditionalInfo(decoder.duration);
-    // init audio context and buffer
-    const audioContext = this._createAudioContext(decoder.sampleRate);
-    const audioBuffer = audioContext.createBuffer(
-      decoder.numChannels,
-      decoder.length,
-      decoder.sampleRate,
+    const audioEditService = this._audioEditService;
+    this._infoTableComponent.showAdditionalInfo(audioEditService.duration);
+    // init audio buffer
+    const audioBuffer = this._audioContext.createBuffer(
+      audioEditService.numberOfChannels,
+      audioEditService.length,
+      audioEditService.sampleRate,
     );
-    for (let ch = 0; ch < decoder.numChannels; ch++) {
-      const d = Float32Array.from(decoder.samples[ch]);
-      audioBuffer.copyToChannel(d, ch);
+    audioEditService.channels.forEach((channel, ch) => {
+      audioBuffer.copyToChannel(channel, ch);
+    });
+    // the settings and the segments are created once and kept across audio edits
+    if (!this._playerSettingsService) {
+      this.activateSettings(audioBuffer);
+    } else {
+      this._analyzeSettingsService.setAudioBuffer(audioBuffer);
+      this._segmentService.duration = audioBuffer.duration;
     }
+    const playerSettingsService = this._playerSettingsService;
+    const analyzeSettingsService = this._analyzeSettingsService;
+    const segmentService = this._segmentService;
+
     // init player
-    const playerSettingsService = PlayerSettingsService.fromDefaultSetting(
-      this._config.playerDefault,
-      audioBuffer,
-    );
     const playerService = new PlayerService(
-      audioContext,
+      this._audioContext,
       audioBuffer,
       playerSettingsService,
     );
@@ -179,27 +403,36 @@ export default class WebView extends Component {
       playerService,
       playerSettingsService,
     );
-    this._disposables.push(playerService, playerComponent);
+    audioDisposables.push(playerService, playerComponent);
+    this._playerService = playerService;
+    this._playerComponent = playerComponent;
 
     // init setting tab
-    const analyzeService = new AnalyzeService(audioBuffer);
-    const analyzeSettingsService = AnalyzeSettingsService.fromDefaultSetting(
-      this._config.analyzeDefault,
+    const analyzeService = new AnalyzeService(
       audioBuffer,
+      this._spectrogramWorkerPool,
     );
+    // measured in the background, the stats of partly decoded audio are never shown
+    if (this._isDecoded) {
+      const infoTableComponent = this._infoTableComponent;
+      analyzeService.getAudioStats().then((stats) => {
+        if (stats) {
+          infoTableComponent.showAudioStats(stats, audioBuffer.sampleRate);
+        }
+      });
+    }
     const settingTabComponent = new SettingTab(
       "#settingTab",
       playerSettingsService,
       analyzeService,
       analyzeSettingsService,
       audioBuffer,
+      segmentService,
+      getEncoderOptions(this._config.exportDefault),
+      this._createEncoder,
       this._postMessage,
     );
-    this._disposables.push(
-      analyzeService,
-      analyzeSettingsService,
-      settingTabComponent,
-    );
+    audioDisposables.push(analyzeService, settingTabComponent);
 
     // init analyzer
     const analyzerComponent = new AnalyzerComponent(
@@ -208,16 +441,148 @@ export default class WebView extends Component {
       analyzeService,
       analyzeSettingsService,
       playerService,
+      segmentService,
       this._config.autoAnalyze,
     );
-    this._disposables.push(analyzerComponent);
+    audioDisposables.push(analyzerComponent);
+    this._analyzerComponent = analyzerComponent;
 
-    // init label
-    const labelComponent = new LabelComponent("#label", this._postMessage);
-    labelComponent.setLabel(this._labelData);
-    this._disposables.push(labelComponent);
+    // init segment list
+    const segmentComponent = new SegmentComponent(
+      "#segment",
+      segmentService,
+      playerService,
+      this._postMessage,
+    );
+    audioDisposables.push(segmentComponent);
+  }
+
+  // create the settings and the segments of the first samples
+  private activateSettings(audioBuffer: AudioBuffer) {
+    this._playerSettingsService = PlayerSettingsService.fromDefaultSetting(
+      this._config.playerDefault,
+      audioBuffer,
+    );
+    this._analyzeSettingsService = AnalyzeSettingsService.fromDefaultSetting(
+      this._config.analyzeDefault,
+      audioBuffer,
+    );
+
+    // init segments
+    const segmentService = new SegmentService(
+      audioBuffer.duration,
+      this._segmentsData,
+    );
+    this._segmentService = segmentService;
+    // send changes made in the webview, but not the ones received from the extension
+    segmentService.addEventListener(EventType.SEG_UPDATE_SEGMENTS, () => {
+      if (isSameSegments(segmentService.segments, this._segmentsData)) {
+        return;
+      }
+      this._segmentsData = [...segmentService.segments];
+      this._postMessage({
+        type: WebviewMessageType.EDIT_SEGMENTS,
+        data: this._segmentsData,
+      });
+    });
+    this._disposables.push(
+      this._playerSettingsService,
+      this._analyzeSettingsService,
+      segmentService,
+    );
+  }
+
+  // segments follow the audio when it is deleted, cropped or shifted by inserted silence
+  private moveSegmentsWithEdit({ operation, isUndo }: AudioEditChange) {
+    if (!operation) {
+      // the history of the edits is cleared
+      this._segmentsBeforeEdits = [];
+      return;
+    }
+    const sampleRate = this._audioEditService.sampleRate;
+    let segments: Segment[];
+    if (isUndo) {
+      const before = this._segmentsBeforeEdits.pop();
+      const after = moveSegments(before, (sec) =>
+        mapEditTime(operation, sec, sampleRate),
+      );
+      // the segments dropped or trimmed by the edit come back, unless they have been edited since
+      segments = isSameSegments(after, this._segmentsData)
+        ? before
+        : moveSegments(this._segmentsData, (sec) =>
+            unmapEditTime(operation, sec, sampleRate),
+          );
+    } else {
+      this._segmentsBeforeEdits.push(this._segmentsData);
+      segments = moveSegments(this._segmentsData, (sec) =>
+        mapEditTime(operation, sec, sampleRate),
+      );
+    }
+    // the selected segment is kept unless the segments are moved
+    if (isSameSegments(segments, this._segmentsData)) {
+      return;
+    }
+    // the moved segments are sent by the listener of the segment service
+    this._segmentService.setSegments(segments);
+  }
+
+  private getAudioView(): AudioView {
+    const playerService = this._playerService;
+    const isPlaying = playerService.isPlaying;
+    // the position is updated by pausing, the player is disposed by the rebuild anyway
+    if (isPlaying) {
+      playerService.pause();
+    }
+    return {
+      position: playerService.currentSec,
+      isPlaying,
+      loop: playerService.loop,
+      minTime: this._analyzeSettingsService.minTime,
+      maxTime: this._analyzeSettingsService.maxTime,
+      isAnalyzed: this._analyzerComponent.isAnalyzed,
+    };
+  }
 
-    // dispose decoder
-    decoder.dispose();
+  // the view after an edit shows the same audio, shifted or cut like the segments
+  private moveAudioView(
+    view: AudioView,
+    { operation, isUndo }: AudioEditChange,
+  ): AudioView {
+    if (!operation) {
+      return view;
+    }
+    const sampleRate = this._audioEditService.sampleRate;
+    const move = (sec: number) =>
+      isUndo
+        ? unmapEditTime(operation, sec, sampleRate)
+        : mapEditTime(operation, sec, sampleRate);
+    const loop = view.loop && {
+      start: move(view.loop.start),
+      end: move(view.loop.end),
+    };
+    const minTime = move(view.minTime);
+    const maxTime = move(view.maxTime);
+    return {
+      ...view,
+      position: move(view.position),
+      // the loop is dropped if its audio is deleted
+      loop: loop && loop.end > loop.start ? loop : undefined,
+      minTime,
+      // the width is kept if the shown audio is deleted
+      maxTime:
+        maxTime > minTime ? maxTime : minTime + view.maxTime - view.minTime,
+    };
+  }
+
+  // the rebuilt player resumes from the same position, and the figures show the same range
+  private restoreAudioView(view: AudioView) {
+    if (view.loop) {
+      this._playerService.setLoop(view.loop.start, view.loop.end);
+    }
+    this._playerService.seekTo(view.position, view.isPlaying);
+    this._analyzeSettingsService.setTimeRange(view.minTime, view.maxTime);
+    if (view.isAnalyzed) {
+      this._analyzerComponent.analyze();
+    }
   }
 }
@@ -0,0 +1,46 @@
+import {
+  computeConstantQFrame,
+  constantQMinFrequency,
+  getConstantQBins,
+  getConstantQFrequency,
+  getConstantQMaxLength,
+} from "./constantQ";
+
+const options = { sampleRate: 8000, minFrequency: 0, maxFrequency: 4000 };
+
+describe("constantQ", () => {
+  test("bins are semitones from C1 within the frequency range", () => {
+    const bins = getConstantQBins(0, 4000);
+    expect(bins.minFrequency).toBe(constantQMinFrequency);
+    expect(bins.numBins).toBe(83);
+    expect(getConstantQFrequency(bins, 45)).toBeCloseTo(440, 1);
+
+    expect(getConstantQBins(110, 440).numBins).toBe(24);
+    expect(getConstantQBins(440, 110).numBins).toBe(0);
+  });
+
+  test("lowest bin has the longest kernel", () => {
+    const length = getConstantQMaxLength(options);
+    expect(length).toBe(
+      getConstantQMaxLength({ ...options, maxFrequency: 100 }),
+    );
+    expect(length).toBeGreaterThan(
+      getConstantQMaxLength({ ...options, minFrequency: 100 }) * 3,
+    );
+  });
+
+  test("sine of amplitude 1 has the power of 1/4 in its bin", () => {
+    const data = new Float32Array(8000);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.sin((2 * Math.PI * 440 * i) / options.sampleRate);
+    }
+    const numBins = getConstantQBins(0, 4000).numBins;
+    const output = new Float32Array(numBins + 1);
+    computeConstantQFrame(options, data, 4000, output, 1);
+    const bins = Array.from(output.subarray(1));
+    expect(bins.indexOf(Math.max(...bins))).toBe(45);
+    expect(output[1 + 45]).toBeCloseTo(0.25, 2);
+    // a semitone away is much lower
+    expect(output[1 + 47]).toBeLessThan(0.25 / 100);
+  });
+});
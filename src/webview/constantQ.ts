@@ -0,0 +1,122 @@
+export interface ConstantQOptions {
+  sampleRate: number;
+  minFrequency: number;
+  maxFrequency: number;
+}
+
+// frequency bins from minFrequency, binsPerOctave per octave
+export interface ConstantQBins {
+  minFrequency: number;
+  numBins: number;
+}
+
+// kernel of a bin, the windowed complex sinusoid of its frequency
+interface ConstantQKernel {
+  re: Float32Array;
+  im: Float32Array;
+}
+
+// semitones like librosa, the kernels of more bins per octave are longer
+export const constantQBinsPerOctave = 12;
+// C1 like librosa, its kernel is about half a second
+export const constantQMinFrequency = 32.70319566257483;
+
+const quality = 1 / (Math.pow(2, 1 / constantQBinsPerOctave) - 1);
+
+// bins in the frequency range, from C1 at the lowest
+export function getConstantQBins(
+  minFrequency: number,
+  maxFrequency: number,
+): ConstantQBins {
+  minFrequency = Math.max(minFrequency, constantQMinFrequency);
+  const numBins = Math.floor(
+    constantQBinsPerOctave * Math.log2(maxFrequency / minFrequency),
+  );
+  return { minFrequency, numBins: Math.max(numBins, 0) };
+}
+
+export function getConstantQFrequency(bins: ConstantQBins, k: number) {
+  return bins.minFrequency * Math.pow(2, k / constantQBinsPerOctave);
+}
+
+// length of the kernel of the lowest bin, the longest one
+export function getConstantQMaxLength(options: ConstantQOptions) {
+  const { minFrequency } = getConstantQBins(
+    options.minFrequency,
+    options.maxFrequency,
+  );
+  return Math.ceil((quality * options.sampleRate) / minFrequency);
+}
+
+/*
+Kernels of the bins, each is Q periods of its frequency under a hann window.
+They are normalized by the sum of the window, so a sine of amplitude A gives A / 2 in its bin.
+*/
+function createConstantQKernels(options: ConstantQOptions): ConstantQKernel[] {
+  const bins = getConstantQBins(options.minFrequency, options.maxFrequency);
+  const kernels: ConstantQKernel[] = [];
+  for (let k = 0; k < bins.numBins; k++) {
+    const frequency = getConstantQFrequency(bins, k);
+    const length = Math.ceil((quality * options.sampleRate) / frequency);
+    const re = new Float32Array(length);
+    const im = new Float32Array(length);
+    let windowSum = 0;
+    for (let n = 0; n < length; n++) {
+      const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / length);
+      const phase = (2 * Math.PI * frequency * n) / options.sampleRate;
+      re[n] = w * Math.cos(phase);
+      im[n] = -w * Math.sin(phase);
+      windowSum += w;
+    }
+    for (let n = 0; n < length; n++) {
+      re[n] /= windowSum;
+      im[n] /= windowSum;
+    }
+    kernels.push({ re, im });
+  }
+  return kernels;
+}
+
+let cachedOptions: ConstantQOptions | undefined;
+let cachedKernels: ConstantQKernel[] = [];
+
+function getConstantQKernels(options: ConstantQOptions): ConstantQKernel[] {
+  if (
+    cachedOptions?.sampleRate !== options.sampleRate ||
+    cachedOptions.minFrequency !== options.minFrequency ||
+    cachedOptions.maxFrequency !== options.maxFrequency
+  ) {
+    cachedOptions = { ...options };
+    cachedKernels = createConstantQKernels(options);
+  }
+  return cachedKernels;
+}
+
+/*
+Power of each bin of the frame centered at center, samples out of data are silence.
+The kernels are applied in the time domain, which costs about Q * sampleRate / minFrequency
+per bin of the lowest octave, but needs no FFT as long as the lowest kernel.
+*/
+export function computeConstantQFrame(
+  options: ConstantQOptions,
+  data: Float32Array,
+  center: number,
+  output: Float32Array,
+  offset: number,
+) {
+  const kernels = getConstantQKernels(options);
+  for (let k = 0; k < kernels.length; k++) {
+    const { re, im } = kernels[k];
+    const start = center - Math.floor(re.length / 2);
+    const first = Math.max(-start, 0);
+    const last = Math.min(re.length, data.length - start);
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let n = first; n < last; n++) {
+      const v = data[start + n];
+      sumRe += v * re[n];
+      sumIm += v * im[n];
+    }
+    output[offset + k] = sumRe * sumRe + sumIm * sumIm;
+  }
+}
@@ -0,0 +1,34 @@
+import { concatChunks, getDecodeProgress } from "./decodeChunks";
+
+describe("concatChunks", () => {
+  test("join the chunks of each channel", () => {
+    const chunks = [
+      [new Float32Array([1, 2]), new Float32Array([-1, -2])],
+      [new Float32Array([3]), new Float32Array([-3])],
+      [new Float32Array(0), new Float32Array(0)],
+    ];
+    const channels = concatChunks(chunks, 2, 3);
+    expect(channels).toEqual([
+      new Float32Array([1, 2, 3]),
+      new Float32Array([-1, -2, -3]),
+    ]);
+    // the copied samples are released
+    expect(chunks).toEqual([
+      [undefined, undefined],
+      [undefined, undefined],
+      [undefined, undefined],
+    ]);
+  });
+});
+
+describe("getDecodeProgress", () => {
+  test("ratio of the decoded duration", () => {
+    expect(getDecodeProgress(8000, 8000, 4)).toBe(0.25);
+  });
+
+  test("unknown duration and inaccurate header", () => {
+    expect(getDecodeProgress(8000, 8000, 0)).toBe(0);
+    expect(getDecodeProgress(8000, 8000, NaN)).toBe(0);
+    expect(getDecodeProgress(80000, 8000, 4)).toBe(0.99);
+  });
+});
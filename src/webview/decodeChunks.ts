@@ -0,0 +1,35 @@
+/*
+Join the channels of decoded chunks, length is the total number of samples per channel.
+Each channel of the chunks is released once it is copied,
+so that the samples of long recordings are not held twice.
+*/
+export function concatChunks(
+  chunks: Float32Array[][],
+  numChannels: number,
+  length: number,
+): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < numChannels; ch++) {
+    const channel = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      channel.set(chunk[ch], offset);
+      offset += chunk[ch].length;
+      chunk[ch] = undefined;
+    }
+    channels.push(channel);
+  }
+  return channels;
+}
+
+// ratio of the decoded duration to the duration in the header, which may be missing or inaccurate
+export function getDecodeProgress(
+  decodedLength: number,
+  sampleRate: number,
+  duration: number,
+): number {
+  if (!(duration > 0)) {
+    return 0;
+  }
+  return Math.min(decodedLength / sampleRate / duration, 0.99);
+}
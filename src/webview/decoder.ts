@@ -1,5 +1,6 @@
 // You should compile wasm before build extension
 import Module from "../decoder/wasm/decoder.js";
+import { concatChunks } from "./decodeChunks";
 
 interface Status {
   status: number;
@@ -15,19 +16,19 @@ interface AudioInfoResult {
   format: string;
 }
 
-interface Vector {
-  size(): number;
-  get(index: number): number;
+interface AudioStreamDecoder {
+  open(path: string): Status;
+  decode(minSamples: number): Status;
+  getSamples(): Float32Array;
+  isDone(): boolean;
+  close(): void;
   delete(): void;
 }
 
-interface DecodeAudioResult {
-  status: Status;
-  samples: Vector;
-}
-
 export default class Decoder {
   private static _audioFilePath = "audio";
+  // samples per channel decoded at once by decode()
+  private static _chunkLength = 1 << 20;
 
   private _module;
 
@@ -98,40 +99,100 @@ export default class Decoder {
     return this._samples;
   }
 
-  public decode() {
-    const { status, samples }: DecodeAudioResult = this._module.decodeAudio(
-      Decoder._audioFilePath,
-    );
-    if (status.status < 0) {
-      samples.delete();
-      throw new Error(
-        `failed to decode audio: ${status.status}: ${status.error}`,
+  private _streamDecoder: AudioStreamDecoder;
+
+  // number of samples per channel decoded by decodeChunk so far
+  private _decodedLength = 0;
+  public get decodedLength() {
+    return this._decodedLength;
+  }
+
+  private _isDone = false;
+  public get isDone() {
+    return this._isDone;
+  }
+
+  /*
+  Decode the next part of the audio, at least minLength samples per channel unless the end is reached.
+  The samples are copied out of the wasm heap chunk by chunk,
+  so that long recordings do not need the whole interleaved samples in the heap.
+  */
+  public decodeChunk(minLength: number): Float32Array[] {
+    if (this._isDone) {
+      return this.createChannels(0);
+    }
+    if (!this._streamDecoder) {
+      this._streamDecoder = new this._module.AudioStreamDecoder();
+      this.checkStatus(
+        this._streamDecoder.open(Decoder._audioFilePath),
+        "failed to open audio",
       );
     }
 
+    this.checkStatus(
+      this._streamDecoder.decode(minLength * this._numChannels),
+      "failed to decode audio",
+    );
+    const interleaved = this._streamDecoder.getSamples();
+    const length = interleaved.length / this._numChannels;
+    const channels = this.createChannels(length);
+    for (let i = 0; i < length; i++) {
+      for (let ch = 0; ch < this._numChannels; ch++) {
+        channels[ch][i] = interleaved[i * this._numChannels + ch];
+      }
+    }
+    this._decodedLength += length;
+
+    if (this._streamDecoder.isDone()) {
+      this._isDone = true;
+      this.closeStreamDecoder();
+    }
+    return channels;
+  }
+
+  public decode() {
+    const chunks: Float32Array[][] = [];
+    while (!this._isDone) {
+      chunks.push(this.decodeChunk(Decoder._chunkLength));
+    }
+
     /*
     Determine the length by actually decoding the data.
     Although it can be somewhat estimated using the header information, it's not accurate,
     so the length and duration is determined using the actual decoding result
     */
-    this._length = samples.size() / this._numChannels;
+    this._length = this._decodedLength;
     this._duration = this._length / this._sampleRate;
+    this._samples = concatChunks(chunks, this._numChannels, this._length);
+  }
 
-    this._samples = [];
-    for (let i = 0; i < this._numChannels; i++) {
-      this._samples[i] = new Float32Array(this._length);
+  private createChannels(length: number) {
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < this._numChannels; ch++) {
+      channels.push(new Float32Array(length));
     }
+    return channels;
+  }
 
-    for (let i = 0; i < this._length; i++) {
-      for (let j = 0; j < this._numChannels; j++) {
-        this._samples[j][i] = samples.get(i * this._numChannels + j);
-      }
+  private checkStatus({ status, error }: Status, message: string) {
+    if (status < 0) {
+      this.closeStreamDecoder();
+      throw new Error(`${message}: ${status}: ${error}`);
     }
+  }
 
-    samples.delete();
+  private closeStreamDecoder() {
+    if (this._streamDecoder) {
+      this._streamDecoder.close();
+      this._streamDecoder.delete();
+      this._streamDecoder = undefined;
+    }
   }
 
+  // the encoded file and the wasm heap are released, the decoder can not be used any more
   public dispose() {
+    this.closeStreamDecoder();
     this._module.FS.unlink(Decoder._audioFilePath);
+    this._module = undefined;
   }
 }
@@ -0,0 +1,262 @@
+import {
+  CompressedEncoder,
+  encodeAudio,
+  encodeToWav,
+  getEncoderOptions,
+  getSupportedSampleRate,
+  resample,
+} from "./encoder";
+
+describe("encodeToWav", () => {
+  const stereo = () => [
+    new Float32Array([0.5, -0.5, 1, 0]),
+    new Float32Array([0.25, 0.25, -1, 0]),
+  ];
+  const getView = (wav: Uint8Array) => new DataView(wav.buffer);
+  const readString = (wav: Uint8Array, offset: number) =>
+    String.fromCharCode(...wav.slice(offset, offset + 4));
+
+  test("16-bit stereo header", () => {
+    const wav = encodeToWav(stereo(), 8000, 2);
+    const view = getView(wav);
+    expect(wav.length).toBe(44 + 4 * 2 * 2);
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(8000);
+    // byte rate and block size include every channel
+    expect(view.getUint32(28, true)).toBe(8000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getInt16(44, true)).toBe(Math.floor(0.5 * 0x7fff));
+    expect(view.getInt16(46, true)).toBe(Math.floor(0.25 * 0x7fff));
+  });
+
+  test("24-bit and 32-bit integer samples", () => {
+    const wav24 = encodeToWav(stereo(), 8000, 2, {
+      sampleFormat: "int24",
+      channels: "all",
+    });
+    const view24 = getView(wav24);
+    expect(view24.getUint16(32, true)).toBe(6);
+    expect(view24.getUint16(34, true)).toBe(24);
+    // -0.5 as a signed 24-bit little-endian value
+    const v =
+      view24.getUint8(50) |
+      (view24.getUint8(51) << 8) |
+      (view24.getInt8(52) << 16);
+    expect(v).toBe(-0x400000);
+
+    const wav32 = encodeToWav(stereo(), 8000, 2, {
+      sampleFormat: "int32",
+      channels: "all",
+    });
+    expect(getView(wav32).getInt32(44 + 8 * 2, true)).toBe(0x7fffffff);
+  });
+
+  test("odd data is padded to an even size", () => {
+    const wav = encodeToWav([new Float32Array([0.5, -0.5, 1])], 8000, 1, {
+      sampleFormat: "int24",
+      channels: "all",
+    });
+    const view = getView(wav);
+    expect(view.getUint32(40, true)).toBe(9);
+    expect(wav.length).toBe(44 + 9 + 1);
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(wav[wav.length - 1]).toBe(0);
+  });
+
+  test("32-bit float has a fact chunk", () => {
+    const wav = encodeToWav(stereo(), 8000, 2, {
+      sampleFormat: "float32",
+      channels: "all",
+    });
+    const view = getView(wav);
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getUint32(16, true)).toBe(18);
+    expect(readString(wav, 38)).toBe("fact");
+    expect(view.getUint32(46, true)).toBe(4);
+    expect(readString(wav, 50)).toBe("data");
+    expect(view.getFloat32(58, true)).toBe(0.5);
+    expect(wav.length).toBe(58 + 4 * 2 * 4);
+  });
+
+  test("downmix and channel selection", () => {
+    const mix = getView(
+      encodeToWav(stereo(), 8000, 2, {
+        sampleFormat: "float32",
+        channels: "mix",
+      }),
+    );
+    expect(mix.getUint16(22, true)).toBe(1);
+    expect(mix.getFloat32(58, true)).toBe(0.375);
+
+    const right = getView(
+      encodeToWav(stereo(), 8000, 2, { sampleFormat: "float32", channels: 1 }),
+    );
+    expect(right.getFloat32(58, true)).toBe(0.25);
+    expect(() =>
+      encodeToWav(stereo(), 8000, 2, { sampleFormat: "int16", channels: 2 }),
+    ).toThrow("Channel 2 does not exist");
+  });
+
+  test("resampled output has the new sample rate", () => {
+    const wav = encodeToWav([new Float32Array(48000)], 48000, 1, {
+      sampleFormat: "int16",
+      sampleRate: 16000,
+      channels: "all",
+    });
+    const view = getView(wav);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(40, true)).toBe(16000 * 2);
+  });
+});
+
+describe("resample", () => {
+  const tone = (frequency: number, sampleRate: number, length: number) =>
+    Float32Array.from({ length }, (_, i) =>
+      Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+    );
+  const rms = (x: Float32Array, from: number, to: number) => {
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      sum += x[i] * x[i];
+    }
+    return Math.sqrt(sum / (to - from));
+  };
+
+  test("keep tones below the new Nyquist frequency", () => {
+    const output = resample(tone(1000, 48000, 4800), 48000, 16000);
+    expect(output.length).toBe(1600);
+    // skip the edges, where the filter has no input on one side
+    const expected = tone(1000, 16000, 1600);
+    for (let i = 100; i < 1500; i++) {
+      expect(output[i]).toBeCloseTo(expected[i], 2);
+    }
+  });
+
+  test("remove tones above the new Nyquist frequency", () => {
+    const output = resample(tone(12000, 48000, 4800), 48000, 16000);
+    expect(rms(output, 100, 1500)).toBeLessThan(0.01);
+  });
+
+  test("upsample", () => {
+    const output = resample(tone(1000, 8000, 800), 8000, 44100);
+    expect(output.length).toBe(4410);
+    expect(rms(output, 500, 3900)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+});
+
+describe("getEncoderOptions", () => {
+  test("invalid values fall back to the default", () => {
+    expect(
+      getEncoderOptions({
+        fileFormat: "aiff" as "wav",
+        sampleFormat: "int8" as "int16",
+        sampleRate: -1,
+        channels: "left" as "all",
+        quality: -5,
+      }),
+    ).toEqual({
+      fileFormat: "wav",
+      sampleFormat: "int16",
+      sampleRate: undefined,
+      channels: "all",
+      quality: undefined,
+    });
+    expect(
+      getEncoderOptions({
+        fileFormat: "opus",
+        sampleFormat: "int24",
+        sampleRate: 16000,
+        channels: 0,
+        quality: 96,
+      }),
+    ).toEqual({
+      fileFormat: "opus",
+      sampleFormat: "int24",
+      sampleRate: 16000,
+      channels: 0,
+      quality: 96,
+    });
+  });
+});
+
+describe("getSupportedSampleRate", () => {
+  test("FLAC keeps any sample rate", () => {
+    expect(getSupportedSampleRate("flac", 96000)).toBe(96000);
+  });
+
+  test("Opus and MP3 use the nearest rate above, or the highest one", () => {
+    expect(getSupportedSampleRate("opus", 44100)).toBe(48000);
+    expect(getSupportedSampleRate("opus", 16000)).toBe(16000);
+    expect(getSupportedSampleRate("mp3", 11025)).toBe(11025);
+    expect(getSupportedSampleRate("mp3", 96000)).toBe(48000);
+  });
+});
+
+describe("encodeAudio", () => {
+  const stereo = () => [new Float32Array(100), new Float32Array(100)];
+  const mockEncode = (data: Uint8Array) =>
+    jest.fn<Uint8Array, Parameters<CompressedEncoder["encode"]>>(() => data);
+
+  test("wav does not create the encoder", async () => {
+    const createEncoder = jest.fn();
+    const wav = await encodeAudio(
+      stereo(),
+      8000,
+      2,
+      { fileFormat: "wav", sampleFormat: "int16", channels: "all" },
+      createEncoder,
+    );
+    expect(wav.length).toBe(44 + 100 * 2 * 2);
+    expect(createEncoder).not.toHaveBeenCalled();
+  });
+
+  test("compressed formats are passed to the encoder", async () => {
+    const encode = mockEncode(new Uint8Array(3));
+    const data = await encodeAudio(
+      stereo(),
+      8000,
+      2,
+      { fileFormat: "flac", sampleFormat: "int24", channels: "mix" },
+      async () => ({ encode }),
+    );
+    expect(data.length).toBe(3);
+    const [channels, ...args] = encode.mock.calls[0];
+    expect(channels.length).toBe(1);
+    expect(args).toEqual([8000, "flac", 24, 5]);
+  });
+
+  test("Opus is resampled to a supported rate", async () => {
+    const encode = mockEncode(new Uint8Array(0));
+    await encodeAudio(
+      stereo(),
+      44100,
+      2,
+      {
+        fileFormat: "opus",
+        sampleFormat: "int16",
+        channels: "all",
+        quality: 32,
+      },
+      async () => ({ encode }),
+    );
+    const [channels, ...args] = encode.mock.calls[0];
+    expect(channels[0].length).toBe(Math.round((100 * 48000) / 44100));
+    expect(args).toEqual([48000, "opus", 16, 32]);
+  });
+
+  test("MP3 rejects more than two channels", async () => {
+    const channels = [...stereo(), new Float32Array(100)];
+    await expect(
+      encodeAudio(
+        channels,
+        8000,
+        3,
+        { fileFormat: "mp3", sampleFormat: "int16", channels: "all" },
+        async () => ({ encode: jest.fn() }),
+      ),
+    ).rejects.toThrow("MP3 supports only mono and stereo");
+  });
+});
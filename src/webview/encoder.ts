@@ -1,61 +1,322 @@
+import { ExportDefault } from "../config";
+
+export type WavSampleFormat = "int16" | "int24" | "int32" | "float32";
+
+export type AudioFileFormat = "wav" | "flac" | "opus" | "mp3";
+
+export type CompressedFileFormat = Exclude<AudioFileFormat, "wav">;
+
+export interface EncoderOptions {
+  // "wav" if undefined
+  fileFormat?: AudioFileFormat;
+  // sample format of wav, FLAC is 16-bit for int16 and 24-bit otherwise
+  sampleFormat: WavSampleFormat;
+  // output sample rate, the input sample rate is kept if undefined
+  sampleRate?: number;
+  // "all" keeps every channel, "mix" downmixes to mono, a number keeps only that channel
+  channels: "all" | "mix" | number;
+  // FLAC compression level (0-12), or bitrate in kbps for Opus and MP3
+  quality?: number;
+}
+
+export const defaultEncoderOptions: EncoderOptions = {
+  fileFormat: "wav",
+  sampleFormat: "int16",
+  channels: "all",
+};
+
+export const audioFileExtensions: Record<AudioFileFormat, string> = {
+  wav: ".wav",
+  flac: ".flac",
+  opus: ".opus",
+  mp3: ".mp3",
+};
+
+export const defaultQuality: Record<CompressedFileFormat, number> = {
+  flac: 5,
+  opus: 64,
+  mp3: 128,
+};
+
+// sample rates supported by the codecs, FLAC supports any
+const supportedSampleRates: Record<CompressedFileFormat, number[]> = {
+  flac: [],
+  opus: [8000, 12000, 16000, 24000, 48000],
+  mp3: [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000],
+};
+
+// compressed formats are encoded by the WASM module, see audioEncoder.ts
+export interface CompressedEncoder {
+  encode(
+    channels: Float32Array[],
+    sampleRate: number,
+    fileFormat: CompressedFileFormat,
+    bitsPerSample: number,
+    quality: number,
+  ): Uint8Array;
+}
+
+export type CreateEncoder = () => Promise<CompressedEncoder>;
+
+const bytesPerSample: Record<WavSampleFormat, number> = {
+  int16: 2,
+  int24: 3,
+  int32: 4,
+  float32: 4,
+};
+
+// fill missing or invalid values of the user settings with the default ones
+export function getEncoderOptions(value: ExportDefault = {}): EncoderOptions {
+  const fileFormat = Object.keys(audioFileExtensions).includes(value.fileFormat)
+    ? value.fileFormat
+    : defaultEncoderOptions.fileFormat;
+  const sampleFormat = Object.keys(bytesPerSample).includes(value.sampleFormat)
+    ? value.sampleFormat
+    : defaultEncoderOptions.sampleFormat;
+  const sampleRate =
+    Number.isInteger(value.sampleRate) && value.sampleRate > 0
+      ? value.sampleRate
+      : undefined;
+  const channels =
+    value.channels === "mix" ||
+    (Number.isInteger(value.channels) && (value.channels as number) >= 0)
+      ? value.channels
+      : defaultEncoderOptions.channels;
+  const quality =
+    Number.isFinite(value.quality) && value.quality >= 0
+      ? value.quality
+      : undefined;
+  return { fileFormat, sampleFormat, sampleRate, channels, quality };
+}
+
+// the nearest supported sample rate which does not lose bandwidth, if possible
+export function getSupportedSampleRate(
+  fileFormat: CompressedFileFormat,
+  sampleRate: number,
+): number {
+  const rates = supportedSampleRates[fileFormat];
+  if (rates.length === 0) {
+    return sampleRate;
+  }
+  return rates.find((rate) => rate >= sampleRate) ?? rates[rates.length - 1];
+}
+
+// encode to the file format of options, createEncoder is only called for compressed formats
+export async function encodeAudio(
+  samples: Float32Array[],
+  sampleRate: number,
+  numChannels: number,
+  options: EncoderOptions,
+  createEncoder: CreateEncoder,
+): Promise<Uint8Array> {
+  const fileFormat = options.fileFormat ?? "wav";
+  if (fileFormat === "wav") {
+    return encodeToWav(samples, sampleRate, numChannels, options);
+  }
+
+  let channels = selectChannels(samples.slice(0, numChannels), options);
+  if (fileFormat === "mp3" && channels.length > 2) {
+    throw new Error(
+      "MP3 supports only mono and stereo, select a channel or mix to mono",
+    );
+  }
+  const outputSampleRate = getSupportedSampleRate(
+    fileFormat,
+    options.sampleRate ?? sampleRate,
+  );
+  if (outputSampleRate !== sampleRate) {
+    channels = channels.map((c) => resample(c, sampleRate, outputSampleRate));
+  }
+  const encoder = await createEncoder();
+  return encoder.encode(
+    channels,
+    outputSampleRate,
+    fileFormat,
+    options.sampleFormat === "int16" ? 16 : 24,
+    options.quality ?? defaultQuality[fileFormat],
+  );
+}
+
 export function encodeToWav(
   samples: Float32Array[],
   sampleRate: number,
   numChannels: number,
+  options: EncoderOptions = defaultEncoderOptions,
 ): Uint8Array {
-  const dataBytes = samples[0].length * numChannels * 2;
-  const buffer = new ArrayBuffer(44 + dataBytes);
+  let channels = selectChannels(samples.slice(0, numChannels), options);
+  const outputSampleRate = options.sampleRate ?? sampleRate;
+  if (outputSampleRate !== sampleRate) {
+    channels = channels.map((c) => resample(c, sampleRate, outputSampleRate));
+  }
+
+  const isFloat = options.sampleFormat === "float32";
+  const sampleBytes = bytesPerSample[options.sampleFormat];
+  const blockAlign = channels.length * sampleBytes;
+  const dataBytes = channels[0].length * blockAlign;
+  // IEEE float needs the extension size field and a fact chunk
+  const fmtBytes = isFloat ? 18 : 16;
+  const factBytes = isFloat ? 12 : 0;
+  const dataOffset = 20 + fmtBytes + factBytes + 8;
+  // RIFF chunks are word aligned, odd data (24-bit mono) is followed by a zero pad byte
+  const padBytes = dataBytes % 2;
+  const buffer = new ArrayBuffer(dataOffset + dataBytes + padBytes);
   const view = new DataView(buffer);
 
   // RIFF header
   writeString(view, 0, "RIFF");
   // file size
-  view.setUint32(4, 32 + dataBytes, true);
+  view.setUint32(4, dataOffset - 8 + dataBytes + padBytes, true);
   // WAVE header
   writeString(view, 8, "WAVE");
   // fmt chunk
   writeString(view, 12, "fmt ");
   // byte of fmt chunk
-  view.setUint32(16, 16, true);
-  // fmt id
-  view.setUint16(20, 1, true);
+  view.setUint32(16, fmtBytes, true);
+  // fmt id, 1: integer PCM, 3: IEEE float
+  view.setUint16(20, isFloat ? 3 : 1, true);
   // number of channels
-  view.setUint16(22, numChannels, true);
+  view.setUint16(22, channels.length, true);
   // sample rate
-  view.setUint32(24, sampleRate, true);
+  view.setUint32(24, outputSampleRate, true);
   // byte rate
-  view.setUint32(28, sampleRate * 2, true);
+  view.setUint32(28, outputSampleRate * blockAlign, true);
   // block size
-  view.setUint16(32, 2, true);
+  view.setUint16(32, blockAlign, true);
   // bit depth
-  view.setUint16(34, 16, true);
+  view.setUint16(34, sampleBytes * 8, true);
+  let offset = 20 + fmtBytes;
+  if (isFloat) {
+    // size of the fmt extension
+    view.setUint16(36, 0, true);
+    // fact chunk: number of sample frames
+    writeString(view, offset, "fact");
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, channels[0].length, true);
+    offset += factBytes;
+  }
   // data chunk
-  writeString(view, 36, "data");
-  // byte of data chunk
-  view.setUint32(40, dataBytes, true);
+  writeString(view, offset, "data");
+  // byte of data chunk, without the pad byte
+  view.setUint32(offset + 4, dataBytes, true);
   // audio data
-  floatTo16BitPCM(view, 44, samples);
+  writeSamples(view, dataOffset, channels, options.sampleFormat);
 
   return new Uint8Array(buffer);
 }
 
+function selectChannels(
+  samples: Float32Array[],
+  options: EncoderOptions,
+): Float32Array[] {
+  if (options.channels === "all") {
+    return samples;
+  }
+  if (options.channels === "mix") {
+    const mix = new Float32Array(samples[0].length);
+    for (const channel of samples) {
+      for (let i = 0; i < mix.length; i++) {
+        mix[i] += channel[i] / samples.length;
+      }
+    }
+    return [mix];
+  }
+  const channel = samples[options.channels];
+  if (!channel) {
+    throw new Error(
+      `Channel ${options.channels} does not exist, the audio has ${samples.length} channels`,
+    );
+  }
+  return [channel];
+}
+
+// zero crossings of the sinc on each side, higher is sharper and slower
+const resampleZeroCrossings = 16;
+// cutoff relative to the lower Nyquist frequency, leaves room for the transition band
+const resampleRolloff = 0.945;
+
+/*
+Band-limited resampling with a Blackman-windowed sinc.
+The cutoff is below the Nyquist frequency of the lower rate, so downsampling does not alias.
+*/
+export function resample(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+): Float32Array {
+  if (fromRate === toRate) {
+    return input.slice();
+  }
+  const ratio = toRate / fromRate;
+  const cutoff = Math.min(1, ratio) * resampleRolloff;
+  const halfWidth = Math.ceil(resampleZeroCrossings / cutoff);
+  const output = new Float32Array(Math.round(input.length * ratio));
+
+  for (let n = 0; n < output.length; n++) {
+    const t = n / ratio;
+    const center = Math.floor(t);
+    let sum = 0;
+    for (
+      let k = Math.max(center - halfWidth + 1, 0);
+      k <= Math.min(center + halfWidth, input.length - 1);
+      k++
+    ) {
+      const x = t - k;
+      const w = x / halfWidth;
+      if (Math.abs(w) >= 1) {
+        continue;
+      }
+      const window =
+        0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+      const px = Math.PI * cutoff * x;
+      const sinc = px === 0 ? 1 : Math.sin(px) / px;
+      sum += input[k] * cutoff * sinc * window;
+    }
+    output[n] = sum;
+  }
+  return output;
+}
+
 function writeString(view: DataView, offset: number, string: string) {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
   }
 }
 
-function floatTo16BitPCM(
+function writeSamples(
   output: DataView,
   offset: number,
   input: Float32Array[],
+  sampleFormat: WavSampleFormat,
 ) {
   const length = input[0].length;
   const numChannels = input.length;
-  for (let i = 0; i < length; i++, offset += 2 * numChannels) {
-    for (let ch = 0; ch < numChannels; ch++) {
+  const sampleBytes = bytesPerSample[sampleFormat];
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < numChannels; ch++, offset += sampleBytes) {
+      if (sampleFormat === "float32") {
+        output.setFloat32(offset, input[ch][i], true);
+        continue;
+      }
       const s = Math.max(-1, Math.min(1, input[ch][i]));
-      output.setInt16(offset + 2 * ch, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      switch (sampleFormat) {
+        case "int16":
+          output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+          break;
+        case "int24": {
+          const v = Math.round(s < 0 ? s * 0x800000 : s * 0x7fffff);
+          output.setUint8(offset, v & 0xff);
+          output.setUint8(offset + 1, (v >> 8) & 0xff);
+          output.setUint8(offset + 2, (v >> 16) & 0xff);
+          break;
+        }
+        case "int32":
+          output.setInt32(
+            offset,
+            Math.round(s < 0 ? s * 0x80000000 : s * 0x7fffffff),
+            true,
+          );
+          break;
+      }
     }
   }
 }
@@ -6,6 +6,7 @@ export enum EventType {
   // player
   UPDATE_SEEKBAR = "update-seekbar",
   UPDATE_IS_PLAYING = "update-is-playing",
+  UPDATE_LOOP = "update-loop",
   // playerSettings
   PS_UPDATE_ENABLE_HPF = "update-enable-hpf",
   PS_UPDATE_HPF_FREQUENCY = "update-hpf-frequency",
@@ -13,14 +14,26 @@ export enum EventType {
   PS_UPDATE_LPF_FREQUENCY = "ps_update_lpf_frequency",
   PS_UPDATE_MATCH_FILTER_FREQUENCY_TO_SPECTROGRAM = "ps_update_match_filter_frequency_to_spectrogram",
   PS_UPDATE_PLAYBACK_RATE = "ps_update_playback_rate",
+  PS_UPDATE_PRESERVE_PITCH = "ps_update_preserve_pitch",
+  PS_UPDATE_CHANNEL_MIX = "ps_update_channel_mix",
+  PS_UPDATE_MONO_SUM = "ps_update_mono_sum",
+  PS_UPDATE_LOOP_PRE_ROLL = "ps_update_loop_pre_roll",
+  PS_UPDATE_LOOP_POST_ROLL = "ps_update_loop_post_roll",
   // analyzer
   ANALYZE = "analyze",
   // analyzeSettings
   AS_UPDATE_WAVEFORM_VISIBLE = "as-update-waveform-visible",
   AS_UPDATE_SPECTROGRAM_VISIBLE = "as-update-spectrogram-visible",
   AS_UPDATE_WINDOW_SIZE_INDEX = "as-update-window-size-index",
+  AS_UPDATE_SPECTROGRAM_TYPE = "as-update-spectrogram-type",
   AS_UPDATE_FREQUENCY_SCALE = "as-update-frequency-scale",
   AS_UPDATE_MEL_FILTER_NUM = "as-update-mel-filter-num",
+  AS_UPDATE_MFCC_NUM = "as-update-mfcc-num",
+  AS_UPDATE_MEL_SCALE = "as-update-mel-scale",
+  AS_UPDATE_MEL_NORM = "as-update-mel-norm",
+  AS_UPDATE_WINDOW_FUNCTION = "as-update-window-function",
+  AS_UPDATE_KAISER_BETA = "as-update-kaiser-beta",
+  AS_UPDATE_GAUSSIAN_SIGMA = "as-update-gaussian-sigma",
   AS_UPDATE_MIN_FREQUENCY = "as-update-min-frequency",
   AS_UPDATE_MAX_FREQUENCY = "as-update-max-frequency",
   AS_UPDATE_MIN_TIME = "as-update-min-time",
@@ -28,17 +41,34 @@ export enum EventType {
   AS_UPDATE_MIN_AMPLITUDE = "as-update-min-amplitude",
   AS_UPDATE_MAX_AMPLITUDE = "as-update-max-amplitude",
   AS_UPDATE_SPECTROGRAM_AMPLITUDE_RANGE = "as-update-spectrogram-amplitude-range",
+  AS_UPDATE_FOLLOW_PLAYHEAD = "as-update-follow-playhead",
+  AS_UPDATE_PITCH_VISIBLE = "as-update-pitch-visible",
+  AS_UPDATE_MIN_F0 = "as-update-min-f0",
+  AS_UPDATE_MAX_F0 = "as-update-max-f0",
+  AS_UPDATE_FORMANT_VISIBLE = "as-update-formant-visible",
+  AS_UPDATE_MAX_FORMANT = "as-update-max-formant",
+  AS_UPDATE_NUM_FORMANTS = "as-update-num-formants",
+  AS_UPDATE_FORMANT_WINDOW_LENGTH = "as-update-formant-window-length",
+  // segment
+  SEG_UPDATE_SEGMENTS = "seg-update-segments",
+  SEG_UPDATE_SELECTED_INDEX = "seg-update-selected-index",
+  // audioEdit
+  AE_UPDATE_AUDIO = "ae-update-audio",
   // active learning
   AL_UPDATE_RESULTS = "al-update-results",
   // other
   CLICK = "click",
+  DOUBLE_CLICK = "dblclick",
   CHANGE = "change",
   INPUT = "input",
   KEY_DOWN = "keydown",
   KEY_UP = "keyup",
+  BLUR = "blur",
   MOUSE_DOWN = "mousedown",
   MOUSE_MOVE = "mousemove",
   MOUSE_UP = "mouseup",
+  MOUSE_LEAVE = "mouseleave",
+  WHEEL = "wheel",
   CONTEXT_MENU = "contextmenu",
 }
 
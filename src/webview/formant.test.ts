@@ -0,0 +1,111 @@
+import {
+  computeLpc,
+  createFormantTrack,
+  findPolynomialRoots,
+  FormantOptions,
+  trackFormants,
+} from "./formant";
+
+const sampleRate = 16000;
+const options: FormantOptions = {
+  sampleRate,
+  maxFormant: 5500,
+  numFormants: 5,
+  windowLength: 0.025,
+};
+
+// impulses at f0 through resonators of the formants, like a vowel
+function createVowel(formants: [number, number][], length: number) {
+  let data = new Float32Array(length);
+  const period = Math.round(sampleRate / 120);
+  for (let i = 0; i < length; i += period) {
+    data[i] = 1;
+  }
+  for (const [frequency, bandwidth] of formants) {
+    const r = Math.exp((-Math.PI * bandwidth) / sampleRate);
+    const a1 = 2 * r * Math.cos((2 * Math.PI * frequency) / sampleRate);
+    const a2 = -r * r;
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      output[i] =
+        data[i] +
+        a1 * (i > 0 ? output[i - 1] : 0) +
+        a2 * (i > 1 ? output[i - 2] : 0);
+    }
+    data = output;
+  }
+  return data;
+}
+
+describe("computeLpc", () => {
+  test("coefficients of an autoregressive process", () => {
+    // x[n] = 1.3 x[n-1] - 0.8 x[n-2] + e[n]
+    const data = new Float64Array(4000);
+    let seed = 1;
+    for (let i = 0; i < data.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      const e = seed / 2147483647 - 0.5;
+      data[i] =
+        e + 1.3 * (i > 0 ? data[i - 1] : 0) - 0.8 * (i > 1 ? data[i - 2] : 0);
+    }
+    const a = computeLpc(data, 2);
+    expect(a[0]).toBe(1);
+    expect(a[1]).toBeCloseTo(-1.3, 1);
+    expect(a[2]).toBeCloseTo(0.8, 1);
+  });
+});
+
+describe("findPolynomialRoots", () => {
+  test("roots of (z - 0.5)(z^2 + 0.81)", () => {
+    const roots = findPolynomialRoots(
+      new Float64Array([1, -0.5, 0.81, -0.405]),
+    );
+    const found = [];
+    for (let k = 0; k < roots.length; k += 2) {
+      found.push([roots[k], roots[k + 1]]);
+    }
+    found.sort((a, b) => a[1] - b[1]);
+    expect(found[0][0]).toBeCloseTo(0, 6);
+    expect(found[0][1]).toBeCloseTo(-0.9, 6);
+    expect(found[1][0]).toBeCloseTo(0.5, 6);
+    expect(found[1][1]).toBeCloseTo(0, 6);
+    expect(found[2][0]).toBeCloseTo(0, 6);
+    expect(found[2][1]).toBeCloseTo(0.9, 6);
+  });
+});
+
+describe("trackFormants", () => {
+  test("formants of a vowel", () => {
+    const data = createVowel(
+      [
+        [700, 80],
+        [1200, 90],
+        [2600, 120],
+        [3500, 150],
+        [4500, 200],
+      ],
+      sampleRate / 2,
+    );
+    const track = createFormantTrack(data.length, sampleRate, 5);
+    expect(track.hopSize).toBe(160);
+    trackFormants(data, options, track, 0, 50);
+    for (let i = 10; i < 40; i += 5) {
+      const formants = track.frequencies.slice(i * 5, i * 5 + 5);
+      // F1 is pulled toward the harmonics of f0, as in every LPC analysis
+      [700, 1200, 2600, 3500, 4500].forEach((frequency, f) => {
+        expect(Math.abs(formants[f] - frequency)).toBeLessThan(0.1 * frequency);
+      });
+      expect(track.bandwidths[i * 5]).toBeGreaterThan(0);
+    }
+  });
+
+  test("silent frames have no formants", () => {
+    const data = new Float32Array(sampleRate / 10);
+    const track = createFormantTrack(data.length, sampleRate, 3);
+    track.frequencies.fill(1);
+    trackFormants(data, { ...options, numFormants: 3 }, track, 2, 5);
+    expect(track.frequencies[5]).toBe(1);
+    expect(track.frequencies.slice(6, 21).every((f) => f === 0)).toBe(true);
+    expect(track.frequencies[21]).toBe(1);
+  });
+});
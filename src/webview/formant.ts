@@ -0,0 +1,241 @@
+import { resample } from "./encoder";
+import { createWindow, WindowFunction } from "./windowFunction";
+
+export interface FormantOptions {
+  sampleRate: number;
+  // formants are searched below this frequency in Hz, 5000 for men and 5500 for women in Praat
+  maxFormant: number;
+  numFormants: number;
+  // effective length of the window in seconds, the window is twice as long like Praat
+  windowLength: number;
+}
+
+// formants of each frame, frame i is centered at sample i * hopSize
+export interface FormantTrack {
+  sampleRate: number;
+  hopSize: number;
+  numFormants: number;
+  // numFrames * numFormants values in frame order, 0 if the formant is not found
+  frequencies: Float32Array;
+  bandwidths: Float32Array;
+}
+
+// 10 ms frames like the pitch track
+const formantHopSec = 0.01;
+// pre-emphasis of the higher formants, from 50 Hz like Praat
+const preEmphasisFrequency = 50;
+// roots closer than this to 0 Hz or the max formant are not formants
+const formantMargin = 50;
+const maxRootIterations = 500;
+
+export function createFormantTrack(
+  length: number,
+  sampleRate: number,
+  numFormants: number,
+): FormantTrack {
+  const hopSize = Math.max(Math.round(formantHopSec * sampleRate), 1);
+  const numFrames = Math.ceil(length / hopSize);
+  return {
+    sampleRate,
+    hopSize,
+    numFormants,
+    frequencies: new Float32Array(numFrames * numFormants),
+    bandwidths: new Float32Array(numFrames * numFormants),
+  };
+}
+
+/*
+Coefficients a[0..order] of the prediction error filter 1 + a[1] z^-1 + ... by Burg's method,
+the same recursion as librosa.lpc.
+*/
+export function computeLpc(data: Float64Array, order: number): Float64Array {
+  const n = data.length - 1;
+  let a = new Float64Array(order + 1);
+  let prev = new Float64Array(order + 1);
+  a[0] = 1;
+  // forward error from index i and backward error from 0, both of length n - i
+  const fwd = data.slice(1);
+  const bwd = data.slice(0, n);
+  let den = 0;
+  for (let j = 0; j < n; j++) {
+    den += fwd[j] * fwd[j] + bwd[j] * bwd[j];
+  }
+
+  for (let i = 0; i < order && i < n; i++) {
+    const length = n - i;
+    let dot = 0;
+    for (let j = 0; j < length; j++) {
+      dot += bwd[j] * fwd[i + j];
+    }
+    const reflection = den > 0 ? (-2 * dot) / den : 0;
+    [a, prev] = [prev, a];
+    for (let j = 0; j <= i + 1; j++) {
+      a[j] = prev[j] + reflection * prev[i + 1 - j];
+    }
+    for (let j = 0; j < length; j++) {
+      const f = fwd[i + j];
+      fwd[i + j] += reflection * bwd[j];
+      bwd[j] += reflection * f;
+    }
+    den =
+      (1 - reflection * reflection) * den -
+      bwd[length - 1] * bwd[length - 1] -
+      fwd[i] * fwd[i];
+  }
+  return a;
+}
+
+/*
+Complex roots of z^order + a[1] z^(order-1) + ... + a[order] by the Durand-Kerner method,
+as [re, im] pairs. The roots of a stable LPC filter are inside the unit circle.
+*/
+export function findPolynomialRoots(a: Float64Array): Float64Array {
+  const order = a.length - 1;
+  const re = new Float64Array(order);
+  const im = new Float64Array(order);
+  // powers of a complex number which is neither real nor a root of unity
+  for (let k = 0; k < order; k++) {
+    const r = Math.pow(0.9, k);
+    re[k] = r * Math.cos(0.4 + 1.3 * k);
+    im[k] = r * Math.sin(0.4 + 1.3 * k);
+  }
+
+  for (let iteration = 0; iteration < maxRootIterations; iteration++) {
+    let maxStep = 0;
+    for (let k = 0; k < order; k++) {
+      // value of the polynomial by Horner's method
+      let pRe = 1;
+      let pIm = 0;
+      for (let j = 1; j <= order; j++) {
+        const t = pRe * re[k] - pIm * im[k] + a[j];
+        pIm = pRe * im[k] + pIm * re[k];
+        pRe = t;
+      }
+      // product of the differences to the other roots
+      let qRe = 1;
+      let qIm = 0;
+      for (let j = 0; j < order; j++) {
+        if (j === k) {
+          continue;
+        }
+        const dRe = re[k] - re[j];
+        const dIm = im[k] - im[j];
+        const t = qRe * dRe - qIm * dIm;
+        qIm = qRe * dIm + qIm * dRe;
+        qRe = t;
+      }
+      const q = qRe * qRe + qIm * qIm || Number.MIN_VALUE;
+      const stepRe = (pRe * qRe + pIm * qIm) / q;
+      const stepIm = (pIm * qRe - pRe * qIm) / q;
+      re[k] -= stepRe;
+      im[k] -= stepIm;
+      maxStep = Math.max(maxStep, Math.abs(stepRe) + Math.abs(stepIm));
+    }
+    if (maxStep < 1e-12) {
+      break;
+    }
+  }
+
+  const roots = new Float64Array(order * 2);
+  for (let k = 0; k < order; k++) {
+    roots[2 * k] = re[k];
+    roots[2 * k + 1] = im[k];
+  }
+  return roots;
+}
+
+/*
+Estimate the formants of numFrames frames from startFrame like Praat's "To Formant (burg)":
+the samples are resampled to twice the max formant and pre-emphasized,
+then the roots of the LPC polynomial of order 2 * numFormants give the formants of each frame.
+*/
+export function trackFormants(
+  data: Float32Array,
+  options: FormantOptions,
+  track: FormantTrack,
+  startFrame: number,
+  numFrames: number,
+) {
+  const numFormants = track.numFormants;
+  const endFrame = Math.min(
+    startFrame + numFrames,
+    track.frequencies.length / numFormants,
+  );
+  if (endFrame <= startFrame) {
+    return;
+  }
+  const targetRate = Math.min(2 * options.maxFormant, options.sampleRate);
+  const ratio = targetRate / options.sampleRate;
+  const windowSize = Math.max(
+    Math.round(2 * options.windowLength * targetRate),
+    2 * numFormants + 2,
+  );
+  // the gaussian window of windowFunction with sigma 0.4 is close to the window of Praat
+  const window = createWindow(windowSize, {
+    windowFunction: WindowFunction.Gaussian,
+    gaussianSigma: 0.4,
+    kaiserBeta: 0,
+  });
+
+  // samples of the frames and a margin for the resampling filter
+  const margin = Math.ceil(windowSize / ratio / 2) + 64;
+  const start = Math.max(startFrame * track.hopSize - margin, 0);
+  const end = Math.min((endFrame - 1) * track.hopSize + margin, data.length);
+  const samples = resample(
+    data.subarray(start, end),
+    options.sampleRate,
+    targetRate,
+  );
+  const emphasis = Math.exp((-2 * Math.PI * preEmphasisFrequency) / targetRate);
+  for (let i = samples.length - 1; i > 0; i--) {
+    samples[i] -= emphasis * samples[i - 1];
+  }
+
+  const frame = new Float64Array(windowSize);
+  const frequencies: number[] = [];
+  const bandwidths: number[] = [];
+  for (let i = startFrame; i < endFrame; i++) {
+    const first = Math.round(
+      (i * track.hopSize - start) * ratio - windowSize / 2,
+    );
+    let power = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const k = first + j;
+      frame[j] = k >= 0 && k < samples.length ? samples[k] * window[j] : 0;
+      power += frame[j] * frame[j];
+    }
+    const offset = i * numFormants;
+    track.frequencies.fill(0, offset, offset + numFormants);
+    track.bandwidths.fill(0, offset, offset + numFormants);
+    if (power === 0) {
+      continue;
+    }
+
+    const roots = findPolynomialRoots(computeLpc(frame, 2 * numFormants));
+    frequencies.length = 0;
+    bandwidths.length = 0;
+    for (let k = 0; k < roots.length; k += 2) {
+      const [re, im] = [roots[k], roots[k + 1]];
+      // each formant is a conjugate pair, only the upper one is used
+      if (im <= 0) {
+        continue;
+      }
+      const frequency = (Math.atan2(im, re) * targetRate) / (2 * Math.PI);
+      if (
+        frequency < formantMargin ||
+        frequency > options.maxFormant - formantMargin
+      ) {
+        continue;
+      }
+      frequencies.push(frequency);
+      bandwidths.push((-Math.log(Math.hypot(re, im)) * targetRate) / Math.PI);
+    }
+    const order = frequencies
+      .map((_, k) => k)
+      .sort((a, b) => frequencies[a] - frequencies[b]);
+    for (let f = 0; f < numFormants && f < order.length; f++) {
+      track.frequencies[offset + f] = frequencies[order[f]];
+      track.bandwidths[offset + f] = bandwidths[order[f]];
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import "./styles/vscode.css";
 import { WebviewMessage } from "../message";
 import Decoder from "./decoder";
+import AudioEncoder from "./audioEncoder";
 import WebView from "./components/webview/webview";
 
 export interface vscode {
@@ -23,5 +24,27 @@ function createDecoder(fileData: Uint8Array) {
   return Decoder.create(fileData);
 }
 
+function createEncoder() {
+  return AudioEncoder.create();
+}
+
+// the worker script is on another origin than the webview, so load it from a blob url
+let spectrogramWorkerUrl: Promise<string>;
+async function createSpectrogramWorker() {
+  if (!spectrogramWorkerUrl) {
+    const src = document.getElementById("root").dataset.spectrogramWorker;
+    spectrogramWorkerUrl = fetch(src)
+      .then((res) => res.blob())
+      .then((blob) => URL.createObjectURL(blob));
+  }
+  return new Worker(await spectrogramWorkerUrl);
+}
+
 // entry point
-new WebView(postMessage, createAudioContext, createDecoder);
+new WebView(
+  postMessage,
+  createAudioContext,
+  createDecoder,
+  createEncoder,
+  createSpectrogramWorker,
+);
@@ -0,0 +1,128 @@
+import {
+  applyMelFilterBank,
+  createMelFilterBank,
+  getMelFilterBank,
+  hzToMel,
+  MelFilter,
+  MelFilterBankOptions,
+  MelNorm,
+  MelScale,
+  melToHz,
+} from "./melFilterBank";
+
+const options: MelFilterBankOptions = {
+  sampleRate: 16000,
+  windowSize: 512,
+  numFilters: 40,
+  minFrequency: 0,
+  maxFrequency: 8000,
+  melScale: MelScale.Slaney,
+  melNorm: MelNorm.Slaney,
+};
+
+// dense weights of a filter over all bins
+function toDense(filter: MelFilter, numBins: number) {
+  const weights = new Float32Array(numBins);
+  weights.set(filter.weights, filter.startIndex);
+  return weights;
+}
+
+describe("mel scale", () => {
+  test("slaney scale is linear below 1000 Hz and logarithmic above", () => {
+    expect(hzToMel(60, MelScale.Slaney)).toBeCloseTo(0.9);
+    expect(hzToMel(1000, MelScale.Slaney)).toBeCloseTo(15);
+    expect(hzToMel(6400, MelScale.Slaney)).toBeCloseTo(42);
+  });
+
+  test("htk scale", () => {
+    expect(hzToMel(60, MelScale.Htk)).toBeCloseTo(92.68, 2);
+    expect(hzToMel(700, MelScale.Htk)).toBeCloseTo(2595 * Math.log10(2));
+  });
+
+  test("melToHz is the inverse of hzToMel", () => {
+    for (const melScale of [MelScale.Slaney, MelScale.Htk]) {
+      for (const hz of [0, 100, 999, 1000, 4000, 22050]) {
+        expect(melToHz(hzToMel(hz, melScale), melScale)).toBeCloseTo(hz, 6);
+      }
+    }
+  });
+});
+
+describe("createMelFilterBank", () => {
+  const numBins = options.windowSize / 2 + 1;
+
+  test("filters without normalization are triangles up to 1", () => {
+    const filterBank = createMelFilterBank({
+      ...options,
+      melNorm: MelNorm.None,
+    });
+    expect(filterBank.length).toBe(40);
+    for (const filter of filterBank) {
+      expect(Math.max(...filter.weights)).toBeLessThanOrEqual(1);
+      expect(Math.max(...filter.weights)).toBeGreaterThan(0.5);
+      expect(filter.startIndex + filter.weights.length).toBeLessThanOrEqual(
+        numBins,
+      );
+    }
+    // adjacent triangles overlap and sum to 1 between their centers
+    const maxMel = hzToMel(8000, MelScale.Slaney);
+    const midpoint =
+      (melToHz((maxMel * 11) / 41, MelScale.Slaney) +
+        melToHz((maxMel * 12) / 41, MelScale.Slaney)) /
+      2;
+    const bin = Math.round(
+      (midpoint * options.windowSize) / options.sampleRate,
+    );
+    const sum =
+      toDense(filterBank[10], numBins)[bin] +
+      toDense(filterBank[11], numBins)[bin];
+    expect(sum).toBeCloseTo(1, 5);
+  });
+
+  test("slaney normalization makes the area of each filter about 1", () => {
+    const filterBank = createMelFilterBank(options);
+    const df = options.sampleRate / options.windowSize;
+    // the filters wider than a few bins
+    for (const filter of filterBank.slice(20)) {
+      const area = filter.weights.reduce((a, b) => a + b, 0) * df;
+      expect(area).toBeCloseTo(1, 1);
+    }
+  });
+
+  test("filters are within the frequency range", () => {
+    const filterBank = createMelFilterBank({
+      ...options,
+      minFrequency: 300,
+      maxFrequency: 3400,
+      melScale: MelScale.Htk,
+    });
+    const df = options.sampleRate / options.windowSize;
+    expect(filterBank[0].startIndex * df).toBeGreaterThanOrEqual(300);
+    const last = filterBank[filterBank.length - 1];
+    expect((last.startIndex + last.weights.length - 1) * df).toBeLessThan(3400);
+  });
+});
+
+describe("getMelFilterBank", () => {
+  test("filter bank is rebuilt only when the options change", () => {
+    const filterBank = getMelFilterBank(options);
+    expect(getMelFilterBank({ ...options })).toBe(filterBank);
+    const htk = getMelFilterBank({ ...options, melScale: MelScale.Htk });
+    expect(htk).not.toBe(filterBank);
+    expect(getMelFilterBank({ ...options, melScale: MelScale.Htk })).toBe(htk);
+  });
+
+  test("applyMelFilterBank sums the weighted power", () => {
+    const filterBank = createMelFilterBank(options);
+    const spectrum = new Float32Array(options.windowSize / 2 + 1).fill(1);
+    const output = new Float32Array(filterBank.length + 2);
+    applyMelFilterBank(filterBank, spectrum, output, 2);
+    expect(output[0]).toBe(0);
+    filterBank.forEach((filter, i) => {
+      expect(output[i + 2]).toBeCloseTo(
+        filter.weights.reduce((a, b) => a + b, 0),
+        5,
+      );
+    });
+  });
+});
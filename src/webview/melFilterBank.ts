@@ -0,0 +1,132 @@
+// formula of the mel scale, librosa uses slaney by default and torchaudio uses htk
+export enum MelScale {
+  Slaney = 0,
+  Htk = 1,
+}
+
+// normalization of the filters, slaney divides each triangle by its width in Hz (librosa default)
+export enum MelNorm {
+  None = 0,
+  Slaney = 1,
+}
+
+export interface MelFilterBankOptions {
+  sampleRate: number;
+  windowSize: number;
+  numFilters: number;
+  // edges of the first and the last filter, in Hz
+  minFrequency: number;
+  maxFrequency: number;
+  melScale: MelScale;
+  melNorm: MelNorm;
+}
+
+// weights of the fft bins from startIndex, a filter covers only a few bins
+export interface MelFilter {
+  startIndex: number;
+  weights: Float32Array;
+}
+
+// slaney scale is linear below 1000 Hz and logarithmic above
+const slaneyHzPerMel = 200 / 3;
+const slaneyMinLogHz = 1000;
+const slaneyMinLogMel = slaneyMinLogHz / slaneyHzPerMel;
+const slaneyLogStep = Math.log(6.4) / 27;
+
+export function hzToMel(hz: number, melScale: MelScale) {
+  if (melScale === MelScale.Htk) {
+    return 2595 * Math.log10(1 + hz / 700);
+  }
+  if (hz < slaneyMinLogHz) {
+    return hz / slaneyHzPerMel;
+  }
+  return slaneyMinLogMel + Math.log(hz / slaneyMinLogHz) / slaneyLogStep;
+}
+
+export function melToHz(mel: number, melScale: MelScale) {
+  if (melScale === MelScale.Htk) {
+    return 700 * (Math.pow(10, mel / 2595) - 1);
+  }
+  if (mel < slaneyMinLogMel) {
+    return mel * slaneyHzPerMel;
+  }
+  return slaneyMinLogHz * Math.exp(slaneyLogStep * (mel - slaneyMinLogMel));
+}
+
+/*
+Triangular filters over the windowSize / 2 + 1 bins of the power spectrum,
+computed like librosa.filters.mel and torchaudio.functional.melscale_fbanks:
+the corners are equally spaced in mel, and the weight of a bin is read from the triangle at its frequency.
+*/
+export function createMelFilterBank(
+  options: MelFilterBankOptions,
+): MelFilter[] {
+  const { sampleRate, windowSize, numFilters, melScale } = options;
+  const numBins = windowSize / 2 + 1;
+  const minMel = hzToMel(options.minFrequency, melScale);
+  const maxMel = hzToMel(options.maxFrequency, melScale);
+  const corners: number[] = [];
+  for (let i = 0; i < numFilters + 2; i++) {
+    corners.push(
+      melToHz(minMel + ((maxMel - minMel) * i) / (numFilters + 1), melScale),
+    );
+  }
+
+  const filterBank: MelFilter[] = [];
+  for (let i = 0; i < numFilters; i++) {
+    const [lower, center, upper] = corners.slice(i, i + 3);
+    const scale = options.melNorm === MelNorm.Slaney ? 2 / (upper - lower) : 1;
+    // bins inside the triangle, a filter narrower than a bin has no weights
+    const startIndex = Math.max(
+      Math.ceil((lower * windowSize) / sampleRate),
+      0,
+    );
+    const endIndex = Math.min(
+      Math.floor((upper * windowSize) / sampleRate),
+      numBins - 1,
+    );
+    const weights = new Float32Array(Math.max(endIndex - startIndex + 1, 0));
+    for (let j = 0; j < weights.length; j++) {
+      const frequency = ((startIndex + j) * sampleRate) / windowSize;
+      const rising = (frequency - lower) / (center - lower);
+      const falling = (upper - frequency) / (upper - center);
+      weights[j] = Math.max(0, Math.min(rising, falling)) * scale;
+    }
+    filterBank.push({ startIndex, weights });
+  }
+  return filterBank;
+}
+
+// the filter bank of the last options, as every chunk and channel of a spectrogram uses the same one
+let cachedOptions: MelFilterBankOptions | undefined;
+let cachedFilterBank: MelFilter[] = [];
+
+export function getMelFilterBank(options: MelFilterBankOptions): MelFilter[] {
+  const isCached =
+    cachedOptions !== undefined &&
+    (Object.keys(options) as (keyof MelFilterBankOptions)[]).every(
+      (key) => cachedOptions[key] === options[key],
+    );
+  if (!isCached) {
+    cachedOptions = { ...options };
+    cachedFilterBank = createMelFilterBank(options);
+  }
+  return cachedFilterBank;
+}
+
+// sum of the weighted power of the bins of each filter
+export function applyMelFilterBank(
+  filterBank: MelFilter[],
+  spectrum: Float32Array,
+  output: Float32Array,
+  offset: number,
+) {
+  for (let i = 0; i < filterBank.length; i++) {
+    const { startIndex, weights } = filterBank[i];
+    let sum = 0;
+    for (let j = 0; j < weights.length; j++) {
+      sum += spectrum[startIndex + j] * weights[j];
+    }
+    output[offset + i] = sum;
+  }
+}
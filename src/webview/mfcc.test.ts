@@ -0,0 +1,30 @@
+import { computeMfcc } from "./mfcc";
+
+describe("computeMfcc", () => {
+  test("flat log mel power has only the 0th coefficient", () => {
+    // 10 dB in every filter
+    const melPower = new Float32Array(40).fill(10);
+    const output = new Float32Array(20);
+    computeMfcc(melPower, 20, output, 0);
+    expect(output[0]).toBeCloseTo(10 * Math.sqrt(40), 4);
+    for (let k = 1; k < 20; k++) {
+      expect(output[k]).toBeCloseTo(0, 4);
+    }
+  });
+
+  test("orthonormal dct keeps the energy of the log mel power", () => {
+    const melPower = new Float32Array(16).map((_, i) => 1 + ((i * 7) % 5));
+    const output = new Float32Array(16 + 2);
+    computeMfcc(melPower, 16, output, 2);
+    const energy = (values: ArrayLike<number>) =>
+      Array.from(values).reduce((a, v) => a + v * v, 0);
+    const logPower = melPower.map((p) => 10 * Math.log10(p));
+    expect(energy(output.subarray(2))).toBeCloseTo(energy(logPower), 2);
+  });
+
+  test("silence is clamped before the log", () => {
+    const output = new Float32Array(4);
+    computeMfcc(new Float32Array(8), 4, output, 0);
+    expect(output[0]).toBeCloseTo(-100 * Math.sqrt(8), 3);
+  });
+});
@@ -0,0 +1,49 @@
+// smallest power before the log, amin of librosa.power_to_db
+const minPower = 1e-10;
+
+let cachedSize: [number, number] | undefined;
+let cachedDct: Float32Array[] = [];
+
+/*
+Rows of the orthonormal DCT-II, which librosa and torchaudio apply to the log mel power.
+Only the first numCoefficients rows are needed.
+*/
+function getDctMatrix(numCoefficients: number, numFilters: number) {
+  if (cachedSize?.[0] === numCoefficients && cachedSize[1] === numFilters) {
+    return cachedDct;
+  }
+  cachedSize = [numCoefficients, numFilters];
+  cachedDct = [];
+  for (let k = 0; k < numCoefficients; k++) {
+    const row = new Float32Array(numFilters);
+    const scale = Math.sqrt((k === 0 ? 1 : 2) / numFilters);
+    for (let n = 0; n < numFilters; n++) {
+      row[n] = scale * Math.cos((Math.PI * k * (2 * n + 1)) / (2 * numFilters));
+    }
+    cachedDct.push(row);
+  }
+  return cachedDct;
+}
+
+/*
+MFCC of a frame from the power of its mel filters, in dB like librosa.feature.mfcc.
+The top_db clipping of librosa depends on the max of the whole spectrogram,
+so it is not applied, which only differs for bins 80 dB below the max.
+*/
+export function computeMfcc(
+  melPower: Float32Array,
+  numCoefficients: number,
+  output: Float32Array,
+  offset: number,
+) {
+  const dct = getDctMatrix(numCoefficients, melPower.length);
+  const logPower = melPower.map((p) => 10 * Math.log10(Math.max(p, minPower)));
+  for (let k = 0; k < numCoefficients; k++) {
+    const row = dct[k];
+    let sum = 0;
+    for (let n = 0; n < logPower.length; n++) {
+      sum += row[n] * logPower[n];
+    }
+    output[offset + k] = sum;
+  }
+}
@@ -0,0 +1,74 @@
+import PeakPyramid from "./peakPyramid";
+
+// peaks computed from the samples of each column
+function getExpectedPeaks(
+  data: Float32Array,
+  startIndex: number,
+  endIndex: number,
+  numColumns: number,
+) {
+  const step = (endIndex - startIndex) / numColumns;
+  const min: number[] = [];
+  const max: number[] = [];
+  for (let c = 0; c < numColumns; c++) {
+    const column = data.subarray(
+      Math.floor(startIndex + c * step),
+      Math.ceil(startIndex + (c + 1) * step),
+    );
+    min.push(Math.min(...column));
+    max.push(Math.max(...column));
+  }
+  return { min, max };
+}
+
+describe("peakPyramid", () => {
+  const data = new Float32Array(100000);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.sin(i / 50) * Math.sin(i / 7000);
+  }
+  data[12345] = 1;
+  data[67890] = -1;
+  const pyramid = new PeakPyramid(data);
+
+  test("levels until a single block", () => {
+    // 391, 98, 25, 7, 2, 1 blocks
+    expect(pyramid.numLevels).toBe(6);
+  });
+
+  test("peaks of a level contain the peaks of the columns", () => {
+    const peaks = pyramid.getPeaks(0, data.length, 100);
+    const expected = getExpectedPeaks(data, 0, data.length, 100);
+    for (let c = 0; c < 100; c++) {
+      expect(peaks.min[c]).toBeLessThanOrEqual(expected.min[c]);
+      expect(peaks.max[c]).toBeGreaterThanOrEqual(expected.max[c]);
+      expect(peaks.rms[c]).toBeLessThanOrEqual(
+        Math.max(peaks.max[c], -peaks.min[c]),
+      );
+    }
+    // single sample peaks are not lost
+    expect(peaks.max[12]).toBe(1);
+    expect(peaks.min[67]).toBe(-1);
+  });
+
+  test("peaks of a short range are read from the samples", () => {
+    const peaks = pyramid.getPeaks(12300, 12400, 50);
+    const expected = getExpectedPeaks(data, 12300, 12400, 50);
+    expect(Array.from(peaks.min)).toEqual(expected.min);
+    expect(Array.from(peaks.max)).toEqual(expected.max);
+    expect(peaks.max[22]).toBe(1);
+  });
+
+  test("rms of a block", () => {
+    const square = new Float32Array(2048).map((_, i) => (i % 2 ? 0.5 : -0.5));
+    const peaks = new PeakPyramid(square).getPeaks(0, 2048, 2);
+    expect(Array.from(peaks.rms)).toEqual([0.5, 0.5]);
+    expect(Array.from(peaks.min)).toEqual([-0.5, -0.5]);
+  });
+
+  test("columns out of the samples are empty", () => {
+    const peaks = pyramid.getPeaks(99000, 103000, 2);
+    expect(peaks.max[0]).toBeGreaterThan(0);
+    expect(Array.from(peaks.max.subarray(1))).toEqual([0]);
+    expect(pyramid.getSamples(99990, 101000).length).toBe(10);
+  });
+});
@@ -0,0 +1,166 @@
+export interface Peaks {
+  min: Float32Array;
+  max: Float32Array;
+  rms: Float32Array;
+}
+
+interface PeakLevel {
+  blockSize: number;
+  min: Float32Array;
+  max: Float32Array;
+  // sum of squared samples, rms of merged blocks can not be computed from their rms
+  sumSquares: Float64Array;
+}
+
+/*
+Min, max and sum of squares of blocks of samples, each level merges blocks of the level below.
+Drawing a range reads the coarsest level which still has a block per pixel,
+so the cost depends on the width of the figure instead of the length of the range.
+It is not persisted, as the samples have to be decoded for playback anyway and building is fast.
+*/
+export default class PeakPyramid {
+  public static readonly BASE_BLOCK_SIZE = 256;
+  public static readonly LEVEL_FACTOR = 4;
+
+  private _channelData: Float32Array;
+  private _levels: PeakLevel[] = [];
+
+  constructor(channelData: Float32Array) {
+    this._channelData = channelData;
+    let level = this.buildBaseLevel();
+    this._levels.push(level);
+    while (level.min.length > 1) {
+      level = this.mergeLevel(level);
+      this._levels.push(level);
+    }
+  }
+
+  public get numLevels(): number {
+    return this._levels.length;
+  }
+
+  // raw samples, to draw a range which is shorter than a few samples per pixel
+  public getSamples(startIndex: number, endIndex: number): Float32Array {
+    return this._channelData.subarray(
+      Math.max(startIndex, 0),
+      Math.max(endIndex, 0),
+    );
+  }
+
+  // peaks of numColumns columns splitting the samples from startIndex to endIndex
+  public getPeaks(
+    startIndex: number,
+    endIndex: number,
+    numColumns: number,
+  ): Peaks {
+    const peaks: Peaks = {
+      min: new Float32Array(numColumns),
+      max: new Float32Array(numColumns),
+      rms: new Float32Array(numColumns),
+    };
+    const samplesPerColumn = (endIndex - startIndex) / numColumns;
+    const level = this.findLevel(samplesPerColumn);
+    const blockSize = level?.blockSize ?? 1;
+    const numBlocks = level ? level.min.length : this._channelData.length;
+
+    for (let c = 0; c < numColumns; c++) {
+      const a = Math.floor((startIndex + c * samplesPerColumn) / blockSize);
+      const b = Math.ceil(
+        (startIndex + (c + 1) * samplesPerColumn) / blockSize,
+      );
+      const first = Math.max(a, 0);
+      const last = Math.min(Math.max(b, a + 1), numBlocks);
+      if (first >= last) {
+        continue;
+      }
+
+      let min = Infinity;
+      let max = -Infinity;
+      let sumSquares = 0;
+      for (let i = first; i < last; i++) {
+        if (level) {
+          min = Math.min(min, level.min[i]);
+          max = Math.max(max, level.max[i]);
+          sumSquares += level.sumSquares[i];
+        } else {
+          const v = this._channelData[i];
+          min = Math.min(min, v);
+          max = Math.max(max, v);
+          sumSquares += v * v;
+        }
+      }
+      const numSamples =
+        Math.min(last * blockSize, this._channelData.length) -
+        first * blockSize;
+      peaks.min[c] = min;
+      peaks.max[c] = max;
+      peaks.rms[c] = Math.sqrt(sumSquares / numSamples);
+    }
+    return peaks;
+  }
+
+  // undefined if a column has fewer samples than a block, read the samples then
+  private findLevel(samplesPerColumn: number): PeakLevel | undefined {
+    let found: PeakLevel;
+    for (const level of this._levels) {
+      if (level.blockSize > samplesPerColumn) {
+        break;
+      }
+      found = level;
+    }
+    return found;
+  }
+
+  private buildBaseLevel(): PeakLevel {
+    const blockSize = PeakPyramid.BASE_BLOCK_SIZE;
+    const data = this._channelData;
+    const numBlocks = Math.max(Math.ceil(data.length / blockSize), 1);
+    const level = this.createLevel(blockSize, numBlocks);
+    for (let i = 0; i < numBlocks; i++) {
+      let min = Infinity;
+      let max = -Infinity;
+      let sumSquares = 0;
+      const end = Math.min((i + 1) * blockSize, data.length);
+      for (let j = i * blockSize; j < end; j++) {
+        min = Math.min(min, data[j]);
+        max = Math.max(max, data[j]);
+        sumSquares += data[j] * data[j];
+      }
+      // empty audio
+      level.min[i] = end > i * blockSize ? min : 0;
+      level.max[i] = end > i * blockSize ? max : 0;
+      level.sumSquares[i] = sumSquares;
+    }
+    return level;
+  }
+
+  private mergeLevel(lower: PeakLevel): PeakLevel {
+    const factor = PeakPyramid.LEVEL_FACTOR;
+    const numBlocks = Math.ceil(lower.min.length / factor);
+    const level = this.createLevel(lower.blockSize * factor, numBlocks);
+    for (let i = 0; i < numBlocks; i++) {
+      let min = Infinity;
+      let max = -Infinity;
+      let sumSquares = 0;
+      const end = Math.min((i + 1) * factor, lower.min.length);
+      for (let j = i * factor; j < end; j++) {
+        min = Math.min(min, lower.min[j]);
+        max = Math.max(max, lower.max[j]);
+        sumSquares += lower.sumSquares[j];
+      }
+      level.min[i] = min;
+      level.max[i] = max;
+      level.sumSquares[i] = sumSquares;
+    }
+    return level;
+  }
+
+  private createLevel(blockSize: number, numBlocks: number): PeakLevel {
+    return {
+      blockSize,
+      min: new Float32Array(numBlocks),
+      max: new Float32Array(numBlocks),
+      sumSquares: new Float64Array(numBlocks),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  createPitchTrack,
+  getPitchAt,
+  PitchOptions,
+  pitchTracksToCsv,
+  trackPitch,
+} from "./pitch";
+
+const sampleRate = 16000;
+const options: PitchOptions = { sampleRate, minF0: 75, maxF0: 600 };
+
+// harmonics of f0 with decaying amplitudes, like a voiced sound
+function createVoice(f0: (t: number) => number, length: number) {
+  const data = new Float32Array(length);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    phase += (2 * Math.PI * f0(i / sampleRate)) / sampleRate;
+    for (let h = 1; h <= 5; h++) {
+      data[i] += (0.5 / h) * Math.sin(h * phase);
+    }
+  }
+  return data;
+}
+
+function track(data: Float32Array) {
+  const pitchTrack = createPitchTrack(data.length, sampleRate);
+  trackPitch(data, options, pitchTrack, 0, pitchTrack.f0.length);
+  return pitchTrack;
+}
+
+describe("trackPitch", () => {
+  test("frames are 10 ms", () => {
+    const pitchTrack = createPitchTrack(sampleRate, sampleRate);
+    expect(pitchTrack.hopSize).toBe(160);
+    expect(pitchTrack.f0.length).toBe(100);
+  });
+
+  test("f0 of a harmonic sound", () => {
+    const pitchTrack = track(createVoice(() => 220, sampleRate / 2));
+    // frames whose window is inside the sound
+    for (let i = 5; i < 45; i++) {
+      expect(pitchTrack.voiced[i]).toBe(1);
+      expect(pitchTrack.f0[i]).toBeCloseTo(220, 0);
+    }
+  });
+
+  test("f0 follows a glide", () => {
+    const f0 = (t: number) => 150 + 200 * t;
+    const pitchTrack = track(createVoice(f0, sampleRate));
+    for (let i = 10; i < 90; i += 10) {
+      expect(pitchTrack.voiced[i]).toBe(1);
+      expect(Math.abs(pitchTrack.f0[i] - f0(i / 100))).toBeLessThan(2);
+    }
+  });
+
+  test("silence and noise are unvoiced", () => {
+    const data = new Float32Array(sampleRate);
+    let seed = 1;
+    for (let i = sampleRate / 2; i < sampleRate; i++) {
+      seed = (seed * 16807) % 2147483647;
+      data[i] = seed / 2147483647 - 0.5;
+    }
+    const pitchTrack = track(data);
+    expect(pitchTrack.voiced.slice(0, 45).every((v) => v === 0)).toBe(true);
+    const numVoiced = pitchTrack.voiced.slice(55).filter((v) => v).length;
+    expect(numVoiced).toBeLessThan(5);
+  });
+
+  test("only the requested frames are computed", () => {
+    const data = createVoice(() => 220, sampleRate / 2);
+    const pitchTrack = createPitchTrack(data.length, sampleRate);
+    trackPitch(data, options, pitchTrack, 20, 10);
+    expect(pitchTrack.voiced[19]).toBe(0);
+    expect(pitchTrack.voiced[20]).toBe(1);
+    expect(pitchTrack.voiced[29]).toBe(1);
+    expect(pitchTrack.voiced[30]).toBe(0);
+  });
+});
+
+describe("getPitchAt", () => {
+  test("f0 of the nearest frame, undefined if unvoiced", () => {
+    const pitchTrack = createPitchTrack(1600, sampleRate);
+    pitchTrack.f0.set([0, 100, 200]);
+    pitchTrack.voiced.set([0, 1, 1]);
+    expect(getPitchAt(pitchTrack, 0)).toBeUndefined();
+    expect(getPitchAt(pitchTrack, 0.012)).toBe(100);
+    expect(getPitchAt(pitchTrack, 0.018)).toBe(200);
+    expect(getPitchAt(pitchTrack, 1)).toBeUndefined();
+  });
+});
+
+describe("pitchTracksToCsv", () => {
+  test("a row per frame, f0 is empty for unvoiced frames", () => {
+    const pitchTrack = createPitchTrack(480, sampleRate);
+    pitchTrack.f0.set([50, 120.456, 0]);
+    pitchTrack.voiced.set([0, 1, 0]);
+    expect(pitchTracksToCsv([pitchTrack])).toBe(
+      "time,f0,voiced\n0.000,,0\n0.010,120.46,1\n0.020,,0\n",
+    );
+  });
+
+  test("columns of each channel are numbered", () => {
+    const left = createPitchTrack(160, sampleRate);
+    const right = createPitchTrack(160, sampleRate);
+    right.f0[0] = 200;
+    right.voiced[0] = 1;
+    expect(pitchTracksToCsv([left, right])).toBe(
+      "time,f0_1,voiced_1,f0_2,voiced_2\n0.000,,0,200.00,1\n",
+    );
+  });
+});
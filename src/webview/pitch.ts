@@ -0,0 +1,188 @@
+import Ooura from "ooura";
+
+export interface PitchOptions {
+  sampleRate: number;
+  // search range of F0 in Hz
+  minF0: number;
+  maxF0: number;
+}
+
+// F0 of each frame, frame i is centered at sample i * hopSize
+export interface PitchTrack {
+  sampleRate: number;
+  hopSize: number;
+  // estimate of each frame in Hz, also kept for unvoiced frames
+  f0: Float32Array;
+  // 1 for voiced frames
+  voiced: Uint8Array;
+}
+
+// 10 ms frames like Praat and pYIN
+const pitchHopSec = 0.01;
+// threshold of the cumulative mean normalized difference, 0.1 ~ 0.15 in the YIN paper
+const yinThreshold = 0.15;
+// frames quieter than -60 dBFS are unvoiced
+const minFramePower = 1e-6;
+
+export function createPitchTrack(
+  length: number,
+  sampleRate: number,
+): PitchTrack {
+  const hopSize = Math.max(Math.round(pitchHopSec * sampleRate), 1);
+  const numFrames = Math.ceil(length / hopSize);
+  return {
+    sampleRate,
+    hopSize,
+    f0: new Float32Array(numFrames),
+    voiced: new Uint8Array(numFrames),
+  };
+}
+
+// lags of the periods in the F0 range, in samples
+function getLagRange(options: PitchOptions): [number, number] {
+  const maxLag = Math.ceil(options.sampleRate / options.minF0);
+  const minLag = Math.min(
+    Math.max(Math.floor(options.sampleRate / options.maxF0), 2),
+    maxLag - 1,
+  );
+  return [minLag, maxLag];
+}
+
+/*
+Estimate F0 of numFrames frames from startFrame with YIN (de Cheveigné and Kawahara, 2002).
+The difference function of each frame is computed from its autocorrelation by FFT,
+over a window as long as the longest period.
+*/
+export function trackPitch(
+  data: Float32Array,
+  options: PitchOptions,
+  track: PitchTrack,
+  startFrame: number,
+  numFrames: number,
+) {
+  const [minLag, maxLag] = getLagRange(options);
+  const windowLength = maxLag;
+  const frameLength = windowLength + maxLag + 1;
+  let fftSize = 2;
+  while (fftSize < frameLength) {
+    fftSize *= 2;
+  }
+
+  const ooura = new Ooura(fftSize, { type: "real", radix: 4 });
+  const window = ooura.scalarArrayFactory();
+  const frame = ooura.scalarArrayFactory();
+  const correlation = ooura.scalarArrayFactory();
+  const wRe = ooura.vectorArrayFactory();
+  const wIm = ooura.vectorArrayFactory();
+  const fRe = ooura.vectorArrayFactory();
+  const fIm = ooura.vectorArrayFactory();
+  const re = ooura.vectorArrayFactory();
+  const im = ooura.vectorArrayFactory();
+  // energy of the samples from 0 to j, for the energy of the window shifted by each lag
+  const energy = new Float64Array(frameLength + 1);
+  const difference = new Float64Array(maxLag + 2);
+
+  const endFrame = Math.min(startFrame + numFrames, track.f0.length);
+  for (let i = startFrame; i < endFrame; i++) {
+    const start = i * track.hopSize - Math.floor(frameLength / 2);
+    frame.fill(0);
+    window.fill(0);
+    for (let j = 0; j < frameLength; j++) {
+      const k = start + j;
+      const v = k >= 0 && k < data.length ? data[k] : 0;
+      frame[j] = v;
+      energy[j + 1] = energy[j] + v * v;
+      if (j < windowLength) {
+        window[j] = v;
+      }
+    }
+    if (energy[windowLength] / windowLength < minFramePower) {
+      track.f0[i] = 0;
+      track.voiced[i] = 0;
+      continue;
+    }
+
+    // correlation of the window with the frame shifted by each lag
+    ooura.fft(window.buffer, wRe.buffer, wIm.buffer);
+    ooura.fft(frame.buffer, fRe.buffer, fIm.buffer);
+    for (let k = 0; k < re.length; k++) {
+      re[k] = wRe[k] * fRe[k] + wIm[k] * fIm[k];
+      im[k] = wRe[k] * fIm[k] - wIm[k] * fRe[k];
+    }
+    ooura.ifft(correlation.buffer, re.buffer, im.buffer);
+
+    // cumulative mean normalized difference
+    difference[0] = 1;
+    let sum = 0;
+    for (let lag = 1; lag <= maxLag + 1; lag++) {
+      const d =
+        energy[windowLength] +
+        energy[lag + windowLength] -
+        energy[lag] -
+        2 * correlation[lag];
+      sum += d;
+      difference[lag] = sum > 0 ? (d * lag) / sum : 1;
+    }
+
+    // first dip below the threshold, or the lowest one if none
+    let bestLag = minLag;
+    let isVoiced = false;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (difference[lag] < yinThreshold) {
+        while (lag < maxLag && difference[lag + 1] < difference[lag]) {
+          lag++;
+        }
+        bestLag = lag;
+        isVoiced = true;
+        break;
+      }
+      if (difference[lag] < difference[bestLag]) {
+        bestLag = lag;
+      }
+    }
+
+    // parabolic interpolation between the lags around the dip
+    const prev = difference[bestLag - 1];
+    const next = difference[bestLag + 1];
+    const curvature = prev - 2 * difference[bestLag] + next;
+    const shift =
+      curvature > 0 && bestLag > minLag && bestLag < maxLag
+        ? (prev - next) / (2 * curvature)
+        : 0;
+    track.f0[i] = options.sampleRate / (bestLag + shift);
+    track.voiced[i] = isVoiced ? 1 : 0;
+  }
+}
+
+// F0 at time (seconds), undefined if the nearest frame is unvoiced
+export function getPitchAt(track: PitchTrack, time: number) {
+  const i = Math.round((time * track.sampleRate) / track.hopSize);
+  if (i < 0 || i >= track.f0.length || !track.voiced[i]) {
+    return undefined;
+  }
+  return track.f0[i];
+}
+
+/*
+Frames of the tracks as CSV, a row per frame with the time in seconds.
+F0 is empty for unvoiced frames, and the columns of each channel are numbered if there are several.
+*/
+export function pitchTracksToCsv(tracks: PitchTrack[]): string {
+  const header = ["time"];
+  tracks.forEach((_, ch) => {
+    const suffix = tracks.length > 1 ? `_${ch + 1}` : "";
+    header.push(`f0${suffix}`, `voiced${suffix}`);
+  });
+  const lines = [header.join(",")];
+  const numFrames = tracks[0]?.f0.length ?? 0;
+  for (let i = 0; i < numFrames; i++) {
+    const { sampleRate, hopSize } = tracks[0];
+    const row = [((i * hopSize) / sampleRate).toFixed(3)];
+    for (const track of tracks) {
+      const isVoiced = track.voiced[i] === 1;
+      row.push(isVoiced ? track.f0[i].toFixed(2) : "", isVoiced ? "1" : "0");
+    }
+    lines.push(row.join(","));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -1,5 +1,6 @@
 import { EventType } from "../events";
 import { ExtMessageType, WebviewMessageType } from "../../message";
+import { calculateCer, calculateWer } from "../../errorRate";
 
 declare const postMessage: (message: any) => void;
 
@@ -55,8 +56,8 @@ export default class ActiveLearningService extends EventTarget {
                     this._cerResults[model] = [];
                 }
 
-                const wer = this.calculateWER(reference, hypothesis);
-                const cer = this.calculateCER(reference, hypothesis);
+                const wer = calculateWer(reference, hypothesis);
+                const cer = calculateCer(reference, hypothesis);
 
                 this._werResults[model].push({ file: audioFile, wer });
                 this._cerResults[model].push({ file: audioFile, cer });
@@ -69,46 +70,4 @@ export default class ActiveLearningService extends EventTarget {
             this._cerResults[model].sort((a, b) => b.cer - a.cer);
         }
     }
-
-    private calculateWER(ref: string, hyp: string): number {
-        const refWords = ref.split(' ').filter(w => w.length > 0);
-        const hypWords = hyp.split(' ').filter(w => w.length > 0);
-        const d = this.levenshteinDistance(refWords, hypWords);
-        return d / refWords.length;
-    }
-
-    private calculateCER(ref: string, hyp: string): number {
-        const refChars = Array.from(ref.replace(/\s/g, ''));
-        const hypChars = Array.from(hyp.replace(/\s/g, ''));
-        const d = this.levenshteinDistance(refChars, hypChars);
-        return d / refChars.length;
-    }
-
-    private levenshteinDistance<T>(a: T[], b: T[]): number {
-        const matrix = [];
-
-        for (let i = 0; i <= b.length; i++) {
-            matrix[i] = [i];
-        }
-
-        for (let j = 0; j <= a.length; j++) {
-            matrix[0][j] = j;
-        }
-
-        for (let i = 1; i <= b.length; i++) {
-            for (let j = 1; j <= a.length; j++) {
-                if (b[i - 1] === a[j - 1]) {
-                    matrix[i][j] = matrix[i - 1][j - 1];
-                } else {
-                    matrix[i][j] = Math.min(
-                        matrix[i - 1][j - 1] + 1,
-                        matrix[i][j - 1] + 1,
-                        matrix[i - 1][j] + 1
-                    );
-                }
-            }
-        }
-
-        return matrix[b.length][a.length];
-    }
 }
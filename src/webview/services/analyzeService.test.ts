@@ -1,5 +1,52 @@
 import { MockAudioBuffer } from "../../__mocks__/helper";
-import AnalyzeService from "./analyzeService";
+import {
+  computeSpectrogramFrames,
+  getSpectrogramParams,
+  SpectrogramType,
+} from "../spectrogram";
+import SpectrogramWorkerPool from "../spectrogramWorkerPool";
+import AnalyzeService, { SpectrogramChunk } from "./analyzeService";
+import { MelNorm, MelScale } from "../melFilterBank";
+import { WindowFunction } from "../windowFunction";
+import { AnalyzeSettingsProps } from "./analyzeSettingsService";
+
+const settings: AnalyzeSettingsProps = {
+  waveformVerticalScale: 1,
+  spectrogramVerticalScale: 1,
+  windowSize: 256,
+  hopSize: 64,
+  minFrequency: 0,
+  maxFrequency: 4000,
+  minTime: 0,
+  maxTime: 1,
+  minAmplitude: -1,
+  maxAmplitude: 1,
+  spectrogramAmplitudeRange: -90,
+  spectrogramType: SpectrogramType.Stft,
+  frequencyScale: 0,
+  melFilterNum: 40,
+  mfccNum: 20,
+  melScale: MelScale.Slaney,
+  melNorm: MelNorm.Slaney,
+  windowFunction: WindowFunction.Hann,
+  kaiserBeta: 8.6,
+  gaussianSigma: 0.4,
+  pitchVisible: false,
+  minF0: 75,
+  maxF0: 600,
+  formantVisible: false,
+  maxFormant: 5500,
+  numFormants: 5,
+  formantWindowLength: 0.025,
+};
+
+function createAudioBuffer() {
+  const audioBuffer = new MockAudioBuffer(1, 8000, 8000);
+  for (let i = 0; i < 8000; i++) {
+    audioBuffer.data[0][i] = Math.sin(i / 10) * (i / 8000);
+  }
+  return audioBuffer as unknown as AudioBuffer;
+}
 
 describe("analyzeService", () => {
   test("roundToNearestNiceNumber", () => {
@@ -42,4 +89,104 @@ describe("analyzeService", () => {
     spy.mockReset();
     spy.mockRestore();
   });
+
+  test("computeSpectrogram computes every frame in chunks", async () => {
+    const audioBuffer = createAudioBuffer();
+    const analyzeService = new AnalyzeService(audioBuffer);
+    const chunks: SpectrogramChunk[] = [];
+    const task = analyzeService.computeSpectrogram(0, settings, true, (c) =>
+      chunks.push(c),
+    );
+    expect(task.numFrames).toBe(125);
+    expect(await task.done).toBe(true);
+
+    expect(chunks.map((c) => [c.startFrame, c.numFrames])).toEqual([
+      [0, 64],
+      [64, 61],
+    ]);
+    const params = getSpectrogramParams(settings, 8000, true);
+    expect(chunks[1].numBins).toBe(40);
+    expect(chunks[1].power).toEqual(
+      computeSpectrogramFrames(
+        params,
+        audioBuffer.getChannelData(0),
+        0,
+        64,
+        61,
+      ),
+    );
+    // the max is the running max of the chunks
+    expect(chunks[1].maxValue).toBeGreaterThanOrEqual(chunks[0].maxValue);
+  });
+
+  test("computeSpectrogram can be cancelled", async () => {
+    const analyzeService = new AnalyzeService(createAudioBuffer());
+    const onChunk = jest.fn();
+    const task = analyzeService.computeSpectrogram(0, settings, false, onChunk);
+    task.cancel();
+    expect(await task.done).toBe(false);
+    expect(onChunk).not.toHaveBeenCalled();
+  });
+
+  test("computeSpectrogram uses the worker pool", async () => {
+    const audioBuffer = createAudioBuffer();
+    const pool = new SpectrogramWorkerPool(async () => undefined);
+    const run = jest
+      .spyOn(pool, "run")
+      .mockImplementation(async (taskId, request) =>
+        computeSpectrogramFrames(
+          request.params,
+          request.data,
+          request.dataOffset,
+          request.startFrame,
+          request.numFrames,
+        ),
+      );
+    const analyzeService = new AnalyzeService(audioBuffer, pool);
+    const chunks: SpectrogramChunk[] = [];
+    const task = analyzeService.computeSpectrogram(0, settings, false, (c) =>
+      chunks.push(c),
+    );
+    expect(await task.done).toBe(true);
+    expect(run).toHaveBeenCalledTimes(2);
+    // only the samples of the chunk are sent
+    expect(run.mock.calls[0][1].dataOffset).toBe(0);
+    expect(run.mock.calls[0][1].data.length).toBe(4160);
+    expect(run.mock.calls[1][1].dataOffset).toBe(3968);
+    expect(chunks.length).toBe(2);
+  });
+
+  test("computeSpectrogram falls back to the main thread", async () => {
+    const pool = new SpectrogramWorkerPool(async () => {
+      throw new Error("blocked");
+    });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const analyzeService = new AnalyzeService(createAudioBuffer(), pool);
+    const onChunk = jest.fn();
+    const task = analyzeService.computeSpectrogram(0, settings, false, onChunk);
+    expect(await task.done).toBe(true);
+    expect(onChunk).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  test("peak pyramid of each channel is built once", () => {
+    const analyzeService = new AnalyzeService(createAudioBuffer());
+    const pyramid = analyzeService.getPeakPyramid(0);
+    expect(analyzeService.getPeakPyramid(0)).toBe(pyramid);
+    expect(pyramid.getPeaks(0, 8000, 10).max[9]).toBeGreaterThan(0.8);
+  });
+
+  test("audio stats are measured once, and not after disposal", async () => {
+    const audioBuffer = createAudioBuffer();
+    const analyzeService = new AnalyzeService(audioBuffer);
+    const stats = await analyzeService.getAudioStats();
+    expect(stats.channels.length).toBe(audioBuffer.numberOfChannels);
+    expect(stats.channels[0].peak).toBeGreaterThan(0.8);
+    expect(analyzeService.getAudioStats()).toBe(analyzeService.getAudioStats());
+
+    const disposed = new AnalyzeService(createAudioBuffer());
+    const promise = disposed.getAudioStats();
+    disposed.dispose();
+    expect(await promise).toBeUndefined();
+  });
 });
@@ -1,14 +1,97 @@
-import Ooura from "ooura";
 import { EventType } from "../events";
 import { AnalyzeSettingsProps } from "./analyzeSettingsService";
 import Service from "../service";
+import {
+  computeSpectrogramFrames,
+  getFrameSampleRange,
+  getMaxAbsValue,
+  getMaxPower,
+  getNumBins,
+  getSpectrogramParams,
+  SpectrogramParams,
+  SpectrogramType,
+} from "../spectrogram";
+import { hzToMel, melToHz, MelScale } from "../melFilterBank";
+import SpectrogramWorkerPool from "../spectrogramWorkerPool";
+import PeakPyramid from "../peakPyramid";
+import {
+  createPitchTrack,
+  PitchTrack,
+  pitchTracksToCsv,
+  trackPitch,
+} from "../pitch";
+import {
+  createFormantTrack,
+  FormantOptions,
+  FormantTrack,
+  trackFormants,
+} from "../formant";
+import {
+  AudioStats,
+  createAudioStatsMeter,
+  getAudioStats,
+  measureAudioStats,
+} from "../audioStats";
+
+export interface SpectrogramChunk {
+  startFrame: number;
+  numFrames: number;
+  numBins: number;
+  // power of each bin, numFrames * numBins values in frame order
+  power: Float32Array;
+  // max power of the chunks computed so far
+  maxValue: number;
+}
+
+export interface SpectrogramTask {
+  numFrames: number;
+  done: Promise<boolean>;
+  cancel(): void;
+}
+
+// frames computed by a job, small enough to show the progress
+const spectrogramChunkFrames = 64;
+// pitch and formant frames computed between yields to the UI, 5 seconds
+const trackChunkFrames = 500;
+// seconds of samples measured between yields to the UI
+const statsChunkSec = 10;
+
+// pitch track of a channel for an F0 range
+interface PitchTrackEntry {
+  minF0: number;
+  maxF0: number;
+  track: Promise<PitchTrack | undefined>;
+}
+
+// formant track of a channel for the LPC settings
+interface FormantTrackEntry {
+  maxFormant: number;
+  numFormants: number;
+  windowLength: number;
+  track: Promise<FormantTrack | undefined>;
+}
 
 export default class AnalyzeService extends Service {
-  private _audioBuffer: AudioBuffer;
+  // unique across services sharing a worker pool
+  private static _nextTaskId = 0;
 
-  constructor(audioBuffer: AudioBuffer) {
+  private _audioBuffer: AudioBuffer;
+  private _spectrogramWorkerPool: SpectrogramWorkerPool | undefined;
+  // built on the first draw of each channel, then reused by every zoom and pan
+  private _peakPyramids: PeakPyramid[] = [];
+  // computed on the first request of each channel, then reused until the F0 range changes
+  private _pitchTracks: PitchTrackEntry[] = [];
+  private _formantTracks: FormantTrackEntry[] = [];
+  private _audioStats: Promise<AudioStats | undefined> | undefined;
+  private _isAnalyzeScheduled = false;
+
+  constructor(
+    audioBuffer: AudioBuffer,
+    spectrogramWorkerPool?: SpectrogramWorkerPool,
+  ) {
     super();
     this._audioBuffer = audioBuffer;
+    this._spectrogramWorkerPool = spectrogramWorkerPool;
   }
 
   // round input value to the nearest nice number, which has the most significant digit of 1, 2, 5
@@ -64,214 +147,294 @@ export default class AnalyzeService extends Service {
     }
   }
 
-  public analyze() {
-    this.dispatchEvent(new CustomEvent(EventType.ANALYZE));
+  // color of a signed value in -1 ~ 1, blue for negative and orange for positive
+  public getDivergingColor(value: number): string {
+    const v = Math.min(Math.max(value, -1), 1);
+    if (v < 0) {
+      return `rgb(0,${Math.floor(-v * 120)},${Math.floor(-v * 255)})`;
+    }
+    return `rgb(${Math.floor(v * 255)},${Math.floor(v * 130)},0)`;
   }
 
-  public getSpectrogram(ch: number, settings: AnalyzeSettingsProps) {
-    const data = this._audioBuffer.getChannelData(ch);
-    const sampleRate = this._audioBuffer.sampleRate;
-
-    const windowSize = settings.windowSize;
-    const window = new Float32Array(windowSize);
-    for (let i = 0; i < windowSize; i++) {
-      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / windowSize);
+  public getPeakPyramid(ch: number): PeakPyramid {
+    if (!this._peakPyramids[ch]) {
+      this._peakPyramids[ch] = new PeakPyramid(
+        this._audioBuffer.getChannelData(ch),
+      );
     }
+    return this._peakPyramids[ch];
+  }
 
-    const startIndex = Math.floor(settings.minTime * sampleRate);
-    const endIndex = Math.floor(settings.maxTime * sampleRate);
-
-    const df = sampleRate / settings.windowSize;
-    const minFreqIndex = Math.floor(settings.minFrequency / df);
-    const maxFreqIndex = Math.floor(settings.maxFrequency / df);
-
-    const ooura = new Ooura(windowSize, { type: "real", radix: 4 });
-
-    let maxValue = Number.EPSILON;
+  /*
+  F0 track of the whole channel, so that zooming, the readout and the export share it.
+  It is computed on the main thread in chunks, and resolves to undefined if another F0 range
+  is requested for the channel before it is done.
+  */
+  public getPitchTrack(
+    ch: number,
+    minF0: number,
+    maxF0: number,
+  ): Promise<PitchTrack | undefined> {
+    const cached = this._pitchTracks[ch];
+    if (cached?.minF0 === minF0 && cached.maxF0 === maxF0) {
+      return cached.track;
+    }
+    const entry: PitchTrackEntry = { minF0, maxF0, track: undefined };
+    entry.track = this.computePitchTrack(
+      ch,
+      minF0,
+      maxF0,
+      () => this._isDisposed || this._pitchTracks[ch] !== entry,
+    );
+    this._pitchTracks[ch] = entry;
+    return entry.track;
+  }
 
-    const spectrogram: number[][] = [];
-    for (let i = startIndex; i < endIndex; i += settings.hopSize) {
-      // i is center of the window
-      const s = i - windowSize / 2,
-        t = i + windowSize / 2;
-      const ss = s > 0 ? s : 0,
-        tt = t < data.length ? t : data.length;
-      const d = ooura.scalarArrayFactory();
-      for (let j = 0; j < d.length; j++) {
-        if (s + j < ss) {
-          continue;
-        }
-        if (tt < s + j) {
-          continue;
-        }
-        d[j] = data[s + j] * window[j];
-      }
+  private async computePitchTrack(
+    ch: number,
+    minF0: number,
+    maxF0: number,
+    isCancelled: () => boolean,
+  ): Promise<PitchTrack | undefined> {
+    const data = this._audioBuffer.getChannelData(ch);
+    const options = { sampleRate: this._audioBuffer.sampleRate, minF0, maxF0 };
+    const track = createPitchTrack(data.length, options.sampleRate);
+    const isDone = await this.runInChunks(
+      track.f0.length,
+      trackChunkFrames,
+      isCancelled,
+      (startFrame, numFrames) =>
+        trackPitch(data, options, track, startFrame, numFrames),
+    );
+    return isDone ? track : undefined;
+  }
 
-      const re = ooura.vectorArrayFactory();
-      const im = ooura.vectorArrayFactory();
-      ooura.fft(d.buffer, re.buffer, im.buffer);
-
-      const ps: number[] = [];
-      for (let j = minFreqIndex; j < maxFreqIndex; j++) {
-        const v = re[j] * re[j] + im[j] * im[j];
-        ps.push(v);
-        if (maxValue < v) {
-          maxValue = v;
-        }
+  // compute length items in chunks, yielding to the UI before each; false if cancelled
+  private async runInChunks(
+    length: number,
+    chunkSize: number,
+    isCancelled: () => boolean,
+    compute: (start: number, length: number) => void,
+  ): Promise<boolean> {
+    for (let i = 0; i < length; i += chunkSize) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (isCancelled()) {
+        return false;
       }
-
-      spectrogram.push(ps);
+      compute(i, chunkSize);
     }
+    return true;
+  }
 
-    for (let i = 0; i < spectrogram.length; i++) {
-      for (let j = 0; j < spectrogram[i].length; j++) {
-        spectrogram[i][j] = 10 * Math.log10(spectrogram[i][j] / maxValue);
+  // pitch tracks of all channels as CSV
+  public async getPitchCsv(minF0: number, maxF0: number): Promise<string> {
+    const tracks: PitchTrack[] = [];
+    for (let ch = 0; ch < this._audioBuffer.numberOfChannels; ch++) {
+      const track = await this.getPitchTrack(ch, minF0, maxF0);
+      if (track) {
+        tracks.push(track);
       }
     }
-
-    return spectrogram;
+    return pitchTracksToCsv(tracks);
   }
 
-  public getMelSpectrogram(ch: number, settings: AnalyzeSettingsProps) {
-    const data = this._audioBuffer.getChannelData(ch);
-    const sampleRate = this._audioBuffer.sampleRate;
-
-    const windowSize = settings.windowSize;
-    const window = new Float32Array(windowSize);
-    for (let i = 0; i < windowSize; i++) {
-      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / windowSize);
+  // formant track of the whole channel, computed and cancelled like the pitch track
+  public getFormantTrack(
+    ch: number,
+    maxFormant: number,
+    numFormants: number,
+    windowLength: number,
+  ): Promise<FormantTrack | undefined> {
+    const cached = this._formantTracks[ch];
+    if (
+      cached?.maxFormant === maxFormant &&
+      cached.numFormants === numFormants &&
+      cached.windowLength === windowLength
+    ) {
+      return cached.track;
     }
+    const entry: FormantTrackEntry = {
+      maxFormant,
+      numFormants,
+      windowLength,
+      track: undefined,
+    };
+    const options: FormantOptions = {
+      sampleRate: this._audioBuffer.sampleRate,
+      maxFormant,
+      numFormants,
+      windowLength,
+    };
+    entry.track = this.computeFormantTrack(
+      ch,
+      options,
+      () => this._isDisposed || this._formantTracks[ch] !== entry,
+    );
+    this._formantTracks[ch] = entry;
+    return entry.track;
+  }
 
-    const startIndex = Math.floor(settings.minTime * sampleRate);
-    const endIndex = Math.floor(settings.maxTime * sampleRate);
-
-    const df = sampleRate / settings.windowSize;
-    const minFreqIndex = Math.floor(
-      AnalyzeService.hzToMel(settings.minFrequency) / df,
+  private async computeFormantTrack(
+    ch: number,
+    options: FormantOptions,
+    isCancelled: () => boolean,
+  ): Promise<FormantTrack | undefined> {
+    const data = this._audioBuffer.getChannelData(ch);
+    const track = createFormantTrack(
+      data.length,
+      options.sampleRate,
+      options.numFormants,
     );
-    const maxFreqIndex = Math.floor(
-      AnalyzeService.hzToMel(settings.maxFrequency) / df,
+    const isDone = await this.runInChunks(
+      track.frequencies.length / options.numFormants,
+      trackChunkFrames,
+      isCancelled,
+      (startFrame, numFrames) =>
+        trackFormants(data, options, track, startFrame, numFrames),
     );
+    return isDone ? track : undefined;
+  }
 
-    const ooura = new Ooura(windowSize, { type: "real", radix: 4 });
-
-    const spectrogram: number[][] = [];
-    for (let i = startIndex; i < endIndex; i += settings.hopSize) {
-      // i is center of the window
-      const s = i - windowSize / 2,
-        t = i + windowSize / 2;
-      const ss = s > 0 ? s : 0,
-        tt = t < data.length ? t : data.length;
-
-      const d = ooura.scalarArrayFactory();
-      for (let j = 0; j < d.length; j++) {
-        if (s + j < ss) {
-          continue;
-        }
-        if (tt < s + j) {
-          continue;
-        }
-        d[j] = data[s + j] * window[j];
-      }
-
-      const re = ooura.vectorArrayFactory();
-      const im = ooura.vectorArrayFactory();
-      ooura.fft(d.buffer, re.buffer, im.buffer);
+  // loudness, levels and clipping of the whole audio, undefined if disposed before they are measured
+  public getAudioStats(): Promise<AudioStats | undefined> {
+    if (!this._audioStats) {
+      this._audioStats = this.computeAudioStats();
+    }
+    return this._audioStats;
+  }
 
-      const spectrum: number[] = [];
-      for (let j = 0; j < re.length; j++) {
-        spectrum.push(re[j] * re[j] + im[j] * im[j]);
-      }
+  private async computeAudioStats(): Promise<AudioStats | undefined> {
+    const { length, numberOfChannels, sampleRate } = this._audioBuffer;
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      channels.push(this._audioBuffer.getChannelData(ch));
+    }
+    const meter = createAudioStatsMeter(length, numberOfChannels, sampleRate);
+    const isDone = await this.runInChunks(
+      length,
+      Math.round(statsChunkSec * sampleRate),
+      () => this._isDisposed,
+      (start, chunkLength) =>
+        measureAudioStats(meter, channels, start, start + chunkLength),
+    );
+    return isDone ? getAudioStats(meter) : undefined;
+  }
 
-      // Apply mel filter bank to the spectrum
-      const melSpectrum = this.applyMelFilterBank(
-        settings.melFilterNum,
-        spectrum,
-        sampleRate,
-        minFreqIndex,
-        maxFreqIndex,
-      );
+  public analyze() {
+    this.dispatchEvent(new CustomEvent(EventType.ANALYZE));
+  }
 
-      spectrogram.push(melSpectrum);
+  // coalesce the updates of continuous gestures, like wheel zoom, into one analysis per frame
+  public analyzeOnNextFrame() {
+    if (this._isAnalyzeScheduled) {
+      return;
     }
+    this._isAnalyzeScheduled = true;
+    requestAnimationFrame(() => {
+      this._isAnalyzeScheduled = false;
+      this.analyze();
+    });
+  }
 
+  /*
+  Compute the spectrogram of a channel in chunks of frames, onChunk is called as each chunk is ready.
+  Chunks are computed in the worker pool if available, and may arrive out of order.
+  done resolves to false if the task is cancelled.
+  */
+  public computeSpectrogram(
+    ch: number,
+    settings: AnalyzeSettingsProps,
+    isMel: boolean,
+    onChunk: (chunk: SpectrogramChunk) => void,
+  ): SpectrogramTask {
+    const data = this._audioBuffer.getChannelData(ch);
+    const params = getSpectrogramParams(
+      settings,
+      this._audioBuffer.sampleRate,
+      isMel,
+    );
+    const numBins = getNumBins(params);
+    const getMaxValue =
+      params.spectrogramType === SpectrogramType.Mfcc
+        ? getMaxAbsValue
+        : getMaxPower;
+    const taskId = AnalyzeService._nextTaskId++;
+    let isCancelled = false;
     let maxValue = Number.EPSILON;
-    for (let i = 0; i < spectrogram.length; i++) {
-      for (let j = 0; j < spectrogram[i].length; j++) {
-        if (maxValue < spectrogram[i][j]) {
-          maxValue = spectrogram[i][j];
-        }
-      }
-    }
 
-    for (let i = 0; i < spectrogram.length; i++) {
-      for (let j = 0; j < spectrogram[i].length; j++) {
-        spectrogram[i][j] = 10 * Math.log10(spectrogram[i][j] / maxValue);
+    const computeChunk = async (startFrame: number, numFrames: number) => {
+      const power = await this.computeFrames(
+        taskId,
+        params,
+        data,
+        startFrame,
+        numFrames,
+        () => isCancelled,
+      );
+      if (isCancelled || !power) {
+        return;
       }
+      maxValue = Math.max(maxValue, getMaxValue(power));
+      onChunk({ startFrame, numFrames, numBins, power, maxValue });
+    };
+
+    const chunks: Promise<void>[] = [];
+    for (let i = 0; i < params.numFrames; i += spectrogramChunkFrames) {
+      chunks.push(
+        computeChunk(i, Math.min(spectrogramChunkFrames, params.numFrames - i)),
+      );
     }
-
-    return spectrogram;
+    return {
+      numFrames: params.numFrames,
+      done: Promise.all(chunks).then(() => !isCancelled),
+      cancel: () => {
+        isCancelled = true;
+        this._spectrogramWorkerPool?.cancel(taskId);
+      },
+    };
   }
 
-  private applyMelFilterBank(
-    numFilters: number,
-    spectrum: number[],
-    sampleRate: number,
-    minFreqIndex: number,
-    maxFreqIndex: number,
-  ) {
-    const minMel = AnalyzeService.hzToMel(
-      (minFreqIndex * sampleRate) / spectrum.length,
-    );
-    const maxMel = AnalyzeService.hzToMel(
-      (maxFreqIndex * sampleRate) / spectrum.length,
-    );
-    const melStep = (maxMel - minMel) / (numFilters + 1);
-
-    const filterBank: number[][] = [];
-    for (let i = 0; i < numFilters; i++) {
-      const filter: number[] = [];
-      const startMel = minMel + i * melStep;
-      const centerMel = minMel + (i + 1) * melStep;
-      const endMel = minMel + (i + 2) * melStep;
-      const startIndex = Math.round(
-        (AnalyzeService.melToHz(startMel) * spectrum.length) / sampleRate,
-      );
-      const centerIndex = Math.round(
-        (AnalyzeService.melToHz(centerMel) * spectrum.length) / sampleRate,
+  private async computeFrames(
+    taskId: number,
+    params: SpectrogramParams,
+    data: Float32Array,
+    startFrame: number,
+    numFrames: number,
+    isCancelled: () => boolean,
+  ): Promise<Float32Array | undefined> {
+    if (this._spectrogramWorkerPool) {
+      const [start, end] = getFrameSampleRange(
+        params,
+        startFrame,
+        numFrames,
+        data.length,
       );
-      const endIndex = Math.round(
-        (AnalyzeService.melToHz(endMel) * spectrum.length) / sampleRate,
-      );
-      for (let j = 0; j < spectrum.length; j++) {
-        if (j < startIndex || j > endIndex) {
-          filter.push(0);
-        } else if (j < centerIndex) {
-          filter.push((j - startIndex) / (centerIndex - startIndex));
-        } else {
-          filter.push((endIndex - j) / (endIndex - centerIndex));
-        }
+      try {
+        // the copy of the samples is transferred to the worker
+        return await this._spectrogramWorkerPool.run(taskId, {
+          params,
+          data: data.slice(start, end),
+          dataOffset: start,
+          startFrame,
+          numFrames,
+        });
+      } catch (error) {
+        console.warn("spectrogram worker failed, use main thread", error);
       }
-      filterBank.push(filter);
     }
-
-    const melSpectrum: number[] = [];
-    for (let i = 0; i < numFilters; i++) {
-      let sum = 0;
-      for (let j = 0; j < spectrum.length; j++) {
-        sum += spectrum[j] * filterBank[i][j];
-      }
-      melSpectrum.push(sum);
+    // on the main thread, yield between chunks so that the computed columns are drawn
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (isCancelled()) {
+      return undefined;
     }
-
-    return melSpectrum;
+    return computeSpectrogramFrames(params, data, 0, startFrame, numFrames);
   }
 
-  public static hzToMel(hz: number) {
-    return 2595 * Math.log10(1 + hz / 700);
+  public static hzToMel(hz: number, melScale: MelScale) {
+    return hzToMel(hz, melScale);
   }
 
-  public static melToHz(mel: number) {
-    return 700 * (Math.pow(10, mel / 2595) - 1);
+  public static melToHz(mel: number, melScale: MelScale) {
+    return melToHz(mel, melScale);
   }
 }
@@ -8,9 +8,12 @@ import {
 import { EventType } from "../events";
 import { AnalyzeDefault } from "../../config";
 import AnalyzeSettingsService, {
-  FrequencyScale,
+  FollowPlayhead,
   WindowSizeIndex,
 } from "./analyzeSettingsService";
+import { FrequencyScale, SpectrogramType } from "../spectrogram";
+import { WindowFunction } from "../windowFunction";
+import { MelNorm, MelScale } from "../melFilterBank";
 
 describe("analyzeSettingsService", () => {
   let defaultSettings: AnalyzeDefault;
@@ -257,6 +260,153 @@ describe("analyzeSettingsService", () => {
     expect(detail.value).toBe(as.melFilterNum);
   });
 
+  // spectrogramType and mfccNum
+  test("spectrogramType should be stft if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.spectrogramType).toBe(SpectrogramType.Stft);
+    expect(as.mfccNum).toBe(20);
+  });
+  test("spectrogramType should be converted from the default value", () => {
+    defaultSettings.spectrogramType = "cqt";
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.spectrogramType).toBe(SpectrogramType.ConstantQ);
+    expect(as.toProps().spectrogramType).toBe(SpectrogramType.ConstantQ);
+  });
+  test("AS_UpdateSpectrogramType event should be sent", async () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    const detail = await waitEventForAction(
+      () => {
+        as.spectrogramType = SpectrogramType.Chroma;
+      },
+      as,
+      EventType.AS_UPDATE_SPECTROGRAM_TYPE,
+    );
+    expect(detail.value).toBe(SpectrogramType.Chroma);
+  });
+  test("mfccNum should be limited to the number of mel filters", () => {
+    defaultSettings.melFilterNum = 30;
+    defaultSettings.mfccNum = 40;
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.mfccNum).toBe(30);
+    as.mfccNum = 0;
+    expect(as.mfccNum).toBe(1);
+  });
+
+  // melScale and melNorm
+  test("mel scale and norm should be the librosa defaults if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.melScale).toBe(MelScale.Slaney);
+    expect(as.melNorm).toBe(MelNorm.Slaney);
+  });
+  test("mel scale and norm should be converted from the default value", () => {
+    defaultSettings.melScale = "htk";
+    defaultSettings.melNorm = "none";
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.melScale).toBe(MelScale.Htk);
+    expect(as.melNorm).toBe(MelNorm.None);
+    expect(as.toProps().melScale).toBe(MelScale.Htk);
+  });
+  test("AS_UpdateMelScale event should be sent", async () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    const detail = await waitEventForAction(
+      () => {
+        as.melScale = MelScale.Htk;
+      },
+      as,
+      EventType.AS_UPDATE_MEL_SCALE,
+    );
+    expect(detail.value).toBe(MelScale.Htk);
+  });
+
+  // windowFunction
+  test("windowFunction should be hann if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.windowFunction).toBe(WindowFunction.Hann);
+    expect(as.toProps().windowFunction).toBe(WindowFunction.Hann);
+  });
+  test("windowFunction should be converted from the default value", () => {
+    defaultSettings.windowFunction = "flattop";
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.windowFunction).toBe(WindowFunction.FlatTop);
+  });
+  test("AS_UpdateWindowFunction event should be sent", async () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    const detail = await waitEventForAction(
+      () => {
+        as.windowFunction = WindowFunction.Kaiser;
+      },
+      as,
+      EventType.AS_UPDATE_WINDOW_FUNCTION,
+    );
+    expect(detail.value).toBe(WindowFunction.Kaiser);
+  });
+
+  // kaiserBeta and gaussianSigma
+  test("window parameters should be the defaults if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.kaiserBeta).toBe(AnalyzeSettingsService.KAISER_BETA_DEFAULT);
+    expect(as.gaussianSigma).toBe(
+      AnalyzeSettingsService.GAUSSIAN_SIGMA_DEFAULT,
+    );
+  });
+  test("window parameters should be clamped to their range", () => {
+    defaultSettings.kaiserBeta = 100;
+    defaultSettings.gaussianSigma = 0;
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.kaiserBeta).toBe(AnalyzeSettingsService.KAISER_BETA_MAX);
+    expect(as.gaussianSigma).toBe(AnalyzeSettingsService.GAUSSIAN_SIGMA_MIN);
+  });
+  test("AS_UpdateKaiserBeta event should be sent", async () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    const detail = await waitEventForAction(
+      () => {
+        as.kaiserBeta = 5;
+      },
+      as,
+      EventType.AS_UPDATE_KAISER_BETA,
+    );
+    expect(detail.value).toBe(5);
+  });
+
   // minFrequency
   test("minFrequency should be 0 if no default value is provided", () => {
     const as = AnalyzeSettingsService.fromDefaultSetting(
@@ -586,4 +736,221 @@ describe("analyzeSettingsService", () => {
     expect(as.minFrequency).toBe(0);
     expect(as.maxFrequency).toBeCloseTo(audioBuffer.sampleRate / 2);
   });
+
+  test("time range should be moved within the duration by setTimeRange", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    as.setTimeRange(0.1, 0.3);
+    expect(as.minTime).toBeCloseTo(0.1);
+    expect(as.maxTime).toBeCloseTo(0.3);
+    // moving the range past the current maxTime keeps its width
+    as.setTimeRange(0.5, 0.7);
+    expect(as.minTime).toBeCloseTo(0.5);
+    expect(as.maxTime).toBeCloseTo(0.7);
+    as.setTimeRange(0.9, 1.1);
+    expect(as.minTime).toBeCloseTo(0.8);
+    expect(as.maxTime).toBeCloseTo(1);
+    as.setTimeRange(-0.5, 2);
+    expect(as.minTime).toBe(0);
+    expect(as.maxTime).toBeCloseTo(1);
+  });
+
+  test("settings should be kept and the time range moved into the new audio by setAudioBuffer", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    as.waveformVisible = false;
+    as.setTimeRange(0.6, 0.9);
+    const shorter = new MockAudioBuffer(1, 22050, 44100);
+    shorter.data[0][0] = 0.5;
+    as.setAudioBuffer(shorter as unknown as AudioBuffer);
+    expect(as.waveformVisible).toBe(false);
+    expect(as.maxAmplitudeOfAudioBuffer).toBeCloseTo(0.5);
+    expect(as.minTime).toBeCloseTo(0.2);
+    expect(as.maxTime).toBeCloseTo(0.5);
+  });
+
+  test("time range should be zoomed around the center by zoomTimeRange", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    as.zoomTimeRange(0.25, 0.5);
+    expect(as.minTime).toBeCloseTo(0.125);
+    expect(as.maxTime).toBeCloseTo(0.625);
+    as.zoomTimeRange(0.25, 4);
+    expect(as.minTime).toBe(0);
+    expect(as.maxTime).toBeCloseTo(1);
+    // narrowest range is 64 samples
+    as.zoomTimeRange(0.5, 1e-6);
+    expect(as.maxTime - as.minTime).toBeCloseTo(64 / 44100);
+  });
+
+  test("time range should be moved by panTimeRange", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    as.setTimeRange(0.2, 0.4);
+    as.panTimeRange(0.1);
+    expect(as.minTime).toBeCloseTo(0.3);
+    expect(as.maxTime).toBeCloseTo(0.5);
+    as.panTimeRange(-1);
+    expect(as.minTime).toBe(0);
+    expect(as.maxTime).toBeCloseTo(0.2);
+  });
+
+  test("followPlayhead should be off if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.followPlayhead).toBe(FollowPlayhead.Off);
+    as.setTimeRange(0, 0.2);
+    expect(as.followPlayheadAt(0.5)).toBe(false);
+    expect(as.minTime).toBe(0);
+  });
+
+  test("time range should be paged by followPlayheadAt", () => {
+    defaultSettings.followPlayhead = "page";
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.followPlayhead).toBe(FollowPlayhead.Page);
+    as.setTimeRange(0, 0.2);
+    expect(as.followPlayheadAt(0.1)).toBe(false);
+    expect(as.followPlayheadAt(0.21)).toBe(true);
+    expect(as.minTime).toBeCloseTo(0.2);
+    expect(as.maxTime).toBeCloseTo(0.4);
+    // seeked out of the next page
+    expect(as.followPlayheadAt(0.75)).toBe(true);
+    expect(as.minTime).toBeCloseTo(0.75);
+    expect(as.maxTime).toBeCloseTo(0.95);
+    // the last page ends at the end of the audio
+    expect(as.followPlayheadAt(0.96)).toBe(true);
+    expect(as.minTime).toBeCloseTo(0.8);
+    expect(as.maxTime).toBeCloseTo(1);
+  });
+
+  test("time range should be scrolled by followPlayheadAt", () => {
+    defaultSettings.followPlayhead = "scroll";
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    as.setTimeRange(0, 0.2);
+    expect(as.followPlayheadAt(0.05)).toBe(false);
+    expect(as.followPlayheadAt(0.3)).toBe(true);
+    expect(as.minTime).toBeCloseTo(0.2);
+    expect(as.maxTime).toBeCloseTo(0.4);
+    as.followPlayheadAt(0.95);
+    expect(as.minTime).toBeCloseTo(0.8);
+  });
+
+  // pitch
+  test("pitch should be hidden with the default F0 range if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.pitchVisible).toBe(false);
+    expect(as.minF0).toBe(AnalyzeSettingsService.MIN_F0_DEFAULT);
+    expect(as.maxF0).toBe(AnalyzeSettingsService.MAX_F0_DEFAULT);
+  });
+  test("F0 range should be default value if it is in the valid range", () => {
+    defaultSettings.pitchVisible = true;
+    defaultSettings.minF0 = 50;
+    defaultSettings.maxF0 = 1000;
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.pitchVisible).toBe(true);
+    expect(as.toProps().minF0).toBe(50);
+    expect(as.toProps().maxF0).toBe(1000);
+  });
+  test("F0 range should be reset if it is invalid", () => {
+    defaultSettings.minF0 = 10;
+    defaultSettings.maxF0 = 5000;
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.minF0).toBe(AnalyzeSettingsService.MIN_F0_DEFAULT);
+    expect(as.maxF0).toBe(AnalyzeSettingsService.MAX_F0_DEFAULT);
+    as.maxF0 = 50;
+    expect(as.minF0).toBe(AnalyzeSettingsService.MIN_F0_DEFAULT);
+    expect(as.maxF0).toBe(AnalyzeSettingsService.MAX_F0_DEFAULT);
+  });
+  test("AS_UpdateMinF0 event should be sent", async () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    const detail = await waitEventForAction(
+      () => {
+        as.minF0 = 100;
+      },
+      as,
+      EventType.AS_UPDATE_MIN_F0,
+    );
+    expect(detail.value).toBe(100);
+  });
+
+  // formants
+  test("formants should be hidden with the default LPC settings if no default value is provided", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.formantVisible).toBe(false);
+    expect(as.maxFormant).toBe(AnalyzeSettingsService.MAX_FORMANT_DEFAULT);
+    expect(as.numFormants).toBe(AnalyzeSettingsService.NUM_FORMANTS_DEFAULT);
+    expect(as.formantWindowLength).toBe(
+      AnalyzeSettingsService.FORMANT_WINDOW_LENGTH_DEFAULT,
+    );
+  });
+  test("formant settings should be limited to the valid range", () => {
+    defaultSettings.formantVisible = true;
+    defaultSettings.maxFormant = 30000;
+    defaultSettings.numFormants = 3.7;
+    defaultSettings.formantWindowLength = 1;
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(as.formantVisible).toBe(true);
+    expect(as.toProps().maxFormant).toBe(22050);
+    expect(as.toProps().numFormants).toBe(3);
+    expect(as.toProps().formantWindowLength).toBe(
+      AnalyzeSettingsService.FORMANT_WINDOW_LENGTH_MAX,
+    );
+    as.numFormants = 20;
+    expect(as.numFormants).toBe(AnalyzeSettingsService.NUM_FORMANTS_MAX);
+  });
+  test("default max formant should not exceed the nyquist frequency", () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      new MockAudioBuffer(1, 8000, 8000) as unknown as AudioBuffer,
+    );
+    expect(as.maxFormant).toBe(4000);
+  });
+  test("AS_UpdateMaxFormant event should be sent", async () => {
+    const as = AnalyzeSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    const detail = await waitEventForAction(
+      () => {
+        as.maxFormant = 5000;
+      },
+      as,
+      EventType.AS_UPDATE_MAX_FORMANT,
+    );
+    expect(detail.value).toBe(5000);
+  });
 });
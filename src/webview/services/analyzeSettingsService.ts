@@ -1,7 +1,15 @@
 import { EventType } from "../events";
 import { AnalyzeDefault } from "../../config";
-import { getRangeValues, getValueInEnum, getValueInRange } from "../../util";
+import {
+  getLimitedValueInRange,
+  getRangeValues,
+  getValueInEnum,
+  getValueInRange,
+} from "../../util";
 import Service from "../service";
+import { WindowFunction } from "../windowFunction";
+import { MelNorm, MelScale } from "../melFilterBank";
+import { FrequencyScale, SpectrogramType } from "../spectrogram";
 
 export enum WindowSizeIndex {
   W256 = 0,
@@ -14,10 +22,13 @@ export enum WindowSizeIndex {
   W32768 = 7,
 }
 
-export enum FrequencyScale {
-  Linear = 0,
-  Log = 1,
-  Mel = 2,
+// how the time range moves with the playhead during playback
+export enum FollowPlayhead {
+  Off = 0,
+  // show the next page when the playhead passes the end
+  Page = 1,
+  // keep the playhead at the center
+  Scroll = 2,
 }
 
 export interface AnalyzeSettingsProps {
@@ -32,10 +43,27 @@ export interface AnalyzeSettingsProps {
   minAmplitude: number;
   maxAmplitude: number;
   spectrogramAmplitudeRange: number;
+  spectrogramType: SpectrogramType;
   frequencyScale: number;
   melFilterNum: number;
+  mfccNum: number;
+  melScale: MelScale;
+  melNorm: MelNorm;
+  windowFunction: WindowFunction;
+  kaiserBeta: number;
+  gaussianSigma: number;
+  pitchVisible: boolean;
+  minF0: number;
+  maxF0: number;
+  formantVisible: boolean;
+  maxFormant: number;
+  numFormants: number;
+  formantWindowLength: number;
 }
 
+// narrowest time range of zoom, in samples
+const minTimeRangeSamples = 64;
+
 export default class AnalyzeSettingsService extends Service {
   public static readonly WAVEFORM_CANVAS_WIDTH = 1000;
   public static readonly WAVEFORM_CANVAS_HEIGHT = 200;
@@ -45,6 +73,22 @@ export default class AnalyzeSettingsService extends Service {
   public static readonly SPECTROGRAM_CANVAS_HEIGHT = 600;
   public static readonly SPECTROGRAM_CANVAS_VERTICAL_SCALE_MAX = 2.0;
   public static readonly SPECTROGRAM_CANVAS_VERTICAL_SCALE_MIN = 0.2;
+  public static readonly KAISER_BETA_MAX = 20;
+  public static readonly KAISER_BETA_DEFAULT = 8.6;
+  public static readonly GAUSSIAN_SIGMA_MIN = 0.05;
+  public static readonly GAUSSIAN_SIGMA_MAX = 1;
+  public static readonly GAUSSIAN_SIGMA_DEFAULT = 0.4;
+  public static readonly F0_MIN = 20;
+  public static readonly F0_MAX = 2000;
+  public static readonly MIN_F0_DEFAULT = 75;
+  public static readonly MAX_F0_DEFAULT = 600;
+  public static readonly MAX_FORMANT_MIN = 1000;
+  public static readonly MAX_FORMANT_DEFAULT = 5500;
+  public static readonly NUM_FORMANTS_MAX = 8;
+  public static readonly NUM_FORMANTS_DEFAULT = 5;
+  public static readonly FORMANT_WINDOW_LENGTH_MIN = 0.005;
+  public static readonly FORMANT_WINDOW_LENGTH_MAX = 0.1;
+  public static readonly FORMANT_WINDOW_LENGTH_DEFAULT = 0.025;
 
   private _sampleRate: number;
   private _duration: number;
@@ -301,6 +345,23 @@ export default class AnalyzeSettingsService extends Service {
     );
   }
 
+  private _spectrogramType: SpectrogramType;
+  public get spectrogramType() {
+    return this._spectrogramType;
+  }
+  public set spectrogramType(value: SpectrogramType) {
+    this._spectrogramType = getValueInEnum(
+      value,
+      SpectrogramType,
+      SpectrogramType.Stft,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_SPECTROGRAM_TYPE, {
+        detail: { value: this._spectrogramType },
+      }),
+    );
+  }
+
   private _frequencyScale: FrequencyScale;
   public get frequencyScale() {
     return this._frequencyScale;
@@ -332,6 +393,245 @@ export default class AnalyzeSettingsService extends Service {
     );
   }
 
+  private _mfccNum: number;
+  public get mfccNum() {
+    return this._mfccNum;
+  }
+  public set mfccNum(value: number) {
+    // at most one coefficient per mel filter
+    this._mfccNum = getLimitedValueInRange(
+      Math.trunc(value),
+      1,
+      this.melFilterNum,
+      20,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_MFCC_NUM, {
+        detail: { value: this._mfccNum },
+      }),
+    );
+  }
+
+  private _melScale: MelScale;
+  public get melScale() {
+    return this._melScale;
+  }
+  public set melScale(value: MelScale) {
+    this._melScale = getValueInEnum(value, MelScale, MelScale.Slaney);
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_MEL_SCALE, {
+        detail: { value: this._melScale },
+      }),
+    );
+  }
+
+  private _melNorm: MelNorm;
+  public get melNorm() {
+    return this._melNorm;
+  }
+  public set melNorm(value: MelNorm) {
+    this._melNorm = getValueInEnum(value, MelNorm, MelNorm.Slaney);
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_MEL_NORM, {
+        detail: { value: this._melNorm },
+      }),
+    );
+  }
+
+  private _windowFunction: WindowFunction;
+  public get windowFunction() {
+    return this._windowFunction;
+  }
+  public set windowFunction(value: WindowFunction) {
+    this._windowFunction = getValueInEnum(
+      value,
+      WindowFunction,
+      WindowFunction.Hann,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_WINDOW_FUNCTION, {
+        detail: { value: this._windowFunction },
+      }),
+    );
+  }
+
+  private _kaiserBeta: number;
+  public get kaiserBeta() {
+    return this._kaiserBeta;
+  }
+  public set kaiserBeta(value: number) {
+    this._kaiserBeta = getLimitedValueInRange(
+      value,
+      0,
+      AnalyzeSettingsService.KAISER_BETA_MAX,
+      AnalyzeSettingsService.KAISER_BETA_DEFAULT,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_KAISER_BETA, {
+        detail: { value: this._kaiserBeta },
+      }),
+    );
+  }
+
+  private _gaussianSigma: number;
+  public get gaussianSigma() {
+    return this._gaussianSigma;
+  }
+  public set gaussianSigma(value: number) {
+    this._gaussianSigma = getLimitedValueInRange(
+      value,
+      AnalyzeSettingsService.GAUSSIAN_SIGMA_MIN,
+      AnalyzeSettingsService.GAUSSIAN_SIGMA_MAX,
+      AnalyzeSettingsService.GAUSSIAN_SIGMA_DEFAULT,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_GAUSSIAN_SIGMA, {
+        detail: { value: this._gaussianSigma },
+      }),
+    );
+  }
+
+  private _followPlayhead: FollowPlayhead;
+  public get followPlayhead() {
+    return this._followPlayhead;
+  }
+  public set followPlayhead(value: FollowPlayhead) {
+    this._followPlayhead = getValueInEnum(
+      value,
+      FollowPlayhead,
+      FollowPlayhead.Off,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_FOLLOW_PLAYHEAD, {
+        detail: { value: this._followPlayhead },
+      }),
+    );
+  }
+
+  private _pitchVisible: boolean;
+  public get pitchVisible() {
+    return this._pitchVisible;
+  }
+  public set pitchVisible(value: boolean) {
+    this._pitchVisible = value === undefined ? false : value; // false by default
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_PITCH_VISIBLE, {
+        detail: { value: this._pitchVisible },
+      }),
+    );
+  }
+
+  private _minF0: number;
+  public get minF0() {
+    return this._minF0;
+  }
+  public set minF0(value: number) {
+    const [minF0] = getRangeValues(
+      value,
+      this.maxF0,
+      AnalyzeSettingsService.F0_MIN,
+      AnalyzeSettingsService.F0_MAX,
+      AnalyzeSettingsService.MIN_F0_DEFAULT,
+      AnalyzeSettingsService.MAX_F0_DEFAULT,
+    );
+    this._minF0 = minF0;
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_MIN_F0, {
+        detail: { value: this._minF0 },
+      }),
+    );
+  }
+
+  private _maxF0: number;
+  public get maxF0() {
+    return this._maxF0;
+  }
+  public set maxF0(value: number) {
+    const [, maxF0] = getRangeValues(
+      this.minF0,
+      value,
+      AnalyzeSettingsService.F0_MIN,
+      AnalyzeSettingsService.F0_MAX,
+      AnalyzeSettingsService.MIN_F0_DEFAULT,
+      AnalyzeSettingsService.MAX_F0_DEFAULT,
+    );
+    this._maxF0 = maxF0;
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_MAX_F0, {
+        detail: { value: this._maxF0 },
+      }),
+    );
+  }
+
+  private _formantVisible: boolean;
+  public get formantVisible() {
+    return this._formantVisible;
+  }
+  public set formantVisible(value: boolean) {
+    this._formantVisible = value === undefined ? false : value; // false by default
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_FORMANT_VISIBLE, {
+        detail: { value: this._formantVisible },
+      }),
+    );
+  }
+
+  private _maxFormant: number;
+  public get maxFormant() {
+    return this._maxFormant;
+  }
+  public set maxFormant(value: number) {
+    // the samples are resampled to twice the max formant, which cannot exceed the sample rate
+    const nyquist = this._sampleRate / 2;
+    this._maxFormant = getLimitedValueInRange(
+      value,
+      Math.min(AnalyzeSettingsService.MAX_FORMANT_MIN, nyquist),
+      nyquist,
+      Math.min(AnalyzeSettingsService.MAX_FORMANT_DEFAULT, nyquist),
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_MAX_FORMANT, {
+        detail: { value: this._maxFormant },
+      }),
+    );
+  }
+
+  private _numFormants: number;
+  public get numFormants() {
+    return this._numFormants;
+  }
+  public set numFormants(value: number) {
+    this._numFormants = getLimitedValueInRange(
+      Math.trunc(value),
+      1,
+      AnalyzeSettingsService.NUM_FORMANTS_MAX,
+      AnalyzeSettingsService.NUM_FORMANTS_DEFAULT,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_NUM_FORMANTS, {
+        detail: { value: this._numFormants },
+      }),
+    );
+  }
+
+  private _formantWindowLength: number;
+  public get formantWindowLength() {
+    return this._formantWindowLength;
+  }
+  public set formantWindowLength(value: number) {
+    this._formantWindowLength = getLimitedValueInRange(
+      value,
+      AnalyzeSettingsService.FORMANT_WINDOW_LENGTH_MIN,
+      AnalyzeSettingsService.FORMANT_WINDOW_LENGTH_MAX,
+      AnalyzeSettingsService.FORMANT_WINDOW_LENGTH_DEFAULT,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.AS_UPDATE_FORMANT_WINDOW_LENGTH, {
+        detail: { value: this._formantWindowLength },
+      }),
+    );
+  }
+
   private _defaultSetting: AnalyzeDefault;
 
   private constructor(
@@ -367,11 +667,7 @@ export default class AnalyzeSettingsService extends Service {
     this._spectrogramAmplitudeRange = spectrogramAmplitudeRange;
   }
 
-  public static fromDefaultSetting(
-    defaultSetting: AnalyzeDefault,
-    audioBuffer: AudioBuffer,
-  ) {
-    // calc min & max amplitude
+  private static getAmplitudeRange(audioBuffer: AudioBuffer) {
     let min = Number.POSITIVE_INFINITY,
       max = Number.NEGATIVE_INFINITY;
     for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
@@ -386,6 +682,15 @@ export default class AnalyzeSettingsService extends Service {
         }
       }
     }
+    return [min, max];
+  }
+
+  public static fromDefaultSetting(
+    defaultSetting: AnalyzeDefault,
+    audioBuffer: AudioBuffer,
+  ) {
+    // calc min & max amplitude
+    const [min, max] = AnalyzeSettingsService.getAmplitudeRange(audioBuffer);
 
     // create instance
     const setting = new AnalyzeSettingsService(
@@ -429,6 +734,23 @@ export default class AnalyzeSettingsService extends Service {
     // init fft window size
     setting.windowSizeIndex = defaultSetting.windowSizeIndex;
 
+    // init spectrogram type
+    const toSpectrogramType = (value: string): SpectrogramType => {
+      switch (value) {
+        case "cqt":
+          return SpectrogramType.ConstantQ;
+        case "mfcc":
+          return SpectrogramType.Mfcc;
+        case "chroma":
+          return SpectrogramType.Chroma;
+        case "reassigned":
+          return SpectrogramType.Reassigned;
+        default:
+          return SpectrogramType.Stft;
+      }
+    };
+    setting.spectrogramType = toSpectrogramType(defaultSetting.spectrogramType);
+
     // init frequency scale
     const toFrequencyScale = (
       value: "linear" | "log" | number,
@@ -450,6 +772,38 @@ export default class AnalyzeSettingsService extends Service {
     // init mel filter num
     setting.melFilterNum = defaultSetting.melFilterNum;
 
+    // init mfcc num
+    setting.mfccNum = defaultSetting.mfccNum;
+
+    // init mel scale and normalization, librosa defaults unless set
+    setting.melScale =
+      defaultSetting.melScale === "htk" ? MelScale.Htk : MelScale.Slaney;
+    setting.melNorm =
+      defaultSetting.melNorm === "none" ? MelNorm.None : MelNorm.Slaney;
+
+    // init window function
+    const toWindowFunction = (value: string): WindowFunction => {
+      switch (value) {
+        case "hamming":
+          return WindowFunction.Hamming;
+        case "blackman":
+          return WindowFunction.Blackman;
+        case "rectangular":
+          return WindowFunction.Rectangular;
+        case "kaiser":
+          return WindowFunction.Kaiser;
+        case "gaussian":
+          return WindowFunction.Gaussian;
+        case "flattop":
+          return WindowFunction.FlatTop;
+        default:
+          return WindowFunction.Hann;
+      }
+    };
+    setting.windowFunction = toWindowFunction(defaultSetting.windowFunction);
+    setting.kaiserBeta = defaultSetting.kaiserBeta;
+    setting.gaussianSigma = defaultSetting.gaussianSigma;
+
     // init default frequency
     setting.minFrequency = defaultSetting.minFrequency;
     setting.maxFrequency = defaultSetting.maxFrequency;
@@ -466,14 +820,103 @@ export default class AnalyzeSettingsService extends Service {
     setting.spectrogramAmplitudeRange =
       defaultSetting.spectrogramAmplitudeRange;
 
+    // init follow playhead
+    const toFollowPlayhead = (value: string): FollowPlayhead => {
+      switch (value) {
+        case "page":
+          return FollowPlayhead.Page;
+        case "scroll":
+          return FollowPlayhead.Scroll;
+        default:
+          return FollowPlayhead.Off;
+      }
+    };
+    setting.followPlayhead = toFollowPlayhead(defaultSetting.followPlayhead);
+
+    // init pitch
+    setting.pitchVisible = defaultSetting.pitchVisible;
+    setting.minF0 = defaultSetting.minF0;
+    setting.maxF0 = defaultSetting.maxF0;
+
+    // init formants
+    setting.formantVisible = defaultSetting.formantVisible;
+    setting.maxFormant = defaultSetting.maxFormant;
+    setting.numFormants = defaultSetting.numFormants;
+    setting.formantWindowLength = defaultSetting.formantWindowLength;
+
     return setting;
   }
 
+  /*
+  Replace the audio, e.g. after an edit or when the rest of the file is decoded.
+  The settings are kept, and the time range is moved within the new duration.
+  */
+  public setAudioBuffer(audioBuffer: AudioBuffer) {
+    [this._minAmplitudeOfAudioBuffer, this._maxAmplitudeOfAudioBuffer] =
+      AnalyzeSettingsService.getAmplitudeRange(audioBuffer);
+    this._duration = audioBuffer.duration;
+    this.setTimeRange(this.minTime, this.maxTime);
+  }
+
   public resetToDefaultTimeRange() {
     this.minTime = 0;
     this.maxTime = this._duration;
   }
 
+  // move the time range within the audio, its width is kept unless it is longer than the audio
+  public setTimeRange(minTime: number, maxTime: number) {
+    const width = Math.min(
+      Math.max(maxTime - minTime, minTimeRangeSamples / this._sampleRate),
+      this._duration,
+    );
+    const start = Math.min(Math.max(minTime, 0), this._duration - width);
+    // minTime must stay below maxTime while each of them is set
+    if (start > this.minTime) {
+      this.maxTime = start + width;
+      this.minTime = start;
+    } else {
+      this.minTime = start;
+      this.maxTime = start + width;
+    }
+  }
+
+  // zoom the time range by factor, keeping centerTime at the same position
+  public zoomTimeRange(centerTime: number, factor: number) {
+    const minTime = centerTime - (centerTime - this.minTime) * factor;
+    const maxTime = centerTime + (this.maxTime - centerTime) * factor;
+    this.setTimeRange(minTime, maxTime);
+  }
+
+  public panTimeRange(deltaTime: number) {
+    this.setTimeRange(this.minTime + deltaTime, this.maxTime + deltaTime);
+  }
+
+  // move the time range to show the playhead at sec, return true if the range has changed
+  public followPlayheadAt(sec: number): boolean {
+    const minTime = this.minTime;
+    const width = this.maxTime - minTime;
+    switch (this._followPlayhead) {
+      case FollowPlayhead.Page:
+        if (minTime <= sec && sec < this.maxTime) {
+          return false;
+        }
+        if (this.maxTime <= sec && sec < this.maxTime + width) {
+          // next page
+          this.setTimeRange(this.maxTime, this.maxTime + width);
+        } else {
+          // seeked out of the page
+          this.setTimeRange(sec, sec + width);
+        }
+        break;
+      case FollowPlayhead.Scroll:
+        this.setTimeRange(sec - width / 2, sec + width / 2);
+        break;
+      default:
+        return false;
+    }
+    return this.minTime !== minTime;
+  }
+
   public resetToDefaultAmplitudeRange() {
     this.minAmplitude = this._defaultSetting.minAmplitude;
     this.maxAmplitude = this._defaultSetting.maxAmplitude;
@@ -516,8 +959,22 @@ export default class AnalyzeSettingsService extends Service {
       minAmplitude: this.minAmplitude,
       maxAmplitude: this.maxAmplitude,
       spectrogramAmplitudeRange: this.spectrogramAmplitudeRange,
+      spectrogramType: this.spectrogramType,
       frequencyScale: this.frequencyScale,
       melFilterNum: this.melFilterNum,
+      mfccNum: this.mfccNum,
+      melScale: this.melScale,
+      melNorm: this.melNorm,
+      windowFunction: this.windowFunction,
+      kaiserBeta: this.kaiserBeta,
+      gaussianSigma: this.gaussianSigma,
+      pitchVisible: this.pitchVisible,
+      minF0: this.minF0,
+      maxF0: this.maxF0,
+      formantVisible: this.formantVisible,
+      maxFormant: this.maxFormant,
+      numFormants: this.numFormants,
+      formantWindowLength: this.formantWindowLength,
     };
   }
 }
@@ -0,0 +1,114 @@
+import { EventType } from "../events";
+import { waitEventForAction } from "../../__mocks__/helper";
+import AudioEditService from "./audioEditService";
+
+describe("audioEditService", () => {
+  const createService = () =>
+    new AudioEditService([new Float32Array([0.1, 0.2, 0.3, 0.4])], 4);
+
+  test("apply should update samples and dispatch event", async () => {
+    const audioEditService = createService();
+    const detail = await waitEventForAction(
+      () => {
+        expect(
+          audioEditService.apply({ type: "delete", start: 0, end: 2 }),
+        ).toBe(true);
+      },
+      audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+    );
+    expect(detail.value[0].length).toBe(2);
+    expect(audioEditService.duration).toBe(0.5);
+    expect(audioEditService.canUndo).toBe(true);
+  });
+
+  test("apply should refuse to remove all samples", () => {
+    const audioEditService = createService();
+    expect(audioEditService.apply({ type: "delete", start: 0, end: 4 })).toBe(
+      false,
+    );
+    expect(audioEditService.apply({ type: "crop", start: 2, end: 2 })).toBe(
+      false,
+    );
+    expect(audioEditService.length).toBe(4);
+    expect(audioEditService.canUndo).toBe(false);
+  });
+
+  test("undo and redo should replay operations", () => {
+    const audioEditService = createService();
+    audioEditService.apply({ type: "reverse", start: 0, end: 4 });
+    audioEditService.apply({ type: "crop", start: 0, end: 2 });
+    expect(Array.from(audioEditService.channels[0])).toEqual([
+      Math.fround(0.4),
+      Math.fround(0.3),
+    ]);
+
+    audioEditService.undo();
+    expect(audioEditService.length).toBe(4);
+    expect(audioEditService.channels[0][0]).toBeCloseTo(0.4);
+    audioEditService.undo();
+    expect(audioEditService.channels[0][0]).toBeCloseTo(0.1);
+    expect(audioEditService.canUndo).toBe(false);
+
+    audioEditService.redo();
+    audioEditService.redo();
+    expect(audioEditService.length).toBe(2);
+    expect(audioEditService.canRedo).toBe(false);
+  });
+
+  test("the event tells the applied and the undone operation", async () => {
+    const audioEditService = createService();
+    const op = { type: "delete" as const, start: 0, end: 2 };
+    const applied = await waitEventForAction(
+      () => audioEditService.apply(op),
+      audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+    );
+    expect(applied.change).toEqual({ operation: op, isUndo: false });
+    const undone = await waitEventForAction(
+      () => audioEditService.undo(),
+      audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+    );
+    expect(undone.change).toEqual({ operation: op, isUndo: true });
+    const redone = await waitEventForAction(
+      () => audioEditService.redo(),
+      audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+    );
+    expect(redone.change).toEqual({ operation: op, isUndo: false });
+  });
+
+  test("apply should clear redo", () => {
+    const audioEditService = createService();
+    audioEditService.apply({ type: "reverse", start: 0, end: 4 });
+    audioEditService.undo();
+    audioEditService.apply({ type: "fadeIn", start: 0, end: 4 });
+    expect(audioEditService.canRedo).toBe(false);
+    expect(audioEditService.operations.length).toBe(1);
+  });
+
+  test("reset should replace the original and clear the history", async () => {
+    const audioEditService = createService();
+    audioEditService.apply({ type: "delete", start: 0, end: 2 });
+    const detail = await waitEventForAction(
+      () => {
+        audioEditService.reset([new Float32Array(8)]);
+      },
+      audioEditService,
+      EventType.AE_UPDATE_AUDIO,
+    );
+    expect(detail.value[0].length).toBe(8);
+    expect(detail.change).toEqual({ operation: undefined, isUndo: false });
+    expect(audioEditService.duration).toBe(2);
+    expect(audioEditService.canUndo).toBe(false);
+    expect(audioEditService.canRedo).toBe(false);
+  });
+
+  test("toSampleIndex should clamp to the samples", () => {
+    const audioEditService = createService();
+    expect(audioEditService.toSampleIndex(0.5)).toBe(2);
+    expect(audioEditService.toSampleIndex(-1)).toBe(0);
+    expect(audioEditService.toSampleIndex(10)).toBe(4);
+  });
+});
@@ -0,0 +1,122 @@
+import { EventType } from "../events";
+import { applyAudioEdit, AudioEditOperation } from "../audioEdit";
+import Service from "../service";
+
+// sent with AE_UPDATE_AUDIO, operation is undefined when the samples are replaced by reset
+export interface AudioEditChange {
+  operation: AudioEditOperation | undefined;
+  isUndo: boolean;
+}
+
+/*
+Non-destructive editing of the decoded samples.
+The original samples are kept and the edited ones are rebuilt from the list of operations,
+so that undo does not need a copy of the samples for each step.
+*/
+export default class AudioEditService extends Service {
+  private _original: Float32Array[];
+  private _operations: AudioEditOperation[] = [];
+  private _undone: AudioEditOperation[] = [];
+
+  private _sampleRate: number;
+  public get sampleRate() {
+    return this._sampleRate;
+  }
+
+  private _channels: Float32Array[];
+  public get channels(): readonly Float32Array[] {
+    return this._channels;
+  }
+
+  public get numberOfChannels() {
+    return this._channels.length;
+  }
+
+  public get length() {
+    return this._channels[0]?.length ?? 0;
+  }
+
+  public get duration() {
+    return this.length / this._sampleRate;
+  }
+
+  public get operations(): readonly AudioEditOperation[] {
+    return this._operations;
+  }
+
+  public get canUndo() {
+    return this._operations.length > 0;
+  }
+
+  public get canRedo() {
+    return this._undone.length > 0;
+  }
+
+  constructor(channels: Float32Array[], sampleRate: number) {
+    super();
+    this._original = channels;
+    this._channels = channels;
+    this._sampleRate = sampleRate;
+  }
+
+  // return false without applying op if it would remove all samples
+  public apply(op: AudioEditOperation): boolean {
+    const channels = applyAudioEdit(this._channels, op);
+    if ((channels[0]?.length ?? 0) === 0) {
+      return false;
+    }
+    this._channels = channels;
+    this._operations.push(op);
+    this._undone = [];
+    this.dispatchUpdate({ operation: op, isUndo: false });
+    return true;
+  }
+
+  public undo() {
+    if (!this.canUndo) {
+      return;
+    }
+    const undone = this._operations.pop();
+    this._undone.push(undone);
+    this._channels = this._operations.reduce(
+      (channels, op) => applyAudioEdit(channels, op),
+      this._original,
+    );
+    this.dispatchUpdate({ operation: undone, isUndo: true });
+  }
+
+  public redo() {
+    if (!this.canRedo) {
+      return;
+    }
+    const op = this._undone.pop();
+    this._channels = applyAudioEdit(this._channels, op);
+    this._operations.push(op);
+    this.dispatchUpdate({ operation: op, isUndo: false });
+  }
+
+  // replace the original samples, e.g. when the rest of the file is decoded, and clear the history
+  public reset(channels: Float32Array[]) {
+    this._original = channels;
+    this._channels = channels;
+    this._operations = [];
+    this._undone = [];
+    this.dispatchUpdate({ operation: undefined, isUndo: false });
+  }
+
+  // convert seconds to a sample index in the edited samples
+  public toSampleIndex(sec: number) {
+    return Math.min(
+      Math.max(Math.round(sec * this._sampleRate), 0),
+      this.length,
+    );
+  }
+
+  private dispatchUpdate(change: AudioEditChange) {
+    this.dispatchEvent(
+      new CustomEvent(EventType.AE_UPDATE_AUDIO, {
+        detail: { value: this._channels, change },
+      }),
+    );
+  }
+}
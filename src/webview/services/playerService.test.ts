@@ -62,3 +62,284 @@ describe("playerService", () => {
     expect(detail.value).toBe(false);
   });
 });
+
+describe("loop", () => {
+  let audioContext: AudioContext;
+  let playerService: PlayerService;
+  let playerSettingService: PlayerSettingsService;
+  beforeEach(() => {
+    audioContext = createAudioContext(44100);
+    const audioBuffer = audioContext.createBuffer(1, 44100 * 10, 44100);
+    playerSettingService = PlayerSettingsService.fromDefaultSetting(
+      {} as PlayerDefault,
+      audioBuffer,
+    );
+    playerService = new PlayerService(
+      audioContext,
+      audioBuffer,
+      playerSettingService,
+    );
+  });
+
+  afterEach(() => {
+    playerService.dispose();
+  });
+
+  test("setLoop clamps the range and dispatches the loop", async () => {
+    const detail = await waitEventForAction(
+      () => playerService.setLoop(-1, 4),
+      playerService,
+      EventType.UPDATE_LOOP,
+    );
+    expect(detail.value).toEqual({ start: 0, end: 4 });
+
+    playerService.setLoop(12, 11);
+    expect(playerService.loop).toBeUndefined();
+  });
+
+  test("A and B markers keep the other marker if possible", () => {
+    playerService.setLoopEnd(6);
+    expect(playerService.loop).toEqual({ start: 0, end: 6 });
+    playerService.setLoopStart(2);
+    expect(playerService.loop).toEqual({ start: 2, end: 6 });
+    playerService.setLoopStart(7);
+    expect(playerService.loop).toEqual({ start: 7, end: 10 });
+    playerService.setLoopEnd(3);
+    expect(playerService.loop).toEqual({ start: 0, end: 3 });
+    playerService.clearLoop();
+    expect(playerService.loop).toBeUndefined();
+  });
+
+  test("source loops the range with pre-roll and post-roll", () => {
+    const createBufferSource = jest.spyOn(audioContext, "createBufferSource");
+    playerSettingService.loopPreRoll = 0.5;
+    playerSettingService.loopPostRoll = 1;
+    playerService.setLoop(2, 4);
+    playerService.play();
+
+    const source = createBufferSource.mock.results[0].value;
+    expect(source.loop).toBe(true);
+    expect(source.loopStart).toBe(1.5);
+    expect(source.loopEnd).toBe(5);
+    // playback outside of the loop starts at the pre-roll
+    expect(playerService.currentSec).toBe(1.5);
+  });
+
+  test("playhead wraps around in the loop", () => {
+    const mockAudioContext = audioContext as unknown as { currentTime: number };
+    playerService.setLoop(2, 4);
+    playerService.play();
+    mockAudioContext.currentTime += 2.5;
+    playerService.pause();
+    expect(playerService.currentSec).toBeCloseTo(2.5);
+  });
+
+  test("changing the loop while playing restarts playback", () => {
+    playerService.play();
+    const start = jest.spyOn(audioContext, "createBufferSource");
+    playerService.setLoop(5, 6);
+    expect(playerService.isPlaying).toBe(true);
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(playerService.currentSec).toBe(5);
+  });
+});
+
+describe("preserve pitch", () => {
+  let audioContext: AudioContext;
+  let playerService: PlayerService;
+  let playerSettingService: PlayerSettingsService;
+  beforeEach(() => {
+    audioContext = createAudioContext(44100);
+    const audioBuffer = audioContext.createBuffer(1, 44100 * 10, 44100);
+    playerSettingService = PlayerSettingsService.fromDefaultSetting(
+      { playbackRate: 0.5 } as PlayerDefault,
+      audioBuffer,
+    );
+    playerService = new PlayerService(
+      audioContext,
+      audioBuffer,
+      playerSettingService,
+    );
+  });
+
+  afterEach(() => {
+    playerService.dispose();
+  });
+
+  test("stretched chunks are scheduled ahead of the playhead", () => {
+    const createBufferSource = jest.spyOn(audioContext, "createBufferSource");
+    playerService.play();
+
+    const sources = createBufferSource.mock.results.map((r) => r.value);
+    // one second ahead in chunks of 0.25 seconds
+    expect(sources.length).toBe(4);
+    let scheduledDuration = 0;
+    for (const source of sources) {
+      expect(source.playbackRate.value).toBe(1);
+      scheduledDuration += source.buffer.duration;
+    }
+    expect(scheduledDuration).toBeGreaterThanOrEqual(1);
+  });
+
+  test("playback rate is applied to the source without preserving pitch", () => {
+    playerSettingService.preservePitch = false;
+    const createBufferSource = jest.spyOn(audioContext, "createBufferSource");
+    playerService.play();
+    expect(createBufferSource).toHaveBeenCalledTimes(1);
+    expect(createBufferSource.mock.results[0].value.playbackRate.value).toBe(
+      0.5,
+    );
+  });
+
+  test("position advances at the playback rate", () => {
+    const mockAudioContext = audioContext as unknown as { currentTime: number };
+    playerService.play();
+    mockAudioContext.currentTime += 2;
+    playerService.pause();
+    expect(playerService.currentSec).toBeCloseTo(1);
+  });
+
+  test("changing the playback rate restarts playback", () => {
+    playerService.play();
+    const createBufferSource = jest.spyOn(audioContext, "createBufferSource");
+    playerSettingService.playbackRate = 1;
+    expect(playerService.isPlaying).toBe(true);
+    expect(createBufferSource).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("transcriber controls", () => {
+  let audioContext: AudioContext;
+  let mockAudioContext: { currentTime: number };
+  let playerService: PlayerService;
+  beforeEach(() => {
+    audioContext = createAudioContext(44100);
+    mockAudioContext = audioContext as unknown as { currentTime: number };
+    const audioBuffer = audioContext.createBuffer(1, 44100 * 10, 44100);
+    const playerSettingService = PlayerSettingsService.fromDefaultSetting(
+      { autoRewindSec: 2, enableSeekToPlay: false } as PlayerDefault,
+      audioBuffer,
+    );
+    playerService = new PlayerService(
+      audioContext,
+      audioBuffer,
+      playerSettingService,
+    );
+  });
+
+  afterEach(() => {
+    playerService.dispose();
+  });
+
+  test("resume after pause rewinds by autoRewindSec", () => {
+    playerService.seekTo(5, true);
+    mockAudioContext.currentTime += 3;
+    playerService.togglePlay();
+    expect(playerService.isPlaying).toBe(false);
+    expect(playerService.currentSec).toBeCloseTo(8);
+
+    playerService.togglePlay();
+    expect(playerService.isPlaying).toBe(true);
+    expect(playerService.currentSec).toBeCloseTo(6);
+  });
+
+  test("resume after seeking does not rewind", () => {
+    playerService.togglePlay();
+    playerService.togglePlay();
+    playerService.onSeekbarInput(50);
+    expect(playerService.isPlaying).toBe(false);
+    playerService.togglePlay();
+    expect(playerService.currentSec).toBe(5);
+  });
+
+  test("skip moves the playhead within the audio", () => {
+    playerService.seekTo(3, false);
+    playerService.skip(-5);
+    expect(playerService.currentSec).toBe(0);
+    expect(playerService.isPlaying).toBe(false);
+
+    playerService.togglePlay();
+    playerService.skip(4);
+    expect(playerService.isPlaying).toBe(true);
+    expect(playerService.currentSec).toBeCloseTo(4);
+    playerService.skip(20);
+    expect(playerService.currentSec).toBe(10);
+  });
+
+  test("playRange pauses at the end of the range", () => {
+    playerService.playRange(2, 3);
+    mockAudioContext.currentTime += 0.5;
+    playerService.tick();
+    expect(playerService.isPlaying).toBe(true);
+
+    mockAudioContext.currentTime += 0.6;
+    playerService.tick();
+    expect(playerService.isPlaying).toBe(false);
+    expect(playerService.currentSec).toBe(3);
+
+    // playback started otherwise does not stop there
+    playerService.seekTo(2, true);
+    mockAudioContext.currentTime += 1.5;
+    playerService.tick();
+    expect(playerService.isPlaying).toBe(true);
+  });
+});
+
+describe("channel mix", () => {
+  let audioContext: AudioContext;
+  let playerService: PlayerService;
+  let playerSettingService: PlayerSettingsService;
+  let gainNodes: GainNode[];
+  let pannerNodes: StereoPannerNode[];
+  let mixNode: GainNode;
+  beforeEach(() => {
+    audioContext = createAudioContext(44100);
+    const createGain = jest.spyOn(audioContext, "createGain");
+    const createStereoPanner = jest.spyOn(audioContext, "createStereoPanner");
+    const audioBuffer = audioContext.createBuffer(2, 44100, 44100);
+    playerSettingService = PlayerSettingsService.fromDefaultSetting(
+      {} as PlayerDefault,
+      audioBuffer,
+    );
+    playerService = new PlayerService(
+      audioContext,
+      audioBuffer,
+      playerSettingService,
+    );
+    // volume, mix, then a gain for each channel
+    mixNode = createGain.mock.results[1].value;
+    gainNodes = createGain.mock.results.slice(2).map((r) => r.value);
+    pannerNodes = createStereoPanner.mock.results.map((r) => r.value);
+  });
+
+  afterEach(() => {
+    playerService.dispose();
+  });
+
+  test("channels are panned to their sides by default", () => {
+    expect(gainNodes.map((n) => n.gain.value)).toEqual([1, 1]);
+    expect(pannerNodes.map((n) => n.pan.value)).toEqual([-1, 1]);
+  });
+
+  test("mute, solo and pan are applied to the channel nodes", () => {
+    playerSettingService.setChannelMute(1, true);
+    expect(gainNodes.map((n) => n.gain.value)).toEqual([1, 0]);
+    playerSettingService.setChannelSolo(1, true);
+    expect(gainNodes.map((n) => n.gain.value)).toEqual([0, 1]);
+    playerSettingService.setChannelPan(1, 0);
+    expect(pannerNodes[1].pan.value).toBe(0);
+  });
+
+  test("mono sum down-mixes to one channel", () => {
+    expect(mixNode.channelCountMode).toBe("max");
+    playerSettingService.monoSum = true;
+    expect(mixNode.channelCount).toBe(1);
+    expect(mixNode.channelCountMode).toBe("explicit");
+  });
+
+  test("the settings, which outlive the player, are not listened to after dispose", () => {
+    playerService.dispose();
+    playerSettingService.setChannelMute(1, true);
+    expect(gainNodes.map((n) => n.gain.value)).toEqual([1, 1]);
+  });
+});
@@ -1,6 +1,18 @@
 import { EventType } from "../events";
 import Service from "../service";
 import PlayerSettingsService from "./playerSettingsService";
+import TimeStretcher from "../timeStretcher";
+
+// stretched audio is scheduled in chunks, this far ahead of the playhead
+const stretchChunkDuration = 0.25;
+const stretchLookahead = 1.0;
+const stretchScheduleIntervalMs = 100;
+
+// A/B loop points in seconds
+export interface LoopRange {
+  start: number;
+  end: number;
+}
 
 export default class PlayerService extends Service {
   private _audioContext: AudioContext;
@@ -9,9 +21,22 @@ export default class PlayerService extends Service {
 
   private _isPlaying: boolean = false;
   private _lastStartAcTime: number = 0;
+  // playback rate when the playback started, the setting may change before pause
+  private _lastStartRate: number = 1;
   private _currentSec: number = 0;
+  // playback paused by pause(), not moved by seeking since then
+  private _isRewindOnResume: boolean = false;
+  // end of the range played by playRange, cleared by pausing or seeking
+  private _stopSec: number | undefined;
   private _source: AudioBufferSourceNode;
 
+  // pitch preserving playback, the sources of the scheduled chunks
+  private _stretcher: TimeStretcher | undefined;
+  private _stretchSources: AudioBufferSourceNode[] = [];
+  private _stretchScheduledAcTime: number = 0;
+  private _stretchOutputNode: AudioNode;
+  private _stretchTimerID: number | undefined;
+
   public get isPlaying() {
     return this._isPlaying;
   }
@@ -19,6 +44,19 @@ export default class PlayerService extends Service {
     return this._currentSec;
   }
 
+  public get duration() {
+    return this._audioBuffer.duration;
+  }
+  // current position of the playhead while playing
+  public get position() {
+    return this._isPlaying ? this.getPlayingSec() : this._currentSec;
+  }
+
+  private _loop: LoopRange | undefined;
+  public get loop() {
+    return this._loop;
+  }
+
   private _gainNode: GainNode;
   // volume is 0~1
   public get volume() {
@@ -34,6 +72,12 @@ export default class PlayerService extends Service {
     this._gainNode.gain.value = value;
   }
 
+  // source -> splitter -> gain and panner of each channel -> mix -> filters -> volume
+  private _splitterNode: ChannelSplitterNode;
+  private _channelGainNodes: GainNode[] = [];
+  private _channelPannerNodes: StereoPannerNode[] = [];
+  private _mixNode: GainNode;
+
   private _hpfNode: BiquadFilterNode;
   private _lpfNode: BiquadFilterNode;
 
@@ -54,6 +98,34 @@ export default class PlayerService extends Service {
     this._gainNode = this._audioContext.createGain();
     this._gainNode.connect(this._audioContext.destination);
 
+    // init channel mixer
+    // a mono channel is not panned, it is played in both speakers like before
+    const numberOfChannels = this._audioBuffer.numberOfChannels;
+    this._splitterNode =
+      this._audioContext.createChannelSplitter(numberOfChannels);
+    this._mixNode = this._audioContext.createGain();
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      const gainNode = this._audioContext.createGain();
+      this._splitterNode.connect(gainNode, ch);
+      if (numberOfChannels > 1) {
+        const pannerNode = this._audioContext.createStereoPanner();
+        gainNode.connect(pannerNode);
+        pannerNode.connect(this._mixNode);
+        this._channelPannerNodes.push(pannerNode);
+      } else {
+        gainNode.connect(this._mixNode);
+      }
+      this._channelGainNodes.push(gainNode);
+    }
+    this.applyChannelMix();
+    // mixing is applied while playing
+    this.addSettingsListener(EventType.PS_UPDATE_CHANNEL_MIX, () =>
+      this.applyChannelMix(),
+    );
+    this.addSettingsListener(EventType.PS_UPDATE_MONO_SUM, () =>
+      this.applyChannelMix(),
+    );
+
     // init high-pass filter
     this._hpfNode = this._audioContext.createBiquadFilter();
     this._hpfNode.type = "highpass";
@@ -71,22 +143,115 @@ export default class PlayerService extends Service {
         this.play();
       }
     };
-    this._playerSettingsService.addEventListener(
-      EventType.PS_UPDATE_ENABLE_HPF,
-      applyFilters,
-    );
-    this._playerSettingsService.addEventListener(
-      EventType.PS_UPDATE_HPF_FREQUENCY,
-      applyFilters,
-    );
-    this._playerSettingsService.addEventListener(
-      EventType.PS_UPDATE_ENABLE_LPF,
-      applyFilters,
-    );
-    this._playerSettingsService.addEventListener(
-      EventType.PS_UPDATE_LPF_FREQUENCY,
-      applyFilters,
+    this.addSettingsListener(EventType.PS_UPDATE_ENABLE_HPF, applyFilters);
+    this.addSettingsListener(EventType.PS_UPDATE_HPF_FREQUENCY, applyFilters);
+    this.addSettingsListener(EventType.PS_UPDATE_ENABLE_LPF, applyFilters);
+    this.addSettingsListener(EventType.PS_UPDATE_LPF_FREQUENCY, applyFilters);
+    this.addSettingsListener(EventType.PS_UPDATE_PLAYBACK_RATE, applyFilters);
+    this.addSettingsListener(EventType.PS_UPDATE_PRESERVE_PITCH, applyFilters);
+    // the played range of the loop depends on pre-roll and post-roll
+    const applyLoopRoll = () => {
+      if (this._loop) {
+        applyFilters();
+      }
+    };
+    this.addSettingsListener(EventType.PS_UPDATE_LOOP_PRE_ROLL, applyLoopRoll);
+    this.addSettingsListener(EventType.PS_UPDATE_LOOP_POST_ROLL, applyLoopRoll);
+  }
+
+  // removed on dispose, the settings outlive the player rebuilt after each audio edit
+  private addSettingsListener(type: EventType, listener: () => void) {
+    this._playerSettingsService.addEventListener(type, listener);
+    this._register({
+      dispose: () =>
+        this._playerSettingsService.removeEventListener(type, listener),
+    });
+  }
+
+  private applyChannelMix() {
+    const settings = this._playerSettingsService;
+    this._channelGainNodes.forEach((gainNode, ch) => {
+      gainNode.gain.value = settings.isChannelAudible(ch) ? 1 : 0;
+    });
+    this._channelPannerNodes.forEach((pannerNode, ch) => {
+      pannerNode.pan.value = settings.getChannelPan(ch);
+    });
+    // down-mixing stereo to one channel averages left and right, which is up-mixed to both speakers
+    this._mixNode.channelCount = settings.monoSum ? 1 : 2;
+    this._mixNode.channelCountMode = settings.monoSum ? "explicit" : "max";
+    this._mixNode.channelInterpretation = "speakers";
+  }
+
+  // loop is cleared if the range is empty
+  public setLoop(start: number, end: number) {
+    const duration = this._audioBuffer.duration;
+    start = Math.max(start, 0);
+    end = Math.min(end, duration);
+    this.updateLoop(start < end ? { start, end } : undefined);
+  }
+
+  // A marker, B marker stays if it is after A
+  public setLoopStart(sec: number) {
+    const end = this._loop?.end ?? this._audioBuffer.duration;
+    this.setLoop(sec, sec < end ? end : this._audioBuffer.duration);
+  }
+
+  // B marker, A marker stays if it is before B
+  public setLoopEnd(sec: number) {
+    const start = this._loop?.start ?? 0;
+    this.setLoop(start < sec ? start : 0, sec);
+  }
+
+  public clearLoop() {
+    this.updateLoop(undefined);
+  }
+
+  private updateLoop(loop: LoopRange | undefined) {
+    const resumeRequired = this._isPlaying;
+    if (this._isPlaying) {
+      this.pause();
+    }
+
+    this._loop = loop;
+    this.dispatchEvent(
+      new CustomEvent(EventType.UPDATE_LOOP, {
+        detail: { value: this._loop },
+      }),
     );
+
+    if (resumeRequired) {
+      this.play();
+    }
+  }
+
+  // played range of the loop including pre-roll and post-roll
+  private getLoopPlayRange(): LoopRange {
+    return {
+      start: Math.max(
+        this._loop.start - this._playerSettingsService.loopPreRoll,
+        0,
+      ),
+      end: Math.min(
+        this._loop.end + this._playerSettingsService.loopPostRoll,
+        this._audioBuffer.duration,
+      ),
+    };
+  }
+
+  // position of the playhead, which wraps around in the loop
+  private getPlayingSec(): number {
+    const sec =
+      this._currentSec +
+      (this._audioContext.currentTime - this._lastStartAcTime) *
+        this._lastStartRate;
+    if (!this._loop) {
+      return sec;
+    }
+    const { start, end } = this.getLoopPlayRange();
+    if (sec < end) {
+      return sec;
+    }
+    return start + ((sec - start) % (end - start));
   }
 
   public play() {
@@ -107,19 +272,30 @@ export default class PlayerService extends Service {
       lastNode = this._hpfNode;
     }
 
-    // create audioBufferSourceNode every time,
-    // because audioBufferSourceNode.start() can't be called more than once.
-    // https://developer.mozilla.org/en-US/docs/Web/API/AudioBufferSourceNode
-    this._source = this._audioContext.createBufferSource();
-    this._source.buffer = this._audioBuffer;
-    this._source.connect(lastNode);
+    this._mixNode.disconnect();
+    this._mixNode.connect(lastNode);
 
-    this._source.playbackRate.value = this._playerSettingsService.playbackRate;
+    // playback outside of the loop starts at the pre-roll
+    if (this._loop) {
+      const { start, end } = this.getLoopPlayRange();
+      if (this._currentSec < start || end <= this._currentSec) {
+        this._currentSec = start;
+      }
+    }
 
     // play
     this._isPlaying = true;
+    this._isRewindOnResume = false;
     this._lastStartAcTime = this._audioContext.currentTime;
-    this._source.start(this._audioContext.currentTime, this._currentSec);
+    this._lastStartRate = this._playerSettingsService.playbackRate;
+    if (
+      this._playerSettingsService.preservePitch &&
+      this._lastStartRate !== 1
+    ) {
+      this.startStretchedSources(this._splitterNode);
+    } else {
+      this.startSource(this._splitterNode);
+    }
 
     // update playing status
     this.dispatchEvent(
@@ -134,16 +310,121 @@ export default class PlayerService extends Service {
     this._animationFrameID = requestAnimationFrame(() => this.tick());
   }
 
+  private startSource(outputNode: AudioNode) {
+    // create audioBufferSourceNode every time,
+    // because audioBufferSourceNode.start() can't be called more than once.
+    // https://developer.mozilla.org/en-US/docs/Web/API/AudioBufferSourceNode
+    this._source = this._audioContext.createBufferSource();
+    this._source.buffer = this._audioBuffer;
+    this._source.connect(outputNode);
+
+    this._source.playbackRate.value = this._lastStartRate;
+
+    // the source repeats the loop by itself, so there is no gap between repetitions
+    if (this._loop) {
+      const { start, end } = this.getLoopPlayRange();
+      this._source.loop = true;
+      this._source.loopStart = start;
+      this._source.loopEnd = end;
+    }
+
+    this._source.start(this._lastStartAcTime, this._currentSec);
+  }
+
+  // playbackRate of a source changes the pitch too,
+  // so the audio is time-stretched from the playhead and played at the original rate
+  private startStretchedSources(outputNode: AudioNode) {
+    const sampleRate = this._audioBuffer.sampleRate;
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < this._audioBuffer.numberOfChannels; ch++) {
+      channels.push(this._audioBuffer.getChannelData(ch));
+    }
+    this._stretcher = new TimeStretcher(
+      channels,
+      sampleRate,
+      this._lastStartRate,
+      Math.round(this._currentSec * sampleRate),
+    );
+    if (this._loop) {
+      const { start, end } = this.getLoopPlayRange();
+      this._stretcher.setLoop(
+        Math.round(start * sampleRate),
+        Math.round(end * sampleRate),
+      );
+    }
+
+    this._stretchOutputNode = outputNode;
+    this._stretchScheduledAcTime = this._lastStartAcTime;
+    this.scheduleStretchedChunks();
+    // not on animation frames, which stop while the webview is hidden
+    this._stretchTimerID = window.setInterval(
+      () => this.scheduleStretchedChunks(),
+      stretchScheduleIntervalMs,
+    );
+  }
+
+  private scheduleStretchedChunks() {
+    const sampleRate = this._audioBuffer.sampleRate;
+    while (
+      this._stretchScheduledAcTime <
+        this._audioContext.currentTime + stretchLookahead &&
+      !this._stretcher.ended
+    ) {
+      const chunk = this._stretcher.process(
+        Math.round(stretchChunkDuration * sampleRate),
+      );
+      if (chunk[0].length === 0) {
+        return;
+      }
+      const buffer = this._audioContext.createBuffer(
+        chunk.length,
+        chunk[0].length,
+        sampleRate,
+      );
+      chunk.forEach((data, ch) => buffer.copyToChannel(data, ch));
+
+      const source = this._audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(this._stretchOutputNode);
+      source.onended = () => {
+        this._stretchSources = this._stretchSources.filter((s) => s !== source);
+      };
+      source.start(this._stretchScheduledAcTime);
+      this._stretchSources.push(source);
+      this._stretchScheduledAcTime += chunk[0].length / sampleRate;
+    }
+  }
+
+  private stopStretchedSources() {
+    window.clearInterval(this._stretchTimerID);
+    this._stretchTimerID = undefined;
+    for (const source of this._stretchSources) {
+      source.onended = null;
+      source.stop();
+    }
+    this._stretchSources = [];
+    this._stretcher = undefined;
+  }
+
+  // stop playing when the player is rebuilt for edited audio or reloaded
+  public dispose() {
+    if (this._isPlaying) {
+      this.pause();
+    }
+    super.dispose();
+  }
+
   public pause() {
     // stop seek bar
     cancelAnimationFrame(this._animationFrameID);
 
     // pause
-    this._source.stop();
-    this._currentSec +=
-      (this._audioContext.currentTime - this._lastStartAcTime) *
-      this._playerSettingsService.playbackRate;
+    this._source?.stop();
+    this.stopStretchedSources();
+    this._currentSec = this.getPlayingSec();
     this._isPlaying = false;
+    this._isRewindOnResume = true;
+    this._stopSec = undefined;
     this._source = undefined;
 
     // update playing status
@@ -157,10 +438,7 @@ export default class PlayerService extends Service {
   }
 
   public tick() {
-    const current =
-      this._currentSec +
-      (this._audioContext.currentTime - this._lastStartAcTime) *
-        this._playerSettingsService.playbackRate;
+    const current = this.getPlayingSec();
     this._seekbarValue = (100 * current) / this._audioBuffer.duration;
 
     // update seek bar value
@@ -173,6 +451,14 @@ export default class PlayerService extends Service {
       }),
     );
 
+    // pause at the end of the range of playRange
+    if (this._stopSec !== undefined && current >= this._stopSec) {
+      const stopSec = this._stopSec;
+      this.pause();
+      this._currentSec = stopSec;
+      return;
+    }
+
     // pause if finish playing
     if (current > this._audioBuffer.duration) {
       this.pause();
@@ -187,17 +473,44 @@ export default class PlayerService extends Service {
     }
   }
 
+  // play or pause by the user, resuming rewinds by autoRewindSec like transcription tools
+  public togglePlay() {
+    if (this._isPlaying) {
+      this.pause();
+      return;
+    }
+    if (this._isRewindOnResume) {
+      this._currentSec = Math.max(
+        this._currentSec - this._playerSettingsService.autoRewindSec,
+        0,
+      );
+    }
+    this.play();
+  }
+
+  // move the playhead by deltaSec, playback continues if playing
+  public skip(deltaSec: number) {
+    this.seekTo(this.position + deltaSec, this._isPlaying);
+  }
+
   // seekbar value is 0~100
   public onSeekbarInput(value: number) {
-    const resumeRequired = this._isPlaying;
+    this.seekTo(
+      (value * this._audioBuffer.duration) / 100,
+      this._isPlaying || this._playerSettingsService.enableSeekToPlay,
+    );
+  }
 
+  public seekTo(sec: number, play: boolean) {
     if (this._isPlaying) {
       this.pause();
     }
+    this._isRewindOnResume = false;
+    this._stopSec = undefined;
 
     // update seek bar value
-    this._currentSec = (value * this._audioBuffer.duration) / 100;
-    this._seekbarValue = value;
+    this._currentSec = Math.min(Math.max(sec, 0), this._audioBuffer.duration);
+    this._seekbarValue = (100 * this._currentSec) / this._audioBuffer.duration;
     this.dispatchEvent(
       new CustomEvent(EventType.UPDATE_SEEKBAR, {
         detail: {
@@ -208,8 +521,14 @@ export default class PlayerService extends Service {
     );
 
     // restart from selected place
-    if (resumeRequired || this._playerSettingsService.enableSeekToPlay) {
+    if (play) {
       this.play();
     }
   }
+
+  // play from start and pause at end, e.g. to play a segment
+  public playRange(start: number, end: number) {
+    this.seekTo(start, true);
+    this._stopSec = end;
+  }
 }
@@ -162,4 +162,104 @@ describe("playerSettingsService", () => {
     );
     expect(ps.enableSeekToPlay).toBe(false);
   });
+
+  // loopPreRoll, loopPostRoll
+  test("loop pre-roll and post-roll should be 0 if no default value is provided", () => {
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.loopPreRoll).toBe(0);
+    expect(ps.loopPostRoll).toBe(0);
+  });
+  test("loop pre-roll and post-roll should be limited to the valid range", () => {
+    defaultSettings.loopPreRoll = -1;
+    defaultSettings.loopPostRoll = 20;
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.loopPreRoll).toBe(0);
+    expect(ps.loopPostRoll).toBe(PlayerSettingsService.LOOP_ROLL_MAX);
+  });
+
+  // preservePitch
+  test("preservePitch should be true if no default value is provided", () => {
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.preservePitch).toBe(true);
+  });
+  test("preservePitch should be false if default value is false", () => {
+    defaultSettings.preservePitch = false;
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.preservePitch).toBe(false);
+  });
+
+  // transcriber-style controls
+  test("transcriber controls should have default values if no default value is provided", () => {
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.autoRewindSec).toBe(0);
+    expect(ps.skipSec).toBe(PlayerSettingsService.SKIP_SEC_DEFAULT);
+    expect(ps.speedStep).toBe(PlayerSettingsService.SPEED_STEP_DEFAULT);
+    expect(ps.holdToPlayKey).toBe("");
+  });
+  test("transcriber controls should be default value", () => {
+    defaultSettings.autoRewindSec = 3;
+    defaultSettings.skipSec = 2;
+    defaultSettings.speedStep = 0.05;
+    defaultSettings.holdToPlayKey = "F12";
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.autoRewindSec).toBe(3);
+    expect(ps.skipSec).toBe(2);
+    expect(ps.speedStep).toBe(0.05);
+    expect(ps.holdToPlayKey).toBe("F12");
+  });
+
+  // playbackRate
+  test("playbackRate should be limited to the valid range", () => {
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.playbackRate).toBe(1.0);
+    ps.playbackRate = 0.01;
+    expect(ps.playbackRate).toBe(PlayerSettingsService.PLAYBACK_RATE_MIN);
+  });
+
+  // channel mix
+  test("stereo channels should be panned to their sides", () => {
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    expect(ps.numberOfChannels).toBe(2);
+    expect(ps.getChannelPan(0)).toBe(-1);
+    expect(ps.getChannelPan(1)).toBe(1);
+    expect(ps.monoSum).toBe(false);
+    ps.setChannelPan(1, 3);
+    expect(ps.getChannelPan(1)).toBe(1);
+  });
+  test("soloed channels should be audible even if muted", () => {
+    const ps = PlayerSettingsService.fromDefaultSetting(
+      defaultSettings,
+      audioBuffer,
+    );
+    ps.setChannelMute(0, true);
+    expect(ps.isChannelAudible(0)).toBe(false);
+    expect(ps.isChannelAudible(1)).toBe(true);
+    ps.setChannelSolo(0, true);
+    expect(ps.isChannelAudible(0)).toBe(true);
+    expect(ps.isChannelAudible(1)).toBe(false);
+  });
 });
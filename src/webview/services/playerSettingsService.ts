@@ -11,6 +11,12 @@ export default class PlayerSettingsService extends Service {
   public static readonly FILTER_FREQUENCY_MIN = 10;
   public static readonly FILTER_FREQUENCY_HPF_DEFAULT = 100;
   public static readonly FILTER_FREQUENCY_LPF_DEFAULT = 10000;
+  public static readonly LOOP_ROLL_MAX = 10;
+  public static readonly PLAYBACK_RATE_MIN = 0.125;
+  public static readonly PLAYBACK_RATE_MAX = 4;
+  public static readonly AUTO_REWIND_MAX = 30;
+  public static readonly SKIP_SEC_DEFAULT = 5;
+  public static readonly SPEED_STEP_DEFAULT = 0.1;
 
   private _sampleRate: number;
 
@@ -131,7 +137,12 @@ export default class PlayerSettingsService extends Service {
     return this._playbackRate;
   }
   public set playbackRate(value: number) {
-    this._playbackRate = value === undefined ? 1.0 : value; // 1.0 by default
+    this._playbackRate = getLimitedValueInRange(
+      value,
+      PlayerSettingsService.PLAYBACK_RATE_MIN,
+      PlayerSettingsService.PLAYBACK_RATE_MAX,
+      1.0,
+    );
     this.dispatchEvent(
       new CustomEvent(EventType.PS_UPDATE_PLAYBACK_RATE, {
         detail: { value: this._playbackRate },
@@ -139,6 +150,182 @@ export default class PlayerSettingsService extends Service {
     );
   }
 
+  private _preservePitch: boolean;
+  public get preservePitch() {
+    return this._preservePitch;
+  }
+  public set preservePitch(value: boolean) {
+    this._preservePitch = value === undefined ? true : value; // true by default
+    this.dispatchEvent(
+      new CustomEvent(EventType.PS_UPDATE_PRESERVE_PITCH, {
+        detail: { value: this._preservePitch },
+      }),
+    );
+  }
+
+  // seconds rewound when playback is resumed after a pause
+  private _autoRewindSec: number;
+  public get autoRewindSec() {
+    return this._autoRewindSec;
+  }
+  public set autoRewindSec(value: number) {
+    this._autoRewindSec = getLimitedValueInRange(
+      value,
+      0,
+      PlayerSettingsService.AUTO_REWIND_MAX,
+      0,
+    );
+  }
+
+  // seconds moved by skip backward and skip forward
+  private _skipSec: number;
+  public get skipSec() {
+    return this._skipSec;
+  }
+  public set skipSec(value: number) {
+    this._skipSec = getValueInRange(
+      value,
+      0.1,
+      60,
+      PlayerSettingsService.SKIP_SEC_DEFAULT,
+    );
+  }
+
+  // playback rate added by speed up and subtracted by speed down
+  private _speedStep: number;
+  public get speedStep() {
+    return this._speedStep;
+  }
+  public set speedStep(value: number) {
+    this._speedStep = getValueInRange(
+      value,
+      0.01,
+      1,
+      PlayerSettingsService.SPEED_STEP_DEFAULT,
+    );
+  }
+
+  // empty if disabled
+  private _holdToPlayKey: string;
+  public get holdToPlayKey() {
+    return this._holdToPlayKey;
+  }
+  public set holdToPlayKey(value: string) {
+    this._holdToPlayKey = typeof value === "string" ? value : ""; // disabled by default
+  }
+
+  // mute, solo and pan of each channel, pan is -1 (left) ~ 1 (right)
+  private _channelMutes: boolean[] = [];
+  private _channelSolos: boolean[] = [];
+  private _channelPans: number[] = [];
+  public get numberOfChannels() {
+    return this._channelPans.length;
+  }
+  public isChannelMuted(ch: number) {
+    return this._channelMutes[ch];
+  }
+  public isChannelSoloed(ch: number) {
+    return this._channelSolos[ch];
+  }
+  public getChannelPan(ch: number) {
+    return this._channelPans[ch];
+  }
+  // soloed channels are heard if any, otherwise channels which are not muted
+  public isChannelAudible(ch: number) {
+    if (this._channelSolos.some((solo) => solo)) {
+      return this._channelSolos[ch];
+    }
+    return !this._channelMutes[ch];
+  }
+  public setChannelMute(ch: number, value: boolean) {
+    this._channelMutes[ch] = value;
+    this.dispatchChannelMix(ch);
+  }
+  public setChannelSolo(ch: number, value: boolean) {
+    this._channelSolos[ch] = value;
+    this.dispatchChannelMix(ch);
+  }
+  public setChannelPan(ch: number, value: number) {
+    this._channelPans[ch] = getLimitedValueInRange(
+      value,
+      -1,
+      1,
+      this.getDefaultChannelPan(ch),
+    );
+    this.dispatchChannelMix(ch);
+  }
+  // stereo channels are panned to their sides, others to the center
+  public getDefaultChannelPan(ch: number) {
+    if (this.numberOfChannels !== 2) {
+      return 0;
+    }
+    return ch === 0 ? -1 : 1;
+  }
+  private dispatchChannelMix(ch: number) {
+    this.dispatchEvent(
+      new CustomEvent(EventType.PS_UPDATE_CHANNEL_MIX, {
+        detail: { channel: ch },
+      }),
+    );
+  }
+  private initChannels(numberOfChannels: number) {
+    this._channelMutes = new Array(numberOfChannels).fill(false);
+    this._channelSolos = new Array(numberOfChannels).fill(false);
+    this._channelPans = new Array(numberOfChannels).fill(0);
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      this._channelPans[ch] = this.getDefaultChannelPan(ch);
+    }
+  }
+
+  private _monoSum: boolean;
+  public get monoSum() {
+    return this._monoSum;
+  }
+  public set monoSum(value: boolean) {
+    this._monoSum = value === undefined ? false : value; // false by default
+    this.dispatchEvent(
+      new CustomEvent(EventType.PS_UPDATE_MONO_SUM, {
+        detail: { value: this._monoSum },
+      }),
+    );
+  }
+
+  private _loopPreRoll: number;
+  public get loopPreRoll() {
+    return this._loopPreRoll;
+  }
+  public set loopPreRoll(value: number) {
+    this._loopPreRoll = getLimitedValueInRange(
+      value,
+      0,
+      PlayerSettingsService.LOOP_ROLL_MAX,
+      0,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.PS_UPDATE_LOOP_PRE_ROLL, {
+        detail: { value: this._loopPreRoll },
+      }),
+    );
+  }
+
+  private _loopPostRoll: number;
+  public get loopPostRoll() {
+    return this._loopPostRoll;
+  }
+  public set loopPostRoll(value: number) {
+    this._loopPostRoll = getLimitedValueInRange(
+      value,
+      0,
+      PlayerSettingsService.LOOP_ROLL_MAX,
+      0,
+    );
+    this.dispatchEvent(
+      new CustomEvent(EventType.PS_UPDATE_LOOP_POST_ROLL, {
+        detail: { value: this._loopPostRoll },
+      }),
+    );
+  }
+
   private _matchFilterFrequencyToSpectrogram: boolean;
   public get matchFilterFrequencyToSpectrogram() {
     return this._matchFilterFrequencyToSpectrogram;
@@ -168,6 +355,14 @@ export default class PlayerSettingsService extends Service {
     lpfFrequency: number,
     matchFilterFrequencyToSpectrogram: boolean,
     playbackRate: number,
+    preservePitch: boolean,
+    loopPreRoll: number,
+    loopPostRoll: number,
+    autoRewindSec: number,
+    skipSec: number,
+    speedStep: number,
+    holdToPlayKey: string,
+    monoSum: boolean,
   ) {
     super();
     this._volumeUnitDb = volumeUnitDb;
@@ -181,6 +376,14 @@ export default class PlayerSettingsService extends Service {
     this._lpfFrequency = lpfFrequency;
     this._matchFilterFrequencyToSpectrogram = matchFilterFrequencyToSpectrogram;
     this._playbackRate = playbackRate;
+    this._preservePitch = preservePitch;
+    this._loopPreRoll = loopPreRoll;
+    this._loopPostRoll = loopPostRoll;
+    this._autoRewindSec = autoRewindSec;
+    this._skipSec = skipSec;
+    this._speedStep = speedStep;
+    this._holdToPlayKey = holdToPlayKey;
+    this._monoSum = monoSum;
   }
 
   public static fromDefaultSetting(
@@ -200,14 +403,39 @@ export default class PlayerSettingsService extends Service {
       this.FILTER_FREQUENCY_LPF_DEFAULT,
       false,
       1.0,
+      true,
+      0,
+      0,
+      0,
+      this.SKIP_SEC_DEFAULT,
+      this.SPEED_STEP_DEFAULT,
+      "",
+      false,
     );
 
     // set sample rate of audio buffer to instance
     setting._sampleRate = audioBuffer.sampleRate;
 
+    // init channel mix
+    setting.initChannels(audioBuffer.numberOfChannels);
+    setting.monoSum = defaultSetting.monoSum;
+
     // init playback rate
     setting.playbackRate = defaultSetting.playbackRate;
 
+    // init preserve pitch
+    setting.preservePitch = defaultSetting.preservePitch;
+
+    // init loop pre-roll and post-roll
+    setting.loopPreRoll = defaultSetting.loopPreRoll;
+    setting.loopPostRoll = defaultSetting.loopPostRoll;
+
+    // init transcriber-style controls
+    setting.autoRewindSec = defaultSetting.autoRewindSec;
+    setting.skipSec = defaultSetting.skipSec;
+    setting.speedStep = defaultSetting.speedStep;
+    setting.holdToPlayKey = defaultSetting.holdToPlayKey;
+
     // init volume unit
     setting.volumeUnitDb = defaultSetting.volumeUnitDb;
 
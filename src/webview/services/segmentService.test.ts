@@ -0,0 +1,94 @@
+import { EventType } from "../events";
+import { waitEventForAction } from "../../__mocks__/helper";
+import SegmentService from "./segmentService";
+
+describe("segmentService", () => {
+  test("initial segments should be sanitized and sorted", () => {
+    const segmentService = new SegmentService(10, [
+      { start: 5, end: 6, label: "b" },
+      { start: 1, end: 2, label: "a" },
+      { start: 3, end: 2, label: "invalid" },
+      { start: 12, end: 13, label: "out of duration" },
+      { start: 9, end: 11, label: "clamped" },
+    ]);
+    expect(segmentService.segments).toEqual([
+      { start: 1, end: 2, label: "a" },
+      { start: 5, end: 6, label: "b" },
+      { start: 9, end: 11, label: "clamped" },
+      { start: 12, end: 13, label: "out of duration" },
+    ]);
+    expect(segmentService.segmentsInDuration).toEqual([
+      { start: 1, end: 2, label: "a" },
+      { start: 5, end: 6, label: "b" },
+      { start: 9, end: 10, label: "clamped" },
+    ]);
+  });
+
+  test("segments out of the duration should be kept and relabeled", () => {
+    const segmentService = new SegmentService(10, [
+      { start: 1, end: 2, label: "a" },
+      { start: 12, end: 13, label: "b" },
+    ]);
+    segmentService.updateSegment(0, { end: 3 });
+    segmentService.updateSegment(1, { label: "c" });
+    expect(segmentService.segments).toEqual([
+      { start: 1, end: 3, label: "a" },
+      { start: 12, end: 13, label: "c" },
+    ]);
+  });
+
+  test("addSegment should insert in order and select new segment", async () => {
+    const segmentService = new SegmentService(10, [
+      { start: 1, end: 2, label: "a" },
+      { start: 5, end: 6, label: "b" },
+    ]);
+    const detail = await waitEventForAction(
+      () => {
+        expect(segmentService.addSegment(4, 3, "c")).toBe(1);
+      },
+      segmentService,
+      EventType.SEG_UPDATE_SEGMENTS,
+    );
+    expect(detail.value[1]).toEqual({ start: 3, end: 4, label: "c" });
+    expect(segmentService.selectedIndex).toBe(1);
+  });
+
+  test("addSegment should ignore too short range", () => {
+    const segmentService = new SegmentService(10);
+    expect(segmentService.addSegment(1, 1.001)).toBe(-1);
+    expect(segmentService.segments.length).toBe(0);
+  });
+
+  test("updateSegment should keep order", () => {
+    const segmentService = new SegmentService(10, [
+      { start: 1, end: 2, label: "a" },
+      { start: 5, end: 6, label: "b" },
+    ]);
+    segmentService.updateSegment(0, { start: 7, end: 8, label: "a2" });
+    expect(segmentService.segments).toEqual([
+      { start: 5, end: 6, label: "b" },
+      { start: 7, end: 8, label: "a2" },
+    ]);
+    expect(segmentService.selectedIndex).toBe(1);
+  });
+
+  test("removeSegment should clear selection", () => {
+    const segmentService = new SegmentService(10, [
+      { start: 1, end: 2, label: "a" },
+    ]);
+    segmentService.selectedIndex = 0;
+    segmentService.removeSegment(0);
+    expect(segmentService.segments.length).toBe(0);
+    expect(segmentService.selectedIndex).toBe(-1);
+  });
+
+  test("findSegmentAt", () => {
+    const segmentService = new SegmentService(10, [
+      { start: 1, end: 2, label: "a" },
+      { start: 5, end: 6, label: "b" },
+    ]);
+    expect(segmentService.findSegmentAt(1.5)).toBe(0);
+    expect(segmentService.findSegmentAt(5)).toBe(1);
+    expect(segmentService.findSegmentAt(3)).toBe(-1);
+  });
+});
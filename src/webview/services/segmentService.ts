@@ -0,0 +1,124 @@
+import { EventType } from "../events";
+import { Segment, sanitizeSegments, sortSegments } from "../../segment";
+import Service from "../service";
+
+export default class SegmentService extends Service {
+  public static readonly MIN_SEGMENT_DURATION = 0.01;
+
+  private _duration: number;
+  public get duration() {
+    return this._duration;
+  }
+  // the duration changes after audio edits, segments out of it are kept like in the constructor
+  public set duration(value: number) {
+    this._duration = value;
+  }
+
+  private _segments: Segment[] = [];
+  public get segments(): readonly Segment[] {
+    return this._segments;
+  }
+
+  private _selectedIndex: number = -1;
+  public get selectedIndex() {
+    return this._selectedIndex;
+  }
+  public set selectedIndex(value: number) {
+    this._selectedIndex =
+      Number.isInteger(value) && 0 <= value && value < this._segments.length
+        ? value
+        : -1;
+    this.dispatchEvent(
+      new CustomEvent(EventType.SEG_UPDATE_SELECTED_INDEX, {
+        detail: { value: this._selectedIndex },
+      }),
+    );
+  }
+
+  // segments out of the duration are kept, so that they are saved with the others
+  constructor(duration: number, segments: Segment[] = []) {
+    super();
+    this._duration = duration;
+    this._segments = sanitizeSegments(segments);
+  }
+
+  // segments within the duration, those out of it are dropped and the last one is cut
+  public get segmentsInDuration(): Segment[] {
+    return this._segments
+      .filter((s) => s.start < this._duration)
+      .map((s) => ({ ...s, end: Math.min(s.end, this._duration) }));
+  }
+
+  public setSegments(segments: Segment[]) {
+    this._segments = sanitizeSegments(segments);
+    this._selectedIndex = -1;
+    this.dispatchUpdate();
+  }
+
+  // add a new segment and return its index, or -1 if the range is too short
+  public addSegment(start: number, end: number, label: string = ""): number {
+    const [s, e] = this.clampRange(start, end);
+    if (e - s < SegmentService.MIN_SEGMENT_DURATION) {
+      return -1;
+    }
+    const segment = { start: s, end: e, label };
+    this._segments.push(segment);
+    sortSegments(this._segments);
+    this.dispatchUpdate();
+
+    const index = this._segments.indexOf(segment);
+    this.selectedIndex = index;
+    return index;
+  }
+
+  public updateSegment(index: number, value: Partial<Segment>) {
+    const current = this._segments[index];
+    if (!current) {
+      return;
+    }
+    // a segment out of the duration can be relabeled without moving it
+    const [start, end] =
+      value.start === undefined && value.end === undefined
+        ? [current.start, current.end]
+        : this.clampRange(
+            value.start ?? current.start,
+            value.end ?? current.end,
+          );
+    if (end - start < SegmentService.MIN_SEGMENT_DURATION) {
+      return;
+    }
+    const segment = { start, end, label: value.label ?? current.label };
+    this._segments[index] = segment;
+    sortSegments(this._segments);
+    this._selectedIndex = this._segments.indexOf(segment);
+    this.dispatchUpdate();
+  }
+
+  public removeSegment(index: number) {
+    if (!this._segments[index]) {
+      return;
+    }
+    this._segments.splice(index, 1);
+    this._selectedIndex = -1;
+    this.dispatchUpdate();
+  }
+
+  // return index of the segment which contains sec, or -1
+  public findSegmentAt(sec: number): number {
+    return this._segments.findIndex((s) => s.start <= sec && sec < s.end);
+  }
+
+  private clampRange(start: number, end: number): [number, number] {
+    const s = Math.max(0, Math.min(start, end));
+    const e = Math.min(this._duration, Math.max(start, end));
+    return [s, e];
+  }
+
+  private dispatchUpdate() {
+    this.dispatchEvent(
+      new CustomEvent(EventType.SEG_UPDATE_SEGMENTS, {
+        detail: { value: this._segments },
+      }),
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { splitOnSilence } from "./silenceSplit";
+
+describe("splitOnSilence", () => {
+  const sampleRate = 1000;
+  // tone in the given ranges (seconds), silence elsewhere
+  const createChannel = (duration: number, ranges: [number, number][]) => {
+    const channel = new Float32Array(duration * sampleRate);
+    for (const [start, end] of ranges) {
+      for (let i = start * sampleRate; i < end * sampleRate; i++) {
+        channel[i] = 0.5 * Math.sin(i);
+      }
+    }
+    return channel;
+  };
+  const options = {
+    thresholdDb: -40,
+    minSilence: 0.3,
+    minRegion: 0.2,
+    padding: 0,
+  };
+
+  test("find loud regions", () => {
+    const channel = createChannel(3, [
+      [0.5, 1],
+      [2, 2.5],
+    ]);
+    expect(splitOnSilence([channel], sampleRate, options)).toEqual([
+      { start: 0.5, end: 1, label: "" },
+      { start: 2, end: 2.5, label: "" },
+    ]);
+  });
+
+  test("short silences and short regions", () => {
+    const channel = createChannel(3, [
+      [0.5, 1],
+      [1.1, 1.5],
+      [2.5, 2.6],
+    ]);
+    expect(splitOnSilence([channel], sampleRate, options)).toEqual([
+      { start: 0.5, end: 1.5, label: "" },
+    ]);
+  });
+
+  test("padding is clamped to the audio", () => {
+    const channel = createChannel(1, [[0, 0.5]]);
+    const regions = splitOnSilence([channel], sampleRate, {
+      ...options,
+      padding: 0.1,
+    });
+    expect(regions).toEqual([{ start: 0, end: 0.6, label: "" }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { Segment } from "../segment";
+
+export interface SilenceSplitOptions {
+  // frames quieter than this RMS level (dBFS) are silence
+  thresholdDb: number;
+  // silences shorter than this (seconds) do not split regions
+  minSilence: number;
+  // regions shorter than this (seconds) are dropped
+  minRegion: number;
+  // seconds added before and after each region
+  padding: number;
+}
+
+export const defaultSilenceSplitOptions: SilenceSplitOptions = {
+  thresholdDb: -40,
+  minSilence: 0.3,
+  minRegion: 0.2,
+  padding: 0.05,
+};
+
+const frameSec = 0.01;
+
+// RMS level in dBFS of each frame, the loudest channel is used
+function getFrameLevels(
+  channels: readonly Float32Array[],
+  frameSize: number,
+): number[] {
+  const length = channels[0]?.length ?? 0;
+  const levels: number[] = [];
+  for (let start = 0; start < length; start += frameSize) {
+    const end = Math.min(start + frameSize, length);
+    let maxPower = 0;
+    for (const channel of channels) {
+      let power = 0;
+      for (let i = start; i < end; i++) {
+        power += channel[i] * channel[i];
+      }
+      maxPower = Math.max(maxPower, power / (end - start));
+    }
+    levels.push(10 * Math.log10(maxPower || Number.MIN_VALUE));
+  }
+  return levels;
+}
+
+// split the audio into non-silent regions, labels are empty
+export function splitOnSilence(
+  channels: readonly Float32Array[],
+  sampleRate: number,
+  options: SilenceSplitOptions = defaultSilenceSplitOptions,
+): Segment[] {
+  const frameSize = Math.max(Math.round(frameSec * sampleRate), 1);
+  const levels = getFrameLevels(channels, frameSize);
+  const duration = (channels[0]?.length ?? 0) / sampleRate;
+  const frameDuration = frameSize / sampleRate;
+
+  // runs of loud frames, joined when the silence between them is short
+  const regions: { start: number; end: number }[] = [];
+  levels.forEach((level, i) => {
+    if (level < options.thresholdDb) {
+      return;
+    }
+    const start = i * frameDuration;
+    const end = Math.min((i + 1) * frameDuration, duration);
+    const last = regions[regions.length - 1];
+    if (last && start - last.end < options.minSilence) {
+      last.end = end;
+    } else {
+      regions.push({ start, end });
+    }
+  });
+
+  return regions
+    .filter((r) => r.end - r.start >= options.minRegion)
+    .map((r) => ({
+      start: Math.max(r.start - options.padding, 0),
+      end: Math.min(r.end + options.padding, duration),
+      label: "",
+    }));
+}
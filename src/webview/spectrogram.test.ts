@@ -0,0 +1,257 @@
+import { AnalyzeSettingsProps } from "./services/analyzeSettingsService";
+import {
+  computeSpectrogramFrames,
+  getFrameSampleRange,
+  getMaxPower,
+  getNumBins,
+  getSpectrogramParams,
+  FrequencyScale,
+  SpectrogramType,
+} from "./spectrogram";
+import { hzToMel, MelNorm, MelScale } from "./melFilterBank";
+import { WindowFunction } from "./windowFunction";
+
+const settings: AnalyzeSettingsProps = {
+  waveformVerticalScale: 1,
+  spectrogramVerticalScale: 1,
+  windowSize: 256,
+  hopSize: 64,
+  minFrequency: 0,
+  maxFrequency: 4000,
+  minTime: 0,
+  maxTime: 0.5,
+  minAmplitude: -1,
+  maxAmplitude: 1,
+  spectrogramAmplitudeRange: -90,
+  spectrogramType: SpectrogramType.Stft,
+  frequencyScale: 0,
+  melFilterNum: 40,
+  mfccNum: 20,
+  melScale: MelScale.Slaney,
+  melNorm: MelNorm.Slaney,
+  windowFunction: WindowFunction.Hann,
+  kaiserBeta: 8.6,
+  gaussianSigma: 0.4,
+  pitchVisible: false,
+  minF0: 75,
+  maxF0: 600,
+  formantVisible: false,
+  maxFormant: 5500,
+  numFormants: 5,
+  formantWindowLength: 0.025,
+};
+
+// sine at the center of the frequency bin
+function createSine(length: number, sampleRate: number, bin: number) {
+  const data = new Float32Array(length);
+  const frequency = (bin * sampleRate) / settings.windowSize;
+  for (let i = 0; i < length; i++) {
+    data[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return data;
+}
+
+describe("getSpectrogramParams", () => {
+  test("frames and frequency bins", () => {
+    const params = getSpectrogramParams(settings, 8000, false);
+    expect(params.startIndex).toBe(0);
+    expect(params.numFrames).toBe(Math.ceil(4000 / 64));
+    expect(params.minFreqIndex).toBe(0);
+    expect(params.maxFreqIndex).toBe(128);
+    expect(getNumBins(params)).toBe(128);
+  });
+
+  test("mel spectrogram has a bin for each filter", () => {
+    const params = getSpectrogramParams(settings, 8000, true);
+    expect(getNumBins(params)).toBe(40);
+  });
+});
+
+describe("spectrogram types", () => {
+  const getParams = (spectrogramType: SpectrogramType) =>
+    getSpectrogramParams({ ...settings, spectrogramType }, 8000, false);
+
+  test("number of bins of each type", () => {
+    expect(getNumBins(getParams(SpectrogramType.ConstantQ))).toBe(83);
+    expect(getNumBins(getParams(SpectrogramType.Mfcc))).toBe(20);
+    expect(getNumBins(getParams(SpectrogramType.Chroma))).toBe(12);
+    expect(getNumBins(getParams(SpectrogramType.Reassigned))).toBe(128);
+  });
+
+  test("constant-Q frames need the samples of the longest kernel", () => {
+    const params = getParams(SpectrogramType.ConstantQ);
+    const [start, end] = getFrameSampleRange(params, 50, 2, 4000);
+    // the kernel of C1 is about 4000 samples at 8 kHz
+    expect(start).toBeLessThan(50 * 64 - 2000);
+    expect(end).toBe(4000);
+
+    const data = createSine(4000, 8000, 14.08);
+    const whole = computeSpectrogramFrames(params, data, 0, 50, 2);
+    const slice = computeSpectrogramFrames(
+      params,
+      data.slice(start, end),
+      start,
+      50,
+      2,
+    );
+    expect(slice).toEqual(whole);
+    // 440 Hz is the 45th semitone from C1
+    const bins = Array.from(whole.subarray(0, 83));
+    expect(bins.indexOf(Math.max(...bins))).toBe(45);
+  });
+
+  test("mfcc and chroma of a sine", () => {
+    const data = createSine(4000, 8000, 14.08);
+    const mfcc = computeSpectrogramFrames(
+      getParams(SpectrogramType.Mfcc),
+      data,
+      0,
+      10,
+      2,
+    );
+    expect(mfcc.length).toBe(2 * 20);
+    expect(mfcc.every((v) => Number.isFinite(v))).toBe(true);
+
+    const chroma = computeSpectrogramFrames(
+      getParams(SpectrogramType.Chroma),
+      data,
+      0,
+      10,
+      1,
+    );
+    // 440 Hz is A
+    expect(chroma[9]).toBe(1);
+    expect(Math.max(...chroma)).toBe(1);
+  });
+
+  test("reassigned spectrogram concentrates a sine between bins into one bin", () => {
+    const data = createSine(4000, 8000, 32.7);
+    const getPeakRatio = (spectrogramType: SpectrogramType) => {
+      const power = computeSpectrogramFrames(
+        getParams(spectrogramType),
+        data,
+        0,
+        10,
+        1,
+      );
+      const total = power.reduce((a, v) => a + v, 0);
+      return power[32] / total;
+    };
+    expect(getPeakRatio(SpectrogramType.Reassigned)).toBeGreaterThan(0.95);
+    expect(getPeakRatio(SpectrogramType.Stft)).toBeLessThan(0.6);
+  });
+
+  test("reassigned spectrogram follows the frequency scale", () => {
+    const data = createSine(4000, 8000, 32);
+    const params = getSpectrogramParams(
+      {
+        ...settings,
+        spectrogramType: SpectrogramType.Reassigned,
+        frequencyScale: FrequencyScale.Log,
+        minFrequency: 10,
+      },
+      8000,
+      false,
+    );
+    const power = computeSpectrogramFrames(params, data, 0, 10, 1);
+    const bins = Array.from(power);
+    // 1000 Hz on the log axis from 10 Hz to 4000 Hz
+    const expected = Math.floor(
+      (Math.log10(1000 / 10) / Math.log10(4000 / 10)) * power.length,
+    );
+    expect(bins.indexOf(Math.max(...bins))).toBe(expected);
+  });
+});
+
+describe("getFrameSampleRange", () => {
+  test("windows of the frames are clamped to the audio", () => {
+    const params = getSpectrogramParams(settings, 8000, false);
+    expect(getFrameSampleRange(params, 0, 4, 4000)).toEqual([0, 320]);
+    expect(getFrameSampleRange(params, 10, 4, 4000)).toEqual([512, 960]);
+    expect(getFrameSampleRange(params, 60, 3, 4000)).toEqual([3712, 4000]);
+  });
+});
+
+describe("computeSpectrogramFrames", () => {
+  test("power is the largest at the frequency of the sine", () => {
+    const params = getSpectrogramParams(settings, 8000, false);
+    const power = computeSpectrogramFrames(
+      params,
+      createSine(4000, 8000, 32),
+      0,
+      10,
+      2,
+    );
+    expect(power.length).toBe(2 * 128);
+    for (let frame = 0; frame < 2; frame++) {
+      const bins = Array.from(power.subarray(frame * 128, (frame + 1) * 128));
+      expect(bins.indexOf(Math.max(...bins))).toBe(32);
+    }
+  });
+
+  test("mel spectrogram peaks at the filter centered at the frequency of the sine", () => {
+    // the frequency range is in Hz, 1000 Hz is the center of a filter
+    const melSettings = { ...settings, minFrequency: 0, maxFrequency: 4000 };
+    for (const melScale of [MelScale.Slaney, MelScale.Htk]) {
+      const params = getSpectrogramParams(
+        { ...melSettings, melScale },
+        8000,
+        true,
+      );
+      const step = hzToMel(4000, melScale) / 41;
+      const filter = Math.round(hzToMel(1000, melScale) / step) - 1;
+      const power = computeSpectrogramFrames(
+        params,
+        createSine(4000, 8000, 32),
+        0,
+        10,
+        1,
+      );
+      const bins = Array.from(power);
+      expect(
+        Math.abs(bins.indexOf(Math.max(...bins)) - filter),
+      ).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test("window function of the settings is applied", () => {
+    // sine between two bins leaks to far bins without a tapered window
+    const data = createSine(4000, 8000, 32.5);
+    const getLeakage = (windowFunction: WindowFunction) => {
+      const params = getSpectrogramParams(
+        { ...settings, windowFunction },
+        8000,
+        false,
+      );
+      expect(params.windowFunction).toBe(windowFunction);
+      const power = computeSpectrogramFrames(params, data, 0, 10, 1);
+      return power[80] / getMaxPower(power);
+    };
+    const rectangular = getLeakage(WindowFunction.Rectangular);
+    const hann = getLeakage(WindowFunction.Hann);
+    const blackman = getLeakage(WindowFunction.Blackman);
+    expect(hann).toBeLessThan(rectangular / 100);
+    expect(blackman).toBeLessThan(hann);
+  });
+
+  test("frames computed from a slice of the samples are the same", () => {
+    const params = getSpectrogramParams(settings, 8000, true);
+    const data = createSine(4000, 8000, 20);
+    const [start, end] = getFrameSampleRange(params, 20, 8, data.length);
+    const whole = computeSpectrogramFrames(params, data, 0, 20, 8);
+    const slice = computeSpectrogramFrames(
+      params,
+      data.slice(start, end),
+      start,
+      20,
+      8,
+    );
+    expect(slice).toEqual(whole);
+    expect(whole.every((v) => Number.isFinite(v))).toBe(true);
+  });
+
+  test("max power", () => {
+    expect(getMaxPower(new Float32Array([1, 3, 2]))).toBe(3);
+    expect(getMaxPower(new Float32Array(2))).toBe(Number.EPSILON);
+  });
+});
@@ -0,0 +1,325 @@
+import Ooura from "ooura";
+import { AnalyzeSettingsProps } from "./services/analyzeSettingsService";
+import { createWindow, WindowOptions } from "./windowFunction";
+import {
+  applyMelFilterBank,
+  getMelFilterBank,
+  hzToMel,
+  MelNorm,
+  MelScale,
+} from "./melFilterBank";
+import {
+  computeConstantQFrame,
+  ConstantQOptions,
+  getConstantQBins,
+  getConstantQMaxLength,
+} from "./constantQ";
+import { computeMfcc } from "./mfcc";
+import { chromaNames, computeChroma } from "./chroma";
+
+export enum FrequencyScale {
+  Linear = 0,
+  Log = 1,
+  Mel = 2,
+}
+
+// what the spectrogram figure shows
+export enum SpectrogramType {
+  Stft = 0,
+  ConstantQ = 1,
+  Mfcc = 2,
+  Chroma = 3,
+  // power moved to the instantaneous frequency of each bin (synchrosqueezing)
+  Reassigned = 4,
+}
+
+// everything needed to compute the frames of a spectrogram, shared with the worker
+export interface SpectrogramParams extends WindowOptions {
+  spectrogramType: SpectrogramType;
+  sampleRate: number;
+  windowSize: number;
+  hopSize: number;
+  // sample index of the center of the first frame
+  startIndex: number;
+  numFrames: number;
+  minFreqIndex: number;
+  maxFreqIndex: number;
+  // frequency range in Hz, the edges of the mel filters
+  minFrequency: number;
+  maxFrequency: number;
+  // number of mel filters, 0 for the linear spectrogram
+  melFilterNum: number;
+  melScale: MelScale;
+  melNorm: MelNorm;
+  mfccNum: number;
+  // axis of the bins of the reassigned spectrogram
+  frequencyScale: FrequencyScale;
+}
+
+export interface SpectrogramWorkerRequest {
+  id: number;
+  params: SpectrogramParams;
+  // samples from dataOffset, covering the windows of the requested frames
+  data: Float32Array;
+  dataOffset: number;
+  startFrame: number;
+  numFrames: number;
+}
+
+export interface SpectrogramWorkerResponse {
+  id: number;
+  // power of each bin, numFrames * numBins values in frame order
+  power: Float32Array;
+}
+
+export function getSpectrogramParams(
+  settings: AnalyzeSettingsProps,
+  sampleRate: number,
+  isMel: boolean,
+): SpectrogramParams {
+  const startIndex = Math.floor(settings.minTime * sampleRate);
+  const endIndex = Math.floor(settings.maxTime * sampleRate);
+  const df = sampleRate / settings.windowSize;
+  const usesMel = isMel || settings.spectrogramType === SpectrogramType.Mfcc;
+  return {
+    spectrogramType: settings.spectrogramType,
+    sampleRate,
+    windowSize: settings.windowSize,
+    hopSize: settings.hopSize,
+    startIndex,
+    numFrames: Math.max(
+      Math.ceil((endIndex - startIndex) / settings.hopSize),
+      0,
+    ),
+    minFreqIndex: Math.floor(settings.minFrequency / df),
+    maxFreqIndex: Math.floor(settings.maxFrequency / df),
+    minFrequency: settings.minFrequency,
+    maxFrequency: settings.maxFrequency,
+    melFilterNum: usesMel ? settings.melFilterNum : 0,
+    melScale: settings.melScale,
+    melNorm: settings.melNorm,
+    mfccNum: Math.min(settings.mfccNum, settings.melFilterNum),
+    frequencyScale: settings.frequencyScale,
+    windowFunction: settings.windowFunction,
+    kaiserBeta: settings.kaiserBeta,
+    gaussianSigma: settings.gaussianSigma,
+  };
+}
+
+function getConstantQOptions(params: SpectrogramParams): ConstantQOptions {
+  return {
+    sampleRate: params.sampleRate,
+    minFrequency: params.minFrequency,
+    maxFrequency: params.maxFrequency,
+  };
+}
+
+export function getNumBins(params: SpectrogramParams) {
+  switch (params.spectrogramType) {
+    case SpectrogramType.ConstantQ:
+      return getConstantQBins(params.minFrequency, params.maxFrequency).numBins;
+    case SpectrogramType.Mfcc:
+      return params.mfccNum;
+    case SpectrogramType.Chroma:
+      return chromaNames.length;
+    default:
+      return params.melFilterNum > 0
+        ? params.melFilterNum
+        : Math.max(params.maxFreqIndex - params.minFreqIndex, 0);
+  }
+}
+
+// samples before and after the center of a frame which are analyzed
+function getFrameHalfLength(params: SpectrogramParams) {
+  if (params.spectrogramType === SpectrogramType.ConstantQ) {
+    return Math.ceil(getConstantQMaxLength(getConstantQOptions(params)) / 2);
+  }
+  return params.windowSize / 2;
+}
+
+// range of samples needed for the frames, clamped to the audio
+export function getFrameSampleRange(
+  params: SpectrogramParams,
+  startFrame: number,
+  numFrames: number,
+  length: number,
+): [number, number] {
+  const firstCenter = params.startIndex + startFrame * params.hopSize;
+  const lastCenter = firstCenter + (numFrames - 1) * params.hopSize;
+  const halfLength = getFrameHalfLength(params);
+  return [
+    Math.min(Math.max(firstCenter - halfLength, 0), length),
+    Math.min(Math.max(lastCenter + halfLength, 0), length),
+  ];
+}
+
+// position of a frequency on the axis of the reassigned spectrogram, 0 ~ 1 in the frequency range
+function getAxisPosition(params: SpectrogramParams, frequency: number) {
+  const { minFrequency, maxFrequency } = params;
+  switch (params.frequencyScale) {
+    case FrequencyScale.Log: {
+      const logMin = Math.log10(minFrequency + Number.EPSILON);
+      const logMax = Math.log10(maxFrequency + Number.EPSILON);
+      return (
+        (Math.log10(Math.max(frequency, Number.EPSILON)) - logMin) /
+        (logMax - logMin)
+      );
+    }
+    case FrequencyScale.Mel: {
+      const melMin = hzToMel(minFrequency, params.melScale);
+      const melMax = hzToMel(maxFrequency, params.melScale);
+      return (
+        (hzToMel(Math.max(frequency, 0), params.melScale) - melMin) /
+        (melMax - melMin)
+      );
+    }
+    default:
+      return (frequency - minFrequency) / (maxFrequency - minFrequency);
+  }
+}
+
+/*
+Power of numFrames frames from startFrame, in a flat typed array so that it can be transferred.
+data holds the samples from dataOffset, samples outside of it are treated as silence.
+The values are the power of the bins, or the coefficients for MFCC and the normalized energy for chroma.
+*/
+export function computeSpectrogramFrames(
+  params: SpectrogramParams,
+  data: Float32Array,
+  dataOffset: number,
+  startFrame: number,
+  numFrames: number,
+): Float32Array {
+  const numBins = getNumBins(params);
+  const power = new Float32Array(numFrames * numBins);
+
+  if (params.spectrogramType === SpectrogramType.ConstantQ) {
+    const options = getConstantQOptions(params);
+    for (let frame = 0; frame < numFrames; frame++) {
+      const center = params.startIndex + (startFrame + frame) * params.hopSize;
+      computeConstantQFrame(
+        options,
+        data,
+        center - dataOffset,
+        power,
+        frame * numBins,
+      );
+    }
+    return power;
+  }
+
+  const windowSize = params.windowSize;
+  const window = createWindow(windowSize, params);
+  const isReassigned = params.spectrogramType === SpectrogramType.Reassigned;
+  // derivative of the window, for the instantaneous frequency of the reassigned spectrogram
+  const windowDerivative = new Float32Array(isReassigned ? windowSize : 0);
+  for (let j = 0; j < windowDerivative.length; j++) {
+    windowDerivative[j] =
+      (window[(j + 1) % windowSize] -
+        window[(j - 1 + windowSize) % windowSize]) /
+      2;
+  }
+
+  const ooura = new Ooura(windowSize, { type: "real", radix: 4 });
+  const d = ooura.scalarArrayFactory();
+  const re = ooura.vectorArrayFactory();
+  const im = ooura.vectorArrayFactory();
+  const dRe = ooura.vectorArrayFactory();
+  const dIm = ooura.vectorArrayFactory();
+  const filterBank =
+    params.melFilterNum > 0
+      ? getMelFilterBank({
+          sampleRate: params.sampleRate,
+          windowSize,
+          numFilters: params.melFilterNum,
+          minFrequency: params.minFrequency,
+          maxFrequency: params.maxFrequency,
+          melScale: params.melScale,
+          melNorm: params.melNorm,
+        })
+      : [];
+
+  const spectrum = new Float32Array(re.length);
+  const melPower = new Float32Array(params.melFilterNum);
+  for (let frame = 0; frame < numFrames; frame++) {
+    // center of the window
+    const center = params.startIndex + (startFrame + frame) * params.hopSize;
+    const s = center - windowSize / 2 - dataOffset;
+    for (let j = 0; j < windowSize; j++) {
+      const k = s + j;
+      d[j] = k >= 0 && k < data.length ? data[k] * window[j] : 0;
+    }
+    ooura.fft(d.buffer, re.buffer, im.buffer);
+    for (let j = 0; j < re.length; j++) {
+      spectrum[j] = re[j] * re[j] + im[j] * im[j];
+    }
+
+    const offset = frame * numBins;
+    switch (params.spectrogramType) {
+      case SpectrogramType.Mfcc:
+        applyMelFilterBank(filterBank, spectrum, melPower, 0);
+        computeMfcc(melPower, params.mfccNum, power, offset);
+        break;
+      case SpectrogramType.Chroma:
+        computeChroma(
+          spectrum,
+          params.sampleRate / windowSize,
+          params.minFreqIndex,
+          params.maxFreqIndex,
+          power,
+          offset,
+        );
+        break;
+      case SpectrogramType.Reassigned:
+        for (let j = 0; j < windowSize; j++) {
+          const k = s + j;
+          d[j] = k >= 0 && k < data.length ? data[k] * windowDerivative[j] : 0;
+        }
+        ooura.fft(d.buffer, dRe.buffer, dIm.buffer);
+        for (let j = 0; j < re.length; j++) {
+          if (spectrum[j] === 0) {
+            continue;
+          }
+          // offset of the instantaneous frequency from the bin, -Im(X_dw / X_w) in bins
+          const deviation =
+            ((dRe[j] * im[j] - dIm[j] * re[j]) / spectrum[j]) *
+            (windowSize / (2 * Math.PI));
+          const frequency = ((j + deviation) * params.sampleRate) / windowSize;
+          const bin = Math.floor(getAxisPosition(params, frequency) * numBins);
+          if (bin >= 0 && bin < numBins) {
+            power[offset + bin] += spectrum[j];
+          }
+        }
+        break;
+      default:
+        if (params.melFilterNum > 0) {
+          applyMelFilterBank(filterBank, spectrum, power, offset);
+          break;
+        }
+        for (let j = 0; j < numBins; j++) {
+          power[offset + j] = spectrum[params.minFreqIndex + j];
+        }
+        break;
+    }
+  }
+  return power;
+}
+
+export function getMaxPower(power: Float32Array): number {
+  let maxValue = Number.EPSILON;
+  for (let i = 0; i < power.length; i++) {
+    if (maxValue < power[i]) {
+      maxValue = power[i];
+    }
+  }
+  return maxValue;
+}
+
+// max of the magnitudes, for values which can be negative like MFCC
+export function getMaxAbsValue(values: Float32Array): number {
+  let maxValue = Number.EPSILON;
+  for (let i = 0; i < values.length; i++) {
+    maxValue = Math.max(maxValue, Math.abs(values[i]));
+  }
+  return maxValue;
+}
@@ -0,0 +1,19 @@
+import {
+  computeSpectrogramFrames,
+  SpectrogramWorkerRequest,
+  SpectrogramWorkerResponse,
+} from "./spectrogram";
+
+// entry point of the spectrogram worker, see spectrogramWorkerPool.ts
+self.onmessage = (e: MessageEvent<SpectrogramWorkerRequest>) => {
+  const { id, params, data, dataOffset, startFrame, numFrames } = e.data;
+  const power = computeSpectrogramFrames(
+    params,
+    data,
+    dataOffset,
+    startFrame,
+    numFrames,
+  );
+  const response: SpectrogramWorkerResponse = { id, power };
+  self.postMessage(response, { transfer: [power.buffer] });
+};
@@ -0,0 +1,151 @@
+import { wait } from "../__mocks__/helper";
+import {
+  computeSpectrogramFrames,
+  FrequencyScale,
+  SpectrogramType,
+  SpectrogramWorkerRequest,
+} from "./spectrogram";
+import SpectrogramWorkerPool from "./spectrogramWorkerPool";
+import { MelNorm, MelScale } from "./melFilterBank";
+import { WindowFunction } from "./windowFunction";
+
+// computes the frames like spectrogramWorker.ts, after the test calls respond
+class FakeWorker {
+  public onmessage: (e: { data: unknown }) => void;
+  public onerror: (e: { message: string }) => void;
+  public requests: SpectrogramWorkerRequest[] = [];
+  public isTerminated = false;
+
+  public postMessage(request: SpectrogramWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  public respond() {
+    const { id, params, data, dataOffset, startFrame, numFrames } =
+      this.requests.shift();
+    const power = computeSpectrogramFrames(
+      params,
+      data,
+      dataOffset,
+      startFrame,
+      numFrames,
+    );
+    this.onmessage({ data: { id, power } });
+  }
+
+  public terminate() {
+    this.isTerminated = true;
+  }
+}
+
+const params = {
+  spectrogramType: SpectrogramType.Stft,
+  sampleRate: 8000,
+  windowSize: 256,
+  hopSize: 64,
+  startIndex: 0,
+  numFrames: 8,
+  minFreqIndex: 0,
+  maxFreqIndex: 128,
+  minFrequency: 0,
+  maxFrequency: 4000,
+  melFilterNum: 0,
+  melScale: MelScale.Slaney,
+  melNorm: MelNorm.Slaney,
+  mfccNum: 20,
+  frequencyScale: FrequencyScale.Linear,
+  windowFunction: WindowFunction.Hann,
+  kaiserBeta: 8.6,
+  gaussianSigma: 0.4,
+  pitchVisible: false,
+  minF0: 75,
+  maxF0: 600,
+  formantVisible: false,
+  maxFormant: 5500,
+  numFormants: 5,
+  formantWindowLength: 0.025,
+};
+
+function createRequest(startFrame: number) {
+  return {
+    params,
+    data: new Float32Array(1024).fill(0.5),
+    dataOffset: 0,
+    startFrame,
+    numFrames: 2,
+  };
+}
+
+describe("spectrogramWorkerPool", () => {
+  let workers: FakeWorker[];
+  let pool: SpectrogramWorkerPool;
+  beforeEach(() => {
+    workers = [];
+    pool = new SpectrogramWorkerPool(async () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker as unknown as Worker;
+    }, 2);
+  });
+
+  test("jobs are dispatched to idle workers", async () => {
+    const results = [0, 2, 4].map((frame) => pool.run(0, createRequest(frame)));
+    await wait(0);
+    expect(workers.length).toBe(2);
+    expect(workers[0].requests.length).toBe(1);
+    expect(workers[1].requests.length).toBe(1);
+
+    workers[0].respond();
+    expect(workers[0].requests[0].startFrame).toBe(4);
+    workers[1].respond();
+    workers[0].respond();
+    const powers = await Promise.all(results);
+    expect(powers.map((p) => p.length)).toEqual([256, 256, 256]);
+    expect(powers[2]).toEqual(
+      computeSpectrogramFrames(params, createRequest(4).data, 0, 4, 2),
+    );
+  });
+
+  test("queued jobs of a cancelled task resolve to undefined", async () => {
+    const results = [0, 2, 4, 6].map((frame) =>
+      pool.run(frame < 4 ? 1 : 2, createRequest(frame)),
+    );
+    await wait(0);
+    pool.cancel(1);
+    pool.cancel(2);
+    expect(await results[2]).toBeUndefined();
+    expect(await results[3]).toBeUndefined();
+
+    workers[0].respond();
+    expect((await results[0]).length).toBe(256);
+    expect(workers[0].requests.length).toBe(0);
+  });
+
+  test("errors of workers reject the job", async () => {
+    const result = pool.run(0, createRequest(0));
+    await wait(0);
+    workers[0].onerror({ message: "out of memory" });
+    await expect(result).rejects.toThrow("out of memory");
+  });
+
+  test("jobs are rejected if workers can not be created", async () => {
+    const failingPool = new SpectrogramWorkerPool(async () => {
+      throw new Error("blocked");
+    }, 1);
+    await expect(failingPool.run(0, createRequest(0))).rejects.toThrow(
+      "blocked",
+    );
+    await expect(failingPool.run(0, createRequest(2))).rejects.toThrow(
+      "blocked",
+    );
+  });
+
+  test("dispose terminates workers", async () => {
+    const result = pool.run(0, createRequest(0));
+    await wait(0);
+    pool.dispose();
+    expect(await result).toBeUndefined();
+    await wait(0);
+    expect(workers.every((w) => w.isTerminated)).toBe(true);
+  });
+});
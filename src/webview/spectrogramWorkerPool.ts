@@ -0,0 +1,142 @@
+import {
+  SpectrogramWorkerRequest,
+  SpectrogramWorkerResponse,
+} from "./spectrogram";
+
+export type CreateWorker = () => Promise<Worker>;
+
+interface Job {
+  taskId: number;
+  request: SpectrogramWorkerRequest;
+  resolve: (power: Float32Array | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+/*
+Workers computing chunks of spectrogram frames, see spectrogramWorker.ts.
+Samples and results are transferred, not copied.
+Jobs of a cancelled task are dropped from the queue and resolve to undefined.
+*/
+export default class SpectrogramWorkerPool {
+  public static readonly DEFAULT_SIZE = Math.min(
+    Math.max((globalThis.navigator?.hardwareConcurrency ?? 2) - 1, 1),
+    4,
+  );
+
+  private _createWorker: CreateWorker;
+  private _size: number;
+  private _workers: Promise<Worker>[] = [];
+  private _idleWorkers: Worker[] = [];
+  private _queue: Job[] = [];
+  // job computed by each busy worker
+  private _running = new Map<Worker, Job>();
+  private _nextId = 0;
+  private _isDisposed = false;
+  // set when workers can not be created, e.g. blocked by the content security policy
+  private _error: Error;
+
+  constructor(
+    createWorker: CreateWorker,
+    size = SpectrogramWorkerPool.DEFAULT_SIZE,
+  ) {
+    this._createWorker = createWorker;
+    this._size = size;
+  }
+
+  public run(
+    taskId: number,
+    request: Omit<SpectrogramWorkerRequest, "id">,
+  ): Promise<Float32Array | undefined> {
+    return new Promise((resolve, reject) => {
+      if (this._error) {
+        reject(this._error);
+        return;
+      }
+      this._queue.push({
+        taskId,
+        request: { ...request, id: this._nextId++ },
+        resolve,
+        reject,
+      });
+      this.startWorkers();
+      this.dispatch();
+    });
+  }
+
+  public cancel(taskId: number) {
+    this._queue = this._queue.filter((job) => {
+      if (job.taskId !== taskId) {
+        return true;
+      }
+      job.resolve(undefined);
+      return false;
+    });
+  }
+
+  public dispose() {
+    this._isDisposed = true;
+    for (const job of [...this._queue, ...this._running.values()]) {
+      job.resolve(undefined);
+    }
+    this._queue = [];
+    this._running.clear();
+    for (const worker of this._workers) {
+      worker.then((w) => w.terminate()).catch(() => undefined);
+    }
+    this._workers = [];
+    this._idleWorkers = [];
+  }
+
+  // workers are created on the first job
+  private startWorkers() {
+    while (this._workers.length < this._size) {
+      const worker = this._createWorker().then((w) => {
+        if (this._isDisposed) {
+          w.terminate();
+          return w;
+        }
+        w.onmessage = (e: MessageEvent<SpectrogramWorkerResponse>) =>
+          this.onResult(w, e.data);
+        w.onerror = (e: ErrorEvent) => this.onError(w, e);
+        this._idleWorkers.push(w);
+        this.dispatch();
+        return w;
+      });
+      worker.catch((error: Error) => {
+        this._error = error;
+        for (const job of this._queue) {
+          job.reject(error);
+        }
+        this._queue = [];
+      });
+      this._workers.push(worker);
+    }
+  }
+
+  private dispatch() {
+    while (this._idleWorkers.length > 0 && this._queue.length > 0) {
+      const worker = this._idleWorkers.shift();
+      const job = this._queue.shift();
+      this._running.set(worker, job);
+      worker.postMessage(job.request, [job.request.data.buffer]);
+    }
+  }
+
+  private onResult(worker: Worker, response: SpectrogramWorkerResponse) {
+    const job = this._running.get(worker);
+    this._running.delete(worker);
+    if (job?.request.id === response.id) {
+      job.resolve(response.power);
+    }
+    this._idleWorkers.push(worker);
+    this.dispatch();
+  }
+
+  private onError(worker: Worker, e: ErrorEvent) {
+    const job = this._running.get(worker);
+    this._running.delete(worker);
+    job?.reject(new Error(e.message));
+    this._idleWorkers.push(worker);
+    this.dispatch();
+  }
+}
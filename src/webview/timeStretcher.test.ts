@@ -0,0 +1,84 @@
+import TimeStretcher from "./timeStretcher";
+
+const sampleRate = 8000;
+
+function createSine(frequency: number, length: number) {
+  return new Float32Array(length).map((_, i) =>
+    Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+  );
+}
+
+// crossings per second from negative to positive
+function getFrequency(data: Float32Array) {
+  let crossings = 0;
+  for (let i = 1; i < data.length; i++) {
+    if (data[i - 1] < 0 && data[i] >= 0) {
+      crossings++;
+    }
+  }
+  return crossings / (data.length / sampleRate);
+}
+
+describe("timeStretcher", () => {
+  test("half speed doubles the length and keeps the pitch", () => {
+    const stretcher = new TimeStretcher(
+      [createSine(200, sampleRate)],
+      sampleRate,
+      0.5,
+      0,
+    );
+    const output = stretcher.process(sampleRate * 4)[0];
+    expect(stretcher.ended).toBe(true);
+    expect(output.length / sampleRate).toBeCloseTo(2, 1);
+    // without the fade in and out at the edges
+    const steady = output.subarray(
+      sampleRate / 10,
+      output.length - sampleRate / 10,
+    );
+    expect(getFrequency(steady)).toBeCloseTo(200, -1);
+    // overlapped frames are aligned, so the amplitude does not drop
+    expect(Math.max(...steady)).toBeGreaterThan(0.95);
+  });
+
+  test("double speed halves the length and keeps the pitch", () => {
+    const stretcher = new TimeStretcher(
+      [createSine(300, sampleRate * 2)],
+      sampleRate,
+      2,
+      0,
+    );
+    const output = stretcher.process(sampleRate * 2)[0];
+    expect(output.length / sampleRate).toBeCloseTo(1, 1);
+    expect(getFrequency(output.subarray(sampleRate / 10))).toBeCloseTo(300, -1);
+  });
+
+  test("output is produced in chunks from the start index", () => {
+    const data = new Float32Array(sampleRate).fill(0.5);
+    data.fill(0, 0, sampleRate / 2);
+    const stretcher = new TimeStretcher(
+      [data, data],
+      sampleRate,
+      0.5,
+      sampleRate / 2,
+    );
+    const first = stretcher.process(100);
+    expect(first.length).toBe(2);
+    expect(first[0].length).toBe(stretcher.hopSize);
+    const second = stretcher.process(stretcher.hopSize * 3);
+    expect(second[1].length).toBe(stretcher.hopSize * 3);
+    // the windows sum to 1 after the first frame
+    expect(second[1][10]).toBeCloseTo(0.5, 5);
+  });
+
+  test("loop repeats the range forever", () => {
+    const data = new Float32Array(sampleRate);
+    data.fill(0.5, 2000, 4000);
+    const stretcher = new TimeStretcher([data], sampleRate, 0.5, 2000);
+    stretcher.setLoop(2000, 4000);
+    const output = stretcher.process(sampleRate * 4)[0];
+    expect(stretcher.ended).toBe(false);
+    expect(output.length).toBeGreaterThanOrEqual(sampleRate * 4);
+    // samples out of the loop are never read
+    expect(Math.min(...output.subarray(stretcher.hopSize))).toBeCloseTo(0.5, 5);
+  });
+});
@@ -0,0 +1,163 @@
+/*
+Time-stretch by WSOLA (waveform similarity overlap-add).
+Hann windowed frames are overlap-added with a fixed output hop, while the input advances by hop * rate.
+Each frame is shifted within a tolerance to the position most similar to the natural continuation
+of the previous frame, so the periods of voiced speech line up and the pitch is kept.
+The output is produced in chunks, so playback can start without stretching the whole audio.
+*/
+export default class TimeStretcher {
+  public static readonly FRAME_DURATION = 0.03;
+  // the similarity is computed on every few samples, which is enough to align periods of speech
+  public static readonly CORRELATION_STRIDE = 4;
+
+  private _channels: Float32Array[];
+  private _rate: number;
+  private _length: number;
+  private _frameSize: number;
+  private _hopSize: number;
+  private _tolerance: number;
+  private _window: Float32Array;
+
+  // nominal input position of the next frame
+  private _inputPos: number;
+  // input position of the previous frame, undefined before the first frame
+  private _prevFrameStart: number | undefined;
+  // second half of the previous windowed frame, added to the next output hop
+  private _tail: Float32Array[];
+  private _loopStart = 0;
+  private _loopEnd = 0;
+
+  // rate is the speed, 0.5 plays at half speed
+  constructor(
+    channels: Float32Array[],
+    sampleRate: number,
+    rate: number,
+    startIndex: number,
+  ) {
+    this._channels = channels;
+    this._rate = rate;
+    this._length = channels[0]?.length ?? 0;
+    this._hopSize = Math.round((sampleRate * TimeStretcher.FRAME_DURATION) / 2);
+    this._frameSize = this._hopSize * 2;
+    this._tolerance = Math.round(this._hopSize / 2);
+
+    // periodic hann window, whose halves sum to 1 with 50% overlap
+    this._window = new Float32Array(this._frameSize);
+    for (let i = 0; i < this._frameSize; i++) {
+      this._window[i] =
+        0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this._frameSize);
+    }
+
+    this._inputPos = startIndex;
+    this._tail = channels.map(() => new Float32Array(this._hopSize));
+  }
+
+  public get hopSize() {
+    return this._hopSize;
+  }
+
+  // true when the input is consumed, never while looping
+  public get ended() {
+    return !this.isLooping && this._inputPos >= this._length;
+  }
+
+  private get isLooping() {
+    return this._loopStart < this._loopEnd;
+  }
+
+  // input after endIndex continues from startIndex, clear with equal indices
+  public setLoop(startIndex: number, endIndex: number) {
+    this._loopStart = startIndex;
+    this._loopEnd = endIndex;
+  }
+
+  // output of at least minLength samples per channel, rounded up to the hop size
+  public process(minLength: number): Float32Array[] {
+    const numHops = Math.max(Math.ceil(minLength / this._hopSize), 1);
+    const output = this._channels.map(
+      () => new Float32Array(numHops * this._hopSize),
+    );
+    for (let h = 0; h < numHops; h++) {
+      if (this.ended) {
+        return output.map((data) => data.subarray(0, h * this._hopSize));
+      }
+      this.processHop(output, h * this._hopSize);
+    }
+    return output;
+  }
+
+  private processHop(output: Float32Array[], offset: number) {
+    const nominal = Math.round(this._inputPos);
+    const frameStart =
+      this._prevFrameStart === undefined
+        ? nominal
+        : this.findFrameStart(nominal, this._prevFrameStart + this._hopSize);
+
+    for (let ch = 0; ch < this._channels.length; ch++) {
+      const out = output[ch];
+      const tail = this._tail[ch];
+      for (let i = 0; i < this._hopSize; i++) {
+        out[offset + i] =
+          tail[i] + this._window[i] * this.getSample(ch, frameStart + i);
+        tail[i] =
+          this._window[this._hopSize + i] *
+          this.getSample(ch, frameStart + this._hopSize + i);
+      }
+    }
+
+    this._prevFrameStart = frameStart;
+    this._inputPos += this._hopSize * this._rate;
+    // keep the positions in the loop, the samples are read modulo the loop anyway
+    if (this.isLooping && this._inputPos >= this._loopEnd) {
+      const loopLength = this._loopEnd - this._loopStart;
+      this._inputPos -= loopLength;
+      this._prevFrameStart -= loopLength;
+    }
+  }
+
+  // start within the tolerance which is most similar to the natural continuation
+  private findFrameStart(nominal: number, natural: number): number {
+    let bestStart = nominal;
+    let bestScore = -Infinity;
+    for (
+      let start = nominal - this._tolerance;
+      start <= nominal + this._tolerance;
+      start++
+    ) {
+      let score = 0;
+      for (
+        let i = 0;
+        i < this._hopSize;
+        i += TimeStretcher.CORRELATION_STRIDE
+      ) {
+        score +=
+          this.getMonoSample(start + i) * this.getMonoSample(natural + i);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestStart = start;
+      }
+    }
+    return bestStart;
+  }
+
+  private getMonoSample(index: number): number {
+    let sum = 0;
+    for (let ch = 0; ch < this._channels.length; ch++) {
+      sum += this.getSample(ch, index);
+    }
+    return sum;
+  }
+
+  // 0 out of the audio
+  private getSample(ch: number, index: number): number {
+    if (this.isLooping && index >= this._loopEnd) {
+      const loopLength = this._loopEnd - this._loopStart;
+      index = this._loopStart + ((index - this._loopStart) % loopLength);
+    }
+    if (index < 0 || this._length <= index) {
+      return 0;
+    }
+    return this._channels[ch][index];
+  }
+}
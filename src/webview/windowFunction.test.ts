@@ -0,0 +1,70 @@
+import { createWindow, WindowFunction, WindowOptions } from "./windowFunction";
+
+function getOptions(windowFunction: WindowFunction): WindowOptions {
+  return { windowFunction, kaiserBeta: 8.6, gaussianSigma: 0.4 };
+}
+
+describe("createWindow", () => {
+  const size = 64;
+
+  test("every window is periodic, symmetric around the center", () => {
+    for (let w = WindowFunction.Hann; w <= WindowFunction.FlatTop; w++) {
+      const window = createWindow(size, getOptions(w));
+      expect(window.length).toBe(size);
+      for (let i = 1; i < size / 2; i++) {
+        expect(window[i]).toBeCloseTo(window[size - i], 5);
+      }
+      // the peak is at the center
+      expect(Math.max(...window)).toBeCloseTo(window[size / 2], 5);
+    }
+  });
+
+  test("rectangular window is all ones", () => {
+    const window = createWindow(size, getOptions(WindowFunction.Rectangular));
+    expect(window.every((v) => v === 1)).toBe(true);
+  });
+
+  test("hann window is 0 at the start and 1 at the center", () => {
+    const window = createWindow(size, getOptions(WindowFunction.Hann));
+    expect(window[0]).toBeCloseTo(0);
+    expect(window[size / 2]).toBeCloseTo(1);
+    expect(window[size / 4]).toBeCloseTo(0.5);
+  });
+
+  test("hamming and blackman windows have their known end values", () => {
+    expect(
+      createWindow(size, getOptions(WindowFunction.Hamming))[0],
+    ).toBeCloseTo(0.08);
+    expect(
+      createWindow(size, getOptions(WindowFunction.Blackman))[0],
+    ).toBeCloseTo(0);
+  });
+
+  test("kaiser window with beta 0 is rectangular, larger beta narrows it", () => {
+    const rectangular = createWindow(size, {
+      ...getOptions(WindowFunction.Kaiser),
+      kaiserBeta: 0,
+    });
+    expect(rectangular.every((v) => Math.abs(v - 1) < 1e-6)).toBe(true);
+
+    const narrow = createWindow(size, getOptions(WindowFunction.Kaiser));
+    expect(narrow[size / 2]).toBeCloseTo(1);
+    expect(narrow[size / 4]).toBeLessThan(0.6);
+  });
+
+  test("gaussian window follows sigma", () => {
+    const window = createWindow(size, {
+      ...getOptions(WindowFunction.Gaussian),
+      gaussianSigma: 0.5,
+    });
+    expect(window[size / 2]).toBeCloseTo(1);
+    // one sigma from the center
+    expect(window[size / 4]).toBeCloseTo(Math.exp(-0.5));
+  });
+
+  test("flat-top window is about 1 at the center and negative near the ends", () => {
+    const window = createWindow(size, getOptions(WindowFunction.FlatTop));
+    expect(window[size / 2]).toBeCloseTo(1, 3);
+    expect(Math.min(...window)).toBeLessThan(0);
+  });
+});
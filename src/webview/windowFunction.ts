@@ -0,0 +1,91 @@
+// window applied to each frame of the spectral analyses
+export enum WindowFunction {
+  Hann = 0,
+  Hamming = 1,
+  Blackman = 2,
+  Rectangular = 3,
+  Kaiser = 4,
+  Gaussian = 5,
+  FlatTop = 6,
+}
+
+export interface WindowOptions {
+  windowFunction: WindowFunction;
+  // larger beta trades a wider main lobe for lower side lobes
+  kaiserBeta: number;
+  // standard deviation relative to half of the window
+  gaussianSigma: number;
+}
+
+// coefficients of the flat-top window of matplotlib and scipy
+const flatTopCoefficients = [
+  0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368,
+];
+
+// modified bessel function of the first kind of order 0, by its power series
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) {
+      break;
+    }
+  }
+  return sum;
+}
+
+function cosineSum(coefficients: number[], x: number): number {
+  let value = 0;
+  coefficients.forEach((a, k) => {
+    value += (k % 2 === 0 ? a : -a) * Math.cos(2 * Math.PI * k * x);
+  });
+  return value;
+}
+
+/*
+Periodic windows (the sample after the last one would equal the first),
+which are the ones used for the DFT, as the windows of successive frames overlap.
+*/
+export function createWindow(
+  size: number,
+  options: WindowOptions,
+): Float32Array {
+  const window = new Float32Array(size);
+  const kaiserNorm = besselI0(options.kaiserBeta);
+  for (let i = 0; i < size; i++) {
+    // 0 ~ 1 over the window
+    const x = i / size;
+    switch (options.windowFunction) {
+      case WindowFunction.Hamming:
+        window[i] = cosineSum([0.54, 0.46], x);
+        break;
+      case WindowFunction.Blackman:
+        window[i] = cosineSum([0.42, 0.5, 0.08], x);
+        break;
+      case WindowFunction.Rectangular:
+        window[i] = 1;
+        break;
+      case WindowFunction.Kaiser: {
+        const r = 2 * x - 1;
+        window[i] =
+          besselI0(options.kaiserBeta * Math.sqrt(1 - r * r)) / kaiserNorm;
+        break;
+      }
+      case WindowFunction.Gaussian: {
+        const r = (2 * x - 1) / options.gaussianSigma;
+        window[i] = Math.exp(-0.5 * r * r);
+        break;
+      }
+      case WindowFunction.FlatTop:
+        window[i] = cosineSum(flatTopCoefficients, x);
+        break;
+      default:
+        window[i] = cosineSum([0.5, 0.5], x);
+        break;
+    }
+  }
+  return window;
+}
@@ -42,6 +42,7 @@ const webviewConfig = {
   entry: {
     audioPreview: "./src/webview/index.ts",
     activeLearning: "./src/webview/activeLearning.ts",
+    spectrogramWorker: "./src/webview/spectrogramWorker.ts",
   },
   output: {
     path: path.resolve(__dirname, "dist"),